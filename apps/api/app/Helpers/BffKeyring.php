@@ -0,0 +1,120 @@
+<?php
+
+namespace App\Helpers;
+
+use InvalidArgumentException;
+
+/**
+ * HMAC keyring for BFF secret rotation
+ *
+ * services.bff.keys (BFF_HMAC_KEYS) holds comma-separated `kid:secret[:status]`
+ * entries, with the same format as the Next.js BFF:
+ * - active: used by the BFF to sign (exactly one entry)
+ * - no status: still accepted (rotation in progress)
+ * - retired: rejected
+ *
+ * Without keys, services.bff.secret is used as the single key `default`.
+ */
+class BffKeyring
+{
+    /**
+     * Key ID used for the legacy single-secret configuration
+     */
+    public const DEFAULT_KEY_ID = 'default';
+
+    /**
+     * Allowed key ID format
+     */
+    private const KEY_ID_PATTERN = '/^[A-Za-z0-9._-]{1,64}$/';
+
+    /**
+     * Returns all configured keys
+     *
+     * @return array<string, array{secret: string, status: string}> Keys indexed by kid
+     * @throws InvalidArgumentException if the keyring is malformed
+     */
+    public static function keys(): array
+    {
+        $raw = config('services.bff.keys');
+
+        if (empty($raw)) {
+            $secret = config('services.bff.secret');
+
+            return empty($secret)
+                ? []
+                : [self::DEFAULT_KEY_ID => ['secret' => $secret, 'status' => 'active']];
+        }
+
+        return self::parse($raw);
+    }
+
+    /**
+     * Returns the active key ID, or null if no key is configured
+     */
+    public static function activeKeyId(): ?string
+    {
+        foreach (self::keys() as $kid => $key) {
+            if ($key['status'] === 'active') {
+                return $kid;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Returns the secret to verify a signature with, or null if the key
+     * is unknown or retired
+     */
+    public static function verificationSecret(string $kid): ?string
+    {
+        $key = self::keys()[$kid] ?? null;
+
+        if ($key === null || $key['status'] === 'retired') {
+            return null;
+        }
+
+        return $key['secret'];
+    }
+
+    /**
+     * Parses a BFF_HMAC_KEYS value
+     *
+     * Error messages never echo entry contents, which may hold a secret.
+     *
+     * @return array<string, array{secret: string, status: string}>
+     * @throws InvalidArgumentException
+     */
+    public static function parse(string $raw): array
+    {
+        $keys = [];
+        $entries = array_values(array_filter(array_map('trim', explode(',', $raw))));
+
+        foreach ($entries as $index => $entry) {
+            $parts = explode(':', $entry);
+            [$kid, $secret, $status] = array_pad($parts, 3, null);
+            $status ??= 'verify';
+
+            if (count($parts) > 3 || empty($kid) || !preg_match(self::KEY_ID_PATTERN, $kid) || empty($secret)) {
+                throw new InvalidArgumentException('Invalid BFF_HMAC_KEYS entry #' . ($index + 1));
+            }
+
+            if (!in_array($status, ['active', 'verify', 'retired'], true)) {
+                throw new InvalidArgumentException("Invalid status for HMAC key \"{$kid}\"");
+            }
+
+            if (isset($keys[$kid])) {
+                throw new InvalidArgumentException('BFF_HMAC_KEYS contains duplicate key IDs');
+            }
+
+            $keys[$kid] = ['secret' => $secret, 'status' => $status];
+        }
+
+        $activeCount = count(array_filter($keys, fn (array $key) => $key['status'] === 'active'));
+        if ($activeCount !== 1) {
+            throw new InvalidArgumentException('BFF_HMAC_KEYS must mark exactly one key as active');
+        }
+
+        return $keys;
+    }
+}
@@ -3,7 +3,9 @@
 namespace App\Helpers;
 
 use Illuminate\Http\Request;
+use Illuminate\Support\Facades\Cache;
 use Illuminate\Support\Facades\Log;
+use InvalidArgumentException;
 
 /**
  * HMAC validation helper for BFF requests
@@ -17,6 +19,31 @@ class HmacValidator
      */
     private const TIMESTAMP_TOLERANCE = 300;
 
+    /**
+     * Cache key prefix for used nonces
+     */
+    private const NONCE_CACHE_PREFIX = 'bff_nonce:';
+
+    /**
+     * Allowed nonce format (UUIDs and similar random tokens)
+     */
+    private const NONCE_PATTERN = '/^[A-Za-z0-9_-]{16,128}$/';
+
+    /**
+     * Supported signature versions
+     */
+    private const SUPPORTED_VERSIONS = ['1', '2', '3'];
+
+    /**
+     * Headers covered by each canonical signature version (lowercase, sorted)
+     *
+     * v3 adds the end client forwarded by the BFF (see BffHmacMiddleware::clientIp).
+     */
+    private const SIGNED_HEADERS = [
+        '2' => ['accept', 'authorization', 'content-type'],
+        '3' => ['accept', 'authorization', 'content-type', 'x-bff-client-ip', 'x-bff-client-user-agent'],
+    ];
+
     /**
      * Validates an HMAC request
      *
@@ -37,17 +64,29 @@ public static function validate(Request $request): array
             return $bffValidation;
         }
 
-        // 3. Validate timestamp
+        // 3. Validate signature version
+        $versionValidation = self::validateVersion($request);
+        if (!$versionValidation['valid']) {
+            return $versionValidation;
+        }
+
+        // 4. Validate timestamp
         $timestampValidation = self::validateTimestamp($request);
         if (!$timestampValidation['valid']) {
             return $timestampValidation;
         }
 
-        // 4. Generate expected payload
+        // 5. Generate expected payload
         $payload = self::generatePayload($request);
 
-        // 5. Validate signature
-        return self::validateSignature($request, $payload);
+        // 6. Validate signature
+        $signatureValidation = self::validateSignature($request, $payload);
+        if (!$signatureValidation['valid']) {
+            return $signatureValidation;
+        }
+
+        // 7. Validate nonce (anti-replay), only once the signature is trusted
+        return self::validateNonce($request);
     }
 
     /**
@@ -55,7 +94,7 @@ public static function validate(Request $request): array
      */
     private static function validateHeaders(Request $request): array
     {
-        $requiredHeaders = ['X-BFF-Id', 'X-BFF-Timestamp', 'X-BFF-Signature'];
+        $requiredHeaders = ['X-BFF-Id', 'X-BFF-Timestamp', 'X-BFF-Nonce', 'X-BFF-Signature'];
         $missingHeaders = [];
 
         foreach ($requiredHeaders as $header) {
@@ -98,6 +137,50 @@ private static function validateBffId(Request $request): array
         return ['valid' => true];
     }
 
+    /**
+     * Validates signature version
+     *
+     * Requests without X-BFF-Signature-Version are legacy v1 requests,
+     * accepted only while services.bff.allow_v1 is enabled.
+     */
+    private static function validateVersion(Request $request): array
+    {
+        $version = self::signatureVersion($request);
+
+        if (!in_array($version, self::SUPPORTED_VERSIONS, true)
+            || ($version === '1' && !config('services.bff.allow_v1', true))) {
+            Log::warning('BFF signature version rejected', [
+                'version' => $version,
+                'ip' => $request->ip(),
+            ]);
+
+            return [
+                'valid' => false,
+                'error' => 'Unsupported signature version',
+            ];
+        }
+
+        return ['valid' => true];
+    }
+
+    /**
+     * Returns the signature version of a request
+     */
+    private static function signatureVersion(Request $request): string
+    {
+        return (string) $request->header('X-BFF-Signature-Version', '1');
+    }
+
+    /**
+     * Headers covered by the signature of a request (none for v1)
+     *
+     * @return list<string>
+     */
+    public static function signedHeaders(Request $request): array
+    {
+        return self::SIGNED_HEADERS[self::signatureVersion($request)] ?? [];
+    }
+
     /**
      * Validates timestamp (anti-replay)
      */
@@ -127,29 +210,101 @@ private static function validateTimestamp(Request $request): array
     /**
      * Generates payload for signature
      *
-     * Format: TIMESTAMP:METHOD:PATH:BODY_HASH
+     * v1 format: TIMESTAMP:NONCE:METHOD:PATH:BODY_HASH
+     *   (NONCE was added with replay protection: signatures computed over the
+     *   former TIMESTAMP:METHOD:PATH:BODY_HASH are rejected)
+     * v2 and v3 formats (one element per line, headers per SIGNED_HEADERS):
+     *   vN, TIMESTAMP, NONCE, METHOD, PATH, CANONICAL_QUERY, CANONICAL_HEADERS, BODY_HASH
      */
     private static function generatePayload(Request $request): string
     {
         $timestamp = $request->header('X-BFF-Timestamp');
+        $nonce = $request->header('X-BFF-Nonce');
         $method = $request->method();
         $path = $request->path();
         $bodyHash = self::hashBody($request);
+        $version = self::signatureVersion($request);
+
+        if ($version === '1') {
+            return "{$timestamp}:{$nonce}:{$method}:{$path}:{$bodyHash}";
+        }
+
+        return implode("\n", [
+            "v{$version}",
+            $timestamp,
+            $nonce,
+            $method,
+            $path,
+            self::canonicalQuery($request),
+            self::canonicalHeaders($request),
+            $bodyHash,
+        ]);
+    }
+
+    /**
+     * Builds canonical query string
+     *
+     * Parsed from the raw query string (parse_str would rename keys),
+     * percent-encoded per RFC 3986, then sorted by key and value.
+     */
+    private static function canonicalQuery(Request $request): string
+    {
+        $queryString = (string) $request->server('QUERY_STRING', '');
+
+        if ($queryString === '') {
+            return '';
+        }
+
+        $pairs = [];
+        foreach (explode('&', $queryString) as $pair) {
+            if ($pair === '') {
+                continue;
+            }
+
+            [$key, $value] = array_pad(explode('=', $pair, 2), 2, '');
+            $pairs[] = [rawurlencode(urldecode($key)), rawurlencode(urldecode($value))];
+        }
 
-        return "{$timestamp}:{$method}:{$path}:{$bodyHash}";
+        usort($pairs, fn (array $a, array $b) => strcmp($a[0], $b[0]) ?: strcmp($a[1], $b[1]));
+
+        return implode('&', array_map(fn (array $pair) => "{$pair[0]}={$pair[1]}", $pairs));
+    }
+
+    /**
+     * Builds canonical headers block (one name:value line per signed header)
+     */
+    private static function canonicalHeaders(Request $request): string
+    {
+        return implode("\n", array_map(function (string $name) use ($request) {
+            $value = preg_replace('/\s+/', ' ', trim((string) $request->header($name, '')));
+
+            return "{$name}:{$value}";
+        }, self::signedHeaders($request)));
     }
 
     /**
      * Calculates body hash
+     *
+     * - multipart/form-data: canonical digest of the parts (PHP never exposes the raw body)
+     * - binary/text content types: SHA256 of the raw bytes
+     * - JSON (and untyped/form bodies): SHA256 of the JSON with sorted keys
      */
     private static function hashBody(Request $request): string
     {
+        if (str_contains((string) $request->header('Content-Type'), 'multipart/form-data')) {
+            return self::hashMultipart($request);
+        }
+
         $body = $request->getContent();
 
         if (empty($body)) {
             return '';
         }
 
+        if (self::isRawBody($request)) {
+            return hash('sha256', $body);
+        }
+
         // Normalize JSON: sort keys alphabetically
         $data = json_decode($body, true);
         if (is_array($data)) {
@@ -160,6 +315,67 @@ private static function hashBody(Request $request): string
         return hash('sha256', $body);
     }
 
+    /**
+     * Whether the body is signed over its raw bytes (not JSON, not form-encoded)
+     */
+    private static function isRawBody(Request $request): bool
+    {
+        $contentType = strtolower((string) $request->header('Content-Type'));
+
+        return $contentType !== ''
+            && !str_contains($contentType, 'json')
+            && !str_contains($contentType, 'application/x-www-form-urlencoded');
+    }
+
+    /**
+     * Calculates canonical digest of a multipart body
+     *
+     * One line per part: TYPE:sha256(NAME):sha256(FILENAME):sha256(CONTENT),
+     * lines sorted and joined with "\n" (same as the BFF body-hash.ts).
+     */
+    private static function hashMultipart(Request $request): string
+    {
+        $lines = [];
+
+        foreach (self::flattenParts($request->request->all()) as $name => $value) {
+            // ConvertEmptyStringsToNull turns empty fields into null
+            $lines[] = implode(':', ['field', hash('sha256', $name), hash('sha256', ''), hash('sha256', (string) $value)]);
+        }
+
+        foreach (self::flattenParts($request->allFiles()) as $name => $file) {
+            $lines[] = implode(':', [
+                'file',
+                hash('sha256', $name),
+                hash('sha256', $file->getClientOriginalName()),
+                hash_file('sha256', $file->getRealPath()),
+            ]);
+        }
+
+        sort($lines, SORT_STRING);
+
+        return hash('sha256', implode("\n", $lines));
+    }
+
+    /**
+     * Flattens nested form arrays into bracket names (tags[0], user[name]...)
+     */
+    private static function flattenParts(array $parts, string $prefix = ''): array
+    {
+        $flat = [];
+
+        foreach ($parts as $key => $value) {
+            $name = $prefix === '' ? (string) $key : "{$prefix}[{$key}]";
+
+            if (is_array($value)) {
+                $flat += self::flattenParts($value, $name);
+            } else {
+                $flat[$name] = $value;
+            }
+        }
+
+        return $flat;
+    }
+
     /**
      * Recursively sorts array keys alphabetically
      */
@@ -182,9 +398,15 @@ private static function sortArrayKeys(array $array): array
     private static function validateSignature(Request $request, string $payload): array
     {
         $providedSignature = $request->header('X-BFF-Signature');
-        $secret = config('services.bff.secret');
 
-        if (empty($secret)) {
+        try {
+            $activeKeyId = BffKeyring::activeKeyId();
+        } catch (InvalidArgumentException $e) {
+            Log::error('BFF keyring misconfigured', ['error' => $e->getMessage()]);
+            $activeKeyId = null;
+        }
+
+        if ($activeKeyId === null) {
             Log::error('BFF secret not configured');
 
             return [
@@ -193,11 +415,28 @@ private static function validateSignature(Request $request, string $payload): ar
             ];
         }
 
+        // Requests without key ID are checked against the active key
+        $keyId = (string) $request->header('X-BFF-Key-Id', $activeKeyId);
+        $secret = BffKeyring::verificationSecret($keyId);
+
+        if ($secret === null) {
+            Log::warning('BFF key ID rejected', [
+                'kid' => $keyId,
+                'ip' => $request->ip(),
+            ]);
+
+            return [
+                'valid' => false,
+                'error' => 'Unknown or retired key ID',
+            ];
+        }
+
         $expectedSignature = hash_hmac('sha256', $payload, $secret);
 
         // Secure comparison to prevent timing attacks
         if (!hash_equals($expectedSignature, $providedSignature)) {
             Log::warning('BFF signature validation failed', [
+                'kid' => $keyId,
                 'payload' => $payload,
                 'expected' => $expectedSignature,
                 'received' => $providedSignature,
@@ -212,4 +451,40 @@ private static function validateSignature(Request $request, string $payload): ar
 
         return ['valid' => true];
     }
+
+    /**
+     * Validates nonce (anti-replay)
+     *
+     * Each nonce is remembered for twice the timestamp tolerance, which covers
+     * the whole window during which its timestamp would still be accepted.
+     */
+    private static function validateNonce(Request $request): array
+    {
+        $nonce = $request->header('X-BFF-Nonce');
+
+        if (!preg_match(self::NONCE_PATTERN, $nonce)) {
+            return [
+                'valid' => false,
+                'error' => 'Invalid nonce',
+            ];
+        }
+
+        $stored = Cache::store(config('services.bff.nonce_store'))
+            ->add(self::NONCE_CACHE_PREFIX . $nonce, true, self::TIMESTAMP_TOLERANCE * 2);
+
+        if (!$stored) {
+            Log::warning('BFF replay detected', [
+                'nonce' => $nonce,
+                'path' => $request->path(),
+                'ip' => $request->ip(),
+            ]);
+
+            return [
+                'valid' => false,
+                'error' => 'Replay detected',
+            ];
+        }
+
+        return ['valid' => true];
+    }
 }
@@ -0,0 +1,97 @@
+<?php
+
+namespace App\Helpers;
+
+/**
+ * Wildcard and hierarchical permission matching
+ *
+ * Permission slugs are dot-separated: RESOURCE[.SUB_RESOURCE...].ACTION
+ * (ex: posts.read, projects.tasks.update). A granted slug matches a
+ * required one when:
+ * - its action is `*`, `manage` or the required action, and
+ * - its resource segments are a prefix of the required resource segments,
+ *   where a `*` segment matches any single segment.
+ *
+ * Must stay identical to permissionMatches() in @rbac/types.
+ */
+class PermissionMatcher
+{
+    public const WILDCARD = '*';
+
+    /**
+     * Allowed segment format
+     */
+    private const SEGMENT_PATTERN = '/^(\*|[a-z0-9_-]+)$/i';
+
+    /**
+     * Checks whether a granted permission slug covers a required one
+     *
+     * Wildcards are only meaningful in the granted slug.
+     */
+    public static function matches(string $granted, string $required): bool
+    {
+        $grant = self::split($granted);
+        $need = self::split($required);
+
+        if ($grant === null || $need === null) {
+            return false;
+        }
+
+        $actionMatches = $grant['action'] === self::WILDCARD
+            || $grant['action'] === 'manage'
+            || $grant['action'] === $need['action'];
+
+        if (!$actionMatches || count($grant['resource']) > count($need['resource'])) {
+            return false;
+        }
+
+        foreach ($grant['resource'] as $index => $segment) {
+            if ($segment !== self::WILDCARD && $segment !== $need['resource'][$index]) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Checks whether any granted slug covers the required one
+     *
+     * @param iterable<string> $granted
+     */
+    public static function anyMatches(iterable $granted, string $required): bool
+    {
+        foreach ($granted as $slug) {
+            if (self::matches($slug, $required)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Splits a slug into resource segments and action
+     *
+     * @return array{resource: list<string>, action: string}|null null if malformed
+     */
+    private static function split(string $slug): ?array
+    {
+        $segments = explode('.', $slug);
+
+        if (count($segments) < 2) {
+            return null;
+        }
+
+        foreach ($segments as $segment) {
+            if (!preg_match(self::SEGMENT_PATTERN, $segment)) {
+                return null;
+            }
+        }
+
+        return [
+            'resource' => array_slice($segments, 0, -1),
+            'action' => end($segments),
+        ];
+    }
+}
@@ -0,0 +1,82 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Models\AccessRequest;
+use App\Models\Role;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Validation\ValidationException;
+
+class AccessRequestController extends Controller
+{
+    /**
+     * Demandes d'élévation de l'utilisateur connecté (les plus récentes d'abord)
+     */
+    public function index(Request $request): JsonResponse
+    {
+        return response()->json([
+            'data' => AccessRequest::with(['role:id,name,slug', 'reviewer:id,name'])
+                ->where('user_id', $request->user()->id)
+                ->latest()
+                ->get(),
+        ]);
+    }
+
+    /**
+     * Rôles pouvant être demandés (ceux que l'utilisateur n'a pas déjà)
+     */
+    public function roles(Request $request): JsonResponse
+    {
+        $active = $request->user()->activeRoles()->pluck('roles.id');
+
+        return response()->json([
+            'data' => Role::ordered()->whereNotIn('id', $active)->get(['id', 'name', 'slug', 'description']),
+        ]);
+    }
+
+    /**
+     * Demande un rôle pour quelques heures, avec une justification
+     *
+     * Une seule demande en attente par rôle ; un rôle déjà actif ne peut
+     * pas être demandé.
+     */
+    public function store(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'role' => 'required|string|exists:roles,slug',
+            'hours' => 'required|integer|min:1|max:' . AccessRequest::MAX_HOURS,
+            'justification' => 'required|string|min:10|max:1000',
+        ]);
+
+        $user = $request->user();
+        $role = Role::where('slug', $validated['role'])->firstOrFail();
+
+        if ($user->hasRole($role->slug)) {
+            throw ValidationException::withMessages([
+                'role' => 'You already have this role.',
+            ]);
+        }
+
+        $pending = AccessRequest::pending()
+            ->where('user_id', $user->id)
+            ->where('role_id', $role->id)
+            ->exists();
+
+        if ($pending) {
+            return response()->json([
+                'message' => 'A request for this role is already pending.',
+                'code' => 'REQUEST_PENDING',
+            ], 409);
+        }
+
+        $accessRequest = AccessRequest::create([
+            'user_id' => $user->id,
+            'role_id' => $role->id,
+            'hours' => $validated['hours'],
+            'justification' => $validated['justification'],
+        ]);
+
+        return response()->json(['data' => $accessRequest->load('role:id,name,slug')], 201);
+    }
+}
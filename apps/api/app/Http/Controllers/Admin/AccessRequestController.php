@@ -0,0 +1,139 @@
+<?php
+
+namespace App\Http\Controllers\Admin;
+
+use App\Http\Controllers\Controller;
+use App\Models\AccessRequest;
+use App\Models\AuditLog;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Validation\Rule;
+
+class AccessRequestController extends Controller
+{
+    /**
+     * Demandes d'élévation par statut (pending par défaut), les plus anciennes d'abord
+     */
+    public function index(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'status' => ['nullable', Rule::in([
+                AccessRequest::STATUS_PENDING,
+                AccessRequest::STATUS_APPROVED,
+                AccessRequest::STATUS_DENIED,
+            ])],
+        ]);
+
+        return response()->json([
+            'data' => AccessRequest::with(['user:id,name,email', 'role:id,name,slug', 'reviewer:id,name'])
+                ->where('status', $validated['status'] ?? AccessRequest::STATUS_PENDING)
+                ->oldest()
+                ->get(),
+        ]);
+    }
+
+    /**
+     * Accorde le rôle demandé pour la durée demandée
+     *
+     * Un admin ne valide jamais sa propre demande. Une attribution programmée
+     * du même rôle n'est jamais remplacée : la demande reste en attente et
+     * la fenêtre programmée est renvoyée (409 ROLE_SCHEDULED).
+     */
+    public function approve(Request $request, AccessRequest $accessRequest): JsonResponse
+    {
+        if ($error = $this->reviewError($request, $accessRequest)) {
+            return $error;
+        }
+
+        $validated = $request->validate(['note' => 'nullable|string|max:255']);
+
+        if ($scheduled = $accessRequest->scheduledAssignment()) {
+            return response()->json([
+                'message' => 'This role is already scheduled for the user. '
+                    . 'Deny the request or change the scheduled assignment first.',
+                'code' => 'ROLE_SCHEDULED',
+                'scheduled' => [
+                    'starts_at' => $scheduled->starts_at->format(DATE_ATOM),
+                    'expires_at' => $scheduled->expires_at?->format(DATE_ATOM),
+                ],
+            ], 409);
+        }
+
+        if (!$accessRequest->approve($request->user(), $validated['note'] ?? null)) {
+            return $this->notPending();
+        }
+
+        AuditLog::record(
+            AuditLog::ACCESS_REQUEST_APPROVED,
+            $accessRequest->user,
+            new: [
+                'role' => $accessRequest->role->slug,
+                'expires_at' => $accessRequest->expires_at?->format(DATE_ATOM),
+            ],
+            context: ['access_request_id' => $accessRequest->id, 'note' => $validated['note'] ?? null],
+        );
+
+        return response()->json([
+            'message' => 'Access request approved',
+            'data' => $accessRequest->load(['user:id,name,email', 'role:id,name,slug', 'reviewer:id,name']),
+        ]);
+    }
+
+    public function deny(Request $request, AccessRequest $accessRequest): JsonResponse
+    {
+        if ($error = $this->reviewError($request, $accessRequest)) {
+            return $error;
+        }
+
+        $validated = $request->validate(['note' => 'nullable|string|max:255']);
+
+        if (!$accessRequest->deny($request->user(), $validated['note'] ?? null)) {
+            return $this->notPending();
+        }
+
+        AuditLog::record(
+            AuditLog::ACCESS_REQUEST_DENIED,
+            $accessRequest->user,
+            context: [
+                'access_request_id' => $accessRequest->id,
+                'role' => $accessRequest->role->slug,
+                'note' => $validated['note'] ?? null,
+            ],
+        );
+
+        return response()->json([
+            'message' => 'Access request denied',
+            'data' => $accessRequest->load(['user:id,name,email', 'role:id,name,slug', 'reviewer:id,name']),
+        ]);
+    }
+
+    /**
+     * Refus métier : demande déjà traitée ou demande du relecteur lui-même
+     */
+    private function reviewError(Request $request, AccessRequest $accessRequest): ?JsonResponse
+    {
+        if (!$accessRequest->isPending()) {
+            return $this->notPending();
+        }
+
+        if ($request->user()->is($accessRequest->user)) {
+            return response()->json([
+                'message' => 'You cannot review your own access request.',
+                'code' => 'SELF_REVIEW',
+            ], 403);
+        }
+
+        return null;
+    }
+
+    /**
+     * Demande déjà traitée (vérifié à nouveau sous verrou par le modèle)
+     */
+    private function notPending(): JsonResponse
+    {
+        return response()->json([
+            'message' => 'This request has already been reviewed.',
+            'code' => 'REQUEST_NOT_PENDING',
+        ], 409);
+    }
+}
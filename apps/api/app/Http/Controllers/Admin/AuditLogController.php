@@ -0,0 +1,196 @@
+<?php
+
+namespace App\Http\Controllers\Admin;
+
+use App\Http\Controllers\Controller;
+use App\Models\AuditLog;
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Carbon;
+use Illuminate\Validation\Rule;
+use Symfony\Component\HttpFoundation\StreamedResponse;
+
+class AuditLogController extends Controller
+{
+    public const DEFAULT_PER_PAGE = 25;
+
+    public const MAX_PER_PAGE = 100;
+
+    /**
+     * Colonnes de l'export CSV (dans l'ordre)
+     */
+    public const CSV_COLUMNS = [
+        'id',
+        'created_at',
+        'action',
+        'actor_id',
+        'actor_email',
+        'target_type',
+        'target_id',
+        'target_label',
+        'old_values',
+        'new_values',
+        'context',
+        'ip_address',
+        'user_agent',
+        'request_id',
+    ];
+
+    /**
+     * Journal d'audit paginé, les entrées les plus récentes d'abord
+     *
+     * Filtres : action, actor (id), target_type, target_id, search
+     * (cible ou email de l'acteur), from / to (dates). Réponse au format
+     * PaginatedResponse (data, meta, links).
+     */
+    public function index(Request $request): JsonResponse
+    {
+        $validated = $request->validate($this->rules() + [
+            'page' => 'nullable|integer|min:1',
+            'per_page' => 'nullable|integer|min:1|max:' . self::MAX_PER_PAGE,
+        ]);
+
+        $logs = $this->filtered($validated)
+            ->with('actor:id,name,email')
+            ->orderByDesc('id')
+            ->paginate($validated['per_page'] ?? self::DEFAULT_PER_PAGE)
+            ->withQueryString();
+
+        return response()->json([
+            'data' => $logs->items(),
+            'meta' => [
+                'current_page' => $logs->currentPage(),
+                'last_page' => $logs->lastPage(),
+                'per_page' => $logs->perPage(),
+                'total' => $logs->total(),
+            ],
+            'links' => [
+                'first' => $logs->url(1),
+                'last' => $logs->url($logs->lastPage()),
+                'prev' => $logs->previousPageUrl(),
+                'next' => $logs->nextPageUrl(),
+            ],
+        ]);
+    }
+
+    /**
+     * Export CSV ou JSON des entrées filtrées (mêmes filtres que index)
+     *
+     * Les entrées sont lues par lots et écrites au fil de l'eau : l'export
+     * ne charge jamais tout le journal en mémoire.
+     */
+    public function export(Request $request): StreamedResponse
+    {
+        $validated = $request->validate($this->rules() + [
+            'format' => 'nullable|in:csv,json',
+        ]);
+
+        $format = $validated['format'] ?? 'csv';
+        $logs = $this->filtered($validated)->with('actor:id,email')->lazyByIdDesc(500);
+        $filename = 'audit-log-' . now()->format('Y-m-d-His') . '.' . $format;
+
+        if ($format === 'json') {
+            return response()->streamDownload(function () use ($logs) {
+                $separator = '';
+                echo '[';
+                foreach ($logs as $log) {
+                    echo $separator . json_encode($log, JSON_UNESCAPED_SLASHES | JSON_UNESCAPED_UNICODE);
+                    $separator = ',';
+                }
+                echo ']';
+            }, $filename, ['Content-Type' => 'application/json']);
+        }
+
+        return response()->streamDownload(function () use ($logs) {
+            $output = fopen('php://output', 'w');
+            fputcsv($output, self::CSV_COLUMNS);
+
+            foreach ($logs as $log) {
+                fputcsv($output, array_map($this->csvCell(...), $this->csvRow($log)));
+            }
+
+            fclose($output);
+        }, $filename, ['Content-Type' => 'text/csv; charset=UTF-8']);
+    }
+
+    /**
+     * Filtres communs à la liste et à l'export
+     */
+    private function rules(): array
+    {
+        return [
+            'action' => ['nullable', Rule::in(AuditLog::ACTIONS)],
+            'actor' => 'nullable|integer',
+            'target_type' => 'nullable|string|max:255',
+            'target_id' => 'nullable|integer',
+            'search' => 'nullable|string|max:255',
+            'from' => 'nullable|date',
+            'to' => 'nullable|date',
+        ];
+    }
+
+    private function filtered(array $filters): Builder
+    {
+        return AuditLog::query()
+            ->when($filters['action'] ?? null, fn (Builder $q, string $action) => $q->where('action', $action))
+            ->when($filters['actor'] ?? null, fn (Builder $q, $actor) => $q->where('actor_id', $actor))
+            ->when($filters['target_type'] ?? null, fn (Builder $q, string $type) => $q->where('target_type', $type))
+            ->when($filters['target_id'] ?? null, fn (Builder $q, $id) => $q->where('target_id', $id))
+            ->when($filters['search'] ?? null, function (Builder $query, string $search) {
+                $term = '%' . $search . '%';
+                $query->where(fn (Builder $q) => $q
+                    ->where('target_label', 'like', $term)
+                    ->orWhereHas('actor', fn (Builder $actor) => $actor->where('email', 'like', $term)));
+            })
+            // Dates sans heure : la journée entière est incluse
+            ->when($filters['from'] ?? null, fn (Builder $q, string $from) => $q->where('created_at', '>=', $this->date($from, false)))
+            ->when($filters['to'] ?? null, fn (Builder $q, string $to) => $q->where('created_at', '<=', $this->date($to, true)));
+    }
+
+    private function date(string $value, bool $endOfDay): Carbon
+    {
+        $date = Carbon::parse($value);
+
+        if (preg_match('/^\d{4}-\d{2}-\d{2}$/', $value)) {
+            return $endOfDay ? $date->endOfDay() : $date->startOfDay();
+        }
+
+        return $date;
+    }
+
+    /**
+     * Neutralise les cellules interprétées comme formules par les tableurs
+     * (labels et user agents viennent des utilisateurs)
+     */
+    private function csvCell(mixed $value): mixed
+    {
+        if (is_string($value) && preg_match('/^[=+\-@\t\r]/', $value)) {
+            return "'" . $value;
+        }
+
+        return $value;
+    }
+
+    private function csvRow(AuditLog $log): array
+    {
+        $json = fn (?array $value) => $value === null ? '' : json_encode($value, JSON_UNESCAPED_SLASHES | JSON_UNESCAPED_UNICODE);
+
+        return [
+            $log->id,
+            $log->created_at?->toIso8601String(),
+            $log->action,
+            $log->actor_id,
+            $log->actor?->email,
+            $log->target_type,
+            $log->target_id,
+            $log->target_label,
+            $json($log->old_values),
+            $json($log->new_values),
+            $json($log->context),
+            $log->ip_address,
+            $log->user_agent,
+            $log->request_id,
+        ];
+    }
+}
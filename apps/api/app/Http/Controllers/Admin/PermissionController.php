@@ -0,0 +1,109 @@
+<?php
+
+namespace App\Http\Controllers\Admin;
+
+use App\Http\Controllers\Controller;
+use App\Models\Permission;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Validation\Rule;
+
+class PermissionController extends Controller
+{
+    /**
+     * Ressource : segments séparés par des points (ex: posts, projects.tasks)
+     */
+    public const RESOURCE_PATTERN = '/^(\*|[a-z0-9_-]+)(\.(\*|[a-z0-9_-]+))*$/i';
+
+    /**
+     * Liste des permissions (par ressource puis action) avec le nombre de rôles
+     */
+    public function index(): JsonResponse
+    {
+        return response()->json([
+            'data' => Permission::withCount('roles')->orderBy('resource')->orderBy('action')->get(),
+        ]);
+    }
+
+    /**
+     * Crée une permission RESOURCE.ACTION
+     */
+    public function store(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'resource' => ['required', 'string', 'max:200', 'regex:' . self::RESOURCE_PATTERN],
+            'action' => [
+                'required',
+                Rule::in(Permission::ACTIONS),
+                Rule::unique('permissions')->where('resource', $request->input('resource')),
+            ],
+            'name' => 'nullable|string|max:255',
+            'description' => 'nullable|string|max:255',
+        ]);
+
+        $permission = Permission::create([
+            'resource' => $validated['resource'],
+            'action' => $validated['action'],
+            'slug' => "{$validated['resource']}.{$validated['action']}",
+            'name' => $validated['name'] ?? ucfirst($validated['action']) . ' ' . ucfirst($validated['resource']),
+            'description' => $validated['description'] ?? null,
+        ]);
+
+        return response()->json(['data' => $permission], 201);
+    }
+
+    /**
+     * Génère les permissions CRUD (ou les actions données) d'une ressource
+     *
+     * Les permissions existantes sont conservées.
+     */
+    public function generate(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'resource' => ['required', 'string', 'max:200', 'regex:' . self::RESOURCE_PATTERN],
+            'actions' => 'nullable|array|min:1',
+            'actions.*' => ['distinct', Rule::in(Permission::ACTIONS)],
+        ]);
+
+        $permissions = Permission::createForResource(
+            $validated['resource'],
+            $validated['actions'] ?? Permission::CRUD_ACTIONS
+        );
+
+        return response()->json([
+            'message' => 'Permissions generated',
+            'data' => $permissions->values(),
+        ], 201);
+    }
+
+    /**
+     * Renomme ou décrit une permission
+     *
+     * Le slug n'est pas modifiable : les rôles qui l'accordent changeraient de droits.
+     */
+    public function update(Request $request, Permission $permission): JsonResponse
+    {
+        $validated = $request->validate([
+            'name' => 'sometimes|required|string|max:255',
+            'description' => 'sometimes|nullable|string|max:255',
+        ]);
+
+        $permission->update($validated);
+
+        return response()->json(['message' => 'Permission updated', 'data' => $permission]);
+    }
+
+    /**
+     * Supprime une permission et la retire des rôles qui l'accordent
+     */
+    public function destroy(Permission $permission): JsonResponse
+    {
+        $rolesCount = $permission->roles()->count();
+        $permission->delete();
+
+        return response()->json([
+            'message' => 'Permission deleted',
+            'revoked_from_roles' => $rolesCount,
+        ]);
+    }
+}
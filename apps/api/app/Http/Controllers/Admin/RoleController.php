@@ -0,0 +1,269 @@
+<?php
+
+namespace App\Http\Controllers\Admin;
+
+use App\Http\Controllers\Controller;
+use App\Models\AuditLog;
+use App\Models\Role;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Collection;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Validation\Rule;
+use Illuminate\Validation\ValidationException;
+
+class RoleController extends Controller
+{
+    /**
+     * Liste des rôles (ordre d'affichage) avec permissions, parents,
+     * permissions héritées et nombre d'utilisateurs
+     */
+    public function index(): JsonResponse
+    {
+        return response()->json(['data' => $this->listing()]);
+    }
+
+    /**
+     * Crée un rôle (placé en fin de liste)
+     */
+    public function store(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'name' => 'required|string|max:255',
+            'slug' => 'required|string|max:255|alpha_dash|unique:roles',
+            'description' => 'nullable|string',
+        ]);
+
+        $role = Role::create($validated + ['position' => $this->nextPosition()]);
+
+        AuditLog::record(AuditLog::ROLE_CREATED, $role, new: $role->only(['name', 'slug', 'description']));
+
+        return response()->json(['data' => $role], 201);
+    }
+
+    /**
+     * Renomme ou décrit un rôle
+     *
+     * Le slug d'un rôle système ne peut pas changer (référencé par le code).
+     */
+    public function update(Request $request, Role $role): JsonResponse
+    {
+        $validated = $request->validate([
+            'name' => 'sometimes|required|string|max:255',
+            'slug' => ['sometimes', 'required', 'string', 'max:255', 'alpha_dash', Rule::unique('roles')->ignore($role)],
+            'description' => 'sometimes|nullable|string',
+        ]);
+
+        if ($role->is_system && isset($validated['slug']) && $validated['slug'] !== $role->slug) {
+            throw ValidationException::withMessages([
+                'slug' => 'The slug of a system role cannot be changed.',
+            ]);
+        }
+
+        [$old, $new] = AuditLog::diff($role->only(array_keys($validated)), $validated);
+        $role->update($validated);
+
+        if ($new) {
+            AuditLog::record(AuditLog::ROLE_UPDATED, $role, old: $old, new: $new);
+        }
+
+        return response()->json(['message' => 'Role updated', 'data' => $this->withInheritance($role)]);
+    }
+
+    /**
+     * Duplique un rôle avec ses permissions et ses parents (sans ses utilisateurs)
+     */
+    public function duplicate(Request $request, Role $role): JsonResponse
+    {
+        $validated = $request->validate([
+            'name' => 'required|string|max:255',
+            'slug' => 'required|string|max:255|alpha_dash|unique:roles',
+            'description' => 'nullable|string',
+        ]);
+
+        $clone = DB::transaction(function () use ($role, $validated) {
+            $clone = Role::create([
+                'name' => $validated['name'],
+                'slug' => $validated['slug'],
+                'description' => array_key_exists('description', $validated)
+                    ? $validated['description']
+                    : $role->description,
+                'position' => $this->nextPosition(),
+            ]);
+            $clone->permissions()->sync($role->permissions()->pluck('permissions.id'));
+            $clone->parents()->sync($role->parents()->pluck('roles.id'));
+
+            return $clone;
+        });
+
+        AuditLog::record(
+            AuditLog::ROLE_CREATED,
+            $clone,
+            new: $clone->only(['name', 'slug', 'description']) + [
+                'permissions' => $clone->permissions()->pluck('slug')->all(),
+                'parents' => $clone->parents()->pluck('slug')->all(),
+            ],
+            context: ['cloned_from' => $role->slug],
+        );
+
+        return response()->json(['data' => $this->withInheritance($clone)], 201);
+    }
+
+    /**
+     * Supprime un rôle
+     *
+     * Les rôles système ne sont jamais supprimés. Un rôle encore attribué
+     * n'est supprimé que si ?reassign_to=SLUG désigne le rôle qui le
+     * remplace pour ses utilisateurs.
+     */
+    public function destroy(Request $request, Role $role): JsonResponse
+    {
+        if ($role->is_system) {
+            return response()->json([
+                'message' => 'System roles cannot be deleted.',
+                'code' => 'SYSTEM_ROLE',
+            ], 403);
+        }
+
+        $validated = $request->validate([
+            'reassign_to' => ['nullable', 'string', Rule::exists('roles', 'slug'), Rule::notIn([$role->slug])],
+        ]);
+
+        $usersCount = $role->users()->count();
+        $target = isset($validated['reassign_to'])
+            ? Role::where('slug', $validated['reassign_to'])->first()
+            : null;
+
+        if ($usersCount > 0 && !$target) {
+            return response()->json([
+                'message' => "This role is assigned to {$usersCount} user(s); choose a role to reassign them to.",
+                'code' => 'ROLE_IN_USE',
+                'users_count' => $usersCount,
+            ], 409);
+        }
+
+        DB::transaction(function () use ($role, $target) {
+            if ($target) {
+                $target->users()->syncWithoutDetaching($role->users()->pluck('users.id'));
+            }
+
+            $role->delete();
+        });
+
+        AuditLog::record(
+            AuditLog::ROLE_DELETED,
+            $role,
+            old: $role->only(['name', 'slug', 'description']),
+            context: ['reassigned_to' => $target?->slug, 'users_count' => $usersCount],
+        );
+
+        return response()->json([
+            'message' => 'Role deleted',
+            'reassigned' => $target ? $usersCount : 0,
+        ]);
+    }
+
+    /**
+     * Réordonne les rôles (ids dans l'ordre d'affichage souhaité)
+     */
+    public function reorder(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'roles' => 'required|array',
+            'roles.*' => 'integer|distinct|exists:roles,id',
+        ]);
+
+        DB::transaction(function () use ($validated) {
+            foreach ($validated['roles'] as $index => $id) {
+                Role::whereKey($id)->update(['position' => $index + 1]);
+            }
+        });
+
+        return response()->json([
+            'message' => 'Roles reordered',
+            'data' => $this->listing(),
+        ]);
+    }
+
+    /**
+     * Remplace les permissions d'un rôle
+     */
+    public function syncPermissions(Request $request, Role $role): JsonResponse
+    {
+        $validated = $request->validate(['permissions' => 'required|array']);
+        $before = $role->permissions()->pluck('slug')->sort()->values()->all();
+
+        $role->permissions()->sync($validated['permissions']);
+
+        $after = $role->permissions()->pluck('slug')->sort()->values()->all();
+        if ($before !== $after) {
+            AuditLog::record(
+                AuditLog::ROLE_PERMISSIONS_SYNCED,
+                $role,
+                old: ['permissions' => $before],
+                new: ['permissions' => $after],
+            );
+        }
+
+        return response()->json(['message' => 'Permissions updated', 'data' => $this->withInheritance($role)]);
+    }
+
+    /**
+     * Remplace les rôles parents d'un rôle (ids)
+     *
+     * Refuse un rôle qui deviendrait son propre ancêtre.
+     */
+    public function syncParents(Request $request, Role $role): JsonResponse
+    {
+        $validated = $request->validate([
+            'parents' => 'present|array',
+            'parents.*' => ['integer', 'distinct', 'exists:roles,id', Rule::notIn([$role->id])],
+        ]);
+
+        if ($role->wouldCreateCycle($validated['parents'])) {
+            throw ValidationException::withMessages([
+                'parents' => 'A role cannot inherit from one of its descendants.',
+            ]);
+        }
+
+        $before = $role->parents()->pluck('slug')->sort()->values()->all();
+
+        $role->parents()->sync($validated['parents']);
+
+        $after = $role->parents()->pluck('slug')->sort()->values()->all();
+        if ($before !== $after) {
+            AuditLog::record(
+                AuditLog::ROLE_PARENTS_SYNCED,
+                $role,
+                old: ['parents' => $before],
+                new: ['parents' => $after],
+            );
+        }
+
+        return response()->json(['message' => 'Parents updated', 'data' => $this->withInheritance($role)]);
+    }
+
+    private function nextPosition(): int
+    {
+        return (int) Role::max('position') + 1;
+    }
+
+    /**
+     * Rôles dans l'ordre d'affichage, avec leur héritage
+     */
+    private function listing(): Collection
+    {
+        return Role::with(['permissions', 'parents'])
+            ->withCount('users')
+            ->ordered()
+            ->get()
+            ->each(fn (Role $role) => $role->setAttribute('inherited_permissions', $role->inheritedPermissions()));
+    }
+
+    private function withInheritance(Role $role): Role
+    {
+        $role->load(['permissions', 'parents']);
+
+        return $role->setAttribute('inherited_permissions', $role->inheritedPermissions());
+    }
+}
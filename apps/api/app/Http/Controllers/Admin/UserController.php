@@ -0,0 +1,143 @@
+<?php
+
+namespace App\Http\Controllers\Admin;
+
+use App\Http\Controllers\Controller;
+use App\Models\AuditLog;
+use App\Models\Role;
+use App\Models\User;
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Carbon;
+use Illuminate\Validation\Rule;
+
+class UserController extends Controller
+{
+    /**
+     * Colonnes autorisées pour le tri
+     */
+    public const SORTABLE_COLUMNS = ['name', 'email', 'created_at'];
+
+    public const DEFAULT_PER_PAGE = 15;
+
+    public const MAX_PER_PAGE = 100;
+
+    /**
+     * Liste paginée des utilisateurs
+     *
+     * Query params : search (nom/email), role (slug), sort, direction,
+     * page, per_page. Réponse au format PaginatedResponse (data, meta, links).
+     */
+    public function index(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'search' => 'nullable|string|max:255',
+            'role' => 'nullable|string|max:255',
+            'sort' => ['nullable', Rule::in(self::SORTABLE_COLUMNS)],
+            'direction' => 'nullable|in:asc,desc',
+            'page' => 'nullable|integer|min:1',
+            'per_page' => 'nullable|integer|min:1|max:' . self::MAX_PER_PAGE,
+        ]);
+
+        $sort = $validated['sort'] ?? 'created_at';
+        $direction = $validated['direction'] ?? 'desc';
+
+        $users = User::query()
+            ->with('roles')
+            ->when($validated['search'] ?? null, function (Builder $query, string $search) {
+                $term = '%' . $search . '%';
+                $query->where(fn (Builder $q) => $q
+                    ->where('name', 'like', $term)
+                    ->orWhere('email', 'like', $term));
+            })
+            ->when($validated['role'] ?? null, function (Builder $query, string $role) {
+                $query->whereHas('roles', fn (Builder $q) => $q->where('slug', $role));
+            })
+            ->orderBy($sort, $direction)
+            // Ordre stable entre les pages quand la colonne triée a des doublons
+            ->orderBy('id', $direction)
+            ->paginate($validated['per_page'] ?? self::DEFAULT_PER_PAGE)
+            ->withQueryString();
+
+        return response()->json([
+            'data' => $users->items(),
+            'meta' => [
+                'current_page' => $users->currentPage(),
+                'last_page' => $users->lastPage(),
+                'per_page' => $users->perPage(),
+                'total' => $users->total(),
+            ],
+            'links' => [
+                'first' => $users->url(1),
+                'last' => $users->url($users->lastPage()),
+                'prev' => $users->previousPageUrl(),
+                'next' => $users->nextPageUrl(),
+            ],
+        ]);
+    }
+
+    /**
+     * Attribue un rôle, éventuellement limité dans le temps (starts_at / expires_at)
+     *
+     * Réattribuer un rôle déjà attribué remplace sa fenêtre de validité.
+     */
+    public function assignRole(Request $request, User $user): JsonResponse
+    {
+        $validated = $request->validate([
+            'role' => 'required|string|exists:roles,slug',
+            'starts_at' => 'nullable|date',
+            'expires_at' => [
+                'nullable',
+                'date',
+                'after:now',
+                Rule::when($request->filled('starts_at'), 'after:starts_at'),
+            ],
+        ]);
+
+        $role = Role::where('slug', $validated['role'])->firstOrFail();
+        $previous = $user->roles()->where('roles.id', $role->id)->first();
+        $startsAt = isset($validated['starts_at']) ? Carbon::parse($validated['starts_at']) : null;
+        $expiresAt = isset($validated['expires_at']) ? Carbon::parse($validated['expires_at']) : null;
+
+        $user->assignRole($role, $startsAt, $expiresAt);
+
+        AuditLog::record(
+            AuditLog::ROLE_ASSIGNED,
+            $user,
+            old: $previous ? $this->assignment($role, $previous->pivot->starts_at, $previous->pivot->expires_at) : [],
+            new: $this->assignment($role, $startsAt, $expiresAt),
+        );
+
+        return response()->json(['message' => 'Role assigned', 'data' => $user->load('roles')]);
+    }
+
+    public function removeRole(User $user, Role $role): JsonResponse
+    {
+        $previous = $user->roles()->where('roles.id', $role->id)->first();
+
+        $user->removeRole($role);
+
+        if ($previous) {
+            AuditLog::record(
+                AuditLog::ROLE_REMOVED,
+                $user,
+                old: $this->assignment($role, $previous->pivot->starts_at, $previous->pivot->expires_at),
+            );
+        }
+
+        return response()->json(['message' => 'Role removed']);
+    }
+
+    /**
+     * Attribution telle qu'enregistrée dans le journal d'audit
+     */
+    private function assignment(Role $role, ?\DateTimeInterface $startsAt, ?\DateTimeInterface $expiresAt): array
+    {
+        return [
+            'role' => $role->slug,
+            'starts_at' => $startsAt?->format(DATE_ATOM),
+            'expires_at' => $expiresAt?->format(DATE_ATOM),
+        ];
+    }
+}
@@ -0,0 +1,89 @@
+<?php
+
+namespace App\Http\Controllers\Admin;
+
+use App\Http\Controllers\Controller;
+use App\Models\AuditLog;
+use App\Models\Permission;
+use App\Models\User;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Collection;
+use Illuminate\Validation\Rule;
+
+class UserPermissionController extends Controller
+{
+    /**
+     * Permissions accordées ou refusées directement à l'utilisateur
+     */
+    public function index(User $user): JsonResponse
+    {
+        return response()->json(['data' => $this->overrides($user)]);
+    }
+
+    /**
+     * Accorde (grant) ou refuse (deny) une permission à l'utilisateur seul
+     *
+     * Un refus l'emporte sur les permissions des rôles et sur les accords directs.
+     */
+    public function update(Request $request, User $user, Permission $permission): JsonResponse
+    {
+        $validated = $request->validate([
+            'type' => ['required', Rule::in([User::PERMISSION_GRANT, User::PERMISSION_DENY])],
+        ]);
+
+        $previous = $user->permissions()->where('permissions.id', $permission->id)->first()?->pivot->type;
+
+        $user->setPermissionOverride($permission, $validated['type']);
+
+        if ($previous !== $validated['type']) {
+            AuditLog::record(
+                AuditLog::USER_PERMISSION_SET,
+                $user,
+                old: $previous ? ['permission' => $permission->slug, 'type' => $previous] : [],
+                new: ['permission' => $permission->slug, 'type' => $validated['type']],
+            );
+        }
+
+        return response()->json([
+            'message' => $validated['type'] === User::PERMISSION_DENY ? 'Permission denied' : 'Permission granted',
+            'data' => $this->overrides($user),
+        ]);
+    }
+
+    /**
+     * Retire l'accord ou le refus direct : seuls les rôles comptent à nouveau
+     */
+    public function destroy(User $user, Permission $permission): JsonResponse
+    {
+        $previous = $user->permissions()->where('permissions.id', $permission->id)->first()?->pivot->type;
+
+        $user->removePermissionOverride($permission);
+
+        if ($previous) {
+            AuditLog::record(
+                AuditLog::USER_PERMISSION_REMOVED,
+                $user,
+                old: ['permission' => $permission->slug, 'type' => $previous],
+            );
+        }
+
+        return response()->json(['message' => 'Permission override removed', 'data' => $this->overrides($user)]);
+    }
+
+    private function overrides(User $user): Collection
+    {
+        return $user->permissions()
+            ->orderBy('resource')
+            ->orderBy('action')
+            ->get()
+            ->map(fn (Permission $permission) => [
+                'id' => $permission->id,
+                'name' => $permission->name,
+                'slug' => $permission->slug,
+                'resource' => $permission->resource,
+                'action' => $permission->action,
+                'type' => $permission->pivot->type,
+            ]);
+    }
+}
@@ -0,0 +1,132 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Models\ApiKey;
+use App\Models\AuditLog;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Carbon;
+use Illuminate\Validation\Rule;
+
+class ApiKeyController extends Controller
+{
+    /**
+     * Nombre maximal de clés actives par utilisateur
+     */
+    public const MAX_KEYS = 20;
+
+    /**
+     * Limite maximale (requêtes par minute) choisie à la création
+     */
+    public const MAX_RATE_LIMIT = 1000;
+
+    /**
+     * Clés de l'utilisateur connecté (jamais leur valeur, seulement leur préfixe)
+     */
+    public function index(Request $request): JsonResponse
+    {
+        return response()->json([
+            'data' => $request->user()->apiKeys()->latest()->get(),
+        ]);
+    }
+
+    /**
+     * Crée une clé ; sa valeur n'est renvoyée qu'une fois
+     *
+     * Les scopes sont des permissions de l'utilisateur : une clé n'en
+     * donne jamais plus que son propriétaire.
+     */
+    public function store(Request $request): JsonResponse
+    {
+        $user = $request->user();
+        $owned = $user->getAllPermissions()->pluck('slug')->all();
+
+        $validated = $request->validate([
+            'name' => 'required|string|max:255',
+            'scopes' => 'required|array|min:1',
+            'scopes.*' => ['string', 'distinct', Rule::in($owned)],
+            'expires_at' => 'nullable|date|after:now',
+            'rate_limit' => 'nullable|integer|min:1|max:' . self::MAX_RATE_LIMIT,
+        ]);
+
+        if ($user->apiKeys()->count() >= self::MAX_KEYS) {
+            return response()->json([
+                'message' => 'You cannot have more than ' . self::MAX_KEYS . ' API keys.',
+                'code' => 'API_KEY_LIMIT',
+            ], 409);
+        }
+
+        [$apiKey, $plain] = ApiKey::generate(
+            $user,
+            $validated['name'],
+            $validated['scopes'],
+            isset($validated['expires_at']) ? Carbon::parse($validated['expires_at']) : null,
+            $validated['rate_limit'] ?? null,
+        );
+
+        AuditLog::record(AuditLog::API_KEY_CREATED, $apiKey, new: [
+            'name' => $apiKey->name,
+            'scopes' => $apiKey->scopes,
+            'rate_limit' => $apiKey->rate_limit,
+            'expires_at' => $apiKey->expires_at?->format(DATE_ATOM),
+        ]);
+
+        return response()->json([
+            'message' => 'Store this key now: it will not be shown again.',
+            'data' => $apiKey->toArray() + ['key' => $plain],
+        ], 201);
+    }
+
+    /**
+     * Vérifie une clé pour le BFF avant de relayer une requête machine
+     *
+     * Route publique mais signée (HMAC) : seul le BFF peut l'appeler. Renvoie
+     * les scopes encore couverts par les permissions du propriétaire ; le BFF
+     * relaie ensuite la requête avec « Authorization: BffApiKey <id> ».
+     * Ne compte pas comme une utilisation de la clé.
+     */
+    public function verify(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'key' => 'required|string|max:255',
+        ]);
+
+        $apiKey = ApiKey::findByPlainKey($validated['key']);
+
+        if (!$apiKey || $apiKey->isExpired()) {
+            return response()->json([
+                'message' => 'Invalid or expired API key.',
+                'code' => 'INVALID_API_KEY',
+            ], 401);
+        }
+
+        return response()->json([
+            'data' => [
+                'id' => $apiKey->id,
+                'prefix' => $apiKey->prefix,
+                'scopes' => $apiKey->effectiveScopes(),
+                'rate_limit' => $apiKey->rateLimit(),
+                'expires_at' => $apiKey->expires_at,
+            ],
+        ]);
+    }
+
+    /**
+     * Révoque une clé de l'utilisateur connecté
+     */
+    public function destroy(Request $request, ApiKey $apiKey): JsonResponse
+    {
+        // Les clés des autres utilisateurs n'existent pas pour lui
+        abort_unless($apiKey->user_id === $request->user()->id, 404);
+
+        $apiKey->delete();
+
+        AuditLog::record(AuditLog::API_KEY_REVOKED, $apiKey, old: [
+            'name' => $apiKey->name,
+            'scopes' => $apiKey->scopes,
+        ]);
+
+        return response()->json(['message' => 'API key revoked']);
+    }
+}
@@ -3,12 +3,25 @@
 namespace App\Http\Controllers\Auth;
 
 use App\Http\Controllers\Controller;
+use App\Models\AuditLog;
+use App\Models\Permission;
 use App\Models\User;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Http\Request;
 use Illuminate\Support\Facades\Auth;
 use Illuminate\Support\Facades\Hash;
-use Illuminate\Validation\ValidationException;
+use Laravel\Passport\Passport;
+use Laravel\Passport\Token;
+use Lcobucci\JWT\Encoding\JoseEncoder;
+use Lcobucci\JWT\Exception as JwtException;
+use Lcobucci\JWT\Signer\Key;
+use Lcobucci\JWT\Signer\Key\InMemory;
+use Lcobucci\JWT\Signer\Rsa\Sha256;
+use Lcobucci\JWT\Token\Parser;
+use Lcobucci\JWT\Token\RegisteredClaims;
+use Lcobucci\JWT\UnencryptedToken;
+use Lcobucci\JWT\Validation\Constraint\SignedWith;
+use Lcobucci\JWT\Validation\Validator;
 
 class AuthController extends Controller
 {
@@ -49,14 +62,25 @@ public function login(Request $request): JsonResponse
         ]);
 
         if (!Auth::attempt($validated)) {
-            throw ValidationException::withMessages([
-                'email' => ['The provided credentials are incorrect.'],
-            ]);
+            AuditLog::record(
+                AuditLog::AUTH_LOGIN_FAILED,
+                User::where('email', $validated['email'])->first(),
+                context: ['email' => $validated['email']],
+            );
+
+            // 401, pas 422 : le BFF ne compte que les mauvais identifiants
+            // dans le verrouillage du compte, pas les requêtes mal formées
+            return response()->json([
+                'message' => 'The provided credentials are incorrect.',
+                'code' => 'INVALID_CREDENTIALS',
+            ], 401);
         }
 
         $user = User::where('email', $validated['email'])->firstOrFail();
         $token = $user->createToken('auth_token')->accessToken;
 
+        AuditLog::record(AuditLog::AUTH_LOGIN, $user, context: ['method' => 'password'], actor: $user);
+
         return response()->json([
             'data' => [
                 'user' => $this->formatUser($user),
@@ -71,6 +95,8 @@ public function logout(Request $request): JsonResponse
     {
         $request->user()->token()->revoke();
 
+        AuditLog::record(AuditLog::AUTH_LOGOUT, $request->user());
+
         return response()->json([
             'message' => 'Successfully logged out',
         ]);
@@ -83,24 +109,94 @@ public function me(Request $request): JsonResponse
         ]);
     }
 
+    /**
+     * Échange un token Passport (expiré ou non) contre un nouveau token
+     *
+     * Route hors auth:api : le guard refuse un token expiré, qui est justement
+     * le cas à traiter. Le token présenté est donc authentifié ici (voir
+     * refreshableToken) puis révoqué : il ne s'échange qu'une fois.
+     */
     public function refresh(Request $request): JsonResponse
     {
-        $user = $request->user();
-        $user->token()->revoke();
+        $token = $this->refreshableToken((string) $request->bearerToken());
+        $user = $token ? User::find($token->user_id) : null;
+
+        // Révocation conditionnelle : deux échanges simultanés du même token
+        // ne donnent qu'un seul nouveau token
+        $revoked = $user && Passport::token()->newQuery()
+            ->whereKey($token->getKey())
+            ->where('revoked', false)
+            ->update(['revoked' => true]) === 1;
+
+        if (!$revoked) {
+            return response()->json([
+                'message' => 'The access token cannot be refreshed.',
+                'code' => 'TOKEN_REFRESH_FAILED',
+            ], 401);
+        }
 
-        $token = $user->createToken('auth_token')->accessToken;
+        $newToken = $user->createToken('auth_token')->accessToken;
 
         return response()->json([
             'data' => [
-                'access_token' => $token,
+                'access_token' => $newToken,
                 'token_type' => 'Bearer',
             ],
         ]);
     }
 
+    /**
+     * Token Passport échangeable contre un nouveau token
+     *
+     * Le JWT doit porter la signature de Passport (clé publique OAuth) et
+     * désigner un token non révoqué, expiré depuis moins de
+     * passport.refresh_window jours. L'expiration du JWT lui-même n'est pas
+     * vérifiée : c'est elle qui amène le BFF ici.
+     */
+    private function refreshableToken(string $jwt): ?Token
+    {
+        if ($jwt === '') {
+            return null;
+        }
+
+        try {
+            $parsed = (new Parser(new JoseEncoder()))->parse($jwt);
+        } catch (JwtException) {
+            return null;
+        }
+
+        $signed = $parsed instanceof UnencryptedToken
+            && (new Validator())->validate($parsed, new SignedWith(new Sha256(), $this->passportPublicKey()));
+
+        if (!$signed) {
+            return null;
+        }
+
+        $token = Passport::token()->newQuery()->find($parsed->claims()->get(RegisteredClaims::ID));
+
+        if (!$token || $token->revoked || !$token->expires_at) {
+            return null;
+        }
+
+        return $token->expires_at->gt(now()->subDays(config('passport.refresh_window'))) ? $token : null;
+    }
+
+    /**
+     * Clé publique Passport (configuration, sinon storage/oauth-public.key)
+     */
+    private function passportPublicKey(): Key
+    {
+        $key = str_replace('\\n', "\n", (string) config('passport.public_key'));
+
+        return $key !== ''
+            ? InMemory::plainText($key)
+            : InMemory::file(Passport::keyPath('oauth-public.key'));
+    }
+
     private function formatUser(User $user): array
     {
-        $user->load('roles.permissions');
+        // Seules les attributions en cours comptent (voir User::activeRoles)
+        $user->load('activeRoles.permissions');
 
         return [
             'id' => $user->id,
@@ -109,18 +205,37 @@ private function formatUser(User $user): array
             'email_verified_at' => $user->email_verified_at,
             'created_at' => $user->created_at,
             'updated_at' => $user->updated_at,
-            'roles' => $user->roles->map(fn($role) => [
+            'roles' => $user->activeRoles->map(fn($role) => [
                 'id' => $role->id,
                 'name' => $role->name,
                 'slug' => $role->slug,
+                'starts_at' => $role->pivot->starts_at,
+                'expires_at' => $role->pivot->expires_at,
+                // Chaîne d'héritage résolue (parents les plus proches d'abord)
+                'inherits' => $role->ancestors()->pluck('slug')->values(),
+                // Permissions apportées par ce rôle : le front les retire quand
+                // l'attribution expire avant le prochain appel à /me
+                'permissions' => $role->effectivePermissions()->map($this->formatPermission(...))->values(),
             ]),
-            'permissions' => $user->getAllPermissions()->map(fn($perm) => [
-                'id' => $perm->id,
-                'name' => $perm->name,
-                'slug' => $perm->slug,
-                'resource' => $perm->resource,
-                'action' => $perm->action,
-            ])->values(),
+            'inherited_roles' => $user->inheritedRoles()->map(fn($role) => [
+                'id' => $role->id,
+                'name' => $role->name,
+                'slug' => $role->slug,
+            ]),
+            'permissions' => $user->getAllPermissions()->map($this->formatPermission(...))->values(),
+            // Refus directs : l'emportent sur toute permission accordée
+            'denied_permissions' => $user->deniedPermissions()->get()->map($this->formatPermission(...))->values(),
+        ];
+    }
+
+    private function formatPermission(Permission $permission): array
+    {
+        return [
+            'id' => $permission->id,
+            'name' => $permission->name,
+            'slug' => $permission->slug,
+            'resource' => $permission->resource,
+            'action' => $permission->action,
         ];
     }
 }
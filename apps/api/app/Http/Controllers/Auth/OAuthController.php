@@ -3,6 +3,7 @@
 namespace App\Http\Controllers\Auth;
 
 use App\Http\Controllers\Controller;
+use App\Models\AuditLog;
 use App\Models\OAuthProvider;
 use App\Models\User;
 use Illuminate\Http\JsonResponse;
@@ -69,6 +70,8 @@ public function callback(string $provider, Request $request): RedirectResponse
         // Create access token
         $token = $user->createToken('oauth_token')->accessToken;
 
+        AuditLog::record(AuditLog::AUTH_LOGIN, $user, context: ['method' => $provider], actor: $user);
+
         // Redirect to frontend with token
         $frontendUrl = config('app.frontend_url');
         return redirect("{$frontendUrl}/auth/callback?token={$token}");
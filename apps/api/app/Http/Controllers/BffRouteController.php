@@ -0,0 +1,69 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use Illuminate\Http\JsonResponse;
+use Illuminate\Routing\Route;
+use Illuminate\Routing\Router;
+use Illuminate\Support\Str;
+
+class BffRouteController extends Controller
+{
+    /**
+     * Routes de l'API versionnée, pour le contrôle de cohérence du BFF
+     *
+     * Route publique mais signée (HMAC) : au démarrage, le BFF compare son
+     * registre (lib/routes.ts) à cette liste et signale les écarts. Seules
+     * les routes du groupe bff.hmac sont décrites.
+     */
+    public function index(Router $router): JsonResponse
+    {
+        $routes = collect($router->getRoutes()->getRoutes())
+            ->filter(fn (Route $route) => in_array('bff.hmac', $route->gatherMiddleware(), true))
+            ->flatMap(fn (Route $route) => collect($route->methods())
+                ->reject(fn (string $method) => $method === 'HEAD')
+                ->map(fn (string $method) => $this->describe($route, $method)))
+            ->sortBy(fn (array $route) => $route['path'] . ' ' . $route['method'])
+            ->values();
+
+        return response()->json(['data' => $routes]);
+    }
+
+    /**
+     * Authentification et accès exigés par une route, déduits de ses middlewares
+     *
+     * - session : token Passport uniquement (auth:api)
+     * - authenticated : token ou clé d'API (auth:api,api-key)
+     * - public : signature HMAC seule
+     */
+    private function describe(Route $route, string $method): array
+    {
+        $middleware = array_filter($route->gatherMiddleware(), 'is_string');
+
+        $auth = match (true) {
+            in_array('auth:api', $middleware, true) => 'session',
+            in_array('auth:api,api-key', $middleware, true) => 'authenticated',
+            default => 'public',
+        };
+
+        return [
+            'method' => $method,
+            'path' => $route->uri(),
+            'auth' => $auth,
+            'roles' => $this->parameters($middleware, 'role'),
+            'permissions' => $this->parameters($middleware, 'permission'),
+        ];
+    }
+
+    /**
+     * Paramètres d'un alias de middleware (role:admin,moderator → [admin, moderator])
+     */
+    private function parameters(array $middleware, string $alias): array
+    {
+        return collect($middleware)
+            ->filter(fn (string $name) => Str::startsWith($name, $alias . ':'))
+            ->flatMap(fn (string $name) => explode(',', Str::after($name, ':')))
+            ->values()
+            ->all();
+    }
+}
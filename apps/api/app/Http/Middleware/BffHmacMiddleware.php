@@ -3,10 +3,12 @@
 namespace App\Http\Middleware;
 
 use App\Helpers\HmacValidator;
+use App\Models\AuditLog;
 use Closure;
 use Illuminate\Http\Request;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Support\Facades\Log;
+use Illuminate\Support\Facades\RateLimiter;
 
 /**
  * Middleware de protection BFF
@@ -16,6 +18,23 @@
  */
 class BffHmacMiddleware
 {
+    /**
+     * Attribut posé sur les requêtes dont la signature a été vérifiée
+     */
+    public const VERIFIED = 'bff.verified';
+
+    /**
+     * Client final transmis par le BFF (en-têtes couverts par une signature v3)
+     */
+    private const CLIENT_IP = 'bff.client_ip';
+
+    private const CLIENT_USER_AGENT = 'bff.client_user_agent';
+
+    /**
+     * Échecs de signature enregistrés dans le journal d'audit, par IP et par minute
+     */
+    private const AUDITED_FAILURES_PER_MINUTE = 1;
+
     /**
      * Handle an incoming request.
      */
@@ -31,12 +50,80 @@ public function handle(Request $request, Closure $next)
                 'ip' => $request->ip(),
             ]);
 
+            $this->auditFailure($request, $validation['error']);
+
             return $this->errorResponse($validation['error']);
         }
 
+        $request->attributes->set(self::VERIFIED, true);
+
+        // En-têtes client crus seulement s'ils font partie de la signature
+        if (in_array('x-bff-client-ip', HmacValidator::signedHeaders($request), true)) {
+            $ip = filter_var($request->header('X-BFF-Client-IP'), FILTER_VALIDATE_IP);
+
+            $request->attributes->set(self::CLIENT_IP, $ip ?: null);
+            $request->attributes->set(
+                self::CLIENT_USER_AGENT,
+                $request->header('X-BFF-Client-User-Agent') ?: null
+            );
+        }
+
         return $next($request);
     }
 
+    /**
+     * IP du client final
+     *
+     * Les requêtes vérifiées arrivent du BFF : son adresse n'identifie personne,
+     * seule l'IP qu'il a signée compte (null s'il ne la connaît pas ou signe en
+     * v1/v2). Les autres requêtes (signature refusée, routes hors BFF) gardent
+     * l'IP de la connexion.
+     */
+    public static function clientIp(Request $request): ?string
+    {
+        if (!$request->attributes->get(self::VERIFIED)) {
+            return $request->ip();
+        }
+
+        return $request->attributes->get(self::CLIENT_IP);
+    }
+
+    /**
+     * User agent du client final (mêmes règles que clientIp)
+     */
+    public static function clientUserAgent(Request $request): ?string
+    {
+        if (!$request->attributes->get(self::VERIFIED)) {
+            return $request->userAgent();
+        }
+
+        return $request->attributes->get(self::CLIENT_USER_AGENT);
+    }
+
+    /**
+     * Enregistre un échec dans le journal d'audit, une fois par IP et par minute
+     *
+     * N'importe qui peut envoyer des requêtes non signées : sans limite, le
+     * journal (append-only) se remplirait à leur rythme. Le log applicatif
+     * garde chaque échec.
+     */
+    private function auditFailure(Request $request, string $error): void
+    {
+        $key = 'bff-signature-failed:' . $request->ip();
+
+        if (RateLimiter::tooManyAttempts($key, self::AUDITED_FAILURES_PER_MINUTE)) {
+            return;
+        }
+
+        RateLimiter::hit($key, 60);
+
+        AuditLog::record(AuditLog::BFF_SIGNATURE_FAILED, context: [
+            'error' => $error,
+            'method' => $request->method(),
+            'path' => $request->path(),
+        ]);
+    }
+
     /**
      * Génère une réponse d'erreur JSON
      */
@@ -14,6 +14,11 @@ public function handle(Request $request, Closure $next, string ...$roles): Respo
             return response()->json(['error' => 'Unauthenticated'], 401);
         }
 
+        // Une clé d'API ne porte que des permissions (ses scopes), jamais un rôle
+        if ($request->user()->currentApiKey()) {
+            return response()->json(['error' => 'Forbidden - API keys cannot use role-restricted routes'], 403);
+        }
+
         if (!$request->user()->hasAnyRole($roles)) {
             return response()->json(['error' => 'Forbidden - Role not authorized'], 403);
         }
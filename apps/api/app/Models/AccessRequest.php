@@ -0,0 +1,163 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Support\Facades\DB;
+use LogicException;
+
+/**
+ * Just-in-time elevation request: a role for a few hours, approved or
+ * denied by another admin. An approval assigns the role until expires_at.
+ */
+class AccessRequest extends Model
+{
+    public const STATUS_PENDING = 'pending';
+
+    public const STATUS_APPROVED = 'approved';
+
+    public const STATUS_DENIED = 'denied';
+
+    /**
+     * Longest elevation that can be requested
+     */
+    public const MAX_HOURS = 72;
+
+    protected $fillable = [
+        'user_id',
+        'role_id',
+        'hours',
+        'justification',
+    ];
+
+    protected $attributes = [
+        'status' => self::STATUS_PENDING,
+    ];
+
+    protected $casts = [
+        'hours' => 'integer',
+        'reviewed_at' => 'datetime',
+        'expires_at' => 'datetime',
+    ];
+
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class);
+    }
+
+    public function role(): BelongsTo
+    {
+        return $this->belongsTo(Role::class);
+    }
+
+    public function reviewer(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'reviewer_id');
+    }
+
+    public function scopePending(Builder $query): Builder
+    {
+        return $query->where('status', self::STATUS_PENDING);
+    }
+
+    public function isPending(): bool
+    {
+        return $this->status === self::STATUS_PENDING;
+    }
+
+    /**
+     * Assigns the role for the requested duration, starting now
+     *
+     * An assignment the user already has is never shortened (a permanent
+     * role stays permanent) and keeps its start when extended. A scheduled
+     * assignment that has not started yet is never replaced: see
+     * scheduledAssignment().
+     *
+     * @return bool false if the request was reviewed in the meantime
+     * @throws LogicException if the role is scheduled for the user
+     */
+    public function approve(User $reviewer, ?string $note = null): bool
+    {
+        return DB::transaction(function () use ($reviewer, $note) {
+            if (!$this->lockPending()) {
+                return false;
+            }
+
+            if ($this->scheduledAssignment()) {
+                throw new LogicException('The requested role is already scheduled for this user.');
+            }
+
+            $expiresAt = now()->addHours($this->hours);
+            $current = $this->user->roles()->whereKey($this->role_id)->first()?->pivot;
+
+            if (!$current) {
+                $this->user->assignRole($this->role, null, $expiresAt);
+            } elseif ($current->expires_at !== null && $current->expires_at->lt($expiresAt)) {
+                $this->user->assignRole($this->role, $current->starts_at, $expiresAt);
+            }
+
+            $this->review(self::STATUS_APPROVED, $reviewer, $note, $expiresAt);
+
+            return true;
+        });
+    }
+
+    /**
+     * Assignment of the requested role that has not started yet
+     *
+     * A user holds a role through a single assignment, so approving would
+     * lose the scheduled window: the reviewer has to deny the request or
+     * change the assignment first.
+     */
+    public function scheduledAssignment(): ?RoleUser
+    {
+        $current = $this->user->roles()->whereKey($this->role_id)->first()?->pivot;
+
+        return $current?->starts_at?->isFuture() ? $current : null;
+    }
+
+    /**
+     * @return bool false if the request was reviewed in the meantime
+     */
+    public function deny(User $reviewer, ?string $note = null): bool
+    {
+        return DB::transaction(function () use ($reviewer, $note) {
+            if (!$this->lockPending()) {
+                return false;
+            }
+
+            $this->review(self::STATUS_DENIED, $reviewer, $note);
+
+            return true;
+        });
+    }
+
+    /**
+     * Re-reads the status under lock, inside the review transaction: of two
+     * concurrent reviews, the second one sees the first one's outcome
+     */
+    private function lockPending(): bool
+    {
+        $status = static::query()->whereKey($this->getKey())->lockForUpdate()->value('status');
+
+        return $status === self::STATUS_PENDING;
+    }
+
+    private function review(
+        string $status,
+        User $reviewer,
+        ?string $note,
+        ?\DateTimeInterface $expiresAt = null
+    ): void
+    {
+        $this->forceFill([
+            'status' => $status,
+            'reviewer_id' => $reviewer->id,
+            'review_note' => $note,
+            'reviewed_at' => now(),
+            'expires_at' => $expiresAt,
+        ])->save();
+    }
+}
@@ -0,0 +1,129 @@
+<?php
+
+namespace App\Models;
+
+use App\Helpers\PermissionMatcher;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Support\Str;
+
+/**
+ * Personal API key: authenticates as its owner, limited to its scopes
+ * (permission slugs) and to the permissions the owner still has.
+ */
+class ApiKey extends Model
+{
+    /**
+     * Prefix of every generated key (helps secret scanners spot leaked keys)
+     */
+    public const PREFIX = 'rbac_';
+
+    /**
+     * Characters of the key kept in clear to recognize it
+     */
+    public const VISIBLE_LENGTH = 12;
+
+    protected $fillable = [
+        'name',
+        'scopes',
+        'rate_limit',
+        'expires_at',
+    ];
+
+    protected $hidden = [
+        'key_hash',
+    ];
+
+    protected $casts = [
+        'scopes' => 'array',
+        'rate_limit' => 'integer',
+        'usage_count' => 'integer',
+        'throttled_count' => 'integer',
+        'expires_at' => 'datetime',
+        'last_used_at' => 'datetime',
+    ];
+
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class);
+    }
+
+    /**
+     * Creates a key for the user
+     *
+     * @return array{0: self, 1: string} the key and its plain-text value, returned once
+     */
+    public static function generate(
+        User $user,
+        string $name,
+        array $scopes,
+        ?\DateTimeInterface $expiresAt = null,
+        ?int $rateLimit = null,
+    ): array {
+        $plain = self::PREFIX . Str::random(40);
+
+        $key = new self([
+            'name' => $name,
+            'scopes' => array_values($scopes),
+            'rate_limit' => $rateLimit,
+            'expires_at' => $expiresAt,
+        ]);
+        $key->forceFill([
+            'prefix' => substr($plain, 0, self::VISIBLE_LENGTH),
+            'key_hash' => self::hash($plain),
+        ]);
+        $key->user()->associate($user)->save();
+
+        return [$key, $plain];
+    }
+
+    public static function findByPlainKey(string $plain): ?self
+    {
+        return self::where('key_hash', self::hash($plain))->first();
+    }
+
+    public function isExpired(): bool
+    {
+        return $this->expires_at !== null && $this->expires_at->isPast();
+    }
+
+    /**
+     * Checks whether the scopes of the key cover a permission (wildcards included)
+     */
+    public function allows(string $permissionSlug): bool
+    {
+        return PermissionMatcher::anyMatches($this->scopes ?? [], $permissionSlug);
+    }
+
+    /**
+     * Scopes the owner still holds (what the key can actually do right now)
+     */
+    public function effectiveScopes(): array
+    {
+        return array_values(array_filter(
+            $this->scopes ?? [],
+            fn (string $scope) => $this->user->hasPermission($scope)
+        ));
+    }
+
+    /**
+     * Requests per minute allowed for the key
+     */
+    public function rateLimit(): int
+    {
+        return $this->rate_limit ?? config('services.api_keys.rate_limit');
+    }
+
+    /**
+     * Counts an authenticated request (atomic, concurrent requests included)
+     */
+    public function markUsed(?string $ip): void
+    {
+        $this->increment('usage_count', 1, ['last_used_at' => now(), 'last_used_ip' => $ip]);
+    }
+
+    private static function hash(string $plain): string
+    {
+        return hash('sha256', $plain);
+    }
+}
@@ -0,0 +1,179 @@
+<?php
+
+namespace App\Models;
+
+use App\Http\Middleware\BffHmacMiddleware;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Support\Arr;
+use Illuminate\Support\Facades\Auth;
+use Illuminate\Support\Str;
+use LogicException;
+
+/**
+ * Append-only audit trail entry: who did what to which target, with the
+ * values before and after the change and the request it came from.
+ */
+class AuditLog extends Model
+{
+    public const AUTH_LOGIN = 'auth.login';
+
+    public const AUTH_LOGIN_FAILED = 'auth.login_failed';
+
+    public const AUTH_LOGOUT = 'auth.logout';
+
+    public const BFF_SIGNATURE_FAILED = 'bff.signature_failed';
+
+    public const ROLE_ASSIGNED = 'role.assigned';
+
+    public const ROLE_REMOVED = 'role.removed';
+
+    public const ROLE_CREATED = 'role.created';
+
+    public const ROLE_UPDATED = 'role.updated';
+
+    public const ROLE_DELETED = 'role.deleted';
+
+    public const ROLE_PERMISSIONS_SYNCED = 'role.permissions_synced';
+
+    public const ROLE_PARENTS_SYNCED = 'role.parents_synced';
+
+    public const USER_PERMISSION_SET = 'user.permission_set';
+
+    public const USER_PERMISSION_REMOVED = 'user.permission_removed';
+
+    public const ACCESS_REQUEST_APPROVED = 'access_request.approved';
+
+    public const ACCESS_REQUEST_DENIED = 'access_request.denied';
+
+    public const API_KEY_CREATED = 'api_key.created';
+
+    public const API_KEY_REVOKED = 'api_key.revoked';
+
+    /**
+     * Every recorded action (filter values of the audit endpoints)
+     */
+    public const ACTIONS = [
+        self::AUTH_LOGIN,
+        self::AUTH_LOGIN_FAILED,
+        self::AUTH_LOGOUT,
+        self::BFF_SIGNATURE_FAILED,
+        self::ROLE_ASSIGNED,
+        self::ROLE_REMOVED,
+        self::ROLE_CREATED,
+        self::ROLE_UPDATED,
+        self::ROLE_DELETED,
+        self::ROLE_PERMISSIONS_SYNCED,
+        self::ROLE_PARENTS_SYNCED,
+        self::USER_PERMISSION_SET,
+        self::USER_PERMISSION_REMOVED,
+        self::ACCESS_REQUEST_APPROVED,
+        self::ACCESS_REQUEST_DENIED,
+        self::API_KEY_CREATED,
+        self::API_KEY_REVOKED,
+    ];
+
+    /**
+     * Entries are never updated
+     */
+    public const UPDATED_AT = null;
+
+    protected $fillable = [
+        'actor_id',
+        'action',
+        'target_type',
+        'target_id',
+        'target_label',
+        'old_values',
+        'new_values',
+        'context',
+        'ip_address',
+        'user_agent',
+        'request_id',
+    ];
+
+    protected $casts = [
+        'old_values' => 'array',
+        'new_values' => 'array',
+        'context' => 'array',
+        'created_at' => 'datetime',
+    ];
+
+    /**
+     * Append-only: Eloquent refuses to modify or delete an entry
+     */
+    protected static function booted(): void
+    {
+        static::updating(fn () => throw new LogicException('Audit log entries cannot be modified.'));
+        static::deleting(fn () => throw new LogicException('Audit log entries cannot be deleted.'));
+    }
+
+    public function actor(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'actor_id');
+    }
+
+    /**
+     * Records an event of the current request
+     *
+     * The actor defaults to the user already authenticated for the request
+     * (none before auth:api, e.g. a failed login or signature check). Events
+     * caused through an API key keep its prefix in the context. The IP and
+     * user agent are the end client's, as signed by the BFF.
+     */
+    public static function record(
+        string $action,
+        ?Model $target = null,
+        array $old = [],
+        array $new = [],
+        array $context = [],
+        ?User $actor = null,
+    ): self {
+        $request = request();
+        $actor ??= Auth::hasUser() ? Auth::user() : null;
+
+        if ($actor?->currentApiKey()) {
+            $context += ['api_key' => $actor->currentApiKey()->prefix];
+        }
+
+        return static::create([
+            'actor_id' => $actor?->getKey(),
+            'action' => $action,
+            'target_type' => $target ? Str::snake(class_basename($target)) : null,
+            'target_id' => $target?->getKey(),
+            'target_label' => $target ? self::labelOf($target) : null,
+            'old_values' => $old ?: null,
+            'new_values' => $new ?: null,
+            'context' => $context ?: null,
+            'ip_address' => BffHmacMiddleware::clientIp($request),
+            'user_agent' => BffHmacMiddleware::clientUserAgent($request),
+            'request_id' => Str::limit((string) $request->header('X-BFF-Nonce'), 128, '') ?: null,
+        ]);
+    }
+
+    /**
+     * Keeps only the keys whose value changed
+     *
+     * @return array{0: array, 1: array} [old values, new values]
+     */
+    public static function diff(array $before, array $after): array
+    {
+        $changed = array_keys(array_filter(
+            $after,
+            fn ($value, $key) => ($before[$key] ?? null) !== $value,
+            ARRAY_FILTER_USE_BOTH
+        ));
+
+        return [Arr::only($before, $changed), Arr::only($after, $changed)];
+    }
+
+    private static function labelOf(Model $target): ?string
+    {
+        return match (true) {
+            $target instanceof User => $target->email,
+            $target instanceof Role, $target instanceof Permission => $target->slug,
+            $target instanceof ApiKey => $target->prefix,
+            default => null,
+        };
+    }
+}
@@ -5,11 +5,22 @@
 use Illuminate\Database\Eloquent\Factories\HasFactory;
 use Illuminate\Database\Eloquent\Model;
 use Illuminate\Database\Eloquent\Relations\BelongsToMany;
+use Illuminate\Support\Collection;
 
 class Permission extends Model
 {
     use HasFactory;
 
+    /**
+     * Actions accepted in permission slugs (same as PermissionAction in @rbac/types)
+     */
+    public const ACTIONS = ['create', 'read', 'update', 'delete', 'manage', '*'];
+
+    /**
+     * Actions generated for a new resource
+     */
+    public const CRUD_ACTIONS = ['create', 'read', 'update', 'delete'];
+
     protected $fillable = [
         'name',
         'slug',
@@ -23,16 +34,19 @@ public function roles(): BelongsToMany
         return $this->belongsToMany(Role::class);
     }
 
-    public static function createForResource(string $resource, array $actions = ['create', 'read', 'update', 'delete']): void
+    /**
+     * Creates the missing RESOURCE.ACTION permissions, returns all of them
+     */
+    public static function createForResource(string $resource, array $actions = self::CRUD_ACTIONS): Collection
     {
-        foreach ($actions as $action) {
-            self::firstOrCreate(
+        return collect($actions)->map(function (string $action) use ($resource) {
+            return self::firstOrCreate(
                 ['resource' => $resource, 'action' => $action],
                 [
                     'name' => ucfirst($action) . ' ' . ucfirst($resource),
                     'slug' => "{$resource}.{$action}",
                 ]
             );
-        }
+        });
     }
 }
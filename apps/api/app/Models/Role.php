@@ -2,9 +2,12 @@
 
 namespace App\Models;
 
+use App\Helpers\PermissionMatcher;
+use Illuminate\Database\Eloquent\Builder;
 use Illuminate\Database\Eloquent\Factories\HasFactory;
 use Illuminate\Database\Eloquent\Model;
 use Illuminate\Database\Eloquent\Relations\BelongsToMany;
+use Illuminate\Support\Collection;
 
 class Role extends Model
 {
@@ -14,6 +17,13 @@ class Role extends Model
         'name',
         'slug',
         'description',
+        'is_system',
+        'position',
+    ];
+
+    protected $casts = [
+        'is_system' => 'boolean',
+        'position' => 'integer',
     ];
 
     public function permissions(): BelongsToMany
@@ -26,6 +36,27 @@ public function users(): BelongsToMany
         return $this->belongsToMany(User::class);
     }
 
+    /**
+     * Parent roles: this role inherits all of their permissions
+     */
+    public function parents(): BelongsToMany
+    {
+        return $this->belongsToMany(Role::class, 'role_parent', 'role_id', 'parent_id');
+    }
+
+    public function children(): BelongsToMany
+    {
+        return $this->belongsToMany(Role::class, 'role_parent', 'parent_id', 'role_id');
+    }
+
+    /**
+     * Admin UI order (position, then creation order)
+     */
+    public function scopeOrdered(Builder $query): Builder
+    {
+        return $query->orderBy('position')->orderBy('id');
+    }
+
     public function givePermissionTo(Permission|string $permission): void
     {
         if (is_string($permission)) {
@@ -44,8 +75,83 @@ public function revokePermission(Permission|string $permission): void
         $this->permissions()->detach($permission);
     }
 
+    /**
+     * Inheritance chain, nearest parents first (breadth-first, without this role)
+     *
+     * Already visited roles are skipped, so a cycle stored in the database
+     * cannot loop forever.
+     */
+    public function ancestors(): Collection
+    {
+        $ancestors = collect();
+        $visited = [$this->getKey() => true];
+        $queue = $this->parents()->with('permissions')->get()->all();
+
+        while ($role = array_shift($queue)) {
+            if (isset($visited[$role->getKey()])) {
+                continue;
+            }
+
+            $visited[$role->getKey()] = true;
+            $ancestors->push($role);
+            array_push($queue, ...$role->parents()->with('permissions')->get()->all());
+        }
+
+        return $ancestors;
+    }
+
+    /**
+     * Would inheriting from these roles make this role its own ancestor?
+     */
+    public function wouldCreateCycle(iterable $parentIds): bool
+    {
+        foreach (Role::whereKey(collect($parentIds)->all())->get() as $parent) {
+            if ($parent->is($this) || $parent->ancestors()->contains(fn (Role $role) => $role->is($this))) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Permissions granted through parent roles only, each tagged with the
+     * slug of the nearest role granting it (inherited_from)
+     */
+    public function inheritedPermissions(): Collection
+    {
+        $own = $this->permissions()->pluck('permissions.id')->all();
+
+        return $this->ancestors()
+            ->flatMap(fn (Role $ancestor) => $ancestor->permissions->map(fn (Permission $permission) => [
+                'id' => $permission->id,
+                'name' => $permission->name,
+                'slug' => $permission->slug,
+                'resource' => $permission->resource,
+                'action' => $permission->action,
+                'inherited_from' => $ancestor->slug,
+            ]))
+            ->reject(fn (array $permission) => in_array($permission['id'], $own, true))
+            ->unique('id')
+            ->values();
+    }
+
+    /**
+     * Direct and inherited permissions
+     */
+    public function effectivePermissions(): Collection
+    {
+        return $this->permissions()->get()
+            ->concat($this->ancestors()->flatMap(fn (Role $ancestor) => $ancestor->permissions))
+            ->unique('id')
+            ->values();
+    }
+
+    /**
+     * Supports wildcards, nested resources (see PermissionMatcher) and inheritance
+     */
     public function hasPermission(string $permissionSlug): bool
     {
-        return $this->permissions()->where('slug', $permissionSlug)->exists();
+        return PermissionMatcher::anyMatches($this->effectivePermissions()->pluck('slug'), $permissionSlug);
     }
 }
@@ -2,10 +2,12 @@
 
 namespace App\Models;
 
+use App\Helpers\PermissionMatcher;
 use Illuminate\Database\Eloquent\Factories\HasFactory;
 use Illuminate\Database\Eloquent\Relations\BelongsToMany;
 use Illuminate\Database\Eloquent\Relations\HasMany;
 use Illuminate\Foundation\Auth\User as Authenticatable;
+use Illuminate\Support\Facades\DB;
 use Illuminate\Notifications\Notifiable;
 use Laravel\Passport\HasApiTokens;
 
@@ -13,6 +15,18 @@ class User extends Authenticatable
 {
     use HasApiTokens, HasFactory, Notifiable;
 
+    /**
+     * Direct permission overrides (permission_user.type)
+     */
+    public const PERMISSION_GRANT = 'grant';
+
+    public const PERMISSION_DENY = 'deny';
+
+    /**
+     * API key the current request is authenticated with (guard api-key)
+     */
+    protected ?ApiKey $apiKey = null;
+
     protected $fillable = [
         'name',
         'email',
@@ -36,9 +50,49 @@ protected function casts(): array
     // RBAC Relations
     // =========================================================================
 
+    /**
+     * Every role assignment, including pending and expired ones
+     */
     public function roles(): BelongsToMany
     {
-        return $this->belongsToMany(Role::class);
+        return $this->belongsToMany(Role::class)
+            ->using(RoleUser::class)
+            ->withPivot('starts_at', 'expires_at');
+    }
+
+    /**
+     * Assignments in their validity window (starts_at <= now < expires_at):
+     * the only ones granting access
+     */
+    public function activeRoles(): BelongsToMany
+    {
+        $now = now();
+
+        return $this->roles()
+            ->where(fn ($query) => $query
+                ->whereNull('role_user.starts_at')
+                ->orWhere('role_user.starts_at', '<=', $now))
+            ->where(fn ($query) => $query
+                ->whereNull('role_user.expires_at')
+                ->orWhere('role_user.expires_at', '>', $now));
+    }
+
+    /**
+     * Direct permission overrides, granted or denied (pivot.type)
+     */
+    public function permissions(): BelongsToMany
+    {
+        return $this->belongsToMany(Permission::class)->withPivot('type')->withTimestamps();
+    }
+
+    public function grantedPermissions(): BelongsToMany
+    {
+        return $this->permissions()->wherePivot('type', self::PERMISSION_GRANT);
+    }
+
+    public function deniedPermissions(): BelongsToMany
+    {
+        return $this->permissions()->wherePivot('type', self::PERMISSION_DENY);
     }
 
     public function oauthProviders(): HasMany
@@ -46,17 +100,47 @@ public function oauthProviders(): HasMany
         return $this->hasMany(OAuthProvider::class);
     }
 
+    public function apiKeys(): HasMany
+    {
+        return $this->hasMany(ApiKey::class);
+    }
+
+    /**
+     * Limits this instance to the scopes of an API key (set by the api-key guard)
+     */
+    public function withApiKey(ApiKey $apiKey): static
+    {
+        $this->apiKey = $apiKey;
+
+        return $this;
+    }
+
+    public function currentApiKey(): ?ApiKey
+    {
+        return $this->apiKey;
+    }
+
     // =========================================================================
     // RBAC Methods
     // =========================================================================
 
-    public function assignRole(Role|string $role): void
-    {
+    /**
+     * Assigns a role, optionally for a time window only
+     *
+     * Assigning a role the user already has replaces its window.
+     */
+    public function assignRole(
+        Role|string $role,
+        ?\DateTimeInterface $startsAt = null,
+        ?\DateTimeInterface $expiresAt = null
+    ): void {
         if (is_string($role)) {
             $role = Role::where('slug', $role)->firstOrFail();
         }
 
-        $this->roles()->syncWithoutDetaching($role);
+        $this->roles()->syncWithoutDetaching([
+            $role->id => ['starts_at' => $startsAt, 'expires_at' => $expiresAt],
+        ]);
     }
 
     public function removeRole(Role|string $role): void
@@ -70,45 +154,93 @@ public function removeRole(Role|string $role): void
 
     public function hasRole(string $roleSlug): bool
     {
-        return $this->roles()->where('slug', $roleSlug)->exists();
+        return $this->activeRoles()->where('slug', $roleSlug)->exists();
     }
 
     public function hasAnyRole(array $roleSlugs): bool
     {
-        return $this->roles()->whereIn('slug', $roleSlugs)->exists();
+        return $this->activeRoles()->whereIn('slug', $roleSlugs)->exists();
     }
 
-    public function permissions(): BelongsToMany
+    /**
+     * Deletes the assignments whose expires_at has passed, returns their number
+     */
+    public static function pruneExpiredRoleAssignments(): int
     {
-        return $this->roles()
-            ->with('permissions')
-            ->get()
-            ->pluck('permissions')
-            ->flatten()
-            ->unique('id');
+        return DB::table('role_user')
+            ->whereNotNull('expires_at')
+            ->where('expires_at', '<=', now())
+            ->delete();
+    }
+
+    /**
+     * Grants or denies one permission to this user only
+     */
+    public function setPermissionOverride(Permission $permission, string $type): void
+    {
+        $this->permissions()->syncWithoutDetaching([$permission->id => ['type' => $type]]);
+    }
+
+    public function removePermissionOverride(Permission $permission): void
+    {
+        $this->permissions()->detach($permission);
     }
 
+    /**
+     * Permissions of the active role assignments (and of the roles they inherit from)
+     * plus direct grants, without the ones covered by a direct deny
+     */
     public function getAllPermissions(): \Illuminate\Support\Collection
     {
-        return $this->roles()
-            ->with('permissions')
+        $denied = $this->deniedPermissions()->pluck('slug');
+
+        return $this->activeRoles()
             ->get()
-            ->pluck('permissions')
-            ->flatten()
-            ->unique('id');
+            ->flatMap(fn (Role $role) => $role->effectivePermissions())
+            ->concat($this->grantedPermissions()->get())
+            ->unique('id')
+            ->reject(fn (Permission $permission) => PermissionMatcher::anyMatches($denied, $permission->slug))
+            ->values();
+    }
+
+    /**
+     * Roles reached through inheritance only (not assigned directly)
+     */
+    public function inheritedRoles(): \Illuminate\Support\Collection
+    {
+        $roles = $this->activeRoles()->get();
+
+        return $roles
+            ->flatMap(fn (Role $role) => $role->ancestors())
+            ->reject(fn (Role $role) => $roles->contains($role))
+            ->unique('id')
+            ->values();
     }
 
+    /**
+     * Supports wildcards and nested resources (see PermissionMatcher);
+     * a direct deny wins over any grant. Through an API key, the key's
+     * scopes must cover the permission too.
+     */
     public function hasPermission(string $permissionSlug): bool
     {
-        return $this->getAllPermissions()->contains('slug', $permissionSlug);
+        if ($this->apiKey && !$this->apiKey->allows($permissionSlug)) {
+            return false;
+        }
+
+        if (PermissionMatcher::anyMatches($this->deniedPermissions()->pluck('slug'), $permissionSlug)) {
+            return false;
+        }
+
+        return PermissionMatcher::anyMatches(
+            $this->getAllPermissions()->pluck('slug'),
+            $permissionSlug
+        );
     }
 
     public function hasPermissionTo(string $resource, string $action): bool
     {
-        return $this->getAllPermissions()->contains(function ($permission) use ($resource, $action) {
-            return $permission->resource === $resource &&
-                   ($permission->action === $action || $permission->action === 'manage');
-        });
+        return $this->hasPermission("{$resource}.{$action}");
     }
 
     public function isAdmin(): bool
@@ -2,6 +2,13 @@
 
 namespace App\Providers;
 
+use App\Http\Middleware\BffHmacMiddleware;
+use App\Models\ApiKey;
+use App\Models\User;
+use Illuminate\Cache\RateLimiting\Limit;
+use Illuminate\Http\Request;
+use Illuminate\Support\Facades\Auth;
+use Illuminate\Support\Facades\RateLimiter;
 use Illuminate\Support\ServiceProvider;
 
 class AppServiceProvider extends ServiceProvider
@@ -19,6 +26,49 @@ public function register(): void
      */
     public function boot(): void
     {
-        //
+        // Guard api-key : le user est limité aux scopes de sa clé
+        //  - Authorization: ApiKey <clé>
+        //  - Authorization: BffApiKey <id>, clé déjà vérifiée par le BFF ; l'en-tête
+        //    n'est cru que sur une requête dont la signature HMAC a été validée
+        Auth::viaRequest('api-key', function (Request $request): ?User {
+            $authorization = (string) $request->header('Authorization');
+
+            if (preg_match('/^ApiKey\s+(\S+)$/', $authorization, $matches)) {
+                $apiKey = ApiKey::findByPlainKey($matches[1]);
+            } elseif (preg_match('/^BffApiKey\s+(\d+)$/', $authorization, $matches)
+                && $request->attributes->get(BffHmacMiddleware::VERIFIED)) {
+                $apiKey = ApiKey::find($matches[1]);
+            } else {
+                return null;
+            }
+
+            if (!$apiKey || $apiKey->isExpired()) {
+                return null;
+            }
+
+            $apiKey->markUsed(BffHmacMiddleware::clientIp($request));
+
+            return $apiKey->user->withApiKey($apiKey);
+        });
+
+        // Limite par clé d'API (les sessions ne sont pas limitées ici)
+        RateLimiter::for('api-key', function (Request $request) {
+            $apiKey = $request->user()?->currentApiKey();
+
+            if (!$apiKey) {
+                return Limit::none();
+            }
+
+            return Limit::perMinute($apiKey->rateLimit())
+                ->by('api-key:' . $apiKey->id)
+                ->response(function (Request $request, array $headers) use ($apiKey) {
+                    $apiKey->increment('throttled_count');
+
+                    return response()->json([
+                        'message' => 'Too many requests for this API key.',
+                        'code' => 'API_KEY_RATE_LIMITED',
+                    ], 429, $headers);
+                });
+        });
     }
 }
@@ -6,6 +6,7 @@
 use Illuminate\Foundation\Application;
 use Illuminate\Foundation\Configuration\Exceptions;
 use Illuminate\Foundation\Configuration\Middleware;
+use Illuminate\Http\Request;
 
 return Application::configure(basePath: dirname(__DIR__))
     ->withRouting(
@@ -20,6 +21,11 @@
             'permission' => CheckPermission::class,
             'bff.hmac' => BffHmacMiddleware::class,
         ]);
+
+        // Multipart BFF requests are signed over their exact field values
+        $signedMultipart = fn (Request $request) => $request->is('api/v1/*')
+            && str_contains((string) $request->header('Content-Type'), 'multipart/form-data');
+        $middleware->trimStrings(except: [$signedMultipart]);
     })
     ->withExceptions(function (Exceptions $exceptions): void {
         //
@@ -44,6 +44,11 @@
             'driver' => 'passport',
             'provider' => 'users',
         ],
+        // Authorization: ApiKey <key> (see AppServiceProvider)
+        'api-key' => [
+            'driver' => 'api-key',
+            'provider' => 'users',
+        ],
     ],
 
     /*
@@ -43,4 +43,17 @@
 
     'connection' => env('PASSPORT_CONNECTION'),
 
+    /*
+    |--------------------------------------------------------------------------
+    | Token Refresh Window
+    |--------------------------------------------------------------------------
+    |
+    | An expired access token may still be exchanged for a new one through
+    | POST /api/v1/auth/refresh during this many days after its expiry. The
+    | exchanged token is revoked, so each token can only be refreshed once.
+    |
+    */
+
+    'refresh_window' => (int) env('PASSPORT_REFRESH_WINDOW_DAYS', 15),
+
 ];
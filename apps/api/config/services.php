@@ -52,6 +52,18 @@
     'bff' => [
         'id' => env('BFF_ID', 'nextjs-bff-prod'),
         'secret' => env('BFF_SECRET'),
+        // Keyring for secret rotation: "kid:secret[:active|retired],..." (overrides secret)
+        'keys' => env('BFF_HMAC_KEYS'),
+        // Cache store used to remember nonces (null = default cache store)
+        'nonce_store' => env('BFF_NONCE_STORE'),
+        // Accept legacy v1 signatures (query string not signed) during migration to v2
+        'allow_v1' => env('BFF_ALLOW_V1_SIGNATURES', true),
+    ],
+
+    // Personal API keys
+    'api_keys' => [
+        // Requests per minute of keys created without their own limit
+        'rate_limit' => (int) env('API_KEY_RATE_LIMIT', 60),
     ],
 
 ];
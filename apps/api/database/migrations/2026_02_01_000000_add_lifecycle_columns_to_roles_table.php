@@ -0,0 +1,25 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::table('roles', function (Blueprint $table) {
+            // System roles (admin, moderator, user) cannot be deleted or renamed
+            $table->boolean('is_system')->default(false)->after('description');
+            // Display order in the admin UI
+            $table->unsignedInteger('position')->default(0)->after('is_system');
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::table('roles', function (Blueprint $table) {
+            $table->dropColumn(['is_system', 'position']);
+        });
+    }
+};
@@ -0,0 +1,23 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        // Role inheritance: a role gets every permission of its parent roles
+        Schema::create('role_parent', function (Blueprint $table) {
+            $table->foreignId('role_id')->constrained('roles')->cascadeOnDelete();
+            $table->foreignId('parent_id')->constrained('roles')->cascadeOnDelete();
+            $table->primary(['role_id', 'parent_id']);
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::dropIfExists('role_parent');
+    }
+};
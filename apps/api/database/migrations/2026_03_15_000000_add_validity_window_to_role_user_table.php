@@ -0,0 +1,25 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        // Time-bound role assignments: null means "from now" / "forever"
+        Schema::table('role_user', function (Blueprint $table) {
+            $table->timestamp('starts_at')->nullable();
+            $table->timestamp('expires_at')->nullable()->index();
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::table('role_user', function (Blueprint $table) {
+            $table->dropIndex(['expires_at']);
+            $table->dropColumn(['starts_at', 'expires_at']);
+        });
+    }
+};
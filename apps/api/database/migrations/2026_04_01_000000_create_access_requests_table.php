@@ -0,0 +1,32 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        // Just-in-time elevation: a role requested for a few hours, reviewed by another admin
+        Schema::create('access_requests', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('user_id')->constrained()->cascadeOnDelete();
+            $table->foreignId('role_id')->constrained()->cascadeOnDelete();
+            $table->unsignedSmallInteger('hours');
+            $table->text('justification');
+            $table->enum('status', ['pending', 'approved', 'denied'])->default('pending')->index();
+            $table->foreignId('reviewer_id')->nullable()->constrained('users')->nullOnDelete();
+            $table->string('review_note')->nullable();
+            $table->timestamp('reviewed_at')->nullable();
+            // End of the granted assignment (approved requests only)
+            $table->timestamp('expires_at')->nullable();
+            $table->timestamps();
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::dropIfExists('access_requests');
+    }
+};
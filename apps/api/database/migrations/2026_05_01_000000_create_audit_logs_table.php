@@ -0,0 +1,38 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        // Append-only audit trail of RBAC and authentication events (no updated_at)
+        Schema::create('audit_logs', function (Blueprint $table) {
+            $table->id();
+            // Kept when the actor is deleted: the row still tells what happened
+            $table->foreignId('actor_id')->nullable()->constrained('users')->nullOnDelete();
+            $table->string('action')->index();
+            $table->string('target_type')->nullable();
+            $table->unsignedBigInteger('target_id')->nullable();
+            // Readable target (email, slug) that survives the target's deletion
+            $table->string('target_label')->nullable();
+            $table->json('old_values')->nullable();
+            $table->json('new_values')->nullable();
+            $table->json('context')->nullable();
+            $table->string('ip_address', 45)->nullable();
+            $table->text('user_agent')->nullable();
+            // X-BFF-Nonce of the signed request, unique per BFF call
+            $table->string('request_id', 128)->nullable()->index();
+            $table->timestamp('created_at')->useCurrent()->index();
+
+            $table->index(['target_type', 'target_id']);
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::dropIfExists('audit_logs');
+    }
+};
@@ -0,0 +1,26 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::table('api_keys', function (Blueprint $table) {
+            // Requests per minute (null: services.api_keys.rate_limit)
+            $table->unsignedInteger('rate_limit')->nullable()->after('scopes');
+            // Authenticated requests, and those rejected by the rate limit
+            $table->unsignedBigInteger('usage_count')->default(0)->after('last_used_ip');
+            $table->unsignedBigInteger('throttled_count')->default(0)->after('usage_count');
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::table('api_keys', function (Blueprint $table) {
+            $table->dropColumn(['rate_limit', 'usage_count', 'throttled_count']);
+        });
+    }
+};
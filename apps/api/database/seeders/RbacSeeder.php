@@ -14,21 +14,21 @@ public function run(): void
         // Create Roles
         $admin = Role::firstOrCreate(
             ['slug' => 'admin'],
-            ['name' => 'Administrator', 'description' => 'Full system access']
+            ['name' => 'Administrator', 'description' => 'Full system access', 'is_system' => true, 'position' => 1]
         );
 
         $moderator = Role::firstOrCreate(
             ['slug' => 'moderator'],
-            ['name' => 'Moderator', 'description' => 'Content moderation access']
+            ['name' => 'Moderator', 'description' => 'Content moderation access', 'is_system' => true, 'position' => 2]
         );
 
         $user = Role::firstOrCreate(
             ['slug' => 'user'],
-            ['name' => 'User', 'description' => 'Standard user access']
+            ['name' => 'User', 'description' => 'Standard user access', 'is_system' => true, 'position' => 3]
         );
 
         // Create Permissions for resources
-        $resources = ['users', 'roles', 'posts', 'comments'];
+        $resources = ['users', 'roles', 'posts', 'comments', 'api-keys'];
 
         foreach ($resources as $resource) {
             Permission::createForResource($resource, ['create', 'read', 'update', 'delete', 'manage']);
@@ -58,6 +58,10 @@ public function run(): void
         );
         $user->permissions()->sync($userPermissions);
 
+        // Hierarchy: admin > moderator > user
+        $moderator->parents()->sync([$user->id]);
+        $admin->parents()->sync([$moderator->id]);
+
         // Create Test Users
         $testUsers = [
             [
@@ -1,7 +1,16 @@
 <?php
 
+use App\Http\Controllers\AccessRequestController;
+use App\Http\Controllers\ApiKeyController;
+use App\Http\Controllers\Admin\AccessRequestController as AdminAccessRequestController;
+use App\Http\Controllers\Admin\AuditLogController;
+use App\Http\Controllers\Admin\PermissionController;
+use App\Http\Controllers\Admin\RoleController;
+use App\Http\Controllers\Admin\UserController;
+use App\Http\Controllers\Admin\UserPermissionController;
 use App\Http\Controllers\Auth\AuthController;
 use App\Http\Controllers\Auth\OAuthController;
+use App\Http\Controllers\BffRouteController;
 use Illuminate\Support\Facades\Route;
 
 // =========================================================================
@@ -22,13 +31,14 @@
 Route::get('/v1/debug/hmac', function (\Illuminate\Http\Request $request) {
     // Recréer le calcul de signature Laravel
     $timestamp = $request->header('X-BFF-Timestamp');
+    $nonce = $request->header('X-BFF-Nonce');
     $method = $request->method();
     $path = $request->path();
     $body = $request->getContent();
 
     // Calculer le body hash comme Laravel le fait
     $bodyHash = $body ? hash('sha256', $body) : '';
-    $payload = "{$timestamp}:{$method}:{$path}:{$bodyHash}";
+    $payload = "{$timestamp}:{$nonce}:{$method}:{$path}:{$bodyHash}";
     $expectedSignature = hash_hmac('sha256', $payload, config('services.bff.secret'));
 
     return response()->json([
@@ -36,6 +46,7 @@
             'path' => $request->path(),
             'method' => $request->method(),
             'timestamp' => $timestamp,
+            'nonce' => $nonce,
             'body' => $body,
             'body_hash' => $bodyHash,
             'payload' => $payload,
@@ -69,18 +80,41 @@
         Route::prefix('auth')->group(function () {
             Route::post('/register', [AuthController::class, 'register']);
             Route::post('/login', [AuthController::class, 'login']);
+            // Hors auth:api : le token présenté est justement expiré (vérifié par le contrôleur)
+            Route::post('/refresh', [AuthController::class, 'refresh']);
             Route::get('/providers', [OAuthController::class, 'providers']);
+
+            // Vérification d'une clé d'API par le BFF (requêtes machine)
+            Route::post('/api-key', [ApiKeyController::class, 'verify']);
         });
 
+        // Liste des routes pour le contrôle de cohérence du BFF (appelée par le BFF uniquement)
+        Route::get('/bff/routes', [BffRouteController::class, 'index']);
+
         // -------------------------------------------------------------------
-        // Routes protégées (nécessitent auth:api + HMAC)
+        // Routes protégées (nécessitent auth:api ou une clé d'API + HMAC)
+        // Une clé d'API n'ouvre que les routes protégées par permission
+        // (voir CheckRole) et jamais le groupe session ci-dessous ; chaque
+        // clé a sa propre limite de requêtes (throttle:api-key).
         // -------------------------------------------------------------------
-        Route::middleware('auth:api')->group(function () {
+        Route::middleware(['auth:api,api-key', 'throttle:api-key'])->group(function () {
+
+            // Session de l'utilisateur (token Passport uniquement)
+            Route::middleware('auth:api')->group(function () {
+                // Auth routes
+                Route::prefix('auth')->group(function () {
+                    Route::post('/logout', [AuthController::class, 'logout']);
+                });
+
+                // Just-in-time elevation requests (any authenticated user)
+                Route::get('/access-requests', [AccessRequestController::class, 'index']);
+                Route::post('/access-requests', [AccessRequestController::class, 'store']);
+                Route::get('/access-requests/roles', [AccessRequestController::class, 'roles']);
 
-            // Auth routes
-            Route::prefix('auth')->group(function () {
-                Route::post('/logout', [AuthController::class, 'logout']);
-                Route::post('/refresh', [AuthController::class, 'refresh']);
+                // Personal API keys (a key never manages keys)
+                Route::middleware('permission:api-keys.read')->get('/api-keys', [ApiKeyController::class, 'index']);
+                Route::middleware('permission:api-keys.create')->post('/api-keys', [ApiKeyController::class, 'store']);
+                Route::middleware('permission:api-keys.delete')->delete('/api-keys/{apiKey}', [ApiKeyController::class, 'destroy']);
             });
 
             // Current User
@@ -98,11 +132,7 @@
             // -------------------------------------------------------------------
             Route::middleware('role:admin')->prefix('admin')->group(function () {
                 // Users Management
-                Route::get('/users', function () {
-                    return response()->json([
-                        'data' => \App\Models\User::with('roles')->paginate(15),
-                    ]);
-                });
+                Route::get('/users', [UserController::class, 'index']);
 
                 Route::get('/users/{user}', function (\App\Models\User $user) {
                     return response()->json([
@@ -110,46 +140,39 @@
                     ]);
                 });
 
-                Route::post('/users/{user}/roles', function (\App\Models\User $user, \Illuminate\Http\Request $request) {
-                    $validated = $request->validate(['role' => 'required|string|exists:roles,slug']);
-                    $user->assignRole($validated['role']);
-                    return response()->json(['message' => 'Role assigned', 'data' => $user->load('roles')]);
-                });
+                Route::post('/users/{user}/roles', [UserController::class, 'assignRole']);
+                Route::delete('/users/{user}/roles/{role}', [UserController::class, 'removeRole']);
 
-                Route::delete('/users/{user}/roles/{role}', function (\App\Models\User $user, \App\Models\Role $role) {
-                    $user->removeRole($role);
-                    return response()->json(['message' => 'Role removed']);
-                });
+                Route::get('/users/{user}/permissions', [UserPermissionController::class, 'index']);
+                Route::put('/users/{user}/permissions/{permission}', [UserPermissionController::class, 'update']);
+                Route::delete('/users/{user}/permissions/{permission}', [UserPermissionController::class, 'destroy']);
 
                 // Roles Management
-                Route::get('/roles', function () {
-                    return response()->json([
-                        'data' => \App\Models\Role::with('permissions')->get(),
-                    ]);
-                });
-
-                Route::post('/roles', function (\Illuminate\Http\Request $request) {
-                    $validated = $request->validate([
-                        'name' => 'required|string|max:255',
-                        'slug' => 'required|string|max:255|unique:roles',
-                        'description' => 'nullable|string',
-                    ]);
-                    $role = \App\Models\Role::create($validated);
-                    return response()->json(['data' => $role], 201);
-                });
+                Route::get('/roles', [RoleController::class, 'index']);
+                Route::post('/roles', [RoleController::class, 'store']);
+                Route::put('/roles/order', [RoleController::class, 'reorder']);
+                Route::put('/roles/{role}', [RoleController::class, 'update']);
+                Route::delete('/roles/{role}', [RoleController::class, 'destroy']);
+                Route::post('/roles/{role}/clone', [RoleController::class, 'duplicate']);
+                Route::put('/roles/{role}/parents', [RoleController::class, 'syncParents']);
+
+                // Access Requests Review
+                Route::get('/access-requests', [AdminAccessRequestController::class, 'index']);
+                Route::post('/access-requests/{accessRequest}/approve', [AdminAccessRequestController::class, 'approve']);
+                Route::post('/access-requests/{accessRequest}/deny', [AdminAccessRequestController::class, 'deny']);
+
+                // Audit Log (lecture seule : le journal n'est jamais modifié)
+                Route::get('/audit-logs', [AuditLogController::class, 'index']);
+                Route::get('/audit-logs/export', [AuditLogController::class, 'export']);
 
                 // Permissions Management
-                Route::get('/permissions', function () {
-                    return response()->json([
-                        'data' => \App\Models\Permission::all(),
-                    ]);
-                });
+                Route::get('/permissions', [PermissionController::class, 'index']);
+                Route::post('/permissions', [PermissionController::class, 'store']);
+                Route::post('/permissions/generate', [PermissionController::class, 'generate']);
+                Route::put('/permissions/{permission}', [PermissionController::class, 'update']);
+                Route::delete('/permissions/{permission}', [PermissionController::class, 'destroy']);
 
-                Route::post('/roles/{role}/permissions', function (\App\Models\Role $role, \Illuminate\Http\Request $request) {
-                    $validated = $request->validate(['permissions' => 'required|array']);
-                    $role->permissions()->sync($validated['permissions']);
-                    return response()->json(['message' => 'Permissions updated', 'data' => $role->load('permissions')]);
-                });
+                Route::post('/roles/{role}/permissions', [RoleController::class, 'syncPermissions']);
             });
 
             // -------------------------------------------------------------------
@@ -1,8 +1,17 @@
 <?php
 
+use App\Models\User;
 use Illuminate\Foundation\Inspiring;
 use Illuminate\Support\Facades\Artisan;
+use Illuminate\Support\Facades\Schedule;
 
 Artisan::command('inspire', function () {
     $this->comment(Inspiring::quote());
 })->purpose('Display an inspiring quote');
+
+Artisan::command('roles:expire', function () {
+    $this->info('Expired role assignments removed: ' . User::pruneExpiredRoleAssignments());
+})->purpose('Delete the role assignments whose expires_at has passed');
+
+// Expired assignments already grant nothing; the sweep keeps role_user clean
+Schedule::command('roles:expire')->everyFiveMinutes();
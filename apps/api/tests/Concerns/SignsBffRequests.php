@@ -0,0 +1,114 @@
+<?php
+
+namespace Tests\Concerns;
+
+use Illuminate\Support\Str;
+use Illuminate\Testing\TestResponse;
+
+/**
+ * Envoie des requêtes JSON signées (HMAC v1) comme le BFF
+ *
+ * Les helpers json() de Laravel envoient toujours un corps JSON ("[]" pour
+ * un GET sans données) : le hash du corps suit donc la normalisation de
+ * HmacValidator (clés triées, slashes et unicode non échappés).
+ *
+ * Après asBffClient(), les requêtes sont signées en v3 avec l'IP et le user
+ * agent du client final, comme le proxy.
+ */
+trait SignsBffRequests
+{
+    /**
+     * @var array{ip: string, user_agent: string}|null
+     */
+    private ?array $bffClient = null;
+
+    protected function asBffClient(string $ip, string $userAgent): static
+    {
+        $this->bffClient = ['ip' => $ip, 'user_agent' => $userAgent];
+
+        return $this;
+    }
+
+    protected function bffJson(string $method, string $uri, array $data = [], ?string $token = null): TestResponse
+    {
+        $timestamp = (string) now()->timestamp;
+        $nonce = (string) Str::uuid();
+        $path = ltrim(parse_url($uri, PHP_URL_PATH), '/');
+        $bodyHash = hash('sha256', json_encode(
+            $this->sortBffKeys($data),
+            JSON_UNESCAPED_SLASHES | JSON_UNESCAPED_UNICODE
+        ));
+        $headers = [
+            'X-BFF-Id' => config('services.bff.id'),
+            'X-BFF-Timestamp' => $timestamp,
+            'X-BFF-Nonce' => $nonce,
+        ];
+
+        if ($token !== null) {
+            $headers['Authorization'] = 'Bearer ' . $token;
+        }
+
+        if ($this->bffClient === null) {
+            $payload = "{$timestamp}:{$nonce}:{$method}:{$path}:{$bodyHash}";
+        } else {
+            $headers['X-BFF-Signature-Version'] = '3';
+            $headers['X-BFF-Client-IP'] = $this->bffClient['ip'];
+            $headers['X-BFF-Client-User-Agent'] = $this->bffClient['user_agent'];
+
+            $payload = implode("\n", [
+                'v3',
+                $timestamp,
+                $nonce,
+                $method,
+                $path,
+                $this->bffCanonicalQuery($uri),
+                'accept:application/json',
+                'authorization:' . ($headers['Authorization'] ?? $this->defaultHeaders['Authorization'] ?? ''),
+                'content-type:application/json',
+                'x-bff-client-ip:' . $this->bffClient['ip'],
+                'x-bff-client-user-agent:' . $this->bffClient['user_agent'],
+                $bodyHash,
+            ]);
+        }
+
+        $headers['X-BFF-Signature'] = hash_hmac('sha256', $payload, config('services.bff.secret'));
+
+        // Les guards gardent le user résolu d'une requête à l'autre dans un
+        // même test : chaque requête signée repart sans user, comme en HTTP
+        $this->app['auth']->forgetGuards();
+
+        return $this->withHeaders($headers)->json($method, $uri, $data);
+    }
+
+    /**
+     * Requête canonique : paires encodées RFC 3986, triées par clé puis valeur
+     */
+    private function bffCanonicalQuery(string $uri): string
+    {
+        $pairs = [];
+
+        foreach (explode('&', (string) parse_url($uri, PHP_URL_QUERY)) as $pair) {
+            if ($pair !== '') {
+                [$key, $value] = array_pad(explode('=', $pair, 2), 2, '');
+                $pairs[] = [rawurlencode(urldecode($key)), rawurlencode(urldecode($value))];
+            }
+        }
+
+        usort($pairs, fn (array $a, array $b) => strcmp($a[0], $b[0]) ?: strcmp($a[1], $b[1]));
+
+        return implode('&', array_map(fn (array $pair) => "{$pair[0]}={$pair[1]}", $pairs));
+    }
+
+    private function sortBffKeys(array $data): array
+    {
+        ksort($data);
+
+        foreach ($data as $key => $value) {
+            if (is_array($value)) {
+                $data[$key] = $this->sortBffKeys($value);
+            }
+        }
+
+        return $data;
+    }
+}
@@ -0,0 +1,214 @@
+<?php
+
+namespace Tests\Feature;
+
+use App\Models\AccessRequest;
+use App\Models\Permission;
+use App\Models\Role;
+use App\Models\User;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Laravel\Passport\Passport;
+use LogicException;
+use Tests\Concerns\SignsBffRequests;
+use Tests\TestCase;
+
+/**
+ * Tests des demandes d'élévation temporaire (demande, validation, refus)
+ */
+class AccessRequestsTest extends TestCase
+{
+    use RefreshDatabase;
+    use SignsBffRequests;
+
+    private User $admin;
+
+    private User $member;
+
+    private string $adminToken;
+
+    private string $memberToken;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        config(['services.bff.id' => 'nextjs-bff-prod']);
+        config(['services.bff.secret' => 'test-secret-key-for-hmac-validation']);
+
+        Passport::ignoreRoutes();
+
+        $adminRole = Role::create(['name' => 'Administrator', 'slug' => 'admin', 'is_system' => true]);
+        $onCall = Role::create(['name' => 'On call', 'slug' => 'on-call']);
+        $onCall->permissions()->attach(Permission::createForResource('incidents', ['manage']));
+
+        $this->admin = User::factory()->create();
+        $this->admin->roles()->attach($adminRole);
+        $this->adminToken = $this->admin->createToken('test-token')->accessToken;
+
+        $this->member = User::factory()->create();
+        $this->memberToken = $this->member->createToken('test-token')->accessToken;
+    }
+
+    private function requestOnCall(array $overrides = [])
+    {
+        return $this->bffJson('POST', '/api/v1/access-requests', $overrides + [
+            'role' => 'on-call',
+            'hours' => 4,
+            'justification' => 'Incident #42 needs a database failover',
+        ], $this->memberToken);
+    }
+
+    public function test_user_requests_a_role_and_lists_their_requests(): void
+    {
+        $this->requestOnCall()
+            ->assertStatus(201)
+            ->assertJsonPath('data.status', 'pending')
+            ->assertJsonPath('data.role.slug', 'on-call');
+
+        $this->bffJson('GET', '/api/v1/access-requests', [], $this->memberToken)
+            ->assertStatus(200)
+            ->assertJsonCount(1, 'data');
+    }
+
+    public function test_lists_requestable_roles_without_active_ones(): void
+    {
+        $response = $this->bffJson('GET', '/api/v1/access-requests/roles', [], $this->adminToken);
+
+        $response->assertStatus(200);
+        $this->assertSame(['on-call'], array_column($response->json('data'), 'slug'));
+    }
+
+    public function test_rejects_duplicate_pending_request_and_invalid_duration(): void
+    {
+        $this->requestOnCall()->assertStatus(201);
+        $this->requestOnCall()->assertStatus(409)->assertJsonPath('code', 'REQUEST_PENDING');
+
+        $this->requestOnCall(['role' => 'admin', 'hours' => AccessRequest::MAX_HOURS + 1])
+            ->assertStatus(422)
+            ->assertJsonValidationErrors('hours');
+    }
+
+    public function test_approval_grants_the_role_until_it_expires(): void
+    {
+        $id = $this->requestOnCall()->json('data.id');
+
+        $this->bffJson('GET', '/api/v1/admin/access-requests', [], $this->adminToken)
+            ->assertStatus(200)
+            ->assertJsonPath('data.0.user.id', $this->member->id);
+
+        $this->bffJson('POST', "/api/v1/admin/access-requests/{$id}/approve", [], $this->adminToken)
+            ->assertStatus(200)
+            ->assertJsonPath('data.status', 'approved')
+            ->assertJsonPath('data.reviewer.id', $this->admin->id);
+
+        $this->assertTrue($this->member->hasPermission('incidents.update'));
+
+        $this->travel(5)->hours();
+        $this->assertFalse($this->member->hasRole('on-call'));
+    }
+
+    public function test_denial_grants_nothing(): void
+    {
+        $id = $this->requestOnCall()->json('data.id');
+
+        $this->bffJson('POST', "/api/v1/admin/access-requests/{$id}/deny", [
+            'note' => 'Use the runbook instead',
+        ], $this->adminToken)->assertStatus(200)->assertJsonPath('data.status', 'denied');
+
+        $this->assertFalse($this->member->hasRole('on-call'));
+
+        $this->bffJson('POST', "/api/v1/admin/access-requests/{$id}/approve", [], $this->adminToken)
+            ->assertStatus(409)
+            ->assertJsonPath('code', 'REQUEST_NOT_PENDING');
+    }
+
+    public function test_admin_cannot_review_their_own_request(): void
+    {
+        $request = AccessRequest::create([
+            'user_id' => $this->admin->id,
+            'role_id' => Role::where('slug', 'on-call')->value('id'),
+            'hours' => 2,
+            'justification' => 'Checking the on-call dashboards',
+        ]);
+
+        $this->bffJson('POST', "/api/v1/admin/access-requests/{$request->id}/approve", [], $this->adminToken)
+            ->assertStatus(403)
+            ->assertJsonPath('code', 'SELF_REVIEW');
+    }
+
+    public function test_approval_never_shortens_a_permanent_assignment(): void
+    {
+        $request = AccessRequest::create([
+            'user_id' => $this->member->id,
+            'role_id' => Role::where('slug', 'on-call')->value('id'),
+            'hours' => 2,
+            'justification' => 'Requested before being assigned for good',
+        ]);
+        $this->member->assignRole('on-call');
+
+        $request->approve($this->admin);
+
+        $this->assertNull($this->member->roles()->first()->pivot->expires_at);
+    }
+
+    /**
+     * Demande en attente créée directement (sans passer par l'API)
+     */
+    private function pendingOnCall(int $hours = 2): AccessRequest
+    {
+        return AccessRequest::create([
+            'user_id' => $this->member->id,
+            'role_id' => Role::where('slug', 'on-call')->value('id'),
+            'hours' => $hours,
+            'justification' => 'Incident #42 needs a database failover',
+        ]);
+    }
+
+    public function test_approval_keeps_an_assignment_not_started_yet(): void
+    {
+        $request = $this->pendingOnCall();
+        $startsAt = now()->addDay()->startOfSecond();
+        $this->member->assignRole('on-call', $startsAt, $startsAt->copy()->addWeek());
+
+        $url = "/api/v1/admin/access-requests/{$request->id}/approve";
+        $this->bffJson('POST', $url, [], $this->adminToken)
+            ->assertStatus(409)
+            ->assertJsonPath('code', 'ROLE_SCHEDULED')
+            ->assertJsonPath('scheduled.starts_at', $startsAt->format(DATE_ATOM));
+
+        $pivot = $this->member->roles()->first()->pivot;
+        $this->assertEquals($startsAt->toDateTimeString(), $pivot->starts_at->toDateTimeString());
+        $this->assertFalse($this->member->hasRole('on-call'));
+        $this->assertSame(AccessRequest::STATUS_PENDING, $request->fresh()->status);
+
+        // Le modèle refuse aussi, pour les appels qui ne passent pas par l'API
+        $this->expectException(LogicException::class);
+        $request->approve($this->admin);
+    }
+
+    public function test_approval_extends_a_shorter_assignment_from_its_start(): void
+    {
+        $request = $this->pendingOnCall(4);
+        $startsAt = now()->subHour()->startOfSecond();
+        $this->member->assignRole('on-call', $startsAt, now()->addHour());
+
+        $request->approve($this->admin);
+
+        $pivot = $this->member->roles()->first()->pivot;
+        $this->assertEquals($startsAt->toDateTimeString(), $pivot->starts_at->toDateTimeString());
+        $this->assertEquals($request->expires_at->toDateTimeString(), $pivot->expires_at->toDateTimeString());
+    }
+
+    public function test_a_request_reviewed_in_the_meantime_is_not_reviewed_again(): void
+    {
+        $request = $this->pendingOnCall();
+
+        // Deux relecteurs ont chargé la demande encore en attente
+        $stale = AccessRequest::find($request->id);
+        $this->assertTrue($request->deny($this->admin, 'Use the runbook instead'));
+
+        $this->assertFalse($stale->approve($this->admin));
+        $this->assertFalse($this->member->roles()->exists());
+        $this->assertSame(AccessRequest::STATUS_DENIED, $request->fresh()->status);
+    }
+}
@@ -0,0 +1,148 @@
+<?php
+
+namespace Tests\Feature;
+
+use App\Models\Permission;
+use App\Models\Role;
+use App\Models\User;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Laravel\Passport\Passport;
+use Tests\Concerns\SignsBffRequests;
+use Tests\TestCase;
+
+/**
+ * Tests de la gestion des permissions (/api/v1/admin/permissions)
+ */
+class AdminPermissionsTest extends TestCase
+{
+    use RefreshDatabase;
+    use SignsBffRequests;
+
+    private string $token;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        config(['services.bff.id' => 'nextjs-bff-prod']);
+        config(['services.bff.secret' => 'test-secret-key-for-hmac-validation']);
+
+        Passport::ignoreRoutes();
+
+        $adminRole = Role::create(['name' => 'Administrator', 'slug' => 'admin', 'is_system' => true]);
+        $admin = User::factory()->create();
+        $admin->roles()->attach($adminRole);
+        $this->token = $admin->createToken('test-token')->accessToken;
+    }
+
+    /**
+     * Requête signée en tant qu'admin
+     */
+    private function asAdmin(string $method, string $uri, array $data = [])
+    {
+        return $this->bffJson($method, $uri, $data, $this->token);
+    }
+
+    public function test_creates_permission_with_generated_slug_and_name(): void
+    {
+        $response = $this->asAdmin('POST', '/api/v1/admin/permissions', [
+            'resource' => 'projects.tasks',
+            'action' => 'update',
+        ]);
+
+        $response->assertStatus(201);
+        $response->assertJsonPath('data.slug', 'projects.tasks.update');
+        $response->assertJsonPath('data.name', 'Update Projects.tasks');
+    }
+
+    public function test_rejects_duplicate_and_unknown_actions(): void
+    {
+        Permission::createForResource('posts', ['read']);
+
+        $this->asAdmin('POST', '/api/v1/admin/permissions', ['resource' => 'posts', 'action' => 'read'])
+            ->assertStatus(422)
+            ->assertJsonValidationErrors('action');
+
+        $this->asAdmin('POST', '/api/v1/admin/permissions', ['resource' => 'posts', 'action' => 'publish'])
+            ->assertStatus(422)
+            ->assertJsonValidationErrors('action');
+    }
+
+    public function test_rejects_invalid_resource(): void
+    {
+        $this->asAdmin('POST', '/api/v1/admin/permissions', ['resource' => 'posts..drafts', 'action' => 'read'])
+            ->assertStatus(422)
+            ->assertJsonValidationErrors('resource');
+    }
+
+    public function test_generates_crud_permissions_keeping_existing_ones(): void
+    {
+        $existing = Permission::createForResource('invoices', ['read'])->first();
+
+        $response = $this->asAdmin('POST', '/api/v1/admin/permissions/generate', ['resource' => 'invoices']);
+
+        $response->assertStatus(201);
+        $this->assertEqualsCanonicalizing(
+            ['invoices.create', 'invoices.read', 'invoices.update', 'invoices.delete'],
+            array_column($response->json('data'), 'slug')
+        );
+        $this->assertSame(4, Permission::where('resource', 'invoices')->count());
+        $this->assertNotNull($existing->fresh());
+    }
+
+    public function test_generates_given_actions_only(): void
+    {
+        $this->asAdmin('POST', '/api/v1/admin/permissions/generate', [
+            'resource' => 'reports',
+            'actions' => ['read', 'manage'],
+        ])->assertStatus(201);
+
+        $this->assertEqualsCanonicalizing(
+            ['reports.read', 'reports.manage'],
+            Permission::where('resource', 'reports')->pluck('slug')->all()
+        );
+    }
+
+    public function test_updates_name_and_description_but_not_slug(): void
+    {
+        $permission = Permission::createForResource('posts', ['read'])->first();
+
+        $response = $this->asAdmin('PUT', "/api/v1/admin/permissions/{$permission->id}", [
+            'name' => 'Read articles',
+            'description' => 'List and open articles',
+            'slug' => 'articles.read',
+        ]);
+
+        $response->assertStatus(200);
+        $permission->refresh();
+        $this->assertSame('Read articles', $permission->name);
+        $this->assertSame('List and open articles', $permission->description);
+        $this->assertSame('posts.read', $permission->slug);
+    }
+
+    public function test_deletes_permission_and_revokes_it_from_roles(): void
+    {
+        $permission = Permission::createForResource('posts', ['delete'])->first();
+        $role = Role::create(['name' => 'Editor', 'slug' => 'editor']);
+        $role->permissions()->attach($permission);
+
+        $response = $this->asAdmin('DELETE', "/api/v1/admin/permissions/{$permission->id}");
+
+        $response->assertStatus(200);
+        $response->assertJsonPath('revoked_from_roles', 1);
+        $this->assertNull($permission->fresh());
+        $this->assertFalse($role->hasPermission('posts.delete'));
+    }
+
+    public function test_lists_permissions_with_roles_count(): void
+    {
+        $permission = Permission::createForResource('posts', ['read'])->first();
+        Role::create(['name' => 'Editor', 'slug' => 'editor'])->permissions()->attach($permission);
+
+        $response = $this->asAdmin('GET', '/api/v1/admin/permissions');
+
+        $response->assertStatus(200);
+        $response->assertJsonPath('data.0.slug', 'posts.read');
+        $response->assertJsonPath('data.0.roles_count', 1);
+    }
+}
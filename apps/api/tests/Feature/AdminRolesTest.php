@@ -0,0 +1,192 @@
+<?php
+
+namespace Tests\Feature;
+
+use App\Models\Permission;
+use App\Models\Role;
+use App\Models\User;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Laravel\Passport\Passport;
+use Tests\Concerns\SignsBffRequests;
+use Tests\TestCase;
+
+/**
+ * Tests du cycle de vie des rôles (/api/v1/admin/roles)
+ */
+class AdminRolesTest extends TestCase
+{
+    use RefreshDatabase;
+    use SignsBffRequests;
+
+    private Role $adminRole;
+
+    private string $token;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        config(['services.bff.id' => 'nextjs-bff-prod']);
+        config(['services.bff.secret' => 'test-secret-key-for-hmac-validation']);
+
+        Passport::ignoreRoutes();
+
+        $this->adminRole = Role::create([
+            'name' => 'Administrator',
+            'slug' => 'admin',
+            'is_system' => true,
+            'position' => 1,
+        ]);
+
+        $admin = User::factory()->create();
+        $admin->roles()->attach($this->adminRole);
+        $this->token = $admin->createToken('test-token')->accessToken;
+    }
+
+    /**
+     * Requête signée en tant qu'admin
+     */
+    private function asAdmin(string $method, string $uri, array $data = [])
+    {
+        return $this->bffJson($method, $uri, $data, $this->token);
+    }
+
+    private function customRole(string $slug, int $position = 10): Role
+    {
+        return Role::create(['name' => ucfirst($slug), 'slug' => $slug, 'position' => $position]);
+    }
+
+    public function test_lists_roles_in_display_order_with_users_count(): void
+    {
+        $this->customRole('editor', 3);
+        $this->customRole('reviewer', 2);
+
+        $response = $this->asAdmin('GET', '/api/v1/admin/roles');
+
+        $response->assertStatus(200);
+        $this->assertSame(['admin', 'reviewer', 'editor'], array_column($response->json('data'), 'slug'));
+        $response->assertJsonPath('data.0.users_count', 1);
+        $response->assertJsonPath('data.0.is_system', true);
+    }
+
+    public function test_creates_role_at_end_of_list(): void
+    {
+        $response = $this->asAdmin('POST', '/api/v1/admin/roles', [
+            'name' => 'Editor',
+            'slug' => 'editor',
+        ]);
+
+        $response->assertStatus(201);
+        $response->assertJsonPath('data.slug', 'editor');
+        $response->assertJsonPath('data.position', 2);
+    }
+
+    public function test_updates_name_and_description(): void
+    {
+        $role = $this->customRole('editor');
+
+        $response = $this->asAdmin('PUT', "/api/v1/admin/roles/{$role->id}", [
+            'name' => 'Content editor',
+            'description' => 'Writes articles',
+        ]);
+
+        $response->assertStatus(200);
+        $this->assertSame('Content editor', $role->fresh()->name);
+        $this->assertSame('Writes articles', $role->fresh()->description);
+    }
+
+    public function test_rejects_slug_change_of_system_role(): void
+    {
+        $response = $this->asAdmin('PUT', "/api/v1/admin/roles/{$this->adminRole->id}", [
+            'name' => 'Superuser',
+            'slug' => 'superuser',
+        ]);
+
+        $response->assertStatus(422);
+        $response->assertJsonValidationErrors('slug');
+        $this->assertSame('admin', $this->adminRole->fresh()->slug);
+    }
+
+    public function test_clones_role_with_its_permissions_but_not_its_users(): void
+    {
+        $role = $this->customRole('editor');
+        $permission = Permission::create([
+            'name' => 'Update posts',
+            'slug' => 'posts.update',
+            'resource' => 'posts',
+            'action' => 'update',
+        ]);
+        $role->permissions()->attach($permission);
+        User::factory()->create()->roles()->attach($role);
+
+        $response = $this->asAdmin('POST', "/api/v1/admin/roles/{$role->id}/clone", [
+            'name' => 'Senior editor',
+            'slug' => 'senior-editor',
+        ]);
+
+        $response->assertStatus(201);
+        $clone = Role::where('slug', 'senior-editor')->firstOrFail();
+        $this->assertTrue($clone->hasPermission('posts.update'));
+        $this->assertSame(0, $clone->users()->count());
+    }
+
+    public function test_never_deletes_system_role(): void
+    {
+        $response = $this->asAdmin('DELETE', "/api/v1/admin/roles/{$this->adminRole->id}");
+
+        $response->assertStatus(403);
+        $response->assertJsonPath('code', 'SYSTEM_ROLE');
+        $this->assertNotNull($this->adminRole->fresh());
+    }
+
+    public function test_blocks_deletion_of_assigned_role_without_reassignment(): void
+    {
+        $role = $this->customRole('editor');
+        User::factory()->count(2)->create()->each(fn (User $user) => $user->roles()->attach($role));
+
+        $response = $this->asAdmin('DELETE', "/api/v1/admin/roles/{$role->id}");
+
+        $response->assertStatus(409);
+        $response->assertJsonPath('code', 'ROLE_IN_USE');
+        $response->assertJsonPath('users_count', 2);
+        $this->assertNotNull($role->fresh());
+    }
+
+    public function test_reassigns_users_before_deleting_role(): void
+    {
+        $role = $this->customRole('editor');
+        $target = $this->customRole('writer');
+        $user = User::factory()->create();
+        $user->roles()->attach($role);
+
+        $response = $this->asAdmin('DELETE', "/api/v1/admin/roles/{$role->id}?reassign_to=writer");
+
+        $response->assertStatus(200);
+        $response->assertJsonPath('reassigned', 1);
+        $this->assertNull($role->fresh());
+        $this->assertTrue($user->fresh()->hasRole('writer'));
+        $this->assertTrue($target->users()->whereKey($user->id)->exists());
+    }
+
+    public function test_deletes_unassigned_role(): void
+    {
+        $role = $this->customRole('editor');
+
+        $this->asAdmin('DELETE', "/api/v1/admin/roles/{$role->id}")->assertStatus(200);
+
+        $this->assertNull($role->fresh());
+    }
+
+    public function test_reorders_roles(): void
+    {
+        $editor = $this->customRole('editor', 2);
+        $writer = $this->customRole('writer', 3);
+
+        $response = $this->asAdmin('PUT', '/api/v1/admin/roles/order', [
+            'roles' => [$writer->id, $this->adminRole->id, $editor->id],
+        ]);
+
+        $response->assertStatus(200);
+        $this->assertSame(['writer', 'admin', 'editor'], array_column($response->json('data'), 'slug'));
+    }
+}
@@ -0,0 +1,117 @@
+<?php
+
+namespace Tests\Feature;
+
+use App\Models\Role;
+use App\Models\User;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Laravel\Passport\Passport;
+use Tests\Concerns\SignsBffRequests;
+use Tests\TestCase;
+
+/**
+ * Tests de la liste paginée des utilisateurs (GET /api/v1/admin/users)
+ */
+class AdminUsersListingTest extends TestCase
+{
+    use RefreshDatabase;
+    use SignsBffRequests;
+
+    private User $admin;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        config(['services.bff.id' => 'nextjs-bff-prod']);
+        config(['services.bff.secret' => 'test-secret-key-for-hmac-validation']);
+
+        Passport::ignoreRoutes();
+
+        $adminRole = Role::firstOrCreate(
+            ['slug' => 'admin'],
+            ['name' => 'Administrator', 'description' => 'Admin user']
+        );
+
+        $this->admin = User::factory()->create(['name' => 'Admin', 'email' => 'admin@example.com']);
+        $this->admin->roles()->attach($adminRole);
+    }
+
+    /**
+     * Appelle la liste signée (HMAC v1) en tant qu'admin
+     */
+    private function listUsers(array $query = [])
+    {
+        $url = '/api/v1/admin/users' . ($query ? '?' . http_build_query($query) : '');
+
+        return $this->bffJson('GET', $url, [], $this->admin->createToken('test-token')->accessToken);
+    }
+
+    public function test_returns_paginated_response_shape(): void
+    {
+        User::factory()->count(20)->create();
+
+        $response = $this->listUsers(['per_page' => 5, 'page' => 2]);
+
+        $response->assertStatus(200);
+        $response->assertJsonStructure([
+            'data' => ['*' => ['id', 'name', 'email', 'roles']],
+            'meta' => ['current_page', 'last_page', 'per_page', 'total'],
+            'links' => ['first', 'last', 'prev', 'next'],
+        ]);
+        $response->assertJsonCount(5, 'data');
+        $response->assertJsonPath('meta.current_page', 2);
+        $response->assertJsonPath('meta.per_page', 5);
+        $response->assertJsonPath('meta.total', 21);
+        $response->assertJsonPath('meta.last_page', 5);
+    }
+
+    public function test_searches_name_and_email(): void
+    {
+        User::factory()->create(['name' => 'Alice Martin', 'email' => 'alice@example.com']);
+        User::factory()->create(['name' => 'Bob Durand', 'email' => 'bob@martin.dev']);
+        User::factory()->create(['name' => 'Carol', 'email' => 'carol@example.com']);
+
+        $response = $this->listUsers(['search' => 'martin', 'sort' => 'name', 'direction' => 'asc']);
+
+        $response->assertStatus(200);
+        $response->assertJsonPath('meta.total', 2);
+        $response->assertJsonPath('data.0.name', 'Alice Martin');
+        $response->assertJsonPath('data.1.name', 'Bob Durand');
+    }
+
+    public function test_filters_by_role(): void
+    {
+        $editor = Role::firstOrCreate(['slug' => 'editor'], ['name' => 'Editor']);
+        User::factory()->count(3)->create();
+        $user = User::factory()->create();
+        $user->roles()->attach($editor);
+
+        $response = $this->listUsers(['role' => 'editor']);
+
+        $response->assertStatus(200);
+        $response->assertJsonPath('meta.total', 1);
+        $response->assertJsonPath('data.0.id', $user->id);
+    }
+
+    public function test_sorts_by_column(): void
+    {
+        User::factory()->create(['email' => 'zoe@example.com']);
+        User::factory()->create(['email' => 'aaron@example.com']);
+
+        $response = $this->listUsers(['sort' => 'email', 'direction' => 'asc']);
+
+        $response->assertStatus(200);
+        $response->assertJsonPath('data.0.email', 'aaron@example.com');
+
+        $response = $this->listUsers(['sort' => 'email', 'direction' => 'desc']);
+
+        $response->assertJsonPath('data.0.email', 'zoe@example.com');
+    }
+
+    public function test_rejects_unknown_sort_column_and_oversized_pages(): void
+    {
+        $this->listUsers(['sort' => 'password'])->assertStatus(422);
+        $this->listUsers(['per_page' => 1000])->assertStatus(422);
+    }
+}
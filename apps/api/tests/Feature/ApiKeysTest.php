@@ -0,0 +1,213 @@
+<?php
+
+namespace Tests\Feature;
+
+use App\Http\Controllers\ApiKeyController;
+use App\Models\ApiKey;
+use App\Models\Permission;
+use App\Models\Role;
+use App\Models\User;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Laravel\Passport\Passport;
+use Tests\Concerns\SignsBffRequests;
+use Tests\TestCase;
+
+/**
+ * Tests des clés d'API personnelles (création, scopes, usage, révocation)
+ */
+class ApiKeysTest extends TestCase
+{
+    use RefreshDatabase;
+    use SignsBffRequests;
+
+    private Role $writer;
+
+    private User $member;
+
+    private string $token;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        config(['services.bff.id' => 'nextjs-bff-prod']);
+        config(['services.bff.secret' => 'test-secret-key-for-hmac-validation']);
+
+        Passport::ignoreRoutes();
+
+        Role::create(['name' => 'Administrator', 'slug' => 'admin', 'is_system' => true]);
+
+        $this->writer = Role::create(['name' => 'Writer', 'slug' => 'writer']);
+        $this->writer->permissions()->attach(Permission::createForResource('posts', ['read', 'create'])->pluck('id'));
+        $this->writer->permissions()->attach(Permission::createForResource('api-keys', ['read', 'create', 'delete'])->pluck('id'));
+
+        $this->member = User::factory()->create();
+        $this->member->assignRole($this->writer);
+        $this->token = $this->member->createToken('test-token')->accessToken;
+    }
+
+    private function withApiKey(string $plain): static
+    {
+        return $this->withHeaders(['Authorization' => 'ApiKey ' . $plain]);
+    }
+
+    public function test_creates_a_key_shown_once_and_stored_hashed(): void
+    {
+        $response = $this->bffJson('POST', '/api/v1/api-keys', [
+            'name' => 'CI',
+            'scopes' => ['posts.read'],
+        ], $this->token);
+
+        $response->assertStatus(201)->assertJsonPath('data.scopes', ['posts.read']);
+        $plain = $response->json('data.key');
+
+        $this->assertStringStartsWith(ApiKey::PREFIX, $plain);
+        $this->assertSame(hash('sha256', $plain), ApiKey::sole()->key_hash);
+
+        $listing = $this->bffJson('GET', '/api/v1/api-keys', [], $this->token);
+        $listing->assertStatus(200)->assertJsonCount(1, 'data');
+        $this->assertArrayNotHasKey('key', $listing->json('data.0'));
+        $this->assertArrayNotHasKey('key_hash', $listing->json('data.0'));
+        $this->assertSame(substr($plain, 0, ApiKey::VISIBLE_LENGTH), $listing->json('data.0.prefix'));
+    }
+
+    public function test_scopes_cannot_exceed_the_owner_permissions(): void
+    {
+        Permission::createForResource('users', ['delete']);
+
+        $this->bffJson('POST', '/api/v1/api-keys', [
+            'name' => 'Too much',
+            'scopes' => ['posts.read', 'users.delete'],
+        ], $this->token)->assertStatus(422)->assertJsonValidationErrors('scopes.1');
+    }
+
+    public function test_key_authenticates_within_its_scopes_and_records_usage(): void
+    {
+        [$apiKey, $plain] = ApiKey::generate($this->member, 'CI', ['posts.read']);
+        $this->asBffClient('203.0.113.7', 'ci-runner/1.0');
+
+        $this->withApiKey($plain)->bffJson('GET', '/api/v1/posts')->assertStatus(200);
+        // Le propriétaire a posts.create, pas la clé
+        $this->withApiKey($plain)->bffJson('POST', '/api/v1/posts')->assertStatus(403);
+
+        $this->assertNotNull($apiKey->fresh()->last_used_at);
+        // IP du client transmise par le BFF, pas celle du BFF
+        $this->assertSame('203.0.113.7', $apiKey->fresh()->last_used_ip);
+    }
+
+    public function test_key_follows_the_owner_permissions(): void
+    {
+        [, $plain] = ApiKey::generate($this->member, 'CI', ['posts.read']);
+
+        $this->member->removeRole($this->writer);
+
+        $this->withApiKey($plain)->bffJson('GET', '/api/v1/posts')->assertStatus(403);
+    }
+
+    public function test_expired_or_unknown_keys_are_rejected(): void
+    {
+        [, $plain] = ApiKey::generate($this->member, 'CI', ['posts.read'], now()->addHour());
+
+        $this->travel(2)->hours();
+
+        $this->withApiKey($plain)->bffJson('GET', '/api/v1/posts')->assertStatus(401);
+        $this->withApiKey(ApiKey::PREFIX . 'unknown')->bffJson('GET', '/api/v1/posts')->assertStatus(401);
+    }
+
+    public function test_key_cannot_manage_keys_or_use_role_restricted_routes(): void
+    {
+        $this->member->assignRole('admin');
+        [, $plain] = ApiKey::generate($this->member, 'CI', ['posts.read']);
+
+        $this->withApiKey($plain)->bffJson('GET', '/api/v1/api-keys')->assertStatus(401);
+        $this->withApiKey($plain)->bffJson('GET', '/api/v1/admin/roles')->assertStatus(403);
+    }
+
+    public function test_revokes_only_own_keys(): void
+    {
+        [$apiKey, $plain] = ApiKey::generate($this->member, 'CI', ['posts.read']);
+        [$otherKey] = ApiKey::generate(User::factory()->create(), 'Other', []);
+
+        $this->bffJson('DELETE', "/api/v1/api-keys/{$otherKey->id}", [], $this->token)->assertStatus(404);
+        $this->bffJson('DELETE', "/api/v1/api-keys/{$apiKey->id}", [], $this->token)->assertStatus(200);
+
+        $this->assertModelMissing($apiKey);
+        $this->assertModelExists($otherKey);
+
+        $this->flushHeaders();
+        $this->withApiKey($plain)->bffJson('GET', '/api/v1/posts')->assertStatus(401);
+    }
+
+    public function test_creates_a_key_with_its_own_rate_limit(): void
+    {
+        $this->bffJson('POST', '/api/v1/api-keys', [
+            'name' => 'CI',
+            'scopes' => ['posts.read'],
+            'rate_limit' => 120,
+        ], $this->token)->assertStatus(201)->assertJsonPath('data.rate_limit', 120);
+
+        $this->bffJson('POST', '/api/v1/api-keys', [
+            'name' => 'Greedy',
+            'scopes' => ['posts.read'],
+            'rate_limit' => ApiKeyController::MAX_RATE_LIMIT + 1,
+        ], $this->token)->assertStatus(422)->assertJsonValidationErrors('rate_limit');
+    }
+
+    public function test_verify_returns_the_scopes_the_owner_still_holds(): void
+    {
+        [$apiKey, $plain] = ApiKey::generate($this->member, 'CI', ['posts.read', 'users.read']);
+
+        $this->bffJson('POST', '/api/v1/auth/api-key', ['key' => $plain])
+            ->assertStatus(200)
+            ->assertJsonPath('data.id', $apiKey->id)
+            ->assertJsonPath('data.scopes', ['posts.read'])
+            ->assertJsonPath('data.rate_limit', config('services.api_keys.rate_limit'));
+
+        // La vérification n'est pas une utilisation
+        $this->assertSame(0, $apiKey->fresh()->usage_count);
+
+        $this->bffJson('POST', '/api/v1/auth/api-key', ['key' => ApiKey::PREFIX . 'unknown'])
+            ->assertStatus(401)
+            ->assertJsonPath('code', 'INVALID_API_KEY');
+    }
+
+    public function test_bff_forwarded_identity_authenticates_within_scopes(): void
+    {
+        [$apiKey] = ApiKey::generate($this->member, 'CI', ['posts.read']);
+
+        $this->withHeaders(['Authorization' => "BffApiKey {$apiKey->id}"])
+            ->bffJson('GET', '/api/v1/posts')
+            ->assertStatus(200);
+        $this->withHeaders(['Authorization' => "BffApiKey {$apiKey->id}"])
+            ->bffJson('POST', '/api/v1/posts')
+            ->assertStatus(403);
+
+        $this->assertSame(2, $apiKey->fresh()->usage_count);
+
+        $apiKey->delete();
+        $this->withHeaders(['Authorization' => "BffApiKey {$apiKey->id}"])
+            ->bffJson('GET', '/api/v1/posts')
+            ->assertStatus(401);
+    }
+
+    public function test_each_key_has_its_own_rate_limit(): void
+    {
+        [$limited, $plain] = ApiKey::generate($this->member, 'CI', ['posts.read'], rateLimit: 2);
+        [, $otherPlain] = ApiKey::generate($this->member, 'Other', ['posts.read']);
+
+        $this->withApiKey($plain)->bffJson('GET', '/api/v1/posts')
+            ->assertStatus(200)
+            ->assertHeader('X-RateLimit-Limit', 2);
+        $this->withApiKey($plain)->bffJson('GET', '/api/v1/posts')->assertStatus(200);
+        $this->withApiKey($plain)->bffJson('GET', '/api/v1/posts')
+            ->assertStatus(429)
+            ->assertJsonPath('code', 'API_KEY_RATE_LIMITED')
+            ->assertHeader('Retry-After');
+
+        $this->withApiKey($otherPlain)->bffJson('GET', '/api/v1/posts')->assertStatus(200);
+
+        $limited->refresh();
+        $this->assertSame(3, $limited->usage_count);
+        $this->assertSame(1, $limited->throttled_count);
+    }
+}
@@ -0,0 +1,222 @@
+<?php
+
+namespace Tests\Feature;
+
+use App\Models\AuditLog;
+use App\Models\Permission;
+use App\Models\Role;
+use App\Models\User;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Laravel\Passport\Passport;
+use LogicException;
+use Tests\Concerns\SignsBffRequests;
+use Tests\TestCase;
+
+/**
+ * Tests du journal d'audit (enregistrement, consultation, export)
+ */
+class AuditLogTest extends TestCase
+{
+    use RefreshDatabase;
+    use SignsBffRequests;
+
+    private User $admin;
+
+    private User $member;
+
+    private string $token;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        config(['services.bff.id' => 'nextjs-bff-prod']);
+        config(['services.bff.secret' => 'test-secret-key-for-hmac-validation']);
+
+        Passport::ignoreRoutes();
+
+        $adminRole = Role::create(['name' => 'Administrator', 'slug' => 'admin', 'is_system' => true]);
+        Role::create(['name' => 'Editor', 'slug' => 'editor']);
+
+        $this->admin = User::factory()->create(['email' => 'admin@example.com']);
+        $this->admin->roles()->attach($adminRole);
+        $this->token = $this->admin->createToken('test-token')->accessToken;
+
+        $this->member = User::factory()->create(['email' => 'member@example.com']);
+    }
+
+    public function test_role_assignment_and_removal_are_recorded(): void
+    {
+        $this->asBffClient('203.0.113.7', 'Mozilla/5.0 (X11; Linux x86_64)');
+
+        $this->bffJson('POST', "/api/v1/admin/users/{$this->member->id}/roles", [
+            'role' => 'editor',
+        ], $this->token)->assertStatus(200);
+
+        $editorId = Role::where('slug', 'editor')->value('id');
+        $this->bffJson('DELETE', "/api/v1/admin/users/{$this->member->id}/roles/{$editorId}", [], $this->token)
+            ->assertStatus(200);
+
+        $assigned = AuditLog::where('action', AuditLog::ROLE_ASSIGNED)->sole();
+        $this->assertSame($this->admin->id, $assigned->actor_id);
+        $this->assertSame('user', $assigned->target_type);
+        $this->assertSame($this->member->id, $assigned->target_id);
+        $this->assertSame('member@example.com', $assigned->target_label);
+        $this->assertSame('editor', $assigned->new_values['role']);
+        $this->assertNull($assigned->old_values);
+        $this->assertNotNull($assigned->request_id);
+        $this->assertSame('203.0.113.7', $assigned->ip_address);
+        $this->assertSame('Mozilla/5.0 (X11; Linux x86_64)', $assigned->user_agent);
+
+        $removed = AuditLog::where('action', AuditLog::ROLE_REMOVED)->sole();
+        $this->assertSame('editor', $removed->old_values['role']);
+    }
+
+    public function test_role_permission_sync_records_before_and_after(): void
+    {
+        $editor = Role::where('slug', 'editor')->first();
+        [$read, $update] = Permission::createForResource('posts', ['read', 'update']);
+        $editor->permissions()->attach($read);
+
+        $this->bffJson('POST', "/api/v1/admin/roles/{$editor->id}/permissions", [
+            'permissions' => [$update->id],
+        ], $this->token)->assertStatus(200);
+
+        $log = AuditLog::where('action', AuditLog::ROLE_PERMISSIONS_SYNCED)->sole();
+        $this->assertSame(['permissions' => ['posts.read']], $log->old_values);
+        $this->assertSame(['permissions' => ['posts.update']], $log->new_values);
+        $this->assertSame('editor', $log->target_label);
+    }
+
+    public function test_role_creation_is_recorded(): void
+    {
+        $this->bffJson('POST', '/api/v1/admin/roles', [
+            'name' => 'Support',
+            'slug' => 'support',
+        ], $this->token)->assertStatus(201);
+
+        $log = AuditLog::where('action', AuditLog::ROLE_CREATED)->sole();
+        $this->assertSame('support', $log->new_values['slug']);
+    }
+
+    public function test_logins_logouts_and_failed_logins_are_recorded(): void
+    {
+        $this->bffJson('POST', '/api/v1/auth/login', [
+            'email' => 'member@example.com',
+            'password' => 'wrong-password',
+        ])->assertStatus(401)->assertJsonPath('code', 'INVALID_CREDENTIALS');
+
+        $token = $this->bffJson('POST', '/api/v1/auth/login', [
+            'email' => 'member@example.com',
+            'password' => 'password',
+        ])->assertStatus(200)->json('data.access_token');
+
+        $this->bffJson('POST', '/api/v1/auth/logout', [], $token)->assertStatus(200);
+
+        $failed = AuditLog::where('action', AuditLog::AUTH_LOGIN_FAILED)->sole();
+        $this->assertNull($failed->actor_id);
+        $this->assertSame($this->member->id, $failed->target_id);
+
+        $this->assertSame($this->member->id, AuditLog::where('action', AuditLog::AUTH_LOGIN)->sole()->actor_id);
+        $this->assertSame($this->member->id, AuditLog::where('action', AuditLog::AUTH_LOGOUT)->sole()->actor_id);
+    }
+
+    public function test_client_headers_are_ignored_unless_signed(): void
+    {
+        // Signature v1 : les en-têtes client ne sont pas couverts
+        $this->withHeaders([
+            'X-BFF-Client-IP' => '198.51.100.1',
+            'X-BFF-Client-User-Agent' => 'forged',
+        ])->bffJson('POST', '/api/v1/admin/roles', [
+            'name' => 'Support',
+            'slug' => 'support',
+        ], $this->token)->assertStatus(201);
+
+        $log = AuditLog::where('action', AuditLog::ROLE_CREATED)->sole();
+        $this->assertNull($log->ip_address);
+        $this->assertNull($log->user_agent);
+    }
+
+    public function test_failed_signature_checks_are_recorded(): void
+    {
+        $this->getJson('/api/v1/me')->assertStatus(403);
+
+        $log = AuditLog::where('action', AuditLog::BFF_SIGNATURE_FAILED)->sole();
+        $this->assertNull($log->actor_id);
+        $this->assertSame('api/v1/me', $log->context['path']);
+        // Requête non vérifiée : IP de la connexion
+        $this->assertSame('127.0.0.1', $log->ip_address);
+    }
+
+    public function test_failed_signature_checks_are_recorded_once_per_ip_and_minute(): void
+    {
+        for ($i = 0; $i < 5; $i++) {
+            $this->getJson('/api/v1/me')->assertStatus(403);
+        }
+
+        $this->assertSame(1, AuditLog::where('action', AuditLog::BFF_SIGNATURE_FAILED)->count());
+
+        $this->travel(61)->seconds();
+        $this->getJson('/api/v1/me')->assertStatus(403);
+
+        $this->assertSame(2, AuditLog::where('action', AuditLog::BFF_SIGNATURE_FAILED)->count());
+    }
+
+    public function test_admin_lists_and_filters_entries(): void
+    {
+        AuditLog::record(AuditLog::ROLE_CREATED, Role::where('slug', 'editor')->first(), actor: $this->admin);
+        AuditLog::record(AuditLog::AUTH_LOGIN, $this->member, actor: $this->member);
+
+        $this->bffJson('GET', '/api/v1/admin/audit-logs?action=auth.login', [], $this->token)
+            ->assertStatus(200)
+            ->assertJsonPath('meta.total', 1)
+            ->assertJsonPath('data.0.actor.email', 'member@example.com');
+
+        $this->bffJson('GET', '/api/v1/admin/audit-logs?search=editor', [], $this->token)
+            ->assertStatus(200)
+            ->assertJsonPath('meta.total', 1)
+            ->assertJsonPath('data.0.action', AuditLog::ROLE_CREATED);
+    }
+
+    public function test_non_admin_cannot_read_the_audit_log(): void
+    {
+        $token = $this->member->createToken('test-token')->accessToken;
+
+        $this->bffJson('GET', '/api/v1/admin/audit-logs', [], $token)->assertStatus(403);
+    }
+
+    public function test_exports_csv_and_json(): void
+    {
+        AuditLog::record(AuditLog::AUTH_LOGIN, $this->member, context: ['method' => 'password'], actor: $this->member);
+
+        $csv = $this->bffJson('GET', '/api/v1/admin/audit-logs/export?format=csv', [], $this->token);
+        $csv->assertStatus(200);
+        $this->assertStringContainsString('text/csv', $csv->headers->get('Content-Type'));
+
+        $lines = array_filter(explode("\n", $csv->streamedContent()));
+        $this->assertCount(2, $lines);
+        $this->assertStringStartsWith('id,created_at,action', $lines[0]);
+        $this->assertStringContainsString('auth.login', $lines[1]);
+
+        $json = $this->bffJson('GET', '/api/v1/admin/audit-logs/export?format=json', [], $this->token);
+        $json->assertStatus(200);
+        $entries = json_decode($json->streamedContent(), true);
+        $this->assertCount(1, $entries);
+        $this->assertSame(['method' => 'password'], $entries[0]['context']);
+    }
+
+    public function test_entries_cannot_be_modified_or_deleted(): void
+    {
+        $log = AuditLog::record(AuditLog::AUTH_LOGIN, $this->member, actor: $this->member);
+
+        try {
+            $log->update(['action' => AuditLog::AUTH_LOGOUT]);
+            $this->fail('An audit entry was modified.');
+        } catch (LogicException) {
+            $this->assertSame(AuditLog::AUTH_LOGIN, $log->fresh()->action);
+        }
+
+        $this->expectException(LogicException::class);
+        $log->delete();
+    }
+}
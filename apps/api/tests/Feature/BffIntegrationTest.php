@@ -4,6 +4,7 @@
 
 use App\Models\User;
 use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Str;
 use Laravel\Passport\Passport;
 use Tests\TestCase;
 
@@ -29,10 +30,10 @@ protected function setUp(): void
     /**
      * Génère une signature HMAC valide pour les tests
      */
-    private function generateValidSignature(string $timestamp, string $method, string $path, ?string $body = null): string
+    private function generateValidSignature(string $timestamp, string $nonce, string $method, string $path, ?string $body = null): string
     {
         $bodyHash = $body ? hash('sha256', $body) : '';
-        $payload = "{$timestamp}:{$method}:{$path}:{$bodyHash}";
+        $payload = "{$timestamp}:{$nonce}:{$method}:{$path}:{$bodyHash}";
 
         return hash_hmac('sha256', $payload, config('services.bff.secret'));
     }
@@ -43,11 +44,13 @@ private function generateValidSignature(string $timestamp, string $method, strin
     private function withBffHeaders($method, $path, $body = null): array
     {
         $timestamp = (string) now()->timestamp;
-        $signature = $this->generateValidSignature($timestamp, $method, $path, $body);
+        $nonce = (string) Str::uuid();
+        $signature = $this->generateValidSignature($timestamp, $nonce, $method, $path, $body);
 
         return [
             'X-BFF-Id' => config('services.bff.id'),
             'X-BFF-Timestamp' => $timestamp,
+            'X-BFF-Nonce' => $nonce,
             'X-BFF-Signature' => $signature,
         ];
     }
@@ -66,7 +69,7 @@ public function test_v1_routes_reject_requests_without_hmac(): void
 
         $response->assertStatus(403);
         $response->assertJson([
-            'error' => 'Missing required headers: X-BFF-Id, X-BFF-Timestamp, X-BFF-Signature',
+            'error' => 'Missing required headers: X-BFF-Id, X-BFF-Timestamp, X-BFF-Nonce, X-BFF-Signature',
             'message' => 'BFF authentication failed',
         ]);
     }
@@ -171,14 +174,10 @@ public function test_v1_admin_users_with_admin_user(): void
         $response->assertStatus(200);
         $response->assertJsonStructure([
             'data' => [
-                'data' => [
-                    '*' => ['id', 'email', 'name', 'roles']
-                ],
-                'current_page',
-                'last_page',
-                'per_page',
-                'total'
-            ]
+                '*' => ['id', 'email', 'name', 'roles']
+            ],
+            'meta' => ['current_page', 'last_page', 'per_page', 'total'],
+            'links' => ['first', 'last', 'prev', 'next'],
         ]);
     }
 
@@ -199,12 +198,14 @@ public function test_v1_routes_with_post_body(): void
 
         $bodyHash = hash('sha256', $sortedBody);
         $timestamp = (string) now()->timestamp;
-        $payload = "{$timestamp}:POST:/api/v1/auth/logout:{$bodyHash}";
+        $nonce = (string) Str::uuid();
+        $payload = "{$timestamp}:{$nonce}:POST:/api/v1/auth/logout:{$bodyHash}";
         $signature = hash_hmac('sha256', $payload, config('services.bff.secret'));
 
         $headers = [
             'X-BFF-Id' => config('services.bff.id'),
             'X-BFF-Timestamp' => $timestamp,
+            'X-BFF-Nonce' => $nonce,
             'X-BFF-Signature' => $signature,
             'Authorization' => 'Bearer ' . $token,
         ];
@@ -249,11 +250,13 @@ public function test_timestamp_validation_boundary(): void
     {
         // Timestamp à la limite exacte (5 minutes)
         $timestamp = (string) now()->addSeconds(300)->timestamp;
-        $signature = $this->generateValidSignature($timestamp, 'GET', '/api/v1/me');
+        $nonce = (string) Str::uuid();
+        $signature = $this->generateValidSignature($timestamp, $nonce, 'GET', '/api/v1/me');
 
         $headers = [
             'X-BFF-Id' => config('services.bff.id'),
             'X-BFF-Timestamp' => $timestamp,
+            'X-BFF-Nonce' => $nonce,
             'X-BFF-Signature' => $signature,
         ];
 
@@ -267,11 +270,13 @@ public function test_timestamp_validation_one_second_over(): void
     {
         // Timestamp une seconde au-delà de la limite
         $timestamp = (string) now()->addSeconds(301)->timestamp;
-        $signature = $this->generateValidSignature($timestamp, 'GET', '/api/v1/me');
+        $nonce = (string) Str::uuid();
+        $signature = $this->generateValidSignature($timestamp, $nonce, 'GET', '/api/v1/me');
 
         $headers = [
             'X-BFF-Id' => config('services.bff.id'),
             'X-BFF-Timestamp' => $timestamp,
+            'X-BFF-Nonce' => $nonce,
             'X-BFF-Signature' => $signature,
         ];
 
@@ -279,4 +284,24 @@ public function test_timestamp_validation_one_second_over(): void
 
         $response->assertStatus(403);
     }
+
+    public function test_replayed_request_is_rejected(): void
+    {
+        $user = User::factory()->create();
+        $token = $user->createToken('test-token')->accessToken;
+
+        $headers = $this->withBffHeaders('GET', '/api/v1/me');
+        $headers['Authorization'] = 'Bearer ' . $token;
+
+        $this->withHeaders($headers)->getJson('/api/v1/me')->assertStatus(200);
+
+        // Même requête signée rejouée à l'identique
+        $response = $this->withHeaders($headers)->getJson('/api/v1/me');
+
+        $response->assertStatus(403);
+        $response->assertJson([
+            'error' => 'Replay detected',
+            'message' => 'BFF authentication failed',
+        ]);
+    }
 }
@@ -0,0 +1,74 @@
+<?php
+
+namespace Tests\Feature;
+
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Collection;
+use Laravel\Passport\Passport;
+use Tests\Concerns\SignsBffRequests;
+use Tests\TestCase;
+
+/**
+ * Tests de la liste des routes servie au BFF (contrôle de cohérence du registre)
+ */
+class BffRoutesTest extends TestCase
+{
+    use RefreshDatabase;
+    use SignsBffRequests;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        config(['services.bff.id' => 'nextjs-bff-prod']);
+        config(['services.bff.secret' => 'test-secret-key-for-hmac-validation']);
+
+        Passport::ignoreRoutes();
+    }
+
+    /**
+     * Routes renvoyées, indexées par « MÉTHODE chemin »
+     */
+    private function routes(): Collection
+    {
+        $response = $this->bffJson('GET', '/api/v1/bff/routes')->assertStatus(200);
+
+        return collect($response->json('data'))
+            ->keyBy(fn (array $route) => $route['method'] . ' ' . $route['path']);
+    }
+
+    public function test_describes_auth_and_access_from_the_route_middleware(): void
+    {
+        $routes = $this->routes();
+
+        $this->assertSame('public', $routes['POST api/v1/auth/login']['auth']);
+        $this->assertSame('public', $routes['POST api/v1/auth/api-key']['auth']);
+        $this->assertSame('public', $routes['POST api/v1/auth/refresh']['auth']);
+
+        $this->assertSame('session', $routes['POST api/v1/auth/logout']['auth']);
+        $this->assertSame('session', $routes['DELETE api/v1/api-keys/{apiKey}']['auth']);
+        $this->assertSame(['api-keys.delete'], $routes['DELETE api/v1/api-keys/{apiKey}']['permissions']);
+
+        $this->assertSame('authenticated', $routes['GET api/v1/me']['auth']);
+        $this->assertSame(['admin'], $routes['GET api/v1/admin/users']['roles']);
+        $this->assertSame([], $routes['GET api/v1/admin/users']['permissions']);
+        $this->assertSame(['posts.create'], $routes['POST api/v1/posts']['permissions']);
+    }
+
+    public function test_only_lists_signed_routes(): void
+    {
+        $routes = $this->routes();
+
+        // Routes OAuth et de debug : hors du groupe bff.hmac
+        $this->assertFalse($routes->has('GET api/auth/{provider}/redirect'));
+        $this->assertFalse($routes->has('GET api/v1/debug/hmac'));
+
+        // HEAD accompagne chaque GET, il n'est pas listé
+        $this->assertFalse($routes->contains(fn (array $route) => $route['method'] === 'HEAD'));
+    }
+
+    public function test_requires_a_bff_signature(): void
+    {
+        $this->getJson('/api/v1/bff/routes')->assertStatus(403);
+    }
+}
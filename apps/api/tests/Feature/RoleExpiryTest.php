@@ -0,0 +1,135 @@
+<?php
+
+namespace Tests\Feature;
+
+use App\Models\Permission;
+use App\Models\Role;
+use App\Models\User;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Laravel\Passport\Passport;
+use Tests\Concerns\SignsBffRequests;
+use Tests\TestCase;
+
+/**
+ * Tests des attributions de rôles limitées dans le temps (starts_at / expires_at)
+ */
+class RoleExpiryTest extends TestCase
+{
+    use RefreshDatabase;
+    use SignsBffRequests;
+
+    private Role $onCall;
+
+    private User $member;
+
+    private string $token;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        config(['services.bff.id' => 'nextjs-bff-prod']);
+        config(['services.bff.secret' => 'test-secret-key-for-hmac-validation']);
+
+        Passport::ignoreRoutes();
+
+        $adminRole = Role::create(['name' => 'Administrator', 'slug' => 'admin', 'is_system' => true]);
+        $admin = User::factory()->create();
+        $admin->roles()->attach($adminRole);
+        $this->token = $admin->createToken('test-token')->accessToken;
+
+        $this->onCall = Role::create(['name' => 'On call', 'slug' => 'on-call']);
+        $this->onCall->permissions()->attach(Permission::createForResource('incidents', ['manage']));
+
+        $this->member = User::factory()->create();
+    }
+
+    public function test_assignment_grants_access_only_inside_its_window(): void
+    {
+        $this->member->assignRole('on-call', now()->addHour(), now()->addHours(3));
+
+        $this->assertFalse($this->member->hasRole('on-call'));
+        $this->assertFalse($this->member->hasPermission('incidents.update'));
+
+        $this->travel(2)->hours();
+        $this->assertTrue($this->member->hasRole('on-call'));
+        $this->assertTrue($this->member->hasPermission('incidents.update'));
+
+        $this->travel(2)->hours();
+        $this->assertFalse($this->member->hasRole('on-call'));
+        $this->assertFalse($this->member->hasPermission('incidents.update'));
+    }
+
+    public function test_reassigning_a_role_replaces_its_window(): void
+    {
+        $this->member->assignRole('on-call', null, now()->addHour());
+        $this->member->assignRole('on-call');
+
+        $this->travel(2)->hours();
+
+        $this->assertTrue($this->member->hasRole('on-call'));
+        $this->assertSame(1, $this->member->roles()->count());
+    }
+
+    public function test_expire_command_removes_expired_assignments_only(): void
+    {
+        $permanent = Role::create(['name' => 'User', 'slug' => 'user']);
+        $this->member->assignRole('on-call', null, now()->addMinute());
+        $this->member->assignRole($permanent);
+
+        $this->travel(5)->minutes();
+        $this->artisan('roles:expire')->assertSuccessful();
+
+        $this->assertSame(['user'], $this->member->roles()->pluck('slug')->all());
+    }
+
+    public function test_admin_assigns_a_role_with_an_expiry(): void
+    {
+        $expiresAt = now()->addDay()->startOfSecond();
+
+        $response = $this->bffJson('POST', "/api/v1/admin/users/{$this->member->id}/roles", [
+            'role' => 'on-call',
+            'expires_at' => $expiresAt->toIso8601String(),
+        ], $this->token);
+
+        $response->assertStatus(200);
+        $this->assertTrue(
+            $expiresAt->equalTo($this->member->roles()->first()->pivot->expires_at)
+        );
+        $this->assertNotNull($response->json('data.roles.0.pivot.expires_at'));
+    }
+
+    public function test_rejects_expiry_in_the_past_or_before_start(): void
+    {
+        $uri = "/api/v1/admin/users/{$this->member->id}/roles";
+
+        $this->bffJson('POST', $uri, [
+            'role' => 'on-call',
+            'expires_at' => now()->subDay()->toIso8601String(),
+        ], $this->token)->assertStatus(422)->assertJsonValidationErrors('expires_at');
+
+        $this->bffJson('POST', $uri, [
+            'role' => 'on-call',
+            'starts_at' => now()->addDays(2)->toIso8601String(),
+            'expires_at' => now()->addDay()->toIso8601String(),
+        ], $this->token)->assertStatus(422)->assertJsonValidationErrors('expires_at');
+    }
+
+    public function test_me_lists_active_roles_only(): void
+    {
+        $this->member->assignRole('on-call', null, now()->addMinute());
+        $token = $this->member->createToken('test-token')->accessToken;
+
+        $this->bffJson('GET', '/api/v1/me', [], $token)
+            ->assertStatus(200)
+            ->assertJsonPath('data.roles.0.slug', 'on-call')
+            // Permissions du rôle : retirées côté front à son expiration
+            ->assertJsonPath('data.roles.0.permissions.0.slug', 'incidents.manage');
+
+        $this->travel(5)->minutes();
+
+        $this->bffJson('GET', '/api/v1/me', [], $token)
+            ->assertStatus(200)
+            ->assertJsonCount(0, 'data.roles');
+    }
+}
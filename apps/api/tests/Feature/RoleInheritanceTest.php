@@ -0,0 +1,122 @@
+<?php
+
+namespace Tests\Feature;
+
+use App\Models\Permission;
+use App\Models\Role;
+use App\Models\User;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Laravel\Passport\Passport;
+use Tests\Concerns\SignsBffRequests;
+use Tests\TestCase;
+
+/**
+ * Tests de l'héritage des rôles (parents, chaîne résolue, cycles)
+ */
+class RoleInheritanceTest extends TestCase
+{
+    use RefreshDatabase;
+    use SignsBffRequests;
+
+    private Role $admin;
+
+    private Role $moderator;
+
+    private Role $member;
+
+    private User $adminUser;
+
+    private string $token;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        config(['services.bff.id' => 'nextjs-bff-prod']);
+        config(['services.bff.secret' => 'test-secret-key-for-hmac-validation']);
+
+        Passport::ignoreRoutes();
+
+        // admin > moderator > user
+        $this->admin = Role::create(['name' => 'Administrator', 'slug' => 'admin', 'is_system' => true]);
+        $this->moderator = Role::create(['name' => 'Moderator', 'slug' => 'moderator']);
+        $this->member = Role::create(['name' => 'User', 'slug' => 'user']);
+
+        $this->moderator->parents()->attach($this->member);
+        $this->admin->parents()->attach($this->moderator);
+
+        $this->member->permissions()->attach(Permission::createForResource('posts', ['read']));
+        $this->moderator->permissions()->attach(Permission::createForResource('comments', ['delete']));
+
+        $this->adminUser = User::factory()->create();
+        $this->adminUser->roles()->attach($this->admin);
+        $this->token = $this->adminUser->createToken('test-token')->accessToken;
+    }
+
+    public function test_permissions_are_inherited_through_the_whole_chain(): void
+    {
+        $this->assertTrue($this->admin->hasPermission('posts.read'));
+        $this->assertTrue($this->admin->hasPermission('comments.delete'));
+        $this->assertTrue($this->adminUser->hasPermission('posts.read'));
+        $this->assertFalse($this->member->hasPermission('comments.delete'));
+    }
+
+    public function test_ancestors_are_resolved_nearest_first(): void
+    {
+        $this->assertSame(['moderator', 'user'], $this->admin->ancestors()->pluck('slug')->all());
+        $this->assertSame(['moderator', 'user'], $this->adminUser->inheritedRoles()->pluck('slug')->all());
+    }
+
+    public function test_cycle_in_database_does_not_loop(): void
+    {
+        $this->member->parents()->attach($this->admin);
+
+        $this->assertSame(['user', 'admin'], $this->moderator->ancestors()->pluck('slug')->all());
+    }
+
+    public function test_sets_parents_and_lists_inherited_permissions(): void
+    {
+        $editor = Role::create(['name' => 'Editor', 'slug' => 'editor']);
+
+        $this->bffJson('PUT', "/api/v1/admin/roles/{$editor->id}/parents", [
+            'parents' => [$this->moderator->id],
+        ], $this->token)->assertStatus(200);
+
+        $response = $this->bffJson('GET', '/api/v1/admin/roles', [], $this->token);
+
+        $response->assertStatus(200);
+        $listed = collect($response->json('data'))->firstWhere('slug', 'editor');
+        $this->assertSame(['moderator'], array_column($listed['parents'], 'slug'));
+        $this->assertEqualsCanonicalizing(
+            ['comments.delete' => 'moderator', 'posts.read' => 'user'],
+            array_column($listed['inherited_permissions'], 'inherited_from', 'slug')
+        );
+    }
+
+    public function test_rejects_parents_that_would_create_a_cycle(): void
+    {
+        $this->bffJson('PUT', "/api/v1/admin/roles/{$this->member->id}/parents", [
+            'parents' => [$this->admin->id],
+        ], $this->token)->assertStatus(422)->assertJsonValidationErrors('parents');
+
+        $this->bffJson('PUT', "/api/v1/admin/roles/{$this->member->id}/parents", [
+            'parents' => [$this->member->id],
+        ], $this->token)->assertStatus(422)->assertJsonValidationErrors('parents.0');
+
+        $this->assertCount(0, $this->member->parents);
+    }
+
+    public function test_me_exposes_the_resolved_chain(): void
+    {
+        $response = $this->bffJson('GET', '/api/v1/me', [], $this->token);
+
+        $response->assertStatus(200);
+        $response->assertJsonPath('data.roles.0.slug', 'admin');
+        $response->assertJsonPath('data.roles.0.inherits', ['moderator', 'user']);
+        $this->assertSame(['moderator', 'user'], array_column($response->json('data.inherited_roles'), 'slug'));
+        $this->assertEqualsCanonicalizing(
+            ['posts.read', 'comments.delete'],
+            array_column($response->json('data.permissions'), 'slug')
+        );
+    }
+}
@@ -0,0 +1,113 @@
+<?php
+
+namespace Tests\Feature;
+
+use App\Models\User;
+use DateInterval;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Laravel\Passport\Passport;
+use Tests\Concerns\SignsBffRequests;
+use Tests\TestCase;
+
+/**
+ * Tests du renouvellement des tokens (POST /api/v1/auth/refresh)
+ */
+class TokenRefreshTest extends TestCase
+{
+    use RefreshDatabase;
+    use SignsBffRequests;
+
+    private User $user;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        config(['services.bff.id' => 'nextjs-bff-prod']);
+        config(['services.bff.secret' => 'test-secret-key-for-hmac-validation']);
+
+        Passport::ignoreRoutes();
+
+        $this->user = User::factory()->create();
+    }
+
+    /**
+     * Token réellement expiré : Passport vérifie l'expiration du JWT sur
+     * l'horloge système, travel() ne suffit pas
+     */
+    private function expiredToken(): string
+    {
+        Passport::personalAccessTokensExpireIn(new DateInterval('PT1S'));
+
+        $token = $this->user->createToken('test-token')->accessToken;
+        sleep(2);
+
+        return $token;
+    }
+
+    public function test_exchanges_an_expired_token_once(): void
+    {
+        $token = $this->expiredToken();
+
+        $this->bffJson('GET', '/api/v1/me', [], $token)->assertStatus(401);
+
+        $newToken = $this->bffJson('POST', '/api/v1/auth/refresh', [], $token)
+            ->assertStatus(200)
+            ->assertJsonPath('data.token_type', 'Bearer')
+            ->json('data.access_token');
+
+        $this->assertNotSame($token, $newToken);
+        $this->assertSame(1, $this->user->tokens()->where('revoked', false)->count());
+
+        // L'ancien token est révoqué : il ne s'échange qu'une fois
+        $this->bffJson('POST', '/api/v1/auth/refresh', [], $token)
+            ->assertStatus(401)
+            ->assertJsonPath('code', 'TOKEN_REFRESH_FAILED');
+    }
+
+    public function test_refreshed_token_authenticates_and_old_one_is_revoked(): void
+    {
+        $token = $this->user->createToken('test-token')->accessToken;
+
+        $newToken = $this->bffJson('POST', '/api/v1/auth/refresh', [], $token)
+            ->assertStatus(200)
+            ->json('data.access_token');
+
+        $this->bffJson('GET', '/api/v1/me', [], $newToken)
+            ->assertStatus(200)
+            ->assertJsonPath('data.id', $this->user->id);
+
+        $this->bffJson('GET', '/api/v1/me', [], $token)->assertStatus(401);
+    }
+
+    public function test_rejects_tokens_expired_beyond_the_refresh_window(): void
+    {
+        $token = $this->expiredToken();
+
+        $this->travel(config('passport.refresh_window') + 1)->days();
+
+        $this->bffJson('POST', '/api/v1/auth/refresh', [], $token)->assertStatus(401);
+    }
+
+    public function test_rejects_forged_or_missing_tokens(): void
+    {
+        $token = $this->user->createToken('test-token')->accessToken;
+
+        // Charge utile conservée, signature altérée
+        [$header, $payload, $signature] = explode('.', $token);
+        $forged = $header . '.' . $payload . '.' . strrev($signature);
+
+        $this->bffJson('POST', '/api/v1/auth/refresh', [], $forged)->assertStatus(401);
+        $this->bffJson('POST', '/api/v1/auth/refresh', [], 'not-a-jwt')->assertStatus(401);
+        $this->bffJson('POST', '/api/v1/auth/refresh')->assertStatus(401);
+
+        $this->assertSame(1, $this->user->tokens()->where('revoked', false)->count());
+    }
+
+    public function test_requires_a_bff_signature(): void
+    {
+        $token = $this->user->createToken('test-token')->accessToken;
+
+        $this->withToken($token)->postJson('/api/v1/auth/refresh')->assertStatus(403);
+    }
+}
@@ -0,0 +1,120 @@
+<?php
+
+namespace Tests\Feature;
+
+use App\Models\Permission;
+use App\Models\Role;
+use App\Models\User;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Laravel\Passport\Passport;
+use Tests\Concerns\SignsBffRequests;
+use Tests\TestCase;
+
+/**
+ * Tests des accords et refus directs par utilisateur (deny l'emporte)
+ */
+class UserPermissionOverridesTest extends TestCase
+{
+    use RefreshDatabase;
+    use SignsBffRequests;
+
+    private User $member;
+
+    private string $token;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        config(['services.bff.id' => 'nextjs-bff-prod']);
+        config(['services.bff.secret' => 'test-secret-key-for-hmac-validation']);
+
+        Passport::ignoreRoutes();
+
+        $adminRole = Role::create(['name' => 'Administrator', 'slug' => 'admin', 'is_system' => true]);
+        $admin = User::factory()->create();
+        $admin->roles()->attach($adminRole);
+        $this->token = $admin->createToken('test-token')->accessToken;
+
+        $editor = Role::create(['name' => 'Editor', 'slug' => 'editor']);
+        $editor->permissions()->attach(Permission::createForResource('posts', ['*']));
+        Permission::createForResource('posts', ['read', 'delete']);
+        Permission::createForResource('reports', ['read']);
+
+        $this->member = User::factory()->create();
+        $this->member->roles()->attach($editor);
+    }
+
+    private function permission(string $slug): Permission
+    {
+        return Permission::where('slug', $slug)->firstOrFail();
+    }
+
+    public function test_direct_grant_adds_a_single_permission(): void
+    {
+        $this->assertFalse($this->member->hasPermission('reports.read'));
+
+        $this->member->setPermissionOverride($this->permission('reports.read'), User::PERMISSION_GRANT);
+
+        $this->assertTrue($this->member->hasPermission('reports.read'));
+        $this->assertContains('reports.read', $this->member->getAllPermissions()->pluck('slug'));
+    }
+
+    public function test_deny_wins_over_role_wildcards(): void
+    {
+        $this->member->setPermissionOverride($this->permission('posts.delete'), User::PERMISSION_DENY);
+
+        $this->assertFalse($this->member->hasPermission('posts.delete'));
+        $this->assertTrue($this->member->hasPermission('posts.read'));
+    }
+
+    public function test_deny_wins_over_direct_grant_and_removes_it_from_effective_permissions(): void
+    {
+        $this->member->setPermissionOverride($this->permission('reports.read'), User::PERMISSION_GRANT);
+        $this->member->setPermissionOverride($this->permission('reports.read'), User::PERMISSION_DENY);
+
+        $this->assertFalse($this->member->hasPermission('reports.read'));
+        $this->assertNotContains('reports.read', $this->member->getAllPermissions()->pluck('slug'));
+    }
+
+    public function test_admin_sets_lists_and_removes_overrides(): void
+    {
+        $permission = $this->permission('posts.delete');
+        $uri = "/api/v1/admin/users/{$this->member->id}/permissions/{$permission->id}";
+
+        $this->bffJson('PUT', $uri, ['type' => 'deny'], $this->token)
+            ->assertStatus(200)
+            ->assertJsonPath('data.0.slug', 'posts.delete')
+            ->assertJsonPath('data.0.type', 'deny');
+
+        $this->bffJson('GET', "/api/v1/admin/users/{$this->member->id}/permissions", [], $this->token)
+            ->assertStatus(200)
+            ->assertJsonCount(1, 'data');
+
+        $this->bffJson('DELETE', $uri, [], $this->token)
+            ->assertStatus(200)
+            ->assertJsonCount(0, 'data');
+
+        $this->assertTrue($this->member->hasPermission('posts.delete'));
+    }
+
+    public function test_rejects_unknown_override_type(): void
+    {
+        $permission = $this->permission('posts.read');
+
+        $this->bffJson('PUT', "/api/v1/admin/users/{$this->member->id}/permissions/{$permission->id}", [
+            'type' => 'maybe',
+        ], $this->token)->assertStatus(422)->assertJsonValidationErrors('type');
+    }
+
+    public function test_me_exposes_denied_permissions(): void
+    {
+        $this->member->setPermissionOverride($this->permission('posts.delete'), User::PERMISSION_DENY);
+        $token = $this->member->createToken('test-token')->accessToken;
+
+        $response = $this->bffJson('GET', '/api/v1/me', [], $token);
+
+        $response->assertStatus(200);
+        $response->assertJsonPath('data.denied_permissions.0.slug', 'posts.delete');
+    }
+}
@@ -0,0 +1,83 @@
+<?php
+
+namespace Tests\Feature;
+
+use App\Models\Permission;
+use App\Models\Role;
+use App\Models\User;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Tests\TestCase;
+
+/**
+ * Tests des vérifications de permissions sur User et Role (jokers, imbrication)
+ */
+class UserPermissionTest extends TestCase
+{
+    use RefreshDatabase;
+
+    /**
+     * Crée un utilisateur dont l'unique rôle porte les permissions données
+     */
+    private function userWithPermissions(array $slugs): User
+    {
+        $role = Role::create(['name' => 'Tester', 'slug' => 'tester']);
+
+        foreach ($slugs as $slug) {
+            $separator = strrpos($slug, '.');
+            $role->permissions()->attach(Permission::create([
+                'name' => $slug,
+                'slug' => $slug,
+                'resource' => substr($slug, 0, $separator),
+                'action' => substr($slug, $separator + 1),
+            ]));
+        }
+
+        $user = User::factory()->create();
+        $user->roles()->attach($role);
+
+        return $user;
+    }
+
+    public function test_wildcard_action_grants_every_action_on_resource(): void
+    {
+        $user = $this->userWithPermissions(['posts.*']);
+
+        $this->assertTrue($user->hasPermission('posts.delete'));
+        $this->assertTrue($user->hasPermissionTo('posts', 'create'));
+        $this->assertFalse($user->hasPermission('comments.read'));
+    }
+
+    public function test_wildcard_resource_grants_action_everywhere(): void
+    {
+        $user = $this->userWithPermissions(['*.read']);
+
+        $this->assertTrue($user->hasPermission('users.read'));
+        $this->assertTrue($user->hasPermission('projects.tasks.read'));
+        $this->assertFalse($user->hasPermission('users.update'));
+    }
+
+    public function test_parent_resource_grants_nested_resources(): void
+    {
+        $user = $this->userWithPermissions(['projects.update']);
+
+        $this->assertTrue($user->hasPermission('projects.tasks.update'));
+        $this->assertTrue($user->hasPermissionTo('projects.tasks', 'update'));
+        $this->assertFalse($user->hasPermission('projects.tasks.delete'));
+    }
+
+    public function test_manage_still_grants_every_action(): void
+    {
+        $user = $this->userWithPermissions(['posts.manage']);
+
+        $this->assertTrue($user->hasPermissionTo('posts', 'delete'));
+    }
+
+    public function test_role_has_permission_uses_same_matching(): void
+    {
+        $user = $this->userWithPermissions(['projects.*.read']);
+        $role = $user->roles()->first();
+
+        $this->assertTrue($role->hasPermission('projects.tasks.read'));
+        $this->assertFalse($role->hasPermission('projects.read'));
+    }
+}
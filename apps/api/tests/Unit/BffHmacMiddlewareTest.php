@@ -4,8 +4,10 @@
 
 use App\Http\Middleware\BffHmacMiddleware;
 use App\Helpers\HmacValidator;
+use Illuminate\Foundation\Testing\RefreshDatabase;
 use Illuminate\Http\Request;
 use Illuminate\Http\Response;
+use Illuminate\Support\Str;
 use Mockery;
 use Tests\TestCase;
 
@@ -14,6 +16,9 @@
  */
 class BffHmacMiddlewareTest extends TestCase
 {
+    // Les échecs de signature sont inscrits au journal d'audit
+    use RefreshDatabase;
+
     protected function setUp(): void
     {
         parent::setUp();
@@ -32,10 +37,10 @@ protected function tearDown(): void
     /**
      * Génère une signature HMAC valide pour les tests
      */
-    private function generateValidSignature(string $timestamp, string $method, string $path, ?string $body = null): string
+    private function generateValidSignature(string $timestamp, string $nonce, string $method, string $path, ?string $body = null): string
     {
         $bodyHash = $body ? hash('sha256', $body) : '';
-        $payload = "{$timestamp}:{$method}:{$path}:{$bodyHash}";
+        $payload = "{$timestamp}:{$nonce}:{$method}:{$path}:{$bodyHash}";
 
         return hash_hmac('sha256', $payload, config('services.bff.secret'));
     }
@@ -57,11 +62,13 @@ public function test_middleware_returns_403_when_validation_fails(): void
     public function test_middleware_passes_request_with_valid_hmac(): void
     {
         $timestamp = (string) now()->timestamp;
-        $signature = $this->generateValidSignature($timestamp, 'GET', '/api/v1/me');
+        $nonce = (string) Str::uuid();
+        $signature = $this->generateValidSignature($timestamp, $nonce, 'GET', '/api/v1/me');
 
         $request = Request::create('/api/v1/me', 'GET');
         $request->headers->set('X-BFF-Id', config('services.bff.id'));
         $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
         $request->headers->set('X-BFF-Signature', $signature);
 
         $middleware = new BffHmacMiddleware();
@@ -74,11 +81,13 @@ public function test_middleware_passes_request_with_valid_hmac(): void
     public function test_middleware_returns_403_for_invalid_bff_id(): void
     {
         $timestamp = (string) now()->timestamp;
-        $signature = $this->generateValidSignature($timestamp, 'GET', '/api/v1/me');
+        $nonce = (string) Str::uuid();
+        $signature = $this->generateValidSignature($timestamp, $nonce, 'GET', '/api/v1/me');
 
         $request = Request::create('/api/v1/me', 'GET');
         $request->headers->set('X-BFF-Id', 'wrong-bff-id');
         $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
         $request->headers->set('X-BFF-Signature', $signature);
 
         $middleware = new BffHmacMiddleware();
@@ -90,11 +99,13 @@ public function test_middleware_returns_403_for_invalid_bff_id(): void
     public function test_middleware_returns_403_for_expired_timestamp(): void
     {
         $timestamp = (string) now()->subMinutes(10)->timestamp;
-        $signature = $this->generateValidSignature($timestamp, 'GET', '/api/v1/me');
+        $nonce = (string) Str::uuid();
+        $signature = $this->generateValidSignature($timestamp, $nonce, 'GET', '/api/v1/me');
 
         $request = Request::create('/api/v1/me', 'GET');
         $request->headers->set('X-BFF-Id', config('services.bff.id'));
         $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
         $request->headers->set('X-BFF-Signature', $signature);
 
         $middleware = new BffHmacMiddleware();
@@ -106,10 +117,12 @@ public function test_middleware_returns_403_for_expired_timestamp(): void
     public function test_middleware_returns_403_for_invalid_signature(): void
     {
         $timestamp = (string) now()->timestamp;
+        $nonce = (string) Str::uuid();
 
         $request = Request::create('/api/v1/me', 'GET');
         $request->headers->set('X-BFF-Id', config('services.bff.id'));
         $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
         $request->headers->set('X-BFF-Signature', 'wrong-signature');
 
         $middleware = new BffHmacMiddleware();
@@ -131,12 +144,14 @@ public function test_middleware_passes_request_with_post_body(): void
         ]);
         $bodyHash = hash('sha256', $sortedBody);
         $timestamp = (string) now()->timestamp;
-        $payload = "{$timestamp}:POST:/api/v1/auth/login:{$bodyHash}";
+        $nonce = (string) Str::uuid();
+        $payload = "{$timestamp}:{$nonce}:POST:/api/v1/auth/login:{$bodyHash}";
         $signature = hash_hmac('sha256', $payload, config('services.bff.secret'));
 
         $request = Request::create('/api/v1/auth/login', 'POST', [], [], [], [], $body);
         $request->headers->set('X-BFF-Id', config('services.bff.id'));
         $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
         $request->headers->set('X-BFF-Signature', $signature);
 
         $middleware = new BffHmacMiddleware();
@@ -0,0 +1,66 @@
+<?php
+
+namespace Tests\Unit;
+
+use App\Helpers\BffKeyring;
+use InvalidArgumentException;
+use Tests\TestCase;
+
+/**
+ * Tests unitaires pour BffKeyring
+ */
+class BffKeyringTest extends TestCase
+{
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        config(['services.bff.secret' => 'legacy-secret']);
+        config(['services.bff.keys' => null]);
+    }
+
+    public function test_falls_back_to_single_secret_when_no_keys_configured(): void
+    {
+        $this->assertEquals(BffKeyring::DEFAULT_KEY_ID, BffKeyring::activeKeyId());
+        $this->assertEquals('legacy-secret', BffKeyring::verificationSecret(BffKeyring::DEFAULT_KEY_ID));
+    }
+
+    public function test_parses_keys_with_statuses(): void
+    {
+        $keys = BffKeyring::parse('k3:secret3:active, k2:secret2, k1:secret1:retired');
+
+        $this->assertEquals([
+            'k3' => ['secret' => 'secret3', 'status' => 'active'],
+            'k2' => ['secret' => 'secret2', 'status' => 'verify'],
+            'k1' => ['secret' => 'secret1', 'status' => 'retired'],
+        ], $keys);
+    }
+
+    public function test_retired_and_unknown_keys_have_no_verification_secret(): void
+    {
+        config(['services.bff.keys' => 'k2:secret2:active,k1:secret1:retired']);
+
+        $this->assertEquals('k2', BffKeyring::activeKeyId());
+        $this->assertEquals('secret2', BffKeyring::verificationSecret('k2'));
+        $this->assertNull(BffKeyring::verificationSecret('k1'));
+        $this->assertNull(BffKeyring::verificationSecret('k0'));
+    }
+
+    public function test_rejects_keyring_without_exactly_one_active_key(): void
+    {
+        $this->expectException(InvalidArgumentException::class);
+        $this->expectExceptionMessage('exactly one key as active');
+
+        BffKeyring::parse('k2:secret2:active,k1:secret1:active');
+    }
+
+    public function test_rejects_malformed_entry_without_leaking_it(): void
+    {
+        try {
+            BffKeyring::parse('k2:secret2:active,just-a-secret-value');
+            $this->fail('Expected InvalidArgumentException');
+        } catch (InvalidArgumentException $e) {
+            $this->assertEquals('Invalid BFF_HMAC_KEYS entry #2', $e->getMessage());
+        }
+    }
+}
@@ -4,6 +4,8 @@
 
 use App\Helpers\HmacValidator;
 use Illuminate\Http\Request;
+use Illuminate\Http\UploadedFile;
+use Illuminate\Support\Str;
 use Tests\TestCase;
 
 /**
@@ -23,10 +25,20 @@ protected function setUp(): void
     /**
      * Génère une signature HMAC valide pour les tests
      */
-    private function generateValidSignature(string $timestamp, string $method, string $path, ?string $body = null): string
+    private function generateValidSignature(string $timestamp, string $nonce, string $method, string $path, ?string $body = null): string
     {
         $bodyHash = $body ? hash('sha256', $body) : '';
-        $payload = "{$timestamp}:{$method}:{$path}:{$bodyHash}";
+        $payload = "{$timestamp}:{$nonce}:{$method}:{$path}:{$bodyHash}";
+
+        return hash_hmac('sha256', $payload, config('services.bff.secret'));
+    }
+
+    /**
+     * Génère une signature HMAC v2 (requête canonique) pour les tests
+     */
+    private function generateV2Signature(string $timestamp, string $nonce, string $method, string $path, string $canonicalQuery, string $canonicalHeaders, string $bodyHash = ''): string
+    {
+        $payload = implode("\n", ['v2', $timestamp, $nonce, $method, $path, $canonicalQuery, $canonicalHeaders, $bodyHash]);
 
         return hash_hmac('sha256', $payload, config('services.bff.secret'));
     }
@@ -44,11 +56,13 @@ public function test_validate_returns_error_when_headers_are_missing(): void
     public function test_validate_returns_error_when_bff_id_is_invalid(): void
     {
         $timestamp = (string) now()->timestamp;
-        $signature = $this->generateValidSignature($timestamp, 'GET', '/api/v1/me');
+        $nonce = (string) Str::uuid();
+        $signature = $this->generateValidSignature($timestamp, $nonce, 'GET', '/api/v1/me');
 
         $request = Request::create('/api/v1/me', 'GET');
         $request->headers->set('X-BFF-Id', 'invalid-bff-id');
         $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
         $request->headers->set('X-BFF-Signature', $signature);
 
         $result = HmacValidator::validate($request);
@@ -61,11 +75,13 @@ public function test_validate_returns_error_when_timestamp_is_expired(): void
     {
         // Timestamp trop ancien (plus de 5 minutes)
         $timestamp = (string) now()->subMinutes(10)->timestamp;
-        $signature = $this->generateValidSignature($timestamp, 'GET', '/api/v1/me');
+        $nonce = (string) Str::uuid();
+        $signature = $this->generateValidSignature($timestamp, $nonce, 'GET', '/api/v1/me');
 
         $request = Request::create('/api/v1/me', 'GET');
         $request->headers->set('X-BFF-Id', config('services.bff.id'));
         $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
         $request->headers->set('X-BFF-Signature', $signature);
 
         $result = HmacValidator::validate($request);
@@ -78,11 +94,13 @@ public function test_validate_returns_error_when_timestamp_is_in_future(): void
     {
         // Timestamp dans le futur (plus de 5 minutes)
         $timestamp = (string) now()->addMinutes(10)->timestamp;
-        $signature = $this->generateValidSignature($timestamp, 'GET', '/api/v1/me');
+        $nonce = (string) Str::uuid();
+        $signature = $this->generateValidSignature($timestamp, $nonce, 'GET', '/api/v1/me');
 
         $request = Request::create('/api/v1/me', 'GET');
         $request->headers->set('X-BFF-Id', config('services.bff.id'));
         $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
         $request->headers->set('X-BFF-Signature', $signature);
 
         $result = HmacValidator::validate($request);
@@ -94,10 +112,12 @@ public function test_validate_returns_error_when_timestamp_is_in_future(): void
     public function test_validate_returns_error_when_signature_is_invalid(): void
     {
         $timestamp = (string) now()->timestamp;
+        $nonce = (string) Str::uuid();
 
         $request = Request::create('/api/v1/me', 'GET');
         $request->headers->set('X-BFF-Id', config('services.bff.id'));
         $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
         $request->headers->set('X-BFF-Signature', 'invalid-signature');
 
         $result = HmacValidator::validate($request);
@@ -109,11 +129,13 @@ public function test_validate_returns_error_when_signature_is_invalid(): void
     public function test_validate_succeeds_with_valid_get_request(): void
     {
         $timestamp = (string) now()->timestamp;
-        $signature = $this->generateValidSignature($timestamp, 'GET', '/api/v1/me');
+        $nonce = (string) Str::uuid();
+        $signature = $this->generateValidSignature($timestamp, $nonce, 'GET', '/api/v1/me');
 
         $request = Request::create('/api/v1/me', 'GET');
         $request->headers->set('X-BFF-Id', config('services.bff.id'));
         $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
         $request->headers->set('X-BFF-Signature', $signature);
 
         $result = HmacValidator::validate($request);
@@ -125,6 +147,7 @@ public function test_validate_succeeds_with_valid_post_request_with_body(): void
     {
         $body = json_encode(['email' => 'test@example.com', 'password' => 'secret']);
         $timestamp = (string) now()->timestamp;
+        $nonce = (string) Str::uuid();
 
         // Le body doit être trié par clés alphabétiques
         $sortedBody = json_encode([
@@ -132,12 +155,13 @@ public function test_validate_succeeds_with_valid_post_request_with_body(): void
             'password' => 'secret',
         ]);
         $bodyHash = hash('sha256', $sortedBody);
-        $payload = "{$timestamp}:POST:/api/v1/auth/login:{$bodyHash}";
+        $payload = "{$timestamp}:{$nonce}:POST:/api/v1/auth/login:{$bodyHash}";
         $signature = hash_hmac('sha256', $payload, config('services.bff.secret'));
 
         $request = Request::create('/api/v1/auth/login', 'POST', [], [], [], [], $body);
         $request->headers->set('X-BFF-Id', config('services.bff.id'));
         $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
         $request->headers->set('X-BFF-Signature', $signature);
 
         $result = HmacValidator::validate($request);
@@ -168,12 +192,14 @@ public function test_validate_handles_nested_json_objects(): void
 
         $bodyHash = hash('sha256', $sortedBody);
         $timestamp = (string) now()->timestamp;
-        $payload = "{$timestamp}:POST:/api/v1/test:{$bodyHash}";
+        $nonce = (string) Str::uuid();
+        $payload = "{$timestamp}:{$nonce}:POST:/api/v1/test:{$bodyHash}";
         $signature = hash_hmac('sha256', $payload, config('services.bff.secret'));
 
         $request = Request::create('/api/v1/test', 'POST', [], [], [], [], $body);
         $request->headers->set('X-BFF-Id', config('services.bff.id'));
         $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
         $request->headers->set('X-BFF-Signature', $signature);
 
         $result = HmacValidator::validate($request);
@@ -185,11 +211,13 @@ public function test_validate_accepts_timestamp_at_tolerance_limit(): void
     {
         // Exactement à la limite de tolérance (5 minutes)
         $timestamp = (string) now()->addSeconds(300)->timestamp;
-        $signature = $this->generateValidSignature($timestamp, 'GET', '/api/v1/me');
+        $nonce = (string) Str::uuid();
+        $signature = $this->generateValidSignature($timestamp, $nonce, 'GET', '/api/v1/me');
 
         $request = Request::create('/api/v1/me', 'GET');
         $request->headers->set('X-BFF-Id', config('services.bff.id'));
         $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
         $request->headers->set('X-BFF-Signature', $signature);
 
         $result = HmacValidator::validate($request);
@@ -201,11 +229,13 @@ public function test_validate_rejects_timestamp_one_second_over_tolerance(): voi
     {
         // Juste au-delà de la tolérance (301 secondes)
         $timestamp = (string) now()->addSeconds(301)->timestamp;
-        $signature = $this->generateValidSignature($timestamp, 'GET', '/api/v1/me');
+        $nonce = (string) Str::uuid();
+        $signature = $this->generateValidSignature($timestamp, $nonce, 'GET', '/api/v1/me');
 
         $request = Request::create('/api/v1/me', 'GET');
         $request->headers->set('X-BFF-Id', config('services.bff.id'));
         $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
         $request->headers->set('X-BFF-Signature', $signature);
 
         $result = HmacValidator::validate($request);
@@ -213,4 +243,291 @@ public function test_validate_rejects_timestamp_one_second_over_tolerance(): voi
         $this->assertFalse($result['valid']);
         $this->assertEquals('Timestamp validation failed', $result['error']);
     }
+
+    public function test_validate_rejects_replayed_nonce(): void
+    {
+        $timestamp = (string) now()->timestamp;
+        $nonce = (string) Str::uuid();
+        $signature = $this->generateValidSignature($timestamp, $nonce, 'GET', '/api/v1/me');
+
+        $request = Request::create('/api/v1/me', 'GET');
+        $request->headers->set('X-BFF-Id', config('services.bff.id'));
+        $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
+        $request->headers->set('X-BFF-Signature', $signature);
+
+        $this->assertTrue(HmacValidator::validate($request)['valid']);
+
+        // Rejouer exactement la même requête
+        $result = HmacValidator::validate($request);
+
+        $this->assertFalse($result['valid']);
+        $this->assertEquals('Replay detected', $result['error']);
+    }
+
+    public function test_validate_rejects_malformed_nonce(): void
+    {
+        $timestamp = (string) now()->timestamp;
+        $nonce = 'short';
+        $signature = $this->generateValidSignature($timestamp, $nonce, 'GET', '/api/v1/me');
+
+        $request = Request::create('/api/v1/me', 'GET');
+        $request->headers->set('X-BFF-Id', config('services.bff.id'));
+        $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
+        $request->headers->set('X-BFF-Signature', $signature);
+
+        $result = HmacValidator::validate($request);
+
+        $this->assertFalse($result['valid']);
+        $this->assertEquals('Invalid nonce', $result['error']);
+    }
+
+    public function test_validate_succeeds_with_valid_v2_request_with_query(): void
+    {
+        $timestamp = (string) now()->timestamp;
+        $nonce = (string) Str::uuid();
+        $signature = $this->generateV2Signature(
+            $timestamp,
+            $nonce,
+            'GET',
+            'api/v1/users',
+            'page=2&search=john%20doe',
+            "accept:application/json\nauthorization:\ncontent-type:application/json"
+        );
+
+        $request = Request::create('/api/v1/users?search=john+doe&page=2', 'GET');
+        $request->headers->set('Accept', 'application/json');
+        $request->headers->set('Content-Type', 'application/json');
+        $request->headers->set('X-BFF-Id', config('services.bff.id'));
+        $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
+        $request->headers->set('X-BFF-Signature-Version', '2');
+        $request->headers->set('X-BFF-Signature', $signature);
+
+        $result = HmacValidator::validate($request);
+
+        $this->assertTrue($result['valid']);
+    }
+
+    public function test_validate_rejects_v2_request_with_tampered_query(): void
+    {
+        $timestamp = (string) now()->timestamp;
+        $nonce = (string) Str::uuid();
+        $signature = $this->generateV2Signature(
+            $timestamp,
+            $nonce,
+            'GET',
+            'api/v1/users',
+            'page=2',
+            "accept:application/json\nauthorization:\ncontent-type:application/json"
+        );
+
+        // Pagination modifiée après signature
+        $request = Request::create('/api/v1/users?page=3', 'GET');
+        $request->headers->set('Accept', 'application/json');
+        $request->headers->set('Content-Type', 'application/json');
+        $request->headers->set('X-BFF-Id', config('services.bff.id'));
+        $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
+        $request->headers->set('X-BFF-Signature-Version', '2');
+        $request->headers->set('X-BFF-Signature', $signature);
+
+        $result = HmacValidator::validate($request);
+
+        $this->assertFalse($result['valid']);
+        $this->assertEquals('Invalid signature', $result['error']);
+    }
+
+    public function test_validate_v3_signs_the_forwarded_client(): void
+    {
+        $timestamp = (string) now()->timestamp;
+        $nonce = (string) Str::uuid();
+        $payload = implode("\n", [
+            'v3',
+            $timestamp,
+            $nonce,
+            'GET',
+            'api/v1/me',
+            '',
+            "accept:application/json\nauthorization:\ncontent-type:application/json\n"
+                . "x-bff-client-ip:203.0.113.7\nx-bff-client-user-agent:Mozilla/5.0 (X11)",
+            '',
+        ]);
+        $signature = hash_hmac('sha256', $payload, config('services.bff.secret'));
+
+        $makeRequest = function (string $clientIp) use ($timestamp, $nonce, $signature): Request {
+            $request = Request::create('/api/v1/me', 'GET');
+            $request->headers->set('Accept', 'application/json');
+            $request->headers->set('Content-Type', 'application/json');
+            $request->headers->set('X-BFF-Id', config('services.bff.id'));
+            $request->headers->set('X-BFF-Timestamp', $timestamp);
+            $request->headers->set('X-BFF-Nonce', $nonce);
+            $request->headers->set('X-BFF-Signature-Version', '3');
+            $request->headers->set('X-BFF-Signature', $signature);
+            $request->headers->set('X-BFF-Client-IP', $clientIp);
+            $request->headers->set('X-BFF-Client-User-Agent', 'Mozilla/5.0 (X11)');
+
+            return $request;
+        };
+
+        // IP modifiée après signature
+        $tampered = HmacValidator::validate($makeRequest('198.51.100.1'));
+        $this->assertFalse($tampered['valid']);
+        $this->assertEquals('Invalid signature', $tampered['error']);
+
+        $this->assertTrue(HmacValidator::validate($makeRequest('203.0.113.7'))['valid']);
+    }
+
+    public function test_validate_rejects_v1_request_when_v1_is_disabled(): void
+    {
+        config(['services.bff.allow_v1' => false]);
+
+        $timestamp = (string) now()->timestamp;
+        $nonce = (string) Str::uuid();
+        $signature = $this->generateValidSignature($timestamp, $nonce, 'GET', 'api/v1/me');
+
+        $request = Request::create('/api/v1/me', 'GET');
+        $request->headers->set('X-BFF-Id', config('services.bff.id'));
+        $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
+        $request->headers->set('X-BFF-Signature', $signature);
+
+        $result = HmacValidator::validate($request);
+
+        $this->assertFalse($result['valid']);
+        $this->assertEquals('Unsupported signature version', $result['error']);
+    }
+
+    public function test_validate_rejects_unknown_signature_version(): void
+    {
+        $timestamp = (string) now()->timestamp;
+        $nonce = (string) Str::uuid();
+
+        $request = Request::create('/api/v1/me', 'GET');
+        $request->headers->set('X-BFF-Id', config('services.bff.id'));
+        $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
+        $request->headers->set('X-BFF-Signature-Version', '99');
+        $request->headers->set('X-BFF-Signature', 'irrelevant');
+
+        $result = HmacValidator::validate($request);
+
+        $this->assertFalse($result['valid']);
+        $this->assertEquals('Unsupported signature version', $result['error']);
+    }
+
+    public function test_validate_accepts_previous_key_during_rotation(): void
+    {
+        config(['services.bff.keys' => 'k2:new-secret:active,k1:test-secret-key-for-hmac-validation']);
+
+        $timestamp = (string) now()->timestamp;
+        $nonce = (string) Str::uuid();
+        $signature = $this->generateValidSignature($timestamp, $nonce, 'GET', 'api/v1/me');
+
+        $request = Request::create('/api/v1/me', 'GET');
+        $request->headers->set('X-BFF-Id', config('services.bff.id'));
+        $request->headers->set('X-BFF-Key-Id', 'k1');
+        $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
+        $request->headers->set('X-BFF-Signature', $signature);
+
+        $result = HmacValidator::validate($request);
+
+        $this->assertTrue($result['valid']);
+    }
+
+    public function test_validate_rejects_retired_key(): void
+    {
+        config(['services.bff.keys' => 'k2:new-secret:active,k1:test-secret-key-for-hmac-validation:retired']);
+
+        $timestamp = (string) now()->timestamp;
+        $nonce = (string) Str::uuid();
+        $signature = $this->generateValidSignature($timestamp, $nonce, 'GET', 'api/v1/me');
+
+        $request = Request::create('/api/v1/me', 'GET');
+        $request->headers->set('X-BFF-Id', config('services.bff.id'));
+        $request->headers->set('X-BFF-Key-Id', 'k1');
+        $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
+        $request->headers->set('X-BFF-Signature', $signature);
+
+        $result = HmacValidator::validate($request);
+
+        $this->assertFalse($result['valid']);
+        $this->assertEquals('Unknown or retired key ID', $result['error']);
+    }
+
+    public function test_validate_rejects_unknown_key_id(): void
+    {
+        $timestamp = (string) now()->timestamp;
+        $nonce = (string) Str::uuid();
+        $signature = $this->generateValidSignature($timestamp, $nonce, 'GET', 'api/v1/me');
+
+        $request = Request::create('/api/v1/me', 'GET');
+        $request->headers->set('X-BFF-Id', config('services.bff.id'));
+        $request->headers->set('X-BFF-Key-Id', 'unknown');
+        $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
+        $request->headers->set('X-BFF-Signature', $signature);
+
+        $result = HmacValidator::validate($request);
+
+        $this->assertFalse($result['valid']);
+        $this->assertEquals('Unknown or retired key ID', $result['error']);
+    }
+
+    public function test_validate_signs_binary_body_over_raw_bytes(): void
+    {
+        // JSON valide envoyé comme fichier : ne doit pas être normalisé
+        $body = '{"z":1,"a":2}';
+        $timestamp = (string) now()->timestamp;
+        $nonce = (string) Str::uuid();
+        $payload = "{$timestamp}:{$nonce}:POST:api/v1/imports:" . hash('sha256', $body);
+        $signature = hash_hmac('sha256', $payload, config('services.bff.secret'));
+
+        $request = Request::create('/api/v1/imports', 'POST', [], [], [], ['CONTENT_TYPE' => 'application/octet-stream'], $body);
+        $request->headers->set('X-BFF-Id', config('services.bff.id'));
+        $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
+        $request->headers->set('X-BFF-Signature', $signature);
+
+        $result = HmacValidator::validate($request);
+
+        $this->assertTrue($result['valid']);
+    }
+
+    public function test_validate_signs_multipart_body_with_part_digest(): void
+    {
+        $file = UploadedFile::fake()->createWithContent('avatar.png', 'PNG-BYTES');
+        $lines = [
+            implode(':', ['field', hash('sha256', 'tags[0]'), hash('sha256', ''), hash('sha256', 'a')]),
+            implode(':', ['field', hash('sha256', 'title'), hash('sha256', ''), hash('sha256', ' Avatar ')]),
+            implode(':', ['file', hash('sha256', 'avatar'), hash('sha256', 'avatar.png'), hash('sha256', 'PNG-BYTES')]),
+        ];
+        sort($lines, SORT_STRING);
+        $bodyHash = hash('sha256', implode("\n", $lines));
+
+        $timestamp = (string) now()->timestamp;
+        $nonce = (string) Str::uuid();
+        $payload = "{$timestamp}:{$nonce}:POST:api/v1/uploads:{$bodyHash}";
+        $signature = hash_hmac('sha256', $payload, config('services.bff.secret'));
+
+        $request = Request::create(
+            '/api/v1/uploads',
+            'POST',
+            ['title' => ' Avatar ', 'tags' => ['a']],
+            [],
+            ['avatar' => $file],
+            ['CONTENT_TYPE' => 'multipart/form-data; boundary=----bff']
+        );
+        $request->headers->set('X-BFF-Id', config('services.bff.id'));
+        $request->headers->set('X-BFF-Timestamp', $timestamp);
+        $request->headers->set('X-BFF-Nonce', $nonce);
+        $request->headers->set('X-BFF-Signature', $signature);
+
+        $result = HmacValidator::validate($request);
+
+        $this->assertTrue($result['valid']);
+    }
 }
@@ -0,0 +1,91 @@
+<?php
+
+namespace Tests\Unit;
+
+use App\Helpers\PermissionMatcher;
+use PHPUnit\Framework\Attributes\DataProvider;
+use PHPUnit\Framework\TestCase;
+
+/**
+ * Tests unitaires pour PermissionMatcher
+ *
+ * Les mêmes cas s'appliquent à permissionMatches() de @rbac/types.
+ */
+class PermissionMatcherTest extends TestCase
+{
+    /**
+     * [permission accordée, permission requise, résultat attendu]
+     */
+    public static function matchingCases(): array
+    {
+        return [
+            // Correspondance exacte
+            'exact' => ['posts.read', 'posts.read', true],
+            'autre action' => ['posts.read', 'posts.update', false],
+            'autre ressource' => ['posts.read', 'comments.read', false],
+
+            // Action manage
+            'manage couvre create' => ['posts.manage', 'posts.create', true],
+            'manage couvre delete' => ['posts.manage', 'posts.delete', true],
+            'manage limité à sa ressource' => ['posts.manage', 'users.delete', false],
+
+            // Joker sur l'action
+            'posts.* couvre read' => ['posts.*', 'posts.read', true],
+            'posts.* couvre une action personnalisée' => ['posts.*', 'posts.publish', true],
+            'posts.* limité à sa ressource' => ['posts.*', 'comments.read', false],
+
+            // Joker sur la ressource
+            '*.read couvre toute ressource' => ['*.read', 'comments.read', true],
+            '*.read limité à read' => ['*.read', 'comments.update', false],
+            '*.* couvre tout' => ['*.*', 'users.delete', true],
+            '*.* couvre les sous-ressources' => ['*.*', 'projects.tasks.delete', true],
+
+            // Ressources imbriquées
+            'imbriqué exact' => ['projects.tasks.update', 'projects.tasks.update', true],
+            'parent couvre enfant' => ['projects.update', 'projects.tasks.update', true],
+            'parent limité à son action' => ['projects.update', 'projects.tasks.delete', false],
+            'enfant ne couvre pas parent' => ['projects.tasks.update', 'projects.update', false],
+            'enfant ne couvre pas frère' => ['projects.tasks.update', 'projects.files.update', false],
+            'parent.* couvre enfant' => ['projects.*', 'projects.tasks.delete', true],
+            'joker intermédiaire' => ['projects.*.read', 'projects.tasks.read', true],
+            'joker intermédiaire exige un segment' => ['projects.*.read', 'projects.read', false],
+            'joker intermédiaire limité au parent' => ['projects.*.read', 'teams.tasks.read', false],
+
+            // Le joker n'a de sens que dans la permission accordée
+            'joker requis pris littéralement' => ['posts.read', 'posts.*', false],
+            'joker requis couvert par joker' => ['posts.*', 'posts.*', true],
+
+            // Sensibilité à la casse
+            'casse différente' => ['Posts.read', 'posts.read', false],
+
+            // Slugs invalides
+            'accordée sans action' => ['posts', 'posts.read', false],
+            'requise sans action' => ['posts.*', 'posts', false],
+            'segment vide' => ['posts..read', 'posts.read', false],
+            'slug vide' => ['', 'posts.read', false],
+            'caractères interdits' => ['posts.re ad', 'posts.re ad', false],
+            'joker partiel' => ['po*.read', 'posts.read', false],
+        ];
+    }
+
+    #[DataProvider('matchingCases')]
+    public function test_matches(string $granted, string $required, bool $expected): void
+    {
+        $this->assertSame($expected, PermissionMatcher::matches($granted, $required));
+    }
+
+    public function test_any_matches_checks_every_granted_permission(): void
+    {
+        $granted = ['comments.read', 'posts.*'];
+
+        $this->assertTrue(PermissionMatcher::anyMatches($granted, 'posts.delete'));
+        $this->assertTrue(PermissionMatcher::anyMatches($granted, 'comments.read'));
+        $this->assertFalse(PermissionMatcher::anyMatches($granted, 'comments.delete'));
+        $this->assertFalse(PermissionMatcher::anyMatches([], 'posts.read'));
+    }
+
+    public function test_any_matches_accepts_collections(): void
+    {
+        $this->assertTrue(PermissionMatcher::anyMatches(collect(['*.read']), 'users.read'));
+    }
+}
@@ -0,0 +1,48 @@
+/**
+ * BFF HMAC keyring diagnostics
+ *
+ * Reports which key IDs are loaded and their status, to check a secret
+ * rotation on each instance. Secrets are never returned.
+ * Restricted to admins.
+ */
+
+import { NextResponse } from 'next/server';
+import { isAdmin } from '@rbac/types';
+import { getCurrentUserAction } from '@/lib/api/auth';
+import { getKeyring } from '@/lib/security/keyring';
+import { problemResponse } from '@/lib/security/problem';
+import { BffErrorCode } from '@/lib/security/types';
+
+export async function GET() {
+  const user = await getCurrentUserAction();
+
+  if (!user) {
+    return problemResponse(BffErrorCode.UNAUTHENTICATED, 'No auth token found', '/api/bff/keys');
+  }
+
+  if (!isAdmin(user)) {
+    return problemResponse(BffErrorCode.FORBIDDEN, 'Admin role required', '/api/bff/keys');
+  }
+
+  try {
+    const keyring = getKeyring();
+
+    return NextResponse.json({
+      data: {
+        configured: keyring !== null,
+        active_kid: keyring?.active.kid ?? null,
+        keys: (keyring?.keys ?? []).map(({ kid, status }) => ({ kid, status })),
+      },
+    });
+  } catch (error) {
+    // Malformed BFF_HMAC_KEYS: report the parse error (it never contains secrets)
+    return problemResponse(
+      BffErrorCode.INTERNAL_ERROR,
+      error instanceof Error ? error.message : 'Failed to load keyring',
+      '/api/bff/keys'
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
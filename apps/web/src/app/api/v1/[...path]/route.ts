@@ -7,7 +7,28 @@
 
 import { type NextRequest, NextResponse } from 'next/server';
 import { generateSignature, buildLaravelPath } from '@/lib/security/hmac';
+import { readRequestBody, type ProxyBody } from '@/lib/security/request-body';
 import { BffException, BffErrorCode, type HmacHeaders } from '@/lib/security/types';
+import { problemResponse, toProblemResponse } from '@/lib/security/problem';
+import { refreshTokenOnce } from '@/lib/security/token-refresh';
+import { authorizeApiKey, parseApiKeyHeader } from '@/lib/security/api-key';
+import { ensureCsrfCookie, verifyCsrf } from '@/lib/security/csrf';
+import {
+  clientIp,
+  consumeRateLimit,
+  formatWait,
+  isCountedPerAccount,
+  rateLimitHeaders,
+  type RateLimitGroup,
+  type RateLimitIdentity,
+} from '@/lib/security/rate-limit';
+import {
+  clearLoginFailures,
+  loginLockedFor,
+  recordLoginFailure,
+} from '@/lib/security/login-lockout';
+import { findApiRoute, isInternalPath } from '@/lib/routes';
+import { apiResponseSchema, VerifiedApiKeySchema, type VerifiedApiKey } from '@rbac/types';
 import { cookies } from 'next/headers';
 
 /**
@@ -36,26 +57,276 @@ function validatePathSegments(segments: string[]): void {
   for (const segment of segments) {
     // Reject empty segments
     if (!segment) {
-      throw new BffException(BffErrorCode.INVALID_SIGNATURE, 'Invalid path: empty segment');
+      throw new BffException(BffErrorCode.INVALID_PATH, 'Invalid path: empty segment');
     }
 
     // Reject path traversal
     if (segment === '..' || segment === '.') {
-      throw new BffException(BffErrorCode.INVALID_SIGNATURE, 'Invalid path: traversal not allowed');
+      throw new BffException(BffErrorCode.INVALID_PATH, 'Invalid path: traversal not allowed');
     }
 
     // Reject absolute URLs
     if (segment.includes('://') || segment.startsWith('//')) {
-      throw new BffException(BffErrorCode.INVALID_SIGNATURE, 'Invalid path: absolute URLs not allowed');
+      throw new BffException(BffErrorCode.INVALID_PATH, 'Invalid path: absolute URLs not allowed');
     }
 
     // Validate segment format (alphanumerics, dashes, underscores)
     if (!SAFE_PATH_SEGMENT.test(segment)) {
-      throw new BffException(BffErrorCode.INVALID_SIGNATURE, 'Invalid path: forbidden characters');
+      throw new BffException(BffErrorCode.INVALID_PATH, 'Invalid path: forbidden characters');
     }
   }
 }
 
+/**
+ * Hop-by-hop headers never forwarded to the browser
+ */
+const HOP_BY_HOP_HEADERS = new Set(['connection', 'keep-alive', 'transfer-encoding']);
+
+/**
+ * Laravel refresh endpoint (relative to LARAVEL_API_URL)
+ */
+const REFRESH_PATH = 'api/v1/auth/refresh';
+
+/**
+ * Password sign-in (progressive lockout per account)
+ */
+const LOGIN_PATH = 'api/v1/auth/login';
+
+/**
+ * Laravel endpoint verifying API keys (called by the BFF only)
+ */
+const API_KEY_VERIFY_PATH = 'api/v1/auth/api-key';
+
+/**
+ * End client of a proxied request
+ *
+ * Laravel only sees the BFF: the client IP and user agent are forwarded in
+ * signed headers for the audit log and API key usage.
+ */
+interface ClientInfo {
+  /** Address resolved by clientIp(), 'unknown' without trusted proxies */
+  ip: string;
+  userAgent: string | null;
+}
+
+/**
+ * Signs and sends one request to Laravel
+ *
+ * A new nonce and timestamp are generated on every call, so the same
+ * request can be sent again after a token refresh.
+ */
+async function sendToLaravel(
+  method: string,
+  laravelUrl: URL,
+  laravelPath: string,
+  proxyBody: ProxyBody,
+  client: ClientInfo,
+  authorization?: string
+): Promise<Response> {
+  // Prepare headers for Laravel
+  const headers: Record<string, string> = {
+    'Content-Type': proxyBody.contentType,
+    'Accept': 'application/json',
+  };
+
+  // Bearer token of the session, or API key identity (signed like the rest)
+  if (authorization) {
+    headers['Authorization'] = authorization;
+  }
+
+  // End client, signed as well: Laravel trusts these headers on verified requests only
+  if (client.ip !== 'unknown') {
+    headers['X-BFF-Client-IP'] = client.ip;
+  }
+  if (client.userAgent) {
+    headers['X-BFF-Client-User-Agent'] = client.userAgent;
+  }
+
+  // Generate HMAC signature with body, query string and forwarded headers
+  const hmacResult = generateSignature(method, laravelPath, proxyBody.json, {
+    query: laravelUrl.searchParams,
+    headers: new Headers(headers),
+    bodyHash: proxyBody.bodyHash,
+  });
+  const hmacHeaders: HmacHeaders = {
+    'X-BFF-Id': hmacResult['X-BFF-Id'],
+    'X-BFF-Key-Id': hmacResult['X-BFF-Key-Id'],
+    'X-BFF-Timestamp': hmacResult['X-BFF-Timestamp'],
+    'X-BFF-Nonce': hmacResult['X-BFF-Nonce'],
+    'X-BFF-Signature-Version': hmacResult['X-BFF-Signature-Version'],
+    'X-BFF-Signature': hmacResult['X-BFF-Signature'],
+  };
+  Object.assign(headers, hmacHeaders);
+
+  // Create AbortController for timeout
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), BFF_TIMEOUT);
+
+  try {
+    // Prepare fetch options
+    const options: RequestInit = {
+      method,
+      headers,
+      signal: controller.signal,
+    };
+
+    if (proxyBody.raw !== undefined) {
+      // Non-JSON body forwarded as-is (signed over its hash)
+      options.body = proxyBody.raw;
+    } else if (hmacResult.normalizedBody !== undefined) {
+      // Send normalized (sorted) body to match signature
+      options.body = hmacResult.normalizedBody;
+    }
+
+    // Make request to Laravel
+    return await fetch(laravelUrl.toString(), options);
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new BffException(BffErrorCode.TIMEOUT, 'Request timeout');
+    }
+
+    // fetch() rejects with a TypeError when Laravel cannot be reached
+    if (error instanceof TypeError) {
+      throw new BffException(BffErrorCode.NETWORK_ERROR, 'Upstream unreachable');
+    }
+
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Exchanges an expired token for a new one through Laravel
+ *
+ * @returns The new token, or null if Laravel refused the refresh
+ */
+async function requestTokenRefresh(
+  authToken: string,
+  client: ClientInfo
+): Promise<string | null> {
+  const refreshUrl = new URL(REFRESH_PATH, LARAVEL_API_URL);
+  const response = await sendToLaravel(
+    'POST',
+    refreshUrl,
+    REFRESH_PATH,
+    { json: null, contentType: 'application/json' },
+    client,
+    `Bearer ${authToken}`
+  );
+
+  if (!response.ok) {
+    return null;
+  }
+
+  const payload = await response.json().catch(() => null);
+  const token = payload?.data?.access_token;
+  return typeof token === 'string' && token ? token : null;
+}
+
+/**
+ * Verifies an API key through Laravel
+ *
+ * @returns The key with the scopes its owner still holds, or null if
+ *          Laravel rejected it (unknown, revoked or expired)
+ */
+async function requestApiKeyVerification(
+  key: string,
+  client: ClientInfo
+): Promise<VerifiedApiKey | null> {
+  const verifyUrl = new URL(API_KEY_VERIFY_PATH, LARAVEL_API_URL);
+  const response = await sendToLaravel(
+    'POST',
+    verifyUrl,
+    API_KEY_VERIFY_PATH,
+    { json: { key }, contentType: 'application/json' },
+    client
+  );
+
+  if (response.status === 401) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new BffException(BffErrorCode.UPSTREAM_ERROR, 'API key verification failed');
+  }
+
+  const payload = apiResponseSchema(VerifiedApiKeySchema).safeParse(
+    await response.json().catch(() => null)
+  );
+  if (!payload.success) {
+    throw new BffException(BffErrorCode.UPSTREAM_ERROR, 'Invalid API key verification response');
+  }
+  return payload.data.data;
+}
+
+/**
+ * Email of a sign-in body, if any
+ */
+function emailOf(body: unknown): string | null {
+  const email = (body as { email?: unknown } | null)?.email;
+  return typeof email === 'string' && email.trim() !== '' ? email : null;
+}
+
+/**
+ * Takes a rate limit token for a request
+ *
+ * @returns The RateLimit-* headers to add, and the 429 response when refused
+ */
+async function takeRateLimit(
+  group: RateLimitGroup,
+  identity: RateLimitIdentity,
+  instance: string
+): Promise<{ headers: Record<string, string>; refused?: NextResponse }> {
+  const rateLimit = await consumeRateLimit(group, identity);
+  const headers = rateLimitHeaders(rateLimit);
+
+  if (rateLimit.allowed) {
+    return { headers };
+  }
+
+  return {
+    headers,
+    refused: problemResponse(
+      BffErrorCode.RATE_LIMITED,
+      `Too many requests. Try again in ${formatWait(rateLimit.retryAfter)}.`,
+      instance,
+      { headers }
+    ),
+  };
+}
+
+/**
+ * 429 for an account locked after repeated failed sign-ins
+ */
+function loginLockedResponse(
+  seconds: number,
+  instance: string,
+  headers: Record<string, string>
+): NextResponse {
+  return problemResponse(
+    BffErrorCode.LOGIN_LOCKED,
+    `Too many failed sign-in attempts. Try again in ${formatWait(seconds)}.`,
+    instance,
+    { headers: { ...headers, 'Retry-After': String(seconds) } }
+  );
+}
+
+/**
+ * Sets the HttpOnly auth cookie on a response
+ */
+function setAuthCookie(response: NextResponse, token: string): void {
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + 15); // 15 days
+
+  response.cookies.set('auth_token', token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
 /**
  * Main proxy function to Laravel
  */
@@ -81,182 +352,255 @@ async function proxyRequest(
     // Double check: ensure final URL points to Laravel
     const expectedHost = new URL(LARAVEL_API_URL).host;
     if (laravelUrl.host !== expectedHost) {
-      throw new BffException(BffErrorCode.INVALID_SIGNATURE, 'Invalid request: host mismatch');
+      throw new BffException(BffErrorCode.INVALID_PATH, 'Invalid request: host mismatch');
     }
 
-    // Get body for signature
-    const clonedRequest = request.clone();
-    let body: unknown = null;
-
-    if (request.method !== 'GET' && request.method !== 'HEAD') {
-      try {
-        const contentType = request.headers.get('content-type') || '';
-        if (contentType.includes('application/json')) {
-          body = await clonedRequest.json();
-        }
-      } catch {
-        // No body or non-JSON
-      }
+    // Key verification and the route list are reserved to the BFF itself
+    if (isInternalPath(laravelPath)) {
+      return problemResponse(BffErrorCode.FORBIDDEN, 'Internal route', bffPath);
     }
 
-    // Generate HMAC signature with parsed body
-    const hmacResult = generateSignature(method, laravelPath, body);
-    const hmacHeaders: HmacHeaders = {
-      'X-BFF-Id': hmacResult['X-BFF-Id'],
-      'X-BFF-Timestamp': hmacResult['X-BFF-Timestamp'],
-      'X-BFF-Signature': hmacResult['X-BFF-Signature'],
+    const apiKey = parseApiKeyHeader(request.headers.get('authorization'));
+    const cookieStore = await cookies();
+    const authToken = cookieStore.get('auth_token')?.value;
+    const route = findApiRoute(method, laravelPath);
+    const client: ClientInfo = {
+      ip: clientIp(request.headers),
+      userAgent: request.headers.get('user-agent'),
     };
+    const rateLimitGroup = route?.rateLimit ?? 'api';
+    const identity: RateLimitIdentity = { ip: client.ip, credential: apiKey ?? authToken };
+    const countedPerAccount = isCountedPerAccount(rateLimitGroup, client.ip);
+
+    // Rate limit, before reading the body: refused requests cost nothing
+    // (except sign-ins counted per account, the email is in the body)
+    let rateLimit = countedPerAccount
+      ? null
+      : await takeRateLimit(rateLimitGroup, identity, bffPath);
+    if (rateLimit?.refused) {
+      return rateLimit.refused;
+    }
 
-    const cookieStore = await cookies();
+    // Cookie-authenticated writes must come from the app itself
+    verifyCsrf(request, method);
 
-    // Prepare headers for Laravel
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json',
-      ...hmacHeaders,
-    };
+    // Copy query params (before signing: the query string is part of the signature)
+    request.nextUrl.searchParams.forEach((value, key) => {
+      laravelUrl.searchParams.append(key, value);
+    });
 
-    // Public routes that don't require authentication
-    const publicRoutes = [
-      'api/v1/auth/login',
-      'api/v1/auth/register',
-      'api/v1/auth/providers',
-    ];
-    const isPublicRoute = publicRoutes.some((route) => laravelPath.startsWith(route));
+    // Get body for signature
+    const proxyBody = await readRequestBody(request);
 
-    // Transfer auth token if present (Bearer token for Laravel)
-    const authToken = cookieStore.get('auth_token')?.value;
+    if (countedPerAccount) {
+      const account = emailOf(proxyBody.json) ?? undefined;
+      rateLimit = await takeRateLimit(rateLimitGroup, { ...identity, account }, bffPath);
+      if (rateLimit.refused) {
+        return rateLimit.refused;
+      }
+    }
+    const limitHeaders = rateLimit?.headers ?? {};
 
-    if (authToken) {
-      headers['Authorization'] = `Bearer ${authToken}`;
-    } else if (!isPublicRoute) {
-      return NextResponse.json(
-        { error: 'Unauthorized', message: 'No auth token found' },
-        { status: 401 }
+    // Machine clients: API key instead of the session cookie (no refresh, no cookies)
+    if (apiKey) {
+      const verified = await authorizeApiKey(apiKey, method, laravelPath, (key) =>
+        requestApiKeyVerification(key, client)
+      );
+      const response = await sendToLaravel(
+        method,
+        laravelUrl,
+        laravelPath,
+        proxyBody,
+        client,
+        `BffApiKey ${verified.id}`
       );
+      return await forwardResponse(response, { session: false, headers: limitHeaders });
     }
 
-    // Create AbortController for timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), BFF_TIMEOUT);
+    // Routes missing from the registry require a session
+    const isPublicRoute = route?.auth === 'public';
 
-    try {
-      // Prepare fetch options
-      const options: RequestInit = {
-        method,
-        headers,
-        signal: controller.signal,
-      };
+    if (!authToken && !isPublicRoute) {
+      return problemResponse(BffErrorCode.UNAUTHENTICATED, 'No auth token found', bffPath);
+    }
 
-      // Send normalized (sorted) body to match signature
-      if (hmacResult.normalizedBody !== undefined) {
-        options.body = hmacResult.normalizedBody;
+    // Locked accounts are refused before Laravel checks the password
+    const loginEmail = laravelPath === LOGIN_PATH ? emailOf(proxyBody.json) : null;
+    if (loginEmail) {
+      const lockedFor = await loginLockedFor(loginEmail);
+      if (lockedFor > 0) {
+        return loginLockedResponse(lockedFor, bffPath, limitHeaders);
       }
+    }
 
-      // Copy query params
-      request.nextUrl.searchParams.forEach((value, key) => {
-        laravelUrl.searchParams.set(key, value);
-      });
+    let response = await sendToLaravel(
+      method,
+      laravelUrl,
+      laravelPath,
+      proxyBody,
+      client,
+      authToken ? `Bearer ${authToken}` : undefined
+    );
 
-      // Make request to Laravel
-      const response = await fetch(laravelUrl.toString(), options);
+    if (loginEmail) {
+      if (response.ok) {
+        await clearLoginFailures(loginEmail);
+      } else if (response.status === 401) {
+        // Wrong credentials only: validation errors (422) are not guesses
+        const lockedFor = await recordLoginFailure(loginEmail);
+        if (lockedFor > 0) {
+          await response.body?.cancel();
+          return loginLockedResponse(lockedFor, bffPath, limitHeaders);
+        }
+      }
+    }
 
-      clearTimeout(timeoutId);
+    // Expired token: refresh once (shared with concurrent requests of the
+    // same session), then replay the original request with the new token
+    let refreshedToken: string | null = null;
+    const canRefresh = !isPublicRoute && !route?.noRefresh;
 
-      // Get response cookies (new token, etc.)
-      const setCookieHeaders = response.headers.getSetCookie();
-      const responseHeaders = new Headers();
+    if (response.status === 401 && authToken && canRefresh) {
+      refreshedToken = await refreshTokenOnce(authToken, (token) =>
+        requestTokenRefresh(token, client)
+      );
 
-      // Copy important response headers
-      response.headers.forEach((value, key) => {
-        if (key !== 'set-cookie') {
-          responseHeaders.set(key, value);
-        }
-      });
-
-      // Transfer cookies from Laravel
-      setCookieHeaders.forEach((cookie) => {
-        responseHeaders.append('set-cookie', cookie);
-      });
-
-      // Get response body
-      const responseData = await response.text();
-
-      // Create Next.js response
-      const nextResponse = new NextResponse(responseData, {
-        status: response.status,
-        statusText: response.statusText,
-        headers: responseHeaders,
-      });
-
-      // If Laravel returns access_token, set HttpOnly cookie
-      try {
-        const jsonData = JSON.parse(responseData);
-        if (jsonData.data?.access_token) {
-          const token = jsonData.data.access_token;
-          const expiresAt = new Date();
-          expiresAt.setDate(expiresAt.getDate() + 15); // 15 days
-
-          // Set HttpOnly cookie
-          nextResponse.cookies.set('auth_token', token, {
-            httpOnly: true,
-            secure: process.env.NODE_ENV === 'production',
-            sameSite: 'lax',
-            path: '/',
-            expires: expiresAt,
-          });
-        }
-      } catch {
-        // No JSON or no token
+      if (refreshedToken) {
+        await response.body?.cancel();
+        response = await sendToLaravel(
+          method,
+          laravelUrl,
+          laravelPath,
+          proxyBody,
+          client,
+          `Bearer ${refreshedToken}`
+        );
       }
+    }
 
-      return nextResponse;
-    } catch (error) {
-      clearTimeout(timeoutId);
+    return await forwardResponse(response, {
+      session: true,
+      refreshedToken,
+      headers: limitHeaders,
+    });
+  } catch (error) {
+    // Error handling (status derived from the error code)
+    return toProblemResponse(error, request.nextUrl.pathname);
+  }
+}
 
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new BffException(BffErrorCode.TIMEOUT, 'Request timeout');
-      }
+/**
+ * Options of forwardResponse
+ */
+interface ForwardOptions {
+  /** Session request: Laravel cookies and returned access tokens reach the browser */
+  session: boolean;
+  /** Token rotated by a refresh, set as the auth cookie */
+  refreshedToken?: string | null;
+  /** Headers added by the BFF (rate limit) */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Builds the browser response from Laravel's
+ */
+async function forwardResponse(
+  response: Response,
+  { session, refreshedToken, headers = {} }: ForwardOptions
+): Promise<NextResponse> {
+  // Get response cookies (new token, etc.)
+  const setCookieHeaders = session ? response.headers.getSetCookie() : [];
+  const responseHeaders = new Headers();
 
-      throw error;
+  // fetch() transparently decompresses: encoding and length no longer match the body
+  const isDecoded = response.headers.has('content-encoding');
+
+  // Copy important response headers
+  response.headers.forEach((value, key) => {
+    if (key === 'set-cookie' || HOP_BY_HOP_HEADERS.has(key)) {
+      return;
     }
-  } catch (error) {
-    // Error handling
-    if (error instanceof BffException) {
-      return NextResponse.json(
-        { error: error.message, code: error.code },
-        { status: 500 }
-      );
+    if (isDecoded && (key === 'content-encoding' || key === 'content-length')) {
+      return;
     }
+    responseHeaders.set(key, value);
+  });
 
-    return NextResponse.json(
-      { error: 'Internal server error', message: 'Failed to proxy request' },
-      { status: 500 }
-    );
+  // Transfer cookies from Laravel
+  setCookieHeaders.forEach((cookie) => {
+    responseHeaders.append('set-cookie', cookie);
+  });
+
+  for (const [key, value] of Object.entries(headers)) {
+    responseHeaders.set(key, value);
+  }
+
+  // Stream non-JSON responses (file downloads, exports) without buffering them
+  const responseContentType = response.headers.get('content-type') || '';
+  if (!responseContentType.includes('json')) {
+    const streamed = new NextResponse(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: responseHeaders,
+    });
+
+    if (refreshedToken) {
+      setAuthCookie(streamed, refreshedToken);
+    }
+    return streamed;
+  }
+
+  // Get response body (JSON: inspected for access_token below)
+  const responseData = await response.text();
+
+  // Create Next.js response
+  const nextResponse = new NextResponse(responseData, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: responseHeaders,
+  });
+
+  // Rotated token from the refresh above
+  if (refreshedToken) {
+    setAuthCookie(nextResponse, refreshedToken);
+  }
+
+  // If Laravel returns access_token, set HttpOnly cookie
+  if (session) {
+    try {
+      const jsonData = JSON.parse(responseData);
+      if (jsonData.data?.access_token) {
+        setAuthCookie(nextResponse, jsonData.data.access_token);
+      }
+    } catch {
+      // No JSON or no token
+    }
   }
+
+  return nextResponse;
 }
 
 /**
  * Handlers for each HTTP method
  */
 export async function GET(request: NextRequest, params: RouteParams) {
-  return proxyRequest(request, 'GET', params.params);
+  return ensureCsrfCookie(request, await proxyRequest(request, 'GET', params.params));
 }
 
 export async function POST(request: NextRequest, params: RouteParams) {
-  return proxyRequest(request, 'POST', params.params);
+  return ensureCsrfCookie(request, await proxyRequest(request, 'POST', params.params));
 }
 
 export async function PUT(request: NextRequest, params: RouteParams) {
-  return proxyRequest(request, 'PUT', params.params);
+  return ensureCsrfCookie(request, await proxyRequest(request, 'PUT', params.params));
 }
 
 export async function PATCH(request: NextRequest, params: RouteParams) {
-  return proxyRequest(request, 'PATCH', params.params);
+  return ensureCsrfCookie(request, await proxyRequest(request, 'PATCH', params.params));
 }
 
 export async function DELETE(request: NextRequest, params: RouteParams) {
-  return proxyRequest(request, 'DELETE', params.params);
+  return ensureCsrfCookie(request, await proxyRequest(request, 'DELETE', params.params));
 }
 
 /**
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
 import Link from "next/link"
 import { useAuthStore } from "@/stores/auth-store"
@@ -8,17 +8,27 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
-import { ShieldIcon, MailIcon, LockIcon, ArrowRightIcon, Wand2Icon } from "lucide-react"
+import { ShieldIcon, MailIcon, LockIcon, ArrowRightIcon, Wand2Icon, TimerIcon } from "lucide-react"
 import { Spinner } from "@/components/ui/spinner"
 import { toast } from "sonner"
 import { Separator } from "@/components/ui/separator"
 
 export default function LoginPage() {
   const router = useRouter()
-  const { login, loginWithOAuth, isLoading, error, clearError } = useAuthStore()
+  const { login, loginWithOAuth, isLoading, error, lockedUntil, clearError } = useAuthStore()
   const [email, setEmail] = useState("")
   const [password, setPassword] = useState("")
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
+
+  // Compte à rebours du verrouillage (rate limit ou trop d'échecs)
+  const lockedFor = lockedUntil ? Math.max(0, Math.ceil((lockedUntil - now) / 1000)) : 0
+
+  useEffect(() => {
+    if (!lockedUntil) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [lockedUntil])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -32,6 +42,7 @@ export default function LoginPage() {
       })
       router.push("/dashboard")
     } catch {
+      setNow(Date.now())
       toast.error("Login failed", {
         description: error || "Please check your credentials and try again.",
       })
@@ -129,7 +140,17 @@ export default function LoginPage() {
           </div>
 
           <form onSubmit={handleSubmit} className="space-y-4">
-            {error && (
+            {lockedFor > 0 ? (
+              <div className="flex items-center gap-2 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-300 text-sm animate-in fade-in slide-in-from-top-2 duration-300">
+                <TimerIcon className="h-4 w-4 shrink-0" />
+                <span>
+                  Too many sign-in attempts. Try again in{" "}
+                  <span className="font-medium tabular-nums">
+                    {Math.floor(lockedFor / 60)}:{String(lockedFor % 60).padStart(2, "0")}
+                  </span>
+                </span>
+              </div>
+            ) : error && (
               <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 text-sm animate-in fade-in slide-in-from-top-2 duration-300">
                 {error}
               </div>
@@ -249,7 +270,7 @@ export default function LoginPage() {
 
             <Button
               type="submit"
-              disabled={isSubmitting || isLoading}
+              disabled={isSubmitting || isLoading || lockedFor > 0}
               className="w-full h-11 bg-gradient-to-r from-violet-600 to-indigo-600 hover:from-violet-700 hover:to-indigo-700 text-white shadow-lg shadow-violet-500/25 group"
             >
               {isSubmitting ? (
@@ -0,0 +1,47 @@
+import { requireAccess } from '@/lib/page-access';
+import { getMyAccessRequestsAction, getRequestableRolesAction } from '@/lib/api/access-requests';
+import { SiteHeaderServer } from '@/components/site-header-server';
+import { AccessRequestsPanel } from '@/components/dashboard/access-requests-panel';
+
+/**
+ * Access Requests Page - SSR
+ *
+ * Demande d'élévation temporaire (rôle pour quelques heures) et suivi des demandes.
+ * Accès : tout utilisateur connecté (lib/routes.ts)
+ */
+export default async function AccessRequestsPage() {
+  const user = await requireAccess('/dashboard/access-requests');
+
+  let roles = null;
+  let requests = null;
+  let error = null;
+
+  try {
+    [roles, requests] = await Promise.all([
+      getRequestableRolesAction(),
+      getMyAccessRequestsAction(),
+    ]);
+  } catch (e) {
+    error = e instanceof Error ? e.message : 'Failed to load data';
+  }
+
+  return (
+    <>
+      <SiteHeaderServer
+        title="Request Access"
+        subtitle="Demander un rôle pour une durée limitée"
+        user={user}
+      />
+      <div className="flex flex-1 flex-col gap-4 p-4 pt-6 md:p-8">
+        {error ? (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-red-800">
+            <p className="font-medium">Error loading access requests</p>
+            <p className="text-sm">{error}</p>
+          </div>
+        ) : (
+          <AccessRequestsPanel roles={roles || []} initialRequests={requests || []} />
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,44 @@
+import { requireAccess } from '@/lib/page-access';
+import { getAccessRequestsAction } from '@/lib/api/access-requests';
+import { SiteHeaderServer } from '@/components/site-header-server';
+import { AccessRequestsReview } from '@/components/dashboard/access-requests-review';
+
+/**
+ * Pending Access Requests Page - SSR
+ *
+ * Validation ou refus des demandes d'élévation des autres utilisateurs.
+ * Accès : manifest des routes (lib/routes.ts), vérifié par le middleware
+ * puis par la page elle-même
+ */
+export default async function PendingAccessRequestsPage() {
+  const user = await requireAccess('/dashboard/access-requests/pending');
+
+  let requests = null;
+  let error = null;
+
+  try {
+    requests = await getAccessRequestsAction('pending');
+  } catch (e) {
+    error = e instanceof Error ? e.message : 'Failed to load data';
+  }
+
+  return (
+    <>
+      <SiteHeaderServer
+        title="Pending Access Requests"
+        subtitle="Approuver ou refuser les demandes d'élévation"
+        user={user}
+      />
+      <div className="flex flex-1 flex-col gap-4 p-4 pt-6 md:p-8">
+        {error ? (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-red-800">
+            <p className="font-medium">Error loading access requests</p>
+            <p className="text-sm">{error}</p>
+          </div>
+        ) : (
+          <AccessRequestsReview requests={requests || []} currentUserId={user.id} />
+        )}
+      </div>
+    </>
+  );
+}
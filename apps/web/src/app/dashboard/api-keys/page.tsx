@@ -1,25 +1,27 @@
-import { cookies } from 'next/headers';
-import { redirect } from 'next/navigation';
-import { getCurrentUserAction } from '@/lib/api/auth';
+import { requireAccess } from '@/lib/page-access';
+import { getApiKeysAction } from '@/lib/api/api-keys';
 import { SiteHeaderServer } from '@/components/site-header-server';
 import { ApiKeysTable } from '@/components/dashboard/api-keys-table';
-import { hasPermission } from '@rbac/types';
+import type { ApiKey } from '@rbac/types';
 
 /**
  * API Keys Management Page - SSR
  *
- * Accessible aux utilisateurs avec permission api-keys.view
+ * Permission api-keys.read : vérifiée par le middleware (manifest des
+ * routes) puis par la page elle-même.
+ * Les clés sont celles de l'utilisateur connecté ; leurs scopes se choisissent
+ * parmi ses propres permissions.
  */
 export default async function ApiKeysPage() {
-  const user = await getCurrentUserAction();
+  const user = await requireAccess('/dashboard/api-keys');
 
-  if (!user) {
-    redirect('/auth/login');
-  }
+  let keys: ApiKey[] = [];
+  let error = null;
 
-  // Vérifier les permissions
-  if (!hasPermission(user, 'api-keys', 'read')) {
-    redirect('/dashboard');
+  try {
+    keys = await getApiKeysAction();
+  } catch (e) {
+    error = e instanceof Error ? e.message : 'Failed to load data';
   }
 
   return (
@@ -30,7 +32,14 @@ export default async function ApiKeysPage() {
         user={user}
       />
       <div className="flex flex-1 flex-col gap-4 p-4 pt-6 md:p-8">
-        <ApiKeysTable userId={user.id} />
+        {error ? (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-red-800">
+            <p className="font-medium">Error loading API keys</p>
+            <p className="text-sm">{error}</p>
+          </div>
+        ) : (
+          <ApiKeysTable keys={keys} permissions={user.permissions.map((p) => p.slug)} />
+        )}
       </div>
     </>
   );
@@ -0,0 +1,59 @@
+import { requireAccess } from '@/lib/page-access';
+import { getAuditLogsAction } from '@/lib/api/admin';
+import { SiteHeaderServer } from '@/components/site-header-server';
+import { AuditLogTable } from '@/components/dashboard/audit-log-table';
+import { AuditLogQuerySchema, type AuditLog, type PaginatedResponse } from '@rbac/types';
+
+interface AuditPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+/**
+ * Audit Log Page - SSR
+ *
+ * Réservée aux admins (manifest des routes, middleware et page). Filtres et
+ * pagination sont portés par l'URL (?action=&search=&from=&to=&page=) et
+ * exécutés par Laravel ; l'export CSV / JSON reprend les mêmes filtres.
+ */
+export default async function AuditPage({ searchParams }: AuditPageProps) {
+  const user = await requireAccess('/dashboard/audit');
+
+  const query = AuditLogQuerySchema.parse(await searchParams);
+
+  let logs: PaginatedResponse<AuditLog> | null = null;
+  let error = null;
+
+  try {
+    logs = await getAuditLogsAction(query);
+  } catch (e) {
+    error = e instanceof Error ? e.message : 'Failed to load data';
+  }
+
+  return (
+    <>
+      <SiteHeaderServer
+        title="Audit Log"
+        subtitle="Who changed roles and permissions, and who signed in"
+        user={user}
+      />
+      <div className="flex flex-1 flex-col gap-4 p-4 pt-6 md:p-8">
+        {error ? (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-red-800">
+            <p className="font-medium">Error loading the audit log</p>
+            <p className="text-sm">{error}</p>
+          </div>
+        ) : (
+          <AuditLogTable
+            logs={logs?.data || []}
+            query={query}
+            pagination={{
+              currentPage: logs?.meta.current_page ?? 1,
+              lastPage: logs?.meta.last_page ?? 1,
+              total: logs?.meta.total ?? 0,
+            }}
+          />
+        )}
+      </div>
+    </>
+  );
+}
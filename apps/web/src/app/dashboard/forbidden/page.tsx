@@ -0,0 +1,17 @@
+import { SiteHeaderClient } from '@/components/site-header-client';
+import { AccessDenied } from '@/components/access-denied';
+
+/**
+ * Page 403
+ *
+ * Rendue par le middleware (rewrite, statut 403) quand le manifest des
+ * routes refuse l'accès à la page demandée. L'URL reste celle de la page.
+ */
+export default function ForbiddenPage() {
+  return (
+    <>
+      <SiteHeaderClient title="Accès refusé" />
+      <AccessDenied message="Votre rôle ou vos permissions ne permettent pas d'accéder à cette page." />
+    </>
+  );
+}
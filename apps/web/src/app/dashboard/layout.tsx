@@ -2,7 +2,10 @@ import { cookies } from 'next/headers';
 import { redirect } from 'next/navigation';
 import { SidebarProvider, SidebarInset } from '@/components/ui/sidebar';
 import { AppSidebar } from '@/components/app-sidebar';
+import { AccessSync } from '@/components/access-sync';
 import { getCurrentUserAction } from '@/lib/api/auth';
+import { getAccessRequestsAction } from '@/lib/api/access-requests';
+import { isAdmin } from '@rbac/types';
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
@@ -14,6 +17,7 @@ interface DashboardLayoutProps {
  * - Vérifie l'authentification côté serveur (cookie check)
  * - Redirige vers /auth/login si non connecté
  * - Fetch le user côté serveur et le passe à AppSidebar pour éviter le flash
+ * - Compte les demandes d'élévation à traiter (badge de la sidebar, admins)
  */
 export default async function DashboardLayout({ children }: DashboardLayoutProps) {
   // Vérifier le cookie d'auth
@@ -27,9 +31,18 @@ export default async function DashboardLayout({ children }: DashboardLayoutProps
   // Fetch le user côté serveur pour le render initial de la sidebar
   const initialUser = await getCurrentUserAction();
 
+  // Le badge ne doit pas bloquer le dashboard si l'API échoue
+  const pendingAccessRequests =
+    initialUser && isAdmin(initialUser)
+      ? await getAccessRequestsAction()
+          .then((requests) => requests.length)
+          .catch(() => 0)
+      : 0;
+
   return (
     <SidebarProvider>
-      <AppSidebar initialUser={initialUser} />
+      <AccessSync />
+      <AppSidebar initialUser={initialUser} pendingAccessRequests={pendingAccessRequests} />
       <SidebarInset>{children}</SidebarInset>
     </SidebarProvider>
   );
@@ -1,49 +1,21 @@
-'use client';
-
-import { useAuthStore } from '@/stores/auth-store';
-import { SiteHeaderClient } from '@/components/site-header-client';
+import { requireAccess } from '@/lib/page-access';
+import { SiteHeaderServer } from '@/components/site-header-server';
 import { DashboardContent } from '@/components/dashboard/dashboard-content';
-import { redirect } from 'next/navigation';
-import { Skeleton } from '@/components/ui/skeleton';
 
 /**
- * Dashboard Page - Client Component
+ * Dashboard Page - SSR
  *
- * L'utilisateur est disponible via le store Zustand (hydraté par AuthInitializer).
- * Plus de double fetch !
+ * Accès : tout utilisateur connecté (manifest des routes, middleware et page)
  */
-export default function DashboardPage() {
-  const { user, isHydrated } = useAuthStore();
-
-  // Afficher un skeleton pendant l'hydration
-  if (!isHydrated) {
-    return (
-      <>
-        <div className="flex h-16 items-center gap-2 border-b px-4">
-          <Skeleton className="h-8 w-8" />
-          <Skeleton className="h-4 w-32" />
-        </div>
-        <div className="p-6 space-y-6">
-          <Skeleton className="h-8 w-48" />
-          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-            {[...Array(4)].map((_, i) => (
-              <Skeleton key={i} className="h-32 rounded-xl" />
-            ))}
-          </div>
-        </div>
-      </>
-    );
-  }
-
-  if (!user) {
-    redirect('/auth/login');
-  }
+export default async function DashboardPage() {
+  const user = await requireAccess('/dashboard');
 
   return (
     <>
-      <SiteHeaderClient
+      <SiteHeaderServer
         title="Dashboard"
         subtitle={`Welcome back, ${user.name.split(' ')[0]}`}
+        user={user}
       />
       <DashboardContent user={user} />
     </>
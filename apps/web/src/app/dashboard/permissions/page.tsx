@@ -1,38 +1,20 @@
-'use client';
-
-import { useAuthStore } from '@/stores/auth-store';
-import { SiteHeaderClient } from '@/components/site-header-client';
-import { redirect } from 'next/navigation';
-import { Skeleton } from '@/components/ui/skeleton';
+import { requireAccess } from '@/lib/page-access';
+import { SiteHeaderServer } from '@/components/site-header-server';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { ShieldIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Gate } from '@/components/gate';
+import { KeyIcon, ShieldIcon } from 'lucide-react';
+import Link from 'next/link';
 
-export default function PermissionsPage() {
-  const { user, isHydrated } = useAuthStore();
-
-  if (!isHydrated) {
-    return (
-      <>
-        <div className="flex h-16 items-center gap-2 border-b px-4">
-          <Skeleton className="h-8 w-8" />
-          <Skeleton className="h-4 w-32" />
-        </div>
-        <div className="p-6 space-y-6">
-          <Skeleton className="h-8 w-48" />
-          <div className="grid gap-4">
-            {[...Array(3)].map((_, i) => (
-              <Skeleton key={i} className="h-24 rounded-xl" />
-            ))}
-          </div>
-        </div>
-      </>
-    );
-  }
-
-  if (!user) {
-    redirect('/auth/login');
-  }
+/**
+ * Permissions Page - SSR
+ *
+ * Permissions de l'utilisateur connecté, groupées par ressource.
+ * Accès : tout utilisateur connecté (manifest des routes, middleware et page)
+ */
+export default async function PermissionsPage() {
+  const user = await requireAccess('/dashboard/permissions');
 
   // Grouper les permissions par ressource
   const permissionsByResource = user.permissions.reduce((acc, permission) => {
@@ -45,11 +27,23 @@ export default function PermissionsPage() {
 
   return (
     <>
-      <SiteHeaderClient
+      <SiteHeaderServer
         title="Permissions"
         subtitle="Vos permissions d'accès"
+        user={user}
       />
       <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+        {/* Les admins gèrent les permissions depuis la matrice */}
+        <Gate role="admin">
+          <div className="flex justify-end">
+            <Button asChild variant="outline" size="sm">
+              <Link href="/dashboard/roles/permissions">
+                <KeyIcon className="mr-2 h-4 w-4" />
+                Gérer les permissions
+              </Link>
+            </Button>
+          </div>
+        </Gate>
         <div className="grid gap-4">
           {Object.entries(permissionsByResource).length === 0 ? (
             <Card>
@@ -1,9 +1,8 @@
-import { redirect } from 'next/navigation';
-import { getCurrentUserAction } from '@/lib/api/auth';
+import { requireAccess } from '@/lib/page-access';
 import { getPostsAction } from '@/lib/api/admin';
 import { SiteHeaderServer } from '@/components/site-header-server';
 import { PostsGrid } from '@/components/dashboard/posts-grid';
-import { hasPermission, isAdmin } from '@rbac/types';
+import { can } from '@rbac/types';
 
 /**
  * Posts Page - SSR avec JSONPlaceholder
@@ -11,21 +10,12 @@ import { hasPermission, isAdmin } from '@rbac/types';
  * Démontre les permissions RBAC sur des fake data
  */
 export default async function PostsPage() {
-  const user = await getCurrentUserAction();
+  const user = await requireAccess('/dashboard/posts');
 
-  if (!user) {
-    redirect('/auth/login');
-  }
-
-  // Vérifier les permissions
-  const canRead = hasPermission(user, 'posts', 'read') || isAdmin(user);
-  const canCreate = hasPermission(user, 'posts', 'create') || isAdmin(user);
-  const canUpdate = hasPermission(user, 'posts', 'update') || isAdmin(user);
-  const canDelete = hasPermission(user, 'posts', 'delete') || isAdmin(user);
-
-  if (!canRead) {
-    redirect('/dashboard');
-  }
+  // Vérifier les permissions (policies, sans instance de post)
+  const canCreate = can(user, 'create', 'posts');
+  const canUpdate = can(user, 'update', 'posts');
+  const canDelete = can(user, 'delete', 'posts');
 
   // Récupérer les posts depuis JSONPlaceholder
   const posts = await getPostsAction(20);
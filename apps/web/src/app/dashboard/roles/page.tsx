@@ -1,27 +1,17 @@
 import { cookies } from 'next/headers';
-import { redirect } from 'next/navigation';
-import { getCurrentUserAction } from '@/lib/api/auth';
+import { requireAccess } from '@/lib/page-access';
 import { getRolesAction, getPermissionsAction } from '@/lib/api/admin';
 import { SiteHeaderServer } from '@/components/site-header-server';
 import { RolesTable } from '@/components/dashboard/roles-table';
-import { isAdmin } from '@rbac/types';
 
 /**
  * Roles Management Page - SSR
  *
- * Accessible uniquement aux admins
+ * Réservée aux admins : vérifiée par le middleware (manifest des routes)
+ * puis par la page elle-même
  */
 export default async function RolesPage() {
-  const user = await getCurrentUserAction();
-
-  if (!user) {
-    redirect('/auth/login');
-  }
-
-  // Vérifier les permissions admin
-  if (!isAdmin(user)) {
-    redirect('/dashboard');
-  }
+  const user = await requireAccess('/dashboard/roles');
 
   // Récupérer les données en parallèle
   let roles = null;
@@ -1,104 +1,45 @@
-'use client';
+import { requireAccess } from '@/lib/page-access';
+import { getRolesAction, getPermissionsAction } from '@/lib/api/admin';
+import { SiteHeaderServer } from '@/components/site-header-server';
+import { PermissionMatrix } from '@/components/dashboard/permission-matrix';
 
-import { useAuthStore } from '@/stores/auth-store';
-import { SiteHeaderClient } from '@/components/site-header-client';
-import { redirect } from 'next/navigation';
-import { Skeleton } from '@/components/ui/skeleton';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
-import { ShieldIcon, KeyIcon } from 'lucide-react';
+/**
+ * Role Permissions Page - SSR
+ *
+ * Matrice rôles × permissions et gestion des permissions.
+ * Accès : manifest des routes (lib/routes.ts), vérifié par le middleware
+ * puis par la page elle-même
+ */
+export default async function RolePermissionsPage() {
+  const user = await requireAccess('/dashboard/roles/permissions');
 
-export default function RolePermissionsPage() {
-  const { user, isHydrated, isAdmin } = useAuthStore();
+  // Récupérer les données en parallèle
+  let roles = null;
+  let permissions = null;
+  let error = null;
 
-  if (!isHydrated) {
-    return (
-      <>
-        <div className="flex h-16 items-center gap-2 border-b px-4">
-          <Skeleton className="h-8 w-8" />
-          <Skeleton className="h-4 w-32" />
-        </div>
-        <div className="p-6 space-y-6">
-          <Skeleton className="h-8 w-48" />
-          <div className="grid gap-4">
-            {[...Array(3)].map((_, i) => (
-              <Skeleton key={i} className="h-32 rounded-xl" />
-            ))}
-          </div>
-        </div>
-      </>
-    );
-  }
-
-  if (!user) {
-    redirect('/auth/login');
-  }
-
-  if (!isAdmin()) {
-    return (
-      <>
-        <SiteHeaderClient title="Role Permissions" />
-        <div className="flex flex-1 flex-col items-center justify-center gap-4 p-4">
-          <ShieldIcon className="h-16 w-16 text-muted-foreground" />
-          <h2 className="text-xl font-semibold">Accès refusé</h2>
-          <p className="text-muted-foreground">
-            Vous devez être administrateur pour accéder à cette page.
-          </p>
-        </div>
-      </>
-    );
+  try {
+    [roles, permissions] = await Promise.all([getRolesAction(), getPermissionsAction()]);
+  } catch (e) {
+    error = e instanceof Error ? e.message : 'Failed to load data';
   }
 
   return (
     <>
-      <SiteHeaderClient
+      <SiteHeaderServer
         title="Role Permissions"
         subtitle="Gérer les permissions par rôle"
+        user={user}
       />
-      <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <KeyIcon className="h-5 w-5" />
-              Matrice des permissions
-            </CardTitle>
-            <CardDescription>
-              Vue d'ensemble des permissions assignées à chaque rôle
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="text-center py-8 text-muted-foreground">
-              <ShieldIcon className="h-12 w-12 mx-auto mb-4 opacity-50" />
-              <p>La matrice des permissions sera disponible prochainement.</p>
-              <p className="text-sm mt-2">
-                Cette fonctionnalité permet de visualiser et modifier les permissions de chaque rôle.
-              </p>
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Aperçu des rôles existants */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Rôles du système</CardTitle>
-            <CardDescription>
-              Les rôles disponibles dans l'application
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="flex flex-wrap gap-3">
-              <Badge variant="destructive" className="px-4 py-2">
-                Admin
-              </Badge>
-              <Badge variant="secondary" className="px-4 py-2 bg-amber-100 text-amber-800">
-                Moderator
-              </Badge>
-              <Badge variant="secondary" className="px-4 py-2">
-                User
-              </Badge>
-            </div>
-          </CardContent>
-        </Card>
+      <div className="flex flex-1 flex-col gap-4 p-4 pt-6 md:p-8">
+        {error ? (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-red-800">
+            <p className="font-medium">Error loading permissions</p>
+            <p className="text-sm">{error}</p>
+          </div>
+        ) : (
+          <PermissionMatrix roles={roles || []} permissions={permissions || []} />
+        )}
       </div>
     </>
   );
@@ -1,9 +1,5 @@
-'use client';
-
-import { useAuthStore } from '@/stores/auth-store';
-import { SiteHeaderClient } from '@/components/site-header-client';
-import { redirect } from 'next/navigation';
-import { Skeleton } from '@/components/ui/skeleton';
+import { requireAccess } from '@/lib/page-access';
+import { SiteHeaderServer } from '@/components/site-header-server';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
@@ -13,27 +9,14 @@ import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { UserIcon, MailIcon, ShieldIcon, CalendarIcon } from 'lucide-react';
 
-export default function SettingsPage() {
-  const { user, isHydrated } = useAuthStore();
-
-  if (!isHydrated) {
-    return (
-      <>
-        <div className="flex h-16 items-center gap-2 border-b px-4">
-          <Skeleton className="h-8 w-8" />
-          <Skeleton className="h-4 w-32" />
-        </div>
-        <div className="p-6 space-y-6">
-          <Skeleton className="h-8 w-48" />
-          <Skeleton className="h-64 rounded-xl" />
-        </div>
-      </>
-    );
-  }
-
-  if (!user) {
-    redirect('/auth/login');
-  }
+/**
+ * Settings Page - SSR
+ *
+ * Profil de l'utilisateur connecté.
+ * Accès : tout utilisateur connecté (manifest des routes, middleware et page)
+ */
+export default async function SettingsPage() {
+  const user = await requireAccess('/dashboard/settings');
 
   const getInitials = (name: string) => {
     return name
@@ -54,9 +37,10 @@ export default function SettingsPage() {
 
   return (
     <>
-      <SiteHeaderClient
+      <SiteHeaderServer
         title="Settings"
         subtitle="Gérer votre profil et vos préférences"
+        user={user}
       />
       <div className="flex flex-1 flex-col gap-6 p-4 pt-0 max-w-4xl">
         {/* Profil */}
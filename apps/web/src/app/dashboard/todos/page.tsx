@@ -1,27 +1,17 @@
 import { cookies } from 'next/headers';
-import { redirect } from 'next/navigation';
-import { getCurrentUserAction } from '@/lib/api/auth';
+import { requireAccess } from '@/lib/page-access';
 import { getTodosAction } from '@/lib/api/admin';
 import { SiteHeaderServer } from '@/components/site-header-server';
 import { TodosTable } from '@/components/dashboard/todos-table';
-import { hasPermission } from '@rbac/types';
 
 /**
  * Todos Management Page - SSR
  *
- * Accessible aux utilisateurs avec permission todos.view
+ * Permission todos.read : vérifiée par le middleware (manifest des routes)
+ * puis par la page elle-même
  */
 export default async function TodosPage() {
-  const user = await getCurrentUserAction();
-
-  if (!user) {
-    redirect('/auth/login');
-  }
-
-  // Vérifier les permissions
-  if (!hasPermission(user, 'todos', 'read')) {
-    redirect('/dashboard');
-  }
+  const user = await requireAccess('/dashboard/todos');
 
   // Récupérer les todos
   let todos = null;
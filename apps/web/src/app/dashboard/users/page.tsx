@@ -1,35 +1,38 @@
 import { cookies } from 'next/headers';
-import { redirect } from 'next/navigation';
-import { getCurrentUserAction } from '@/lib/api/auth';
-import { getUsersAction, getRolesAction } from '@/lib/api/admin';
+import { requireAccess } from '@/lib/page-access';
+import { getUsersAction, getRolesAction, getPermissionsAction } from '@/lib/api/admin';
 import { SiteHeaderServer } from '@/components/site-header-server';
 import { UsersDataTable } from '@/components/dashboard/users-data-table';
-import { isAdmin } from '@rbac/types';
+import { isAdmin, UserListQuerySchema, type PaginatedResponse, type UserWithRoles } from '@rbac/types';
+
+interface UsersPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
 
 /**
  * Users Management Page - SSR
  *
- * Accessible uniquement aux admins
+ * Réservée aux admins (middleware et page). Pagination, recherche, filtre par rôle
+ * et tri sont portés par l'URL (?page=&search=&role=&sort=&direction=)
+ * et exécutés par Laravel.
  */
-export default async function UsersPage() {
-  const user = await getCurrentUserAction();
-
-  if (!user) {
-    redirect('/auth/login');
-  }
-
-  // Vérifier les permissions admin
-  if (!isAdmin(user)) {
-    redirect('/dashboard');
-  }
+export default async function UsersPage({ searchParams }: UsersPageProps) {
+  const user = await requireAccess('/dashboard/users');
 
   // Récupérer les données en parallèle
-  let users = null;
+  const query = UserListQuerySchema.parse(await searchParams);
+
+  let users: PaginatedResponse<UserWithRoles> | null = null;
   let roles = null;
+  let permissions = null;
   let error = null;
 
   try {
-    [users, roles] = await Promise.all([getUsersAction(), getRolesAction()]);
+    [users, roles, permissions] = await Promise.all([
+      getUsersAction(query),
+      getRolesAction(),
+      getPermissionsAction(),
+    ]);
   } catch (e) {
     error = e instanceof Error ? e.message : 'Failed to load data';
   }
@@ -38,7 +41,7 @@ export default async function UsersPage() {
   console.log('[USERS PAGE]', {
     userRoles: user.roles,
     isAdmin: isAdmin(user),
-    usersCount: users?.length || 0,
+    usersCount: users?.meta.total || 0,
     rolesCount: roles?.length || 0,
     error,
   });
@@ -58,8 +61,15 @@ export default async function UsersPage() {
           </div>
         ) : (
           <UsersDataTable
-            users={users || []}
+            users={users?.data || []}
             roles={roles || []}
+            permissions={permissions || []}
+            query={query}
+            pagination={{
+              currentPage: users?.meta.current_page ?? 1,
+              lastPage: users?.meta.last_page ?? 1,
+              total: users?.meta.total ?? 0,
+            }}
           />
         )}
       </div>
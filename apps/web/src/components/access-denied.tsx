@@ -0,0 +1,20 @@
+import { ShieldIcon } from "lucide-react";
+
+interface AccessDeniedProps {
+  message?: string;
+}
+
+/**
+ * Message affiché à la place d'une page non autorisée
+ */
+export function AccessDenied({
+  message = "Vous n'avez pas les droits nécessaires pour accéder à cette page.",
+}: AccessDeniedProps) {
+  return (
+    <div className="flex flex-1 flex-col items-center justify-center gap-4 p-4">
+      <ShieldIcon className="h-16 w-16 text-muted-foreground" />
+      <h2 className="text-xl font-semibold">Accès refusé</h2>
+      <p className="text-muted-foreground">{message}</p>
+    </div>
+  );
+}
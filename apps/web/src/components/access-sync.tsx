@@ -0,0 +1,64 @@
+"use client"
+
+import { useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { useAuthStore } from "@/stores/auth-store"
+
+// Intervalle de vérification des demandes d'élévation en attente
+const POLL_INTERVAL_MS = 30_000
+
+// setTimeout n'accepte pas de délai au-delà de ~24,8 jours
+const MAX_TIMEOUT_MS = 2 ** 31 - 1
+
+/**
+ * Garde le store à jour avec les élévations temporaires
+ *
+ * - interroge les demandes tant qu'une demande est en attente : une fois
+ *   approuvée, le user (rôles, permissions) est rechargé sans reconnexion
+ * - recharge le user quand l'attribution de rôle la plus proche expire
+ *
+ * Monté une fois dans le layout du dashboard.
+ */
+export function AccessSync() {
+  const router = useRouter()
+  const user = useAuthStore((s) => s.user)
+  const hasPending = useAuthStore((s) => s.accessRequests.some((r) => r.status === "pending"))
+
+  useEffect(() => {
+    useAuthStore.getState().syncAccessRequests().catch(() => {})
+  }, [])
+
+  useEffect(() => {
+    if (!hasPending) return
+
+    const timer = setInterval(async () => {
+      try {
+        if (await useAuthStore.getState().syncAccessRequests()) {
+          router.refresh()
+        }
+      } catch {
+        // Nouvelle tentative au prochain intervalle
+      }
+    }, POLL_INTERVAL_MS)
+
+    return () => clearInterval(timer)
+  }, [hasPending, router])
+
+  useEffect(() => {
+    const nextExpiry = Math.min(
+      ...(user?.roles ?? [])
+        .map((role) => (role.expires_at ? Date.parse(role.expires_at) : Infinity))
+    )
+    const delay = nextExpiry - Date.now()
+    if (!Number.isFinite(delay) || delay > MAX_TIMEOUT_MS) return
+
+    const timer = setTimeout(async () => {
+      await useAuthStore.getState().refreshUser().catch(() => {})
+      router.refresh()
+    }, Math.max(delay, 0))
+
+    return () => clearTimeout(timer)
+  }, [user, router])
+
+  return null
+}
@@ -9,6 +9,9 @@ import {
   LayoutDashboardIcon,
   SettingsIcon,
   LogOutIcon,
+  TimerIcon,
+  ScrollTextIcon,
+  type LucideIcon,
 } from "lucide-react"
 
 import { NavMain } from "@/components/nav-main"
@@ -23,34 +26,31 @@ import {
   SidebarMenuButton,
   SidebarMenuItem,
 } from "@/components/ui/sidebar"
+import { ROUTE_MANIFEST, canAccessRoute, type NavGroup } from "@/lib/routes"
 import { useAuthStore } from "@/stores/auth-store"
-import type { User, PermissionAction } from "@rbac/types"
-import {
-  hasPermission as checkHasPermission,
-  isAdmin as checkIsAdmin,
-} from "@rbac/types"
+import type { User } from "@rbac/types"
+
+// Groupes de la sidebar, remplis avec les routes du manifest
+const navGroups: { nav: NavGroup; title: string; icon: LucideIcon }[] = [
+  { nav: "users", title: "Users", icon: UsersIcon },
+  { nav: "roles", title: "Roles", icon: ShieldIcon },
+  { nav: "access-requests", title: "Access Requests", icon: TimerIcon },
+  { nav: "api-keys", title: "API Keys", icon: KeyIcon },
+  { nav: "audit", title: "Audit Log", icon: ScrollTextIcon },
+]
 
 interface AppSidebarProps extends React.ComponentProps<typeof Sidebar> {
   initialUser?: User | null
+  /** Demandes d'élévation à traiter (admins, fetch SSR du layout) */
+  pendingAccessRequests?: number
 }
 
-export function AppSidebar({ initialUser, ...props }: AppSidebarProps) {
-  const { user: storeUser, isHydrated, logout } = useAuthStore()
+export function AppSidebar({ initialUser, pendingAccessRequests = 0, ...props }: AppSidebarProps) {
+  const { user: storeUser, isHydrated, logout, accessRequests } = useAuthStore()
 
   // Utiliser le user du store si hydraté, sinon le user initial (SSR)
   const user = isHydrated ? storeUser : initialUser
 
-  // Helpers de permissions qui fonctionnent avec le user actuel (SSR ou hydraté)
-  const userHasPermission = (resource: string, action: PermissionAction) => {
-    if (!user) return false
-    return checkHasPermission(user, resource, action)
-  }
-
-  const userIsAdmin = () => {
-    if (!user) return false
-    return checkIsAdmin(user)
-  }
-
   // Items statiques (toujours visibles, ne dépendent pas des permissions)
   const staticNavItems = [
     {
@@ -60,38 +60,40 @@ export function AppSidebar({ initialUser, ...props }: AppSidebarProps) {
     },
   ]
 
-  // Items conditionnels (dépendent des permissions utilisateur)
+  // Compteurs par route : demandes à traiter (admin) et demandes du user en attente
+  const badges: Record<string, number> = {
+    "/dashboard/access-requests": accessRequests.filter((r) => r.status === "pending").length,
+    "/dashboard/access-requests/pending": pendingAccessRequests,
+  }
+
+  // Items conditionnels : routes du manifest accessibles au user actuel
   // Calculés immédiatement avec initialUser (SSR) ou storeUser (client)
-  const conditionalNavItems = user
-    ? [
-        {
-          title: "Users",
-          url: "#",
-          icon: UsersIcon,
-          items: [
-            { title: "All Users", url: "/dashboard/users" },
-            { title: "Permissions", url: "/dashboard/permissions" },
-          ],
-          show: userHasPermission("users", "read") || userIsAdmin(),
-        },
-        {
-          title: "Roles",
-          url: "#",
-          icon: ShieldIcon,
-          items: [
-            { title: "Manage Roles", url: "/dashboard/roles" },
-            { title: "Role Permissions", url: "/dashboard/roles/permissions" },
-          ],
-          show: userIsAdmin(),
-        },
-        {
-          title: "API Keys",
-          url: "/dashboard/api-keys",
-          icon: KeyIcon,
-          show: userHasPermission("api", "manage") || userIsAdmin(),
-        },
-      ].filter((item) => item.show !== false)
-    : []
+  const conditionalNavItems = navGroups.flatMap((group) => {
+    const routes = ROUTE_MANIFEST.filter(
+      (route) => route.nav === group.nav && canAccessRoute(user, route.path)
+    )
+
+    if (routes.length === 0) return []
+    if (routes.length === 1) {
+      return [
+        { title: group.title, url: routes[0].path, icon: group.icon, badge: badges[routes[0].path] },
+      ]
+    }
+
+    return [
+      {
+        title: group.title,
+        url: "#",
+        icon: group.icon,
+        badge: routes.reduce((total, route) => total + (badges[route.path] ?? 0), 0),
+        items: routes.map((route) => ({
+          title: route.title,
+          url: route.path,
+          badge: badges[route.path],
+        })),
+      },
+    ]
+  })
 
   // Items secondaires statiques (toujours visibles)
   const navSecondary = [
@@ -0,0 +1,49 @@
+"use client";
+
+import type { PermissionSlug, PolicyContext, PolicySubject } from "@rbac/types";
+import { usePermission } from "@/hooks/use-permission";
+import { useAuthStore } from "@/stores/auth-store";
+
+interface CanBaseProps {
+  children: React.ReactNode;
+  fallback?: React.ReactNode;
+}
+
+interface CanPermissionProps extends CanBaseProps {
+  permission: PermissionSlug | PermissionSlug[];
+  /** With several permissions: "all" (default) or "any" */
+  mode?: "all" | "any";
+}
+
+interface CanPolicyProps extends CanBaseProps {
+  action: string;
+  resource: string | PolicySubject;
+  context?: PolicyContext;
+}
+
+type CanProps = CanPermissionProps | CanPolicyProps;
+
+/**
+ * Renders its children when the current user holds a permission or passes
+ * a policy check
+ *
+ * Policies use the same can() as server components and server actions.
+ *
+ * @example <Can permission="users.update">...</Can>
+ * @example <Can action="update" resource={subject("posts", post)}>...</Can>
+ */
+export function Can(props: CanProps) {
+  return "permission" in props ? <CanPermission {...props} /> : <CanPolicy {...props} />;
+}
+
+function CanPermission({ children, fallback = null, permission, mode }: CanPermissionProps) {
+  const allowed = usePermission({ permission, mode });
+
+  return <>{allowed ? children : fallback}</>;
+}
+
+function CanPolicy({ children, fallback = null, action, resource, context }: CanPolicyProps) {
+  const allowed = useAuthStore((s) => s.user !== null && s.can(action, resource, context));
+
+  return <>{allowed ? children : fallback}</>;
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  ACCESS_REQUEST_MAX_HOURS,
+  type AccessRequest,
+  type AccessRequestStatus,
+  type Role,
+} from '@rbac/types';
+import { useAuthStore } from '@/stores/auth-store';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { TimerIcon } from 'lucide-react';
+
+interface AccessRequestsPanelProps {
+  roles: Role[];
+  initialRequests: AccessRequest[];
+}
+
+const STATUS_VARIANTS: Record<AccessRequestStatus, 'secondary' | 'default' | 'destructive'> = {
+  pending: 'secondary',
+  approved: 'default',
+  denied: 'destructive',
+};
+
+export function AccessRequestsPanel({ roles, initialRequests }: AccessRequestsPanelProps) {
+  const router = useRouter();
+  const storeRequests = useAuthStore((state) => state.accessRequests);
+  const requestAccess = useAuthStore((state) => state.requestAccess);
+  const [isPending, startTransition] = useTransition();
+  const [role, setRole] = useState('');
+  const [hours, setHours] = useState('4');
+  const [justification, setJustification] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Le store est alimenté par AccessSync ; la liste SSR sert jusqu'à la première synchro
+  const requests = storeRequests.length > 0 ? storeRequests : initialRequests;
+  const pendingRoles = new Set(
+    requests.filter((r) => r.status === 'pending').map((r) => r.role_id)
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    startTransition(async () => {
+      try {
+        await requestAccess({ role, hours: Number(hours), justification: justification.trim() });
+        setRole('');
+        setJustification('');
+        router.refresh();
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to request access');
+      }
+    });
+  };
+
+  const hoursValue = Number(hours);
+  const canSubmit =
+    role !== '' &&
+    Number.isInteger(hoursValue) &&
+    hoursValue >= 1 &&
+    hoursValue <= ACCESS_REQUEST_MAX_HOURS &&
+    justification.trim().length >= 10;
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TimerIcon className="size-5" />
+            New request
+          </CardTitle>
+          <CardDescription>
+            An administrator reviews the request. Once approved, the role expires on its own.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {roles.length === 0 ? (
+            <p className="text-sm text-muted-foreground">You already hold every available role.</p>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="access-role">Role</Label>
+                <Select value={role} onValueChange={setRole}>
+                  <SelectTrigger id="access-role">
+                    <SelectValue placeholder="Select a role" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {roles.map((r) => (
+                      <SelectItem key={r.id} value={r.slug} disabled={pendingRoles.has(r.id)}>
+                        {r.name}
+                        {pendingRoles.has(r.id) && ' (pending)'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="access-hours">Duration (hours)</Label>
+                <Input
+                  id="access-hours"
+                  type="number"
+                  min={1}
+                  max={ACCESS_REQUEST_MAX_HOURS}
+                  value={hours}
+                  onChange={(e) => setHours(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Up to {ACCESS_REQUEST_MAX_HOURS} hours.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="access-justification">Justification</Label>
+                <Textarea
+                  id="access-justification"
+                  placeholder="Why do you need this role?"
+                  value={justification}
+                  onChange={(e) => setJustification(e.target.value)}
+                  maxLength={1000}
+                />
+              </div>
+
+              {error && (
+                <p className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+                  {error}
+                </p>
+              )}
+
+              <Button type="submit" disabled={!canSubmit || isPending} className="w-full">
+                {isPending ? 'Sending...' : 'Request access'}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>My requests</CardTitle>
+          <CardDescription>
+            {requests.length} request{requests.length !== 1 ? 's' : ''}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Role</TableHead>
+                <TableHead>Duration</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Requested</TableHead>
+                <TableHead>Review</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {requests.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No requests yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                requests.map((request) => (
+                  <TableRow key={request.id}>
+                    <TableCell className="font-medium">
+                      {request.role?.name ?? `#${request.role_id}`}
+                    </TableCell>
+                    <TableCell>{request.hours}h</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[request.status]} className="capitalize">
+                        {request.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {new Date(request.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {request.status === 'approved' && request.expires_at
+                        ? `Until ${new Date(request.expires_at).toLocaleString()}`
+                        : request.review_note ?? '—'}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
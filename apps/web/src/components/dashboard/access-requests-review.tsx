@@ -0,0 +1,206 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import type { AccessRequest } from '@rbac/types';
+import {
+  approveAccessRequestAction,
+  denyAccessRequestAction,
+} from '@/lib/api/access-requests';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CheckIcon, XIcon } from 'lucide-react';
+
+type Decision = 'approve' | 'deny';
+
+interface AccessRequestsReviewProps {
+  requests: AccessRequest[];
+  currentUserId: number;
+}
+
+export function AccessRequestsReview({
+  requests: initialRequests,
+  currentUserId,
+}: AccessRequestsReviewProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [requests, setRequests] = useState(initialRequests);
+  const [selected, setSelected] = useState<AccessRequest | null>(null);
+  const [decision, setDecision] = useState<Decision>('approve');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const openDialog = (request: AccessRequest, next: Decision) => {
+    setSelected(request);
+    setDecision(next);
+    setNote('');
+    setError(null);
+  };
+
+  const handleConfirm = () => {
+    if (!selected) return;
+
+    setError(null);
+    startTransition(async () => {
+      try {
+        const action = decision === 'approve' ? approveAccessRequestAction : denyAccessRequestAction;
+        await action(selected.id, note.trim() || undefined);
+        setRequests((current) => current.filter((r) => r.id !== selected.id));
+        setSelected(null);
+        // Met à jour le badge de la sidebar
+        router.refresh();
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Review failed');
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pending requests</CardTitle>
+        <CardDescription>
+          {requests.length} request{requests.length !== 1 ? 's' : ''} waiting for a review
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Duration</TableHead>
+              <TableHead>Justification</TableHead>
+              <TableHead>Requested</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {requests.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  Nothing to review.
+                </TableCell>
+              </TableRow>
+            ) : (
+              requests.map((request) => {
+                const own = request.user_id === currentUserId;
+
+                return (
+                  <TableRow key={request.id}>
+                    <TableCell>
+                      <div className="font-medium">{request.user?.name ?? `#${request.user_id}`}</div>
+                      <div className="text-xs text-muted-foreground">{request.user?.email}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{request.role?.name ?? `#${request.role_id}`}</Badge>
+                    </TableCell>
+                    <TableCell>{request.hours}h</TableCell>
+                    <TableCell className="max-w-sm whitespace-normal text-sm">
+                      {request.justification}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {new Date(request.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          disabled={own}
+                          title={own ? 'You cannot review your own request' : undefined}
+                          onClick={() => openDialog(request, 'approve')}
+                        >
+                          <CheckIcon className="size-4" />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={own}
+                          onClick={() => openDialog(request, 'deny')}
+                        >
+                          <XIcon className="size-4" />
+                          Deny
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {decision === 'approve' ? 'Approve request' : 'Deny request'}
+            </DialogTitle>
+            <DialogDescription>
+              {selected &&
+                (decision === 'approve'
+                  ? `${selected.user?.name ?? 'The user'} gets the ${selected.role?.name ?? 'requested'} role for ${selected.hours} hour${selected.hours !== 1 ? 's' : ''}.`
+                  : `${selected.user?.name ?? 'The user'} will not get the ${selected.role?.name ?? 'requested'} role.`)}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="review-note">Note (optional)</Label>
+            <Textarea
+              id="review-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={255}
+            />
+          </div>
+
+          {error && (
+            <p className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+              {error}
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelected(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={decision === 'deny' ? 'destructive' : 'default'}
+              onClick={handleConfirm}
+              disabled={isPending}
+            >
+              {isPending ? 'Saving...' : decision === 'approve' ? 'Approve' : 'Deny'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
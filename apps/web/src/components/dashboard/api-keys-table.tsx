@@ -1,6 +1,9 @@
 'use client';
 
-import { useState, useTransition, useMemo } from 'react';
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { API_KEY_MAX_RATE_LIMIT, type ApiKey, type CreatedApiKey } from '@rbac/types';
+import { createApiKeyAction, revokeApiKeyAction } from '@/lib/api/api-keys';
 import {
   Card,
   CardContent,
@@ -10,6 +13,7 @@ import {
 } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Table,
   TableBody,
@@ -26,6 +30,16 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import {
@@ -35,122 +49,109 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import {
-  PlusIcon,
-  CopyIcon,
-  EyeIcon,
-  EyeOffIcon,
-  Trash2Icon,
-  KeyIcon,
-} from 'lucide-react';
-
-interface ApiKey {
-  id: string;
-  name: string;
-  key: string;
-  scopes: string[];
-  expiresAt: string | null;
-  lastUsed: string | null;
-  createdAt: string;
-}
+import { PlusIcon, CopyIcon, Trash2Icon, KeyIcon } from 'lucide-react';
 
 interface ApiKeysTableProps {
-  userId: number;
+  keys: ApiKey[];
+  /** Permission slugs of the current user: the only scopes a key may get */
+  permissions: string[];
 }
 
-// Mock storage pour les API keys
-let mockApiKeys: ApiKey[] = [
-  {
-    id: '1',
-    name: 'Production API',
-    key: 'sk_prod_' + Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15),
-    scopes: ['read', 'write'],
-    expiresAt: null,
-    lastUsed: new Date(Date.now() - 86400000).toISOString(),
-    createdAt: new Date(Date.now() - 604800000).toISOString(),
-  },
-];
+const DAY_MS = 86400000;
 
-const SCOPE_OPTIONS = [
-  { value: 'read', label: 'Read' },
-  { value: 'write', label: 'Write' },
-  { value: 'admin', label: 'Admin' },
+const EXPIRY_OPTIONS = [
+  { value: 'never', label: 'Never expires' },
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
 ];
 
-const SCOPE_COLORS: Record<string, string> = {
-  read: 'bg-blue-500 text-white',
-  write: 'bg-amber-500 text-white',
-  admin: 'bg-red-500 text-white',
-};
-
-export function ApiKeysTable({ userId }: ApiKeysTableProps) {
-  const [isPending, startTransition] = useTransition();
-  const [items, setItems] = useState<ApiKey[]>(mockApiKeys);
-  const [dialogOpen, setDialogOpen] = useState(false);
-  const [formData, setFormData] = useState({
-    name: '',
-    scopes: ['read'],
-    expiresIn: '',
-  });
-  const [visibleKeys, setVisibleKeys] = useState<Record<string, boolean>>({});
-  const [copiedKey, setCopiedKey] = useState<string | null>(null);
+const EMPTY_FORM = { name: '', scopes: [] as string[], expiresIn: '90', rateLimit: '' };
 
-  const handleCreate = () => {
-    if (!formData.name.trim()) return;
+function isExpired(expiresAt: string | null) {
+  return !!expiresAt && new Date(expiresAt).getTime() <= Date.now();
+}
 
-    startTransition(() => {
-      const newKey: ApiKey = {
-        id: Date.now().toString(),
-        name: formData.name,
-        key: 'sk_prod_' + Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15),
-        scopes: formData.scopes,
-        expiresAt: formData.expiresIn
-          ? new Date(Date.now() + parseInt(formData.expiresIn) * 86400000).toISOString()
-          : null,
-        lastUsed: null,
-        createdAt: new Date().toISOString(),
-      };
+function isExpiringSoon(expiresAt: string | null) {
+  return !!expiresAt && new Date(expiresAt).getTime() - Date.now() <= 7 * DAY_MS;
+}
 
-      mockApiKeys = [...mockApiKeys, newKey];
-      setItems(mockApiKeys);
-      setDialogOpen(false);
-      setFormData({ name: '', scopes: ['read'], expiresIn: '' });
+export function ApiKeysTable({ keys, permissions }: ApiKeysTableProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  // Clé en clair, affichée une seule fois après sa création
+  const [createdKey, setCreatedKey] = useState<CreatedApiKey | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [keyToRevoke, setKeyToRevoke] = useState<ApiKey | null>(null);
 
-      // Auto-show the new key
-      setVisibleKeys((prev) => ({ ...prev, [newKey.id]: true }));
-    });
+  const openDialog = () => {
+    setFormData(EMPTY_FORM);
+    setCreatedKey(null);
+    setError(null);
+    setDialogOpen(true);
   };
 
-  const handleDelete = (id: string) => {
-    startTransition(() => {
-      mockApiKeys = mockApiKeys.filter((k) => k.id !== id);
-      setItems(mockApiKeys);
-    });
+  const toggleScope = (slug: string, checked: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      scopes: checked ? [...prev.scopes, slug] : prev.scopes.filter((s) => s !== slug),
+    }));
   };
 
-  const copyToClipboard = (key: string, id: string) => {
-    navigator.clipboard.writeText(key);
-    setCopiedKey(id);
-    setTimeout(() => setCopiedKey(null), 2000);
-  };
+  const handleCreate = () => {
+    setError(null);
 
-  const toggleKeyVisibility = (id: string) => {
-    setVisibleKeys((prev) => ({ ...prev, [id]: !prev[id] }));
+    startTransition(async () => {
+      try {
+        const created = await createApiKeyAction({
+          name: formData.name.trim(),
+          scopes: formData.scopes,
+          expires_at:
+            formData.expiresIn === 'never'
+              ? null
+              : new Date(Date.now() + Number(formData.expiresIn) * DAY_MS).toISOString(),
+          rate_limit: formData.rateLimit ? Number(formData.rateLimit) : null,
+        });
+        setCreatedKey(created);
+        router.refresh();
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to create the API key');
+      }
+    });
   };
 
-  const maskKey = (key: string) => {
-    return key.slice(0, 8) + '•'.repeat(20) + key.slice(-8);
-  };
+  const handleRevoke = () => {
+    if (!keyToRevoke) return;
+    const id = keyToRevoke.id;
+    setError(null);
 
-  const isExpiringSoon = (expiresAt: string | null) => {
-    if (!expiresAt) return false;
-    const daysLeft = Math.floor((new Date(expiresAt).getTime() - Date.now()) / 86400000);
-    return daysLeft <= 7 && daysLeft > 0;
+    startTransition(async () => {
+      try {
+        await revokeApiKeyAction(id);
+        router.refresh();
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to revoke the API key');
+      } finally {
+        setKeyToRevoke(null);
+      }
+    });
   };
 
-  const isExpired = (expiresAt: string | null) => {
-    if (!expiresAt) return false;
-    return new Date(expiresAt) < new Date();
+  const rateLimitValue = Number(formData.rateLimit);
+  const isRateLimitValid =
+    formData.rateLimit === '' ||
+    (Number.isInteger(rateLimitValue) &&
+      rateLimitValue >= 1 &&
+      rateLimitValue <= API_KEY_MAX_RATE_LIMIT);
+
+  const copyToClipboard = (key: string) => {
+    navigator.clipboard.writeText(key);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
   };
 
   return (
@@ -163,15 +164,24 @@ export function ApiKeysTable({ userId }: ApiKeysTableProps) {
                 <KeyIcon className="h-5 w-5" />
                 API Keys
               </CardTitle>
-              <CardDescription>{items.length} keys configured</CardDescription>
+              <CardDescription>
+                Send a key to <code>/api/v1/*</code> as{' '}
+                <code>Authorization: ApiKey &lt;key&gt;</code>. It acts as you, limited to its
+                scopes and rate limit.
+              </CardDescription>
             </div>
-            <Button onClick={() => setDialogOpen(true)} size="sm">
+            <Button onClick={openDialog} size="sm" disabled={permissions.length === 0}>
               <PlusIcon className="mr-2 h-4 w-4" />
               Generate Key
             </Button>
           </div>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          {error && !dialogOpen && (
+            <p className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+              {error}
+            </p>
+          )}
           <Table>
             <TableHeader>
               <TableRow>
@@ -179,85 +189,89 @@ export function ApiKeysTable({ userId }: ApiKeysTableProps) {
                 <TableHead>Key</TableHead>
                 <TableHead>Scopes</TableHead>
                 <TableHead>Status</TableHead>
+                <TableHead>Usage</TableHead>
                 <TableHead>Last Used</TableHead>
                 <TableHead className="w-[100px]">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {items.length === 0 ? (
+              {keys.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
                     No API keys yet. Generate your first key to get started!
                   </TableCell>
                 </TableRow>
               ) : (
-                items.map((item) => (
+                keys.map((item) => (
                   <TableRow key={item.id}>
                     <TableCell className="font-medium">{item.name}</TableCell>
-                    <TableCell>
-                      <div className="flex items-center gap-2 font-mono text-sm">
-                        <span className="text-muted-foreground">
-                          {visibleKeys[item.id] ? item.key : maskKey(item.key)}
-                        </span>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-6 w-6"
-                          onClick={() => copyToClipboard(item.key, item.id)}
-                        >
-                          <CopyIcon className="h-3 w-3" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-6 w-6"
-                          onClick={() => toggleKeyVisibility(item.id)}
-                        >
-                          {visibleKeys[item.id] ? (
-                            <EyeOffIcon className="h-3 w-3" />
-                          ) : (
-                            <EyeIcon className="h-3 w-3" />
-                          )}
-                        </Button>
-                        {copiedKey === item.id && (
-                          <Badge variant="outline" className="text-xs">
-                            Copied!
-                          </Badge>
-                        )}
-                      </div>
+                    <TableCell className="font-mono text-sm text-muted-foreground">
+                      {item.prefix}…
                     </TableCell>
                     <TableCell>
                       <div className="flex flex-wrap gap-1">
                         {item.scopes.map((scope) => (
-                          <Badge key={scope} className={SCOPE_COLORS[scope] || 'bg-gray-500'}>
+                          <Badge key={scope} variant="secondary">
                             {scope}
                           </Badge>
                         ))}
                       </div>
                     </TableCell>
                     <TableCell>
-                      {isExpired(item.expiresAt) ? (
+                      {isExpired(item.expires_at) ? (
                         <Badge variant="destructive">Expired</Badge>
-                      ) : isExpiringSoon(item.expiresAt) ? (
-                        <Badge variant="outline" className="border-amber-500 text-amber-700">
+                      ) : isExpiringSoon(item.expires_at) ? (
+                        <Badge
+                          variant="outline"
+                          className="border-amber-500 text-amber-700"
+                          title={new Date(item.expires_at!).toLocaleString()}
+                        >
                           Expiring soon
                         </Badge>
                       ) : (
-                        <Badge variant="outline" className="text-green-700 border-green-500">
+                        <Badge
+                          variant="outline"
+                          className="text-green-700 border-green-500"
+                          title={
+                            item.expires_at
+                              ? `Expires ${new Date(item.expires_at).toLocaleString()}`
+                              : 'Never expires'
+                          }
+                        >
                           Active
                         </Badge>
                       )}
                     </TableCell>
+                    <TableCell className="text-sm">
+                      <div>{item.usage_count.toLocaleString()} requests</div>
+                      <div className="text-xs text-muted-foreground">
+                        {item.rate_limit ? `${item.rate_limit}/min` : 'Default limit'}
+                        {item.throttled_count > 0 && (
+                          <span className="text-amber-700">
+                            {' '}
+                            · {item.throttled_count.toLocaleString()} throttled
+                          </span>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell className="text-muted-foreground">
-                      {item.lastUsed
-                        ? new Date(item.lastUsed).toLocaleDateString()
-                        : 'Never'}
+                      {item.last_used_at ? (
+                        <>
+                          <div>{new Date(item.last_used_at).toLocaleString()}</div>
+                          {item.last_used_ip && (
+                            <div className="text-xs">{item.last_used_ip}</div>
+                          )}
+                        </>
+                      ) : (
+                        'Never'
+                      )}
                     </TableCell>
                     <TableCell>
                       <Button
                         variant="ghost"
                         size="icon"
-                        onClick={() => handleDelete(item.id)}
+                        onClick={() => setKeyToRevoke(item)}
+                        disabled={isPending}
                       >
                         <Trash2Icon className="h-4 w-4 text-destructive" />
                       </Button>
@@ -272,81 +286,157 @@ export function ApiKeysTable({ userId }: ApiKeysTableProps) {
 
       <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
         <DialogContent>
-          <DialogHeader>
-            <DialogTitle className="flex items-center gap-2">
-              <KeyIcon className="h-5 w-5" />
-              Generate API Key
-            </DialogTitle>
-            <DialogDescription>
-              Create a new API key for external access to your resources
-            </DialogDescription>
-          </DialogHeader>
+          {createdKey ? (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <KeyIcon className="h-5 w-5" />
+                  {createdKey.name}
+                </DialogTitle>
+                <DialogDescription>
+                  Copy this key now: it is stored hashed and will not be shown again.
+                </DialogDescription>
+              </DialogHeader>
 
-          <div className="space-y-4 py-4">
-            <div className="space-y-2">
-              <Label htmlFor="name">Name</Label>
-              <Input
-                id="name"
-                value={formData.name}
-                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                placeholder="e.g., Production API Key"
-              />
-            </div>
+              <div className="flex items-center gap-2 py-4">
+                <Input readOnly value={createdKey.key} className="font-mono text-sm" />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => copyToClipboard(createdKey.key)}
+                >
+                  <CopyIcon className="h-4 w-4" />
+                </Button>
+                {copied && (
+                  <Badge variant="outline" className="text-xs">
+                    Copied!
+                  </Badge>
+                )}
+              </div>
 
-            <div className="space-y-2">
-              <Label>Scopes</Label>
-              <div className="flex flex-wrap gap-2">
-                {SCOPE_OPTIONS.map((option) => (
-                  <Button
-                    key={option.value}
-                    type="button"
-                    variant={formData.scopes.includes(option.value) ? 'default' : 'outline'}
-                    size="sm"
-                    onClick={() => {
-                      setFormData({
-                        ...formData,
-                        scopes: formData.scopes.includes(option.value)
-                          ? formData.scopes.filter((s) => s !== option.value)
-                          : [...formData.scopes, option.value],
-                      });
-                    }}
+              <DialogFooter>
+                <Button onClick={() => setDialogOpen(false)}>Done</Button>
+              </DialogFooter>
+            </>
+          ) : (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <KeyIcon className="h-5 w-5" />
+                  Generate API Key
+                </DialogTitle>
+                <DialogDescription>
+                  A key can only be granted permissions you hold yourself
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4 py-4">
+                {error && (
+                  <p className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+                    {error}
+                  </p>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="name">Name</Label>
+                  <Input
+                    id="name"
+                    value={formData.name}
+                    maxLength={255}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="e.g., CI deploy"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Scopes</Label>
+                  <div className="grid max-h-56 grid-cols-2 gap-2 overflow-y-auto rounded-md border p-3">
+                    {permissions.map((slug) => (
+                      <label key={slug} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={formData.scopes.includes(slug)}
+                          onCheckedChange={(checked) => toggleScope(slug, checked === true)}
+                        />
+                        <span className="font-mono">{slug}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="expires">Expiration</Label>
+                  <Select
+                    value={formData.expiresIn}
+                    onValueChange={(value) => setFormData({ ...formData, expiresIn: value })}
                   >
-                    {option.label}
-                  </Button>
-                ))}
-              </div>
-            </div>
+                    <SelectTrigger id="expires">
+                      <SelectValue placeholder="Select expiration" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXPIRY_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="expires">Expiration (optional)</Label>
-              <Select
-                value={formData.expiresIn}
-                onValueChange={(value) => setFormData({ ...formData, expiresIn: value })}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="Select expiration" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="">Never expires</SelectItem>
-                  <SelectItem value="7">7 days</SelectItem>
-                  <SelectItem value="30">30 days</SelectItem>
-                  <SelectItem value="90">90 days</SelectItem>
-                  <SelectItem value="365">1 year</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rate-limit">Rate limit (requests per minute)</Label>
+                  <Input
+                    id="rate-limit"
+                    type="number"
+                    min={1}
+                    max={API_KEY_MAX_RATE_LIMIT}
+                    value={formData.rateLimit}
+                    onChange={(e) => setFormData({ ...formData, rateLimit: e.target.value })}
+                    placeholder="Default"
+                  />
+                </div>
+              </div>
 
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setDialogOpen(false)}>
-              Cancel
-            </Button>
-            <Button onClick={handleCreate} disabled={!formData.name.trim() || isPending}>
-              Generate Key
-            </Button>
-          </DialogFooter>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleCreate}
+                  disabled={
+                    !formData.name.trim() ||
+                    formData.scopes.length === 0 ||
+                    !isRateLimitValid ||
+                    isPending
+                  }
+                >
+                  Generate Key
+                </Button>
+              </DialogFooter>
+            </>
+          )}
         </DialogContent>
       </Dialog>
+
+      <AlertDialog open={!!keyToRevoke} onOpenChange={(open) => !open && setKeyToRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke API Key?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Requests using &quot;{keyToRevoke?.name}&quot; ({keyToRevoke?.prefix}…) will be
+              rejected immediately. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRevoke}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </>
   );
 }
@@ -0,0 +1,359 @@
+'use client';
+
+import * as React from 'react';
+import { useTransition } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { AUDIT_ACTIONS, type AuditLog, type AuditLogQuery } from '@rbac/types';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ChevronsLeftIcon,
+  ChevronsRightIcon,
+  DownloadIcon,
+  ScrollTextIcon,
+} from 'lucide-react';
+
+interface AuditLogTableProps {
+  logs: AuditLog[];
+  /** Current URL query (page, per_page, action, search, from, to) */
+  query: AuditLogQuery;
+  pagination: {
+    currentPage: number;
+    lastPage: number;
+    total: number;
+  };
+}
+
+const PAGE_SIZES = [25, 50, 100];
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Filtres repris par l'export (la page et la taille de page n'y ont pas de sens)
+ */
+const EXPORT_FILTERS = ['action', 'search', 'from', 'to'] as const;
+
+// Échecs et suppressions en rouge, le reste en neutre
+const DESTRUCTIVE_ACTIONS = new Set([
+  'auth.login_failed',
+  'bff.signature_failed',
+  'role.removed',
+  'role.deleted',
+  'user.permission_removed',
+  'access_request.denied',
+  'api_key.revoked',
+]);
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+/**
+ * Valeurs avant / après, une ligne par clé modifiée
+ */
+function ChangesCell({ log }: { log: AuditLog }) {
+  const oldValues = log.old_values ?? {};
+  const newValues = log.new_values ?? {};
+  const keys = Array.from(new Set([...Object.keys(oldValues), ...Object.keys(newValues)]));
+
+  if (keys.length === 0 && !log.context) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+
+  return (
+    <div className="space-y-1 text-xs">
+      {keys.map((key) => (
+        <div key={key} className="break-all">
+          <span className="font-medium">{key}:</span>{' '}
+          {key in oldValues && (
+            <span className="text-red-700 line-through">{formatValue(oldValues[key])}</span>
+          )}
+          {key in oldValues && key in newValues && ' → '}
+          {key in newValues && (
+            <span className="text-green-700">{formatValue(newValues[key])}</span>
+          )}
+        </div>
+      ))}
+      {log.context && (
+        <div className="break-all text-muted-foreground">{formatValue(log.context)}</div>
+      )}
+    </div>
+  );
+}
+
+export function AuditLogTable({ logs, query, pagination }: AuditLogTableProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [isNavigating, startNavigation] = useTransition();
+  const [search, setSearch] = React.useState(query.search ?? '');
+
+  /**
+   * Met à jour les paramètres d'URL (retour en page 1 sauf si `page` est fourni)
+   */
+  const updateQuery = React.useCallback(
+    (changes: Record<string, string | number | undefined>) => {
+      const params = new URLSearchParams(searchParams.toString());
+      if (!('page' in changes)) {
+        params.delete('page');
+      }
+      for (const [key, value] of Object.entries(changes)) {
+        if (value === undefined || value === '') {
+          params.delete(key);
+        } else {
+          params.set(key, String(value));
+        }
+      }
+
+      startNavigation(() => {
+        router.push(`?${params.toString()}`);
+      });
+    },
+    [router, searchParams]
+  );
+
+  // Recherche serveur avec debounce
+  React.useEffect(() => {
+    if (search === (query.search ?? '')) return;
+
+    const timeoutId = setTimeout(() => {
+      updateQuery({ search: search.trim() || undefined });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeoutId);
+  }, [search, query.search, updateQuery]);
+
+  // Téléchargement direct via le proxy BFF (réponse non JSON streamée)
+  const exportUrl = (format: 'csv' | 'json') => {
+    const params = new URLSearchParams({ format });
+    for (const key of EXPORT_FILTERS) {
+      const value = query[key];
+      if (value) params.set(key, value);
+    }
+    return `/api/v1/admin/audit-logs/export?${params.toString()}`;
+  };
+
+  const canPreviousPage = pagination.currentPage > 1;
+  const canNextPage = pagination.currentPage < pagination.lastPage;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ScrollTextIcon className="h-5 w-5" />
+              Audit Log
+            </CardTitle>
+            <CardDescription>{pagination.total} entries</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <a href={exportUrl('csv')} download>
+                <DownloadIcon className="h-4 w-4" />
+                CSV
+              </a>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href={exportUrl('json')} download>
+                <DownloadIcon className="h-4 w-4" />
+                JSON
+              </a>
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="mb-4 flex flex-wrap items-center gap-2">
+          <Input
+            placeholder="Search by target or actor email..."
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            className="max-w-sm"
+          />
+          <Select
+            value={query.action ?? 'all'}
+            onValueChange={(value) => updateQuery({ action: value === 'all' ? undefined : value })}
+          >
+            <SelectTrigger className="w-[220px]">
+              <SelectValue placeholder="All actions" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All actions</SelectItem>
+              {AUDIT_ACTIONS.map((action) => (
+                <SelectItem key={action} value={action}>
+                  {action}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="date"
+            aria-label="From"
+            value={query.from ?? ''}
+            onChange={(event) => updateQuery({ from: event.target.value || undefined })}
+            className="w-[160px]"
+          />
+          <Input
+            type="date"
+            aria-label="To"
+            value={query.to ?? ''}
+            onChange={(event) => updateQuery({ to: event.target.value || undefined })}
+            className="w-[160px]"
+          />
+        </div>
+
+        <div className={`rounded-md border ${isNavigating ? 'opacity-60' : ''}`}>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Actor</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead>Changes</TableHead>
+                <TableHead>Origin</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {logs.length ? (
+                logs.map((log) => (
+                  <TableRow key={log.id} className="align-top">
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {new Date(log.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {log.actor ? (
+                        <>
+                          <div className="font-medium">{log.actor.name}</div>
+                          <div className="text-xs text-muted-foreground">{log.actor.email}</div>
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">
+                          {log.actor_id ? `#${log.actor_id}` : 'Anonymous'}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={DESTRUCTIVE_ACTIONS.has(log.action) ? 'destructive' : 'secondary'}>
+                        {log.action}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {log.target_type ? (
+                        <>
+                          <div>{log.target_label ?? `#${log.target_id}`}</div>
+                          <div className="text-xs text-muted-foreground">{log.target_type}</div>
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="max-w-md whitespace-normal">
+                      <ChangesCell log={log} />
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      <div>{log.ip_address ?? '—'}</div>
+                      {log.request_id && (
+                        <div className="font-mono" title={log.user_agent ?? undefined}>
+                          {log.request_id.slice(0, 8)}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center">
+                    No results.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex items-center justify-end space-x-2 py-4">
+          <Select
+            value={String(query.per_page)}
+            onValueChange={(value) => updateQuery({ per_page: value })}
+          >
+            <SelectTrigger className="h-8 w-[80px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAGE_SIZES.map((size) => (
+                <SelectItem key={size} value={String(size)}>
+                  {size}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="text-sm text-muted-foreground">
+            Page {pagination.currentPage} of {pagination.lastPage}
+          </div>
+          <div className="space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateQuery({ page: 1 })}
+              disabled={!canPreviousPage}
+            >
+              <ChevronsLeftIcon className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateQuery({ page: pagination.currentPage - 1 })}
+              disabled={!canPreviousPage}
+            >
+              <ChevronLeftIcon className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateQuery({ page: pagination.currentPage + 1 })}
+              disabled={!canNextPage}
+            >
+              <ChevronRightIcon className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateQuery({ page: pagination.lastPage })}
+              disabled={!canNextPage}
+            >
+              <ChevronsRightIcon className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,507 @@
+'use client';
+
+import { useMemo, useState, useTransition } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  KeyIcon,
+  PlusIcon,
+  SparklesIcon,
+  PencilIcon,
+  TrashIcon,
+  SaveIcon,
+  UndoIcon,
+} from 'lucide-react';
+import {
+  createPermissionAction,
+  deletePermissionAction,
+  generatePermissionsAction,
+  updatePermissionAction,
+  updateRolePermissionsAction,
+} from '@/lib/api/admin';
+import {
+  permissionMatches,
+  PermissionActionSchema,
+  type Permission,
+  type PermissionAction,
+  type RoleWithPermissions,
+} from '@rbac/types';
+
+interface PermissionMatrixProps {
+  roles: RoleWithPermissions[];
+  permissions: Permission[];
+}
+
+type DialogMode = 'create' | 'generate' | 'edit' | 'delete';
+
+/**
+ * Permissions accordées, par id de rôle
+ */
+type Grants = Record<number, number[]>;
+
+const ACTIONS = PermissionActionSchema.options;
+
+const CRUD_ACTIONS: PermissionAction[] = ['create', 'read', 'update', 'delete'];
+
+function grantsOf(roles: RoleWithPermissions[]): Grants {
+  return Object.fromEntries(roles.map((role) => [role.id, role.permissions.map((p) => p.id)]));
+}
+
+function sameGrants(a: number[] = [], b: number[] = []): boolean {
+  return a.length === b.length && a.every((id) => b.includes(id));
+}
+
+/**
+ * Matrice rôles × permissions
+ *
+ * Les cases cochées sont modifiées localement ; "Save" n'envoie que les
+ * rôles dont les permissions ont changé (updateRolePermissionsAction).
+ * Un point signale une permission déjà couverte par un joker du rôle.
+ */
+export function PermissionMatrix({ roles, permissions }: PermissionMatrixProps) {
+  const [isPending, startTransition] = useTransition();
+  const [items, setItems] = useState<Permission[]>(permissions);
+  const [saved, setSaved] = useState<Grants>(() => grantsOf(roles));
+  const [grants, setGrants] = useState<Grants>(() => grantsOf(roles));
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [dialogMode, setDialogMode] = useState<DialogMode>('create');
+  const [selected, setSelected] = useState<Permission | null>(null);
+  const [formData, setFormData] = useState({
+    resource: '',
+    action: 'read' as PermissionAction,
+    name: '',
+    description: '',
+  });
+  const [generateActions, setGenerateActions] = useState<PermissionAction[]>(CRUD_ACTIONS);
+  const [error, setError] = useState<string | null>(null);
+
+  const rows = useMemo(
+    () =>
+      [...items].sort(
+        (a, b) => a.resource.localeCompare(b.resource) || a.action.localeCompare(b.action)
+      ),
+    [items]
+  );
+
+  const dirtyRoles = roles.filter((role) => !sameGrants(grants[role.id], saved[role.id]));
+
+  const isGranted = (roleId: number, permissionId: number) =>
+    (grants[roleId] ?? []).includes(permissionId);
+
+  const coveredBy = (roleId: number, permission: Permission) =>
+    items.find(
+      (p) =>
+        p.id !== permission.id &&
+        isGranted(roleId, p.id) &&
+        permissionMatches(p.slug, permission.slug)
+    );
+
+  // Héritage tel qu'enregistré côté serveur (parents du rôle)
+  const inheritedFrom = (role: RoleWithPermissions, permission: Permission) =>
+    role.inherited_permissions?.find((p) => p.id === permission.id)?.inherited_from;
+
+  const toggle = (roleId: number, permissionId: number) => {
+    setGrants((prev) => {
+      const current = prev[roleId] ?? [];
+      return {
+        ...prev,
+        [roleId]: current.includes(permissionId)
+          ? current.filter((id) => id !== permissionId)
+          : [...current, permissionId],
+      };
+    });
+  };
+
+  const handleSave = () => {
+    startTransition(async () => {
+      try {
+        const results = await Promise.all(
+          dirtyRoles.map((role) => updateRolePermissionsAction(role.id, grants[role.id] ?? []))
+        );
+        setSaved((prev) => ({ ...prev, ...grantsOf(results.map((result) => result.data)) }));
+      } catch (e) {
+        console.error('Failed to save permissions:', e);
+      }
+    });
+  };
+
+  const openDialog = (mode: DialogMode, permission: Permission | null = null) => {
+    setDialogMode(mode);
+    setSelected(permission);
+    setFormData({
+      resource: permission?.resource ?? '',
+      action: permission?.action ?? 'read',
+      name: permission?.name ?? '',
+      description: permission?.description ?? '',
+    });
+    setGenerateActions(CRUD_ACTIONS);
+    setError(null);
+    setDialogOpen(true);
+  };
+
+  /**
+   * Runs a server action, closes the dialog on success, shows the error otherwise
+   */
+  const submit = (action: () => Promise<void>) => {
+    setError(null);
+    startTransition(async () => {
+      try {
+        await action();
+        setDialogOpen(false);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Action failed');
+      }
+    });
+  };
+
+  const handleCreate = () => {
+    if (!formData.resource.trim()) return;
+
+    submit(async () => {
+      const permission = await createPermissionAction({
+        resource: formData.resource.trim(),
+        action: formData.action,
+        name: formData.name.trim() || null,
+        description: formData.description.trim() || null,
+      });
+      setItems((prev) => [...prev, permission]);
+    });
+  };
+
+  const handleGenerate = () => {
+    if (!formData.resource.trim() || generateActions.length === 0) return;
+
+    submit(async () => {
+      const generated = await generatePermissionsAction(formData.resource.trim(), generateActions);
+      setItems((prev) => [
+        ...prev,
+        ...generated.filter((permission) => !prev.some((p) => p.id === permission.id)),
+      ]);
+    });
+  };
+
+  const handleEdit = () => {
+    if (!selected || !formData.name.trim()) return;
+
+    submit(async () => {
+      const updated = await updatePermissionAction(selected.id, {
+        name: formData.name.trim(),
+        description: formData.description.trim() || null,
+      });
+      setItems((prev) => prev.map((p) => (p.id === updated.id ? { ...p, ...updated } : p)));
+    });
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+
+    submit(async () => {
+      await deletePermissionAction(selected.id);
+
+      const withoutPermission = (all: Grants) =>
+        Object.fromEntries(
+          Object.entries(all).map(([roleId, ids]) => [roleId, ids.filter((id) => id !== selected.id)])
+        );
+      setItems((prev) => prev.filter((p) => p.id !== selected.id));
+      setGrants(withoutPermission);
+      setSaved(withoutPermission);
+    });
+  };
+
+  const handlers: Record<DialogMode, () => void> = {
+    create: handleCreate,
+    generate: handleGenerate,
+    edit: handleEdit,
+    delete: handleDelete,
+  };
+
+  const titles: Record<DialogMode, string> = {
+    create: 'New Permission',
+    generate: 'Generate CRUD Permissions',
+    edit: 'Edit Permission',
+    delete: 'Delete Permission',
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <KeyIcon className="h-5 w-5" />
+                Matrice des permissions
+              </CardTitle>
+              <CardDescription>
+                {items.length} permissions, {roles.length} rôles
+                {dirtyRoles.length > 0 && ` — ${dirtyRoles.length} rôle(s) modifié(s)`}
+                {' — '}point gris : couvert par un joker, point bleu : hérité d&apos;un rôle parent
+              </CardDescription>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => openDialog('generate')}>
+                <SparklesIcon className="mr-2 h-4 w-4" />
+                Generate CRUD
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => openDialog('create')}>
+                <PlusIcon className="mr-2 h-4 w-4" />
+                New Permission
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={isPending || dirtyRoles.length === 0}
+                onClick={() => setGrants(saved)}
+              >
+                <UndoIcon className="mr-2 h-4 w-4" />
+                Reset
+              </Button>
+              <Button size="sm" disabled={isPending || dirtyRoles.length === 0} onClick={handleSave}>
+                <SaveIcon className="mr-2 h-4 w-4" />
+                Save
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Permission</TableHead>
+                {roles.map((role) => (
+                  <TableHead key={role.id} className="text-center">
+                    {role.name}
+                    {dirtyRoles.includes(role) && <span className="text-amber-600"> *</span>}
+                  </TableHead>
+                ))}
+                <TableHead className="w-[90px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((permission) => (
+                <TableRow key={permission.id}>
+                  <TableCell>
+                    <div className="flex flex-col">
+                      <span className="font-mono text-sm">{permission.slug}</span>
+                      <span className="text-xs text-muted-foreground">{permission.name}</span>
+                    </div>
+                  </TableCell>
+                  {roles.map((role) => {
+                    const granted = isGranted(role.id, permission.id);
+                    const wildcard = granted ? undefined : coveredBy(role.id, permission);
+                    const inherited = granted ? undefined : inheritedFrom(role, permission);
+
+                    return (
+                      <TableCell key={role.id} className="text-center">
+                        <div className="flex items-center justify-center gap-1">
+                          <Checkbox
+                            aria-label={`${role.name}: ${permission.slug}`}
+                            checked={granted}
+                            onCheckedChange={() => toggle(role.id, permission.id)}
+                          />
+                          {wildcard && (
+                            <span
+                              className="h-1.5 w-1.5 rounded-full bg-muted-foreground"
+                              title={`Covered by ${wildcard.slug}`}
+                            />
+                          )}
+                          {inherited && (
+                            <span
+                              className="h-1.5 w-1.5 rounded-full bg-blue-500"
+                              title={`Inherited from ${inherited}`}
+                            />
+                          )}
+                        </div>
+                      </TableCell>
+                    );
+                  })}
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => openDialog('edit', permission)}
+                      >
+                        <PencilIcon className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-destructive hover:text-destructive"
+                        onClick={() => openDialog('delete', permission)}
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <KeyIcon className="h-5 w-5" />
+              {titles[dialogMode]}
+            </DialogTitle>
+            <DialogDescription>
+              {dialogMode === 'create' && 'Add a RESOURCE.ACTION permission'}
+              {dialogMode === 'generate' && 'Create the missing permissions of a resource'}
+              {dialogMode === 'edit' && `Rename or describe ${selected?.slug}`}
+              {dialogMode === 'delete' && `Delete ${selected?.slug}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {(dialogMode === 'create' || dialogMode === 'generate') && (
+            <div className="space-y-2 pt-4">
+              <Label htmlFor="resource">Resource</Label>
+              <Input
+                id="resource"
+                value={formData.resource}
+                onChange={(e) => setFormData({ ...formData, resource: e.target.value })}
+                placeholder="e.g., invoices or projects.tasks"
+              />
+            </div>
+          )}
+
+          {dialogMode === 'create' && (
+            <div className="space-y-2">
+              <Label>Action</Label>
+              <Select
+                value={formData.action}
+                onValueChange={(value) =>
+                  setFormData({ ...formData, action: value as PermissionAction })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ACTIONS.map((action) => (
+                    <SelectItem key={action} value={action}>
+                      {action}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {dialogMode === 'generate' && (
+            <div className="space-y-2">
+              <Label>Actions</Label>
+              <div className="flex flex-wrap gap-4">
+                {ACTIONS.map((action) => (
+                  <div key={action} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`action-${action}`}
+                      checked={generateActions.includes(action)}
+                      onCheckedChange={() =>
+                        setGenerateActions((prev) =>
+                          prev.includes(action)
+                            ? prev.filter((a) => a !== action)
+                            : [...prev, action]
+                        )
+                      }
+                    />
+                    <Label htmlFor={`action-${action}`} className="cursor-pointer font-mono">
+                      {action}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {(dialogMode === 'create' || dialogMode === 'edit') && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="permission-name">Name</Label>
+                <Input
+                  id="permission-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder={dialogMode === 'create' ? 'Generated from the slug if empty' : ''}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="permission-description">Description</Label>
+                <Input
+                  id="permission-description"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                />
+              </div>
+            </>
+          )}
+
+          {dialogMode === 'delete' && selected && (
+            <p className="text-sm">
+              <Badge variant="outline" className="font-mono">
+                {selected.slug}
+              </Badge>{' '}
+              will be revoked from every role granting it. This action cannot be undone.
+            </p>
+          )}
+
+          {error && (
+            <p className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+              {error}
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant={dialogMode === 'delete' ? 'destructive' : 'default'}
+              onClick={handlers[dialogMode]}
+              disabled={isPending}
+            >
+              {dialogMode === 'delete' ? 'Delete' : dialogMode === 'edit' ? 'Save' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
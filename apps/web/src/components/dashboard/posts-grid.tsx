@@ -48,6 +48,8 @@ import {
   deletePostAction,
   type Post,
 } from '@/lib/api/admin';
+import { Can } from '@/components/can';
+import { subject } from '@rbac/types';
 
 interface PostsGridProps {
   posts: Post[];
@@ -224,13 +226,13 @@ export function PostsGrid({ posts, permissions }: PostsGridProps) {
                 <EyeIcon className="mr-1 h-4 w-4" />
                 View
               </Button>
-              {permissions.canUpdate && (
+              <Can action="update" resource={subject('posts', { user_id: post.userId })}>
                 <Button variant="ghost" size="sm" onClick={() => openEditDialog(post)}>
                   <EditIcon className="mr-1 h-4 w-4" />
                   Edit
                 </Button>
-              )}
-              {permissions.canDelete && (
+              </Can>
+              <Can action="delete" resource={subject('posts', { user_id: post.userId })}>
                 <Button
                   variant="ghost"
                   size="sm"
@@ -240,7 +242,7 @@ export function PostsGrid({ posts, permissions }: PostsGridProps) {
                   <TrashIcon className="mr-1 h-4 w-4" />
                   Delete
                 </Button>
-              )}
+              </Can>
             </CardFooter>
           </Card>
         ))}
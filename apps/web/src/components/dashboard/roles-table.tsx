@@ -1,7 +1,6 @@
 'use client';
 
 import { useState, useTransition } from 'react';
-import { useRouter } from 'next/navigation';
 import {
   Card,
   CardContent,
@@ -27,6 +26,21 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
@@ -37,18 +51,34 @@ import {
   PlusIcon,
   PencilIcon,
   ShieldIcon,
+  CopyIcon,
+  TrashIcon,
+  LockIcon,
+  KeyIcon,
+  ArrowUpIcon,
+  ArrowDownIcon,
+  MoreHorizontalIcon,
+  GitForkIcon,
 } from 'lucide-react';
 import {
+  cloneRoleAction,
   createRoleAction,
+  deleteRoleAction,
+  getRolesAction,
+  reorderRolesAction,
+  updateRoleAction,
+  updateRoleParentsAction,
   updateRolePermissionsAction,
 } from '@/lib/api/admin';
-import type { Role, Permission } from '@rbac/types';
+import type { Permission, RoleWithPermissions } from '@rbac/types';
 
 interface RolesTableProps {
-  roles: (Role & { permissions: Permission[] })[];
+  roles: RoleWithPermissions[];
   permissions: Permission[];
 }
 
+type DialogMode = 'create' | 'edit' | 'clone' | 'permissions' | 'inheritance' | 'delete';
+
 const getRoleColor = (slug: string) => {
   switch (slug) {
     case 'admin':
@@ -62,62 +92,196 @@ const getRoleColor = (slug: string) => {
   }
 };
 
+const DIALOG_TITLES: Record<DialogMode, string> = {
+  create: 'Create Role',
+  edit: 'Edit Role',
+  clone: 'Clone Role',
+  permissions: 'Manage Permissions',
+  inheritance: 'Inheritance',
+  delete: 'Delete Role',
+};
+
+/**
+ * Roles inheriting (directly or not) from the given role: they cannot become its parents
+ */
+const getDescendantIds = (roleId: number, roles: RoleWithPermissions[]): Set<number> => {
+  const descendants = new Set<number>();
+  const queue = [roleId];
+
+  while (queue.length > 0) {
+    const current = queue.shift();
+    for (const role of roles) {
+      if (!descendants.has(role.id) && role.parents?.some((parent) => parent.id === current)) {
+        descendants.add(role.id);
+        queue.push(role.id);
+      }
+    }
+  }
+
+  return descendants;
+};
+
 export function RolesTable({ roles, permissions }: RolesTableProps) {
-  const router = useRouter();
   const [isPending, startTransition] = useTransition();
-  const [items, setItems] = useState<(Role & { permissions: Permission[] })[]>(roles);
+  const [items, setItems] = useState<RoleWithPermissions[]>(roles);
   const [dialogOpen, setDialogOpen] = useState(false);
-  const [dialogMode, setDialogMode] = useState<'create' | 'permissions'>('create');
-  const [selectedRole, setSelectedRole] = useState<(Role & { permissions: Permission[] }) | null>(null);
+  const [dialogMode, setDialogMode] = useState<DialogMode>('create');
+  const [selectedRole, setSelectedRole] = useState<RoleWithPermissions | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     slug: '',
     description: '',
   });
   const [selectedPermissions, setSelectedPermissions] = useState<number[]>([]);
+  const [selectedParents, setSelectedParents] = useState<number[]>([]);
+  const [reassignTo, setReassignTo] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const openDialog = (mode: DialogMode, role: RoleWithPermissions | null = null) => {
+    setDialogMode(mode);
+    setSelectedRole(role);
+    setError(null);
+    setDialogOpen(true);
+  };
 
   const openCreateDialog = () => {
-    setDialogMode('create');
     setFormData({ name: '', slug: '', description: '' });
-    setSelectedPermissions([]);
-    setDialogOpen(true);
+    openDialog('create');
   };
 
-  const openPermissionsDialog = (role: Role & { permissions: Permission[] }) => {
-    setDialogMode('permissions');
-    setSelectedRole(role);
+  const openEditDialog = (role: RoleWithPermissions) => {
+    setFormData({ name: role.name, slug: role.slug, description: role.description ?? '' });
+    openDialog('edit', role);
+  };
+
+  const openCloneDialog = (role: RoleWithPermissions) => {
+    setFormData({
+      name: `${role.name} (copy)`,
+      slug: `${role.slug}-copy`,
+      description: role.description ?? '',
+    });
+    openDialog('clone', role);
+  };
+
+  const openPermissionsDialog = (role: RoleWithPermissions) => {
     setSelectedPermissions(role.permissions.map((p) => p.id));
-    setDialogOpen(true);
+    openDialog('permissions', role);
   };
 
-  const handleCreate = () => {
-    if (!formData.name.trim() || !formData.slug.trim()) return;
+  const openInheritanceDialog = (role: RoleWithPermissions) => {
+    setSelectedParents(role.parents?.map((p) => p.id) ?? []);
+    openDialog('inheritance', role);
+  };
 
+  const openDeleteDialog = (role: RoleWithPermissions) => {
+    setReassignTo('');
+    openDialog('delete', role);
+  };
+
+  /**
+   * Runs a server action, closes the dialog on success, shows the error otherwise
+   */
+  const submit = (action: () => Promise<void>) => {
+    setError(null);
     startTransition(async () => {
       try {
-        const newRole = await createRoleAction(formData);
-        setItems([...items, { ...newRole, permissions: [] }]);
+        await action();
         setDialogOpen(false);
       } catch (e) {
-        console.error('Failed to create role:', e);
+        setError(e instanceof Error ? e.message : 'Action failed');
       }
     });
   };
 
+  const handleCreate = () => {
+    if (!formData.name.trim() || !formData.slug.trim()) return;
+
+    submit(async () => {
+      const newRole = await createRoleAction(formData);
+      setItems([...items, { ...newRole, users_count: 0, permissions: [] }]);
+    });
+  };
+
+  const handleEdit = () => {
+    if (!selectedRole || !formData.name.trim() || !formData.slug.trim()) return;
+
+    submit(async () => {
+      const updated = await updateRoleAction(selectedRole.id, formData);
+      setItems(items.map((r) => (r.id === selectedRole.id ? { ...r, ...updated } : r)));
+    });
+  };
+
+  const handleClone = () => {
+    if (!selectedRole || !formData.name.trim() || !formData.slug.trim()) return;
+
+    submit(async () => {
+      const clone = await cloneRoleAction(selectedRole.id, formData);
+      setItems([...items, { ...clone, users_count: 0 }]);
+    });
+  };
+
   const handleUpdatePermissions = () => {
     if (!selectedRole) return;
 
+    submit(async () => {
+      await updateRolePermissionsAction(selectedRole.id, selectedPermissions);
+      // Les rôles enfants héritent du changement : recharger toute la liste
+      setItems(await getRolesAction());
+    });
+  };
+
+  const handleUpdateParents = () => {
+    if (!selectedRole) return;
+
+    submit(async () => {
+      await updateRoleParentsAction(selectedRole.id, selectedParents);
+      setItems(await getRolesAction());
+    });
+  };
+
+  const handleDelete = () => {
+    if (!selectedRole) return;
+
+    submit(async () => {
+      await deleteRoleAction(selectedRole.id, reassignTo || undefined);
+
+      // Compteur indicatif : les utilisateurs qui avaient déjà le rôle cible sont recomptés
+      const moved = selectedRole.users_count ?? 0;
+      setItems(
+        items
+          .filter((r) => r.id !== selectedRole.id)
+          .map((r) =>
+            r.slug === reassignTo ? { ...r, users_count: (r.users_count ?? 0) + moved } : r
+          )
+      );
+    });
+  };
+
+  const moveRole = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= items.length) return;
+
+    const previous = items;
+    const reordered = [...items];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setItems(reordered);
+
     startTransition(async () => {
       try {
-        const result = await updateRolePermissionsAction(selectedRole.id, selectedPermissions);
-        setItems(items.map((r) => (r.id === selectedRole.id ? result.data : r)));
-        setDialogOpen(false);
+        setItems(await reorderRolesAction(reordered.map((r) => r.id)));
       } catch (e) {
-        console.error('Failed to update permissions:', e);
+        console.error('Failed to reorder roles:', e);
+        setItems(previous);
       }
     });
   };
 
+  const toggleParent = (roleId: number) => {
+    setSelectedParents((prev) =>
+      prev.includes(roleId) ? prev.filter((id) => id !== roleId) : [...prev, roleId]
+    );
+  };
+
   const togglePermission = (permissionId: number) => {
     setSelectedPermissions((prev) =>
       prev.includes(permissionId)
@@ -133,6 +297,34 @@ export function RolesTable({ roles, permissions }: RolesTableProps) {
     return acc;
   }, {} as Record<string, Permission[]>);
 
+  const usersCount = selectedRole?.users_count ?? 0;
+  const reassignTargets = items.filter((r) => r.id !== selectedRole?.id);
+  const descendantIds = selectedRole ? getDescendantIds(selectedRole.id, items) : new Set<number>();
+  const parentCandidates = items.filter(
+    (r) => r.id !== selectedRole?.id && !descendantIds.has(r.id)
+  );
+  const inheritedFrom = new Map(
+    (selectedRole?.inherited_permissions ?? []).map((p) => [p.id, p.inherited_from])
+  );
+
+  const handlers: Record<DialogMode, () => void> = {
+    create: handleCreate,
+    edit: handleEdit,
+    clone: handleClone,
+    permissions: handleUpdatePermissions,
+    inheritance: handleUpdateParents,
+    delete: handleDelete,
+  };
+
+  const descriptions: Record<DialogMode, string> = {
+    create: 'Create a new role with specific permissions',
+    edit: `Rename or describe ${selectedRole?.name}`,
+    clone: `Create a new role with the permissions of ${selectedRole?.name}`,
+    permissions: `Configure permissions for ${selectedRole?.name}`,
+    inheritance: `Roles whose permissions ${selectedRole?.name} inherits`,
+    delete: `Delete ${selectedRole?.name}`,
+  };
+
   return (
     <>
       <Card>
@@ -155,39 +347,119 @@ export function RolesTable({ roles, permissions }: RolesTableProps) {
           <Table>
             <TableHeader>
               <TableRow>
+                <TableHead className="w-[80px]">Order</TableHead>
                 <TableHead>Name</TableHead>
                 <TableHead>Slug</TableHead>
                 <TableHead>Description</TableHead>
+                <TableHead>Inherits from</TableHead>
                 <TableHead>Permissions</TableHead>
-                <TableHead className="w-[120px]">Actions</TableHead>
+                <TableHead>Users</TableHead>
+                <TableHead className="w-[60px]">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {items.map((role) => (
+              {items.map((role, index) => (
                 <TableRow key={role.id}>
                   <TableCell>
-                    <Badge className={getRoleColor(role.slug)}>{role.name}</Badge>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        disabled={isPending || index === 0}
+                        onClick={() => moveRole(index, -1)}
+                      >
+                        <ArrowUpIcon className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        disabled={isPending || index === items.length - 1}
+                        onClick={() => moveRole(index, 1)}
+                      >
+                        <ArrowDownIcon className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Badge className={getRoleColor(role.slug)}>{role.name}</Badge>
+                      {role.is_system && (
+                        <LockIcon className="h-3 w-3 text-muted-foreground" aria-label="System role" />
+                      )}
+                    </div>
                   </TableCell>
                   <TableCell className="font-mono text-sm text-muted-foreground">
                     {role.slug}
                   </TableCell>
                   <TableCell className="text-muted-foreground">{role.description || '-'}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {role.parents?.length ? (
+                        role.parents.map((parent) => (
+                          <Badge key={parent.id} variant="secondary" className="text-xs">
+                            {parent.name}
+                          </Badge>
+                        ))
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </div>
+                  </TableCell>
                   <TableCell>
                     <div className="flex flex-wrap gap-1">
                       <Badge variant="outline" className="text-xs">
-                        {role.permissions.length} permissions
+                        {role.permissions.length} direct
                       </Badge>
+                      {(role.inherited_permissions?.length ?? 0) > 0 && (
+                        <Badge variant="outline" className="text-xs text-muted-foreground">
+                          +{role.inherited_permissions?.length} inherited
+                        </Badge>
+                      )}
                     </div>
                   </TableCell>
+                  <TableCell className="text-muted-foreground">{role.users_count ?? '-'}</TableCell>
                   <TableCell>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => openPermissionsDialog(role)}
-                    >
-                      <PencilIcon className="mr-2 h-4 w-4" />
-                      Permissions
-                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon">
+                          <MoreHorizontalIcon className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onClick={() => openEditDialog(role)}>
+                          <PencilIcon className="mr-2 h-4 w-4" />
+                          Edit
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => openPermissionsDialog(role)}>
+                          <KeyIcon className="mr-2 h-4 w-4" />
+                          Permissions
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => openInheritanceDialog(role)}>
+                          <GitForkIcon className="mr-2 h-4 w-4" />
+                          Inheritance
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => openCloneDialog(role)}>
+                          <CopyIcon className="mr-2 h-4 w-4" />
+                          Clone
+                        </DropdownMenuItem>
+                        {!role.is_system && (
+                          <>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem
+                              className="text-destructive"
+                              onClick={() => openDeleteDialog(role)}
+                            >
+                              <TrashIcon className="mr-2 h-4 w-4" />
+                              Delete
+                            </DropdownMenuItem>
+                          </>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                   </TableCell>
                 </TableRow>
               ))}
@@ -201,16 +473,12 @@ export function RolesTable({ roles, permissions }: RolesTableProps) {
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <ShieldIcon className="h-5 w-5" />
-              {dialogMode === 'create' ? 'Create Role' : 'Manage Permissions'}
+              {DIALOG_TITLES[dialogMode]}
             </DialogTitle>
-            <DialogDescription>
-              {dialogMode === 'create'
-                ? 'Create a new role with specific permissions'
-                : `Configure permissions for ${selectedRole?.name}`}
-            </DialogDescription>
+            <DialogDescription>{descriptions[dialogMode]}</DialogDescription>
           </DialogHeader>
 
-          {dialogMode === 'create' ? (
+          {(dialogMode === 'create' || dialogMode === 'edit' || dialogMode === 'clone') && (
             <div className="space-y-4 py-4">
               <div className="space-y-2">
                 <Label htmlFor="name">Name</Label>
@@ -228,7 +496,13 @@ export function RolesTable({ roles, permissions }: RolesTableProps) {
                   value={formData.slug}
                   onChange={(e) => setFormData({ ...formData, slug: e.target.value })}
                   placeholder="e.g., editor"
+                  disabled={dialogMode === 'edit' && selectedRole?.is_system}
                 />
+                {dialogMode === 'edit' && selectedRole?.is_system && (
+                  <p className="text-xs text-muted-foreground">
+                    The slug of a system role cannot be changed.
+                  </p>
+                )}
               </div>
               <div className="space-y-2">
                 <Label htmlFor="description">Description</Label>
@@ -241,42 +515,119 @@ export function RolesTable({ roles, permissions }: RolesTableProps) {
                 />
               </div>
             </div>
-          ) : (
+          )}
+
+          {dialogMode === 'permissions' && (
             <div className="space-y-4 py-4">
               {Object.entries(groupedPermissions).map(([resource, perms]) => (
                 <div key={resource}>
                   <h4 className="font-medium mb-2 capitalize">{resource}</h4>
                   <div className="space-y-2">
-                    {perms.map((perm) => (
-                      <div key={perm.id} className="flex items-center space-x-2">
-                        <Checkbox
-                          id={`perm-${perm.id}`}
-                          checked={selectedPermissions.includes(perm.id)}
-                          onCheckedChange={() => togglePermission(perm.id)}
-                        />
-                        <Label htmlFor={`perm-${perm.id}`} className="cursor-pointer">
-                          {perm.name}
-                          <span className="text-muted-foreground text-xs ml-2">
-                            {perm.slug}
-                          </span>
-                        </Label>
-                      </div>
-                    ))}
+                    {perms.map((perm) => {
+                      const direct = selectedPermissions.includes(perm.id);
+                      const inherited = inheritedFrom.get(perm.id);
+
+                      return (
+                        <div key={perm.id} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`perm-${perm.id}`}
+                            checked={direct || inherited !== undefined}
+                            disabled={!direct && inherited !== undefined}
+                            onCheckedChange={() => togglePermission(perm.id)}
+                          />
+                          <Label htmlFor={`perm-${perm.id}`} className="cursor-pointer">
+                            {perm.name}
+                            <span className="text-muted-foreground text-xs ml-2">
+                              {perm.slug}
+                            </span>
+                          </Label>
+                          {inherited && !direct && (
+                            <Badge variant="secondary" className="text-xs">
+                              inherited from {inherited}
+                            </Badge>
+                          )}
+                        </div>
+                      );
+                    })}
                   </div>
                 </div>
               ))}
             </div>
           )}
 
+          {dialogMode === 'inheritance' && (
+            <div className="space-y-2 py-4">
+              {parentCandidates.map((role) => (
+                <div key={role.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`parent-${role.id}`}
+                    checked={selectedParents.includes(role.id)}
+                    onCheckedChange={() => toggleParent(role.id)}
+                  />
+                  <Label htmlFor={`parent-${role.id}`} className="cursor-pointer">
+                    {role.name}
+                    <span className="text-muted-foreground text-xs ml-2">{role.slug}</span>
+                  </Label>
+                </div>
+              ))}
+              {descendantIds.size > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Roles inheriting from {selectedRole?.name} cannot be selected.
+                </p>
+              )}
+            </div>
+          )}
+
+          {dialogMode === 'delete' && (
+            <div className="space-y-4 py-4">
+              {usersCount > 0 ? (
+                <div className="space-y-2">
+                  <p className="text-sm">
+                    This role is assigned to {usersCount} user{usersCount > 1 ? 's' : ''}. Choose
+                    the role they will be moved to.
+                  </p>
+                  <Select value={reassignTo} onValueChange={setReassignTo}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Reassign users to..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {reassignTargets.map((role) => (
+                        <SelectItem key={role.id} value={role.slug}>
+                          {role.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : (
+                <p className="text-sm">This role is not assigned to any user.</p>
+              )}
+              <p className="text-sm text-muted-foreground">This action cannot be undone.</p>
+            </div>
+          )}
+
+          {error && (
+            <p className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+              {error}
+            </p>
+          )}
+
           <DialogFooter>
             <Button variant="outline" onClick={() => setDialogOpen(false)}>
               Cancel
             </Button>
             <Button
-              onClick={dialogMode === 'create' ? handleCreate : handleUpdatePermissions}
-              disabled={isPending}
+              variant={dialogMode === 'delete' ? 'destructive' : 'default'}
+              onClick={handlers[dialogMode]}
+              disabled={isPending || (dialogMode === 'delete' && usersCount > 0 && !reassignTo)}
             >
-              {dialogMode === 'create' ? 'Create' : 'Save'}
+              {dialogMode === 'create' && 'Create'}
+              {dialogMode === 'clone' && 'Clone'}
+              {dialogMode === 'delete' && 'Delete'}
+              {(dialogMode === 'edit' ||
+                dialogMode === 'permissions' ||
+                dialogMode === 'inheritance') &&
+                'Save'}
             </Button>
           </DialogFooter>
         </DialogContent>
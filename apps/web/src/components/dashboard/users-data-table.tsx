@@ -2,16 +2,13 @@
 
 import * as React from 'react';
 import { useTransition } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import {
   ColumnDef,
-  ColumnFiltersState,
   SortingState,
   VisibilityState,
   flexRender,
   getCoreRowModel,
-  getFilteredRowModel,
-  getPaginationRowModel,
-  getSortedRowModel,
   useReactTable,
 } from '@tanstack/react-table';
 import {
@@ -73,20 +70,58 @@ import {
   TrashIcon,
   PlusIcon,
   SettingsIcon,
+  ArrowUpDownIcon,
+  ArrowUpIcon,
+  ArrowDownIcon,
+  KeyIcon,
+  BanIcon,
+  TimerIcon,
 } from 'lucide-react';
-import { assignRoleAction, removeRoleAction } from '@/lib/api/admin';
-import type { User, Role, Permission } from '@rbac/types';
+import {
+  assignRoleAction,
+  getUserPermissionOverridesAction,
+  removeRoleAction,
+  removeUserPermissionOverrideAction,
+  setUserPermissionOverrideAction,
+} from '@/lib/api/admin';
+import type {
+  UserListQuery,
+  UserWithRoles,
+  Role,
+  Permission,
+  PermissionOverrideType,
+  RoleAssignment,
+  UserPermissionOverride,
+} from '@rbac/types';
 
 interface UsersDataTableProps {
-  users: (User & { roles: Role[] })[];
+  users: UserWithRoles[];
   roles: (Role & { permissions: Permission[] })[];
-  pagination?: {
+  /** Toutes les permissions, pour les accords et refus directs */
+  permissions: Permission[];
+  /** Current URL query (page, search, role, sort, direction) */
+  query: UserListQuery;
+  pagination: {
     currentPage: number;
     lastPage: number;
     total: number;
   };
 }
 
+const DIALOG_TITLES = {
+  assign: 'Assigner un rôle',
+  remove: 'Retirer un rôle',
+  permissions: 'Permissions directes',
+};
+
+// datetime-local (heure locale) -> ISO 8601 UTC
+const toIsoDate = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const PAGE_SIZES = [10, 15, 25, 50, 100];
+
+// Délai avant de lancer la recherche pendant la saisie
+const SEARCH_DEBOUNCE_MS = 300;
+
 const getRoleColor = (slug: string) => {
   switch (slug) {
     case 'admin':
@@ -172,24 +207,264 @@ function RolePermissionsDisplay({ role }: { role: Role & { permissions: Permissi
   );
 }
 
-export function UsersDataTable({ users, roles, pagination }: UsersDataTableProps) {
+// Durée restante compacte : "2d 3h", "3h 12m", "12m"
+const formatDuration = (ms: number) => {
+  const minutes = Math.floor(ms / 60_000);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+
+  if (days > 0) return `${days}d ${hours % 24}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return minutes > 0 ? `${minutes}m` : '<1m';
+};
+
+// Horloge des comptes à rebours, arrondie à 30 s (instantané stable entre deux ticks)
+const CLOCK_TICK_MS = 30_000;
+
+const subscribeToClock = (onTick: () => void) => {
+  const timer = setInterval(onTick, CLOCK_TICK_MS);
+  return () => clearInterval(timer);
+};
+
+const getClockSnapshot = () => Math.floor(Date.now() / CLOCK_TICK_MS) * CLOCK_TICK_MS;
+
+// Attribution temporaire : compte à rebours jusqu'au début ou à l'expiration
+function AssignmentWindowBadge({ assignment }: { assignment?: RoleAssignment }) {
+  // Pas d'heure côté serveur : rien à afficher avant l'hydratation
+  const now = React.useSyncExternalStore(subscribeToClock, getClockSnapshot, () => null);
+
+  if (now === null) return null;
+
+  const startsAt = assignment?.starts_at ? Date.parse(assignment.starts_at) : null;
+  const expiresAt = assignment?.expires_at ? Date.parse(assignment.expires_at) : null;
+
+  if (startsAt !== null && startsAt > now) {
+    return (
+      <Badge variant="outline" className="text-xs" title={new Date(startsAt).toLocaleString()}>
+        starts in {formatDuration(startsAt - now)}
+      </Badge>
+    );
+  }
+
+  if (expiresAt === null) return null;
+
+  if (expiresAt <= now) {
+    return (
+      <Badge variant="destructive" className="text-xs">
+        expired
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge
+      variant="outline"
+      className="flex items-center gap-1 text-xs"
+      title={`Expires ${new Date(expiresAt).toLocaleString()}`}
+    >
+      <TimerIcon className="h-3 w-3" />
+      {formatDuration(expiresAt - now)}
+    </Badge>
+  );
+}
+
+// Accords et refus directs d'un utilisateur (en plus de ses rôles, le refus l'emporte)
+function UserPermissionOverrides({
+  user,
+  permissions,
+}: {
+  user: UserWithRoles;
+  permissions: Permission[];
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [overrides, setOverrides] = React.useState<UserPermissionOverride[] | null>(null);
+  const [selectedPermission, setSelectedPermission] = React.useState<string>('');
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    getUserPermissionOverridesAction(user.id)
+      .then(setOverrides)
+      .catch((e) => setError(e instanceof Error ? e.message : 'Failed to load permissions'));
+  }, [user.id]);
+
+  const run = (action: () => Promise<UserPermissionOverride[]>) => {
+    setError(null);
+    startTransition(async () => {
+      try {
+        setOverrides(await action());
+        setSelectedPermission('');
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to update permissions');
+      }
+    });
+  };
+
+  const setOverride = (type: PermissionOverrideType) => {
+    if (!selectedPermission) return;
+    run(() => setUserPermissionOverrideAction(user.id, parseInt(selectedPermission), type));
+  };
+
+  const available = permissions.filter((p) => !overrides?.some((o) => o.id === p.id));
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-red-800 text-sm">
+          {error}
+        </div>
+      )}
+
+      {overrides === null ? (
+        <p className="text-sm text-muted-foreground">Chargement...</p>
+      ) : overrides.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">
+          Aucune permission accordée ou refusée directement
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {overrides.map((override) => (
+            <div key={override.id} className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                {override.type === 'deny' ? (
+                  <Badge variant="destructive" className="flex items-center gap-1 text-xs">
+                    <BanIcon className="h-3 w-3" />
+                    Refusée
+                  </Badge>
+                ) : (
+                  <Badge variant="secondary" className="flex items-center gap-1 text-xs">
+                    <CheckIcon className="h-3 w-3" />
+                    Accordée
+                  </Badge>
+                )}
+                <span className="font-mono text-sm">{override.slug}</span>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                disabled={isPending}
+                onClick={() => run(() => removeUserPermissionOverrideAction(user.id, override.id))}
+              >
+                <XIcon className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 border-t pt-3">
+        <Select value={selectedPermission} onValueChange={setSelectedPermission}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Choisir une permission..." />
+          </SelectTrigger>
+          <SelectContent>
+            {available.map((permission) => (
+              <SelectItem key={permission.id} value={String(permission.id)}>
+                <span className="font-mono text-xs">{permission.slug}</span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={!selectedPermission || isPending}
+          onClick={() => setOverride('grant')}
+        >
+          Accorder
+        </Button>
+        <Button
+          size="sm"
+          variant="destructive"
+          disabled={!selectedPermission || isPending}
+          onClick={() => setOverride('deny')}
+        >
+          Refuser
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Un refus l&apos;emporte sur les permissions des rôles de l&apos;utilisateur.
+      </p>
+    </div>
+  );
+}
+
+export function UsersDataTable({ users, roles, permissions, query, pagination }: UsersDataTableProps) {
   const router = useRouter();
+  const searchParams = useSearchParams();
   const [isPending, startTransition] = useTransition();
-  const [selectedUser, setSelectedUser] = React.useState<(User & { roles: Role[] }) | null>(null);
+  const [isNavigating, startNavigation] = useTransition();
+  const [selectedUser, setSelectedUser] = React.useState<UserWithRoles | null>(null);
   const [dialogOpen, setDialogOpen] = React.useState(false);
-  const [dialogMode, setDialogMode] = React.useState<'assign' | 'remove'>('assign');
+  const [dialogMode, setDialogMode] = React.useState<'assign' | 'remove' | 'permissions'>('assign');
   const [selectedRole, setSelectedRole] = React.useState<string>('');
+  // Valeurs des champs datetime-local (heure locale), vides = sans limite
+  const [assignmentWindow, setAssignmentWindow] = React.useState({ starts_at: '', expires_at: '' });
   const [error, setError] = React.useState<string | null>(null);
 
-  const [sorting, setSorting] = React.useState<SortingState>([]);
-  const [columnFilters, setColumnFilters] = React.useState<ColumnFiltersState>([]);
+  const [search, setSearch] = React.useState(query.search ?? '');
   const [columnVisibility, setColumnVisibility] = React.useState<VisibilityState>({});
   const [rowSelection, setRowSelection] = React.useState({});
 
-  const columns: ColumnDef<User & { roles: Role[] }>[] = [
+  // Le tri est porté par l'URL et appliqué par Laravel
+  const sorting: SortingState = [{ id: query.sort, desc: query.direction === 'desc' }];
+
+  /**
+   * Met à jour les paramètres d'URL (retour en page 1 sauf si `page` est fourni)
+   */
+  const updateQuery = React.useCallback(
+    (changes: Record<string, string | number | undefined>) => {
+      const params = new URLSearchParams(searchParams.toString());
+      if (!('page' in changes)) {
+        params.delete('page');
+      }
+      for (const [key, value] of Object.entries(changes)) {
+        if (value === undefined || value === '') {
+          params.delete(key);
+        } else {
+          params.set(key, String(value));
+        }
+      }
+
+      startNavigation(() => {
+        router.push(`?${params.toString()}`);
+      });
+    },
+    [router, searchParams]
+  );
+
+  // Recherche serveur avec debounce
+  React.useEffect(() => {
+    if (search === (query.search ?? '')) return;
+
+    const timeoutId = setTimeout(() => {
+      updateQuery({ search: search.trim() || undefined });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeoutId);
+  }, [search, query.search, updateQuery]);
+
+  const toggleSort = (column: UserListQuery['sort']) => {
+    const direction = query.sort === column && query.direction === 'asc' ? 'desc' : 'asc';
+    updateQuery({ sort: column, direction });
+  };
+
+  const sortableHeader = (label: string, column: UserListQuery['sort']) => {
+    const SortIcon =
+      query.sort !== column ? ArrowUpDownIcon : query.direction === 'asc' ? ArrowUpIcon : ArrowDownIcon;
+
+    return (
+      <Button variant="ghost" size="sm" className="-ml-3" onClick={() => toggleSort(column)}>
+        {label}
+        <SortIcon className="ml-2 h-4 w-4" />
+      </Button>
+    );
+  };
+
+  const columns: ColumnDef<UserWithRoles>[] = [
     {
       accessorKey: 'name',
-      header: 'User',
+      header: () => sortableHeader('User', 'name'),
       cell: ({ row }) => {
         const user = row.original;
         const initials = user.name
@@ -213,7 +488,7 @@ export function UsersDataTable({ users, roles, pagination }: UsersDataTableProps
     },
     {
       accessorKey: 'email',
-      header: 'Email',
+      header: () => sortableHeader('Email', 'email'),
       cell: ({ row }) => <span className="text-muted-foreground">{row.original.email}</span>,
     },
     {
@@ -225,9 +500,10 @@ export function UsersDataTable({ users, roles, pagination }: UsersDataTableProps
           <div className="flex flex-wrap gap-1">
             {user.roles.length > 0 ? (
               user.roles.map((role) => (
-                <Badge key={role.id} className={getRoleColor(role.slug)}>
-                  {role.name}
-                </Badge>
+                <div key={role.id} className="flex items-center gap-1">
+                  <Badge className={getRoleColor(role.slug)}>{role.name}</Badge>
+                  <AssignmentWindowBadge assignment={role.pivot} />
+                </div>
               ))
             ) : (
               <span className="text-muted-foreground text-sm">No roles</span>
@@ -238,7 +514,7 @@ export function UsersDataTable({ users, roles, pagination }: UsersDataTableProps
     },
     {
       accessorKey: 'created_at',
-      header: 'Created',
+      header: () => sortableHeader('Created', 'created_at'),
       cell: ({ row }) => (
         <span className="text-muted-foreground">
           {new Date(row.original.created_at).toLocaleDateString()}
@@ -270,6 +546,10 @@ export function UsersDataTable({ users, roles, pagination }: UsersDataTableProps
                   Remove Role
                 </DropdownMenuItem>
               )}
+              <DropdownMenuItem onClick={() => openPermissionsDialog(user)}>
+                <KeyIcon className="mr-2 h-4 w-4" />
+                Direct Permissions
+              </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
         );
@@ -277,39 +557,41 @@ export function UsersDataTable({ users, roles, pagination }: UsersDataTableProps
     },
   ];
 
+  // Pagination, filtres et tri côté serveur : la table n'affiche que la page reçue
   const table = useReactTable({
     data: users,
     columns,
-    onSortingChange: setSorting,
-    onColumnFiltersChange: setColumnFilters,
     getCoreRowModel: getCoreRowModel(),
-    getPaginationRowModel: getPaginationRowModel(),
-    getSortedRowModel: getSortedRowModel(),
-    getFilteredRowModel: getFilteredRowModel(),
+    manualPagination: true,
+    manualSorting: true,
+    manualFiltering: true,
+    pageCount: pagination.lastPage,
     onColumnVisibilityChange: setColumnVisibility,
     onRowSelectionChange: setRowSelection,
     state: {
       sorting,
-      columnFilters,
       columnVisibility,
       rowSelection,
-    },
-    initialState: {
       pagination: {
-        pageSize: 10,
+        pageIndex: pagination.currentPage - 1,
+        pageSize: query.per_page,
       },
     },
   });
 
-  const openAssignDialog = (user: User & { roles: Role[] }) => {
+  const canPreviousPage = pagination.currentPage > 1;
+  const canNextPage = pagination.currentPage < pagination.lastPage;
+
+  const openAssignDialog = (user: UserWithRoles) => {
     setSelectedUser(user);
     setDialogMode('assign');
     setSelectedRole('');
+    setAssignmentWindow({ starts_at: '', expires_at: '' });
     setError(null);
     setDialogOpen(true);
   };
 
-  const openRemoveDialog = (user: User & { roles: Role[] }) => {
+  const openRemoveDialog = (user: UserWithRoles) => {
     setSelectedUser(user);
     setDialogMode('remove');
     setSelectedRole('');
@@ -317,12 +599,22 @@ export function UsersDataTable({ users, roles, pagination }: UsersDataTableProps
     setDialogOpen(true);
   };
 
+  const openPermissionsDialog = (user: UserWithRoles) => {
+    setSelectedUser(user);
+    setDialogMode('permissions');
+    setError(null);
+    setDialogOpen(true);
+  };
+
   const handleAssignRole = () => {
     if (!selectedUser || !selectedRole) return;
 
     startTransition(async () => {
       try {
-        await assignRoleAction(selectedUser.id, selectedRole);
+        await assignRoleAction(selectedUser.id, selectedRole, {
+          starts_at: toIsoDate(assignmentWindow.starts_at),
+          expires_at: toIsoDate(assignmentWindow.expires_at),
+        });
         setDialogOpen(false);
         router.refresh();
       } catch (e) {
@@ -359,23 +651,37 @@ export function UsersDataTable({ users, roles, pagination }: UsersDataTableProps
                 <UserIcon className="h-5 w-5" />
                 Users
               </CardTitle>
-              <CardDescription>{pagination?.total || users.length} users total</CardDescription>
+              <CardDescription>{pagination.total} users total</CardDescription>
             </div>
           </div>
         </CardHeader>
         <CardContent>
-          <div className="mb-4 flex items-center justify-between">
+          <div className="mb-4 flex items-center gap-2">
             <Input
-              placeholder="Filter users..."
-              value={(table.getColumn('email')?.getFilterValue() as string) ?? ''}
-              onChange={(event) =>
-                table.getColumn('email')?.setFilterValue(event.target.value)
-              }
+              placeholder="Search by name or email..."
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
               className="max-w-sm"
             />
+            <Select
+              value={query.role ?? 'all'}
+              onValueChange={(value) => updateQuery({ role: value === 'all' ? undefined : value })}
+            >
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="All roles" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All roles</SelectItem>
+                {roles.map((role) => (
+                  <SelectItem key={role.id} value={role.slug}>
+                    {role.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
 
-          <div className="rounded-md border">
+          <div className={`rounded-md border ${isNavigating ? 'opacity-60' : ''}`}>
             <Table>
               <TableHeader>
                 {table.getHeaderGroups().map((headerGroup) => (
@@ -422,39 +728,56 @@ export function UsersDataTable({ users, roles, pagination }: UsersDataTableProps
 
           <div className="flex items-center justify-end space-x-2 py-4">
             <div className="flex-1 text-sm text-muted-foreground">
-              {table.getFilteredSelectedRowModel().rows.length} of{' '}
-              {table.getFilteredRowModel().rows.length} row(s) selected.
+              {table.getSelectedRowModel().rows.length} of {users.length} row(s) selected.
+            </div>
+            <Select
+              value={String(query.per_page)}
+              onValueChange={(value) => updateQuery({ per_page: value })}
+            >
+              <SelectTrigger className="h-8 w-[80px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PAGE_SIZES.map((size) => (
+                  <SelectItem key={size} value={String(size)}>
+                    {size}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="text-sm text-muted-foreground">
+              Page {pagination.currentPage} of {pagination.lastPage}
             </div>
             <div className="space-x-2">
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => table.setPageIndex(0)}
-                disabled={!table.getCanPreviousPage()}
+                onClick={() => updateQuery({ page: 1 })}
+                disabled={!canPreviousPage}
               >
                 <ChevronsLeftIcon className="h-4 w-4" />
               </Button>
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => table.previousPage()}
-                disabled={!table.getCanPreviousPage()}
+                onClick={() => updateQuery({ page: pagination.currentPage - 1 })}
+                disabled={!canPreviousPage}
               >
                 <ChevronLeftIcon className="h-4 w-4" />
               </Button>
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => table.nextPage()}
-                disabled={!table.getCanNextPage()}
+                onClick={() => updateQuery({ page: pagination.currentPage + 1 })}
+                disabled={!canNextPage}
               >
                 <ChevronRightIcon className="h-4 w-4" />
               </Button>
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => table.setPageIndex(table.getPageCount() - 1)}
-                disabled={!table.getCanNextPage()}
+                onClick={() => updateQuery({ page: pagination.lastPage })}
+                disabled={!canNextPage}
               >
                 <ChevronsRightIcon className="h-4 w-4" />
               </Button>
@@ -468,12 +791,13 @@ export function UsersDataTable({ users, roles, pagination }: UsersDataTableProps
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <ShieldIcon className="h-5 w-5" />
-              {dialogMode === 'assign' ? 'Assigner un rôle' : 'Retirer un rôle'}
+              {DIALOG_TITLES[dialogMode]}
             </DialogTitle>
             <DialogDescription>
-              {dialogMode === 'assign'
-                ? `Sélectionnez un rôle à assigner à ${selectedUser?.name}`
-                : `Sélectionnez un rôle à retirer de ${selectedUser?.name}`}
+              {dialogMode === 'assign' && `Sélectionnez un rôle à assigner à ${selectedUser?.name}`}
+              {dialogMode === 'remove' && `Sélectionnez un rôle à retirer de ${selectedUser?.name}`}
+              {dialogMode === 'permissions' &&
+                `Permissions accordées ou refusées à ${selectedUser?.name} en plus de ses rôles`}
             </DialogDescription>
           </DialogHeader>
 
@@ -497,34 +821,76 @@ export function UsersDataTable({ users, roles, pagination }: UsersDataTableProps
             </div>
           )}
 
-          <div className="py-2">
-            <label className="text-sm font-medium mb-2 block">
-              {dialogMode === 'assign' ? 'Sélectionner un rôle à assigner :' : 'Sélectionner un rôle à retirer :'}
-            </label>
-            <Select value={selectedRole} onValueChange={setSelectedRole}>
-              <SelectTrigger>
-                <SelectValue placeholder="Choisir un rôle..." />
-              </SelectTrigger>
-              <SelectContent>
-                {dialogMode === 'assign'
-                  ? availableRoles.map((role) => (
-                      <SelectItem key={role.id} value={role.slug}>
-                        <div className="flex items-center gap-2">
+          {dialogMode === 'permissions' && selectedUser && (
+            <UserPermissionOverrides
+              key={selectedUser.id}
+              user={selectedUser}
+              permissions={permissions}
+            />
+          )}
+
+          {dialogMode !== 'permissions' && (
+            <div className="py-2">
+              <label className="text-sm font-medium mb-2 block">
+                {dialogMode === 'assign' ? 'Sélectionner un rôle à assigner :' : 'Sélectionner un rôle à retirer :'}
+              </label>
+              <Select value={selectedRole} onValueChange={setSelectedRole}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choisir un rôle..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {dialogMode === 'assign'
+                    ? availableRoles.map((role) => (
+                        <SelectItem key={role.id} value={role.slug}>
+                          <div className="flex items-center gap-2">
+                            <Badge className={getRoleColor(role.slug)}>{role.name}</Badge>
+                            <span className="text-muted-foreground text-xs">
+                              ({role.permissions?.length || 0} permissions)
+                            </span>
+                          </div>
+                        </SelectItem>
+                      ))
+                    : selectedUser?.roles.map((role) => (
+                        <SelectItem key={role.id} value={String(role.id)}>
                           <Badge className={getRoleColor(role.slug)}>{role.name}</Badge>
-                          <span className="text-muted-foreground text-xs">
-                            ({role.permissions?.length || 0} permissions)
-                          </span>
-                        </div>
-                      </SelectItem>
-                    ))
-                  : selectedUser?.roles.map((role) => (
-                      <SelectItem key={role.id} value={String(role.id)}>
-                        <Badge className={getRoleColor(role.slug)}>{role.name}</Badge>
-                      </SelectItem>
-                    ))}
-              </SelectContent>
-            </Select>
-          </div>
+                        </SelectItem>
+                      ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {/* Attribution temporaire (astreinte, prestataire) */}
+          {dialogMode === 'assign' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label htmlFor="starts_at" className="text-sm font-medium block">
+                  Début (optionnel)
+                </label>
+                <Input
+                  id="starts_at"
+                  type="datetime-local"
+                  value={assignmentWindow.starts_at}
+                  onChange={(e) =>
+                    setAssignmentWindow({ ...assignmentWindow, starts_at: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <label htmlFor="expires_at" className="text-sm font-medium block">
+                  Expiration (optionnelle)
+                </label>
+                <Input
+                  id="expires_at"
+                  type="datetime-local"
+                  value={assignmentWindow.expires_at}
+                  onChange={(e) =>
+                    setAssignmentWindow({ ...assignmentWindow, expires_at: e.target.value })
+                  }
+                />
+              </div>
+            </div>
+          )}
 
           {/* Afficher les permissions du rôle sélectionné */}
           {dialogMode === 'assign' && selectedRole && (
@@ -574,27 +940,24 @@ export function UsersDataTable({ users, roles, pagination }: UsersDataTableProps
 
           <DialogFooter>
             <Button variant="outline" onClick={() => setDialogOpen(false)}>
-              Annuler
-            </Button>
-            <Button
-              onClick={dialogMode === 'assign' ? handleAssignRole : handleRemoveRole}
-              disabled={!selectedRole || isPending}
-              variant={dialogMode === 'remove' ? 'destructive' : 'default'}
-            >
-              {isPending
-                ? 'Traitement...'
-                : dialogMode === 'assign'
-                  ? 'Assigner le rôle'
-                  : 'Retirer le rôle'}
+              {dialogMode === 'permissions' ? 'Fermer' : 'Annuler'}
             </Button>
+            {dialogMode !== 'permissions' && (
+              <Button
+                onClick={dialogMode === 'assign' ? handleAssignRole : handleRemoveRole}
+                disabled={!selectedRole || isPending}
+                variant={dialogMode === 'remove' ? 'destructive' : 'default'}
+              >
+                {isPending
+                  ? 'Traitement...'
+                  : dialogMode === 'assign'
+                    ? 'Assigner le rôle'
+                    : 'Retirer le rôle'}
+              </Button>
+            )}
           </DialogFooter>
         </DialogContent>
       </Dialog>
     </>
   );
 }
-
-function useRouter() {
-  const router = require('next/navigation');
-  return router.useRouter();
-}
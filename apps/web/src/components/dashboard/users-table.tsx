@@ -53,10 +53,10 @@ import {
   ChevronRightIcon,
 } from 'lucide-react';
 import { assignRoleAction, removeRoleAction } from '@/lib/api/admin';
-import type { User, Role, Permission } from '@rbac/types';
+import type { UserWithRoles, Role, Permission } from '@rbac/types';
 
 interface UsersTableProps {
-  users: (User & { roles: Role[] })[];
+  users: UserWithRoles[];
   roles: (Role & { permissions: Permission[] })[];
   pagination: {
     currentPage: number;
@@ -81,7 +81,7 @@ const getRoleColor = (slug: string) => {
 export function UsersTable({ users, roles, pagination }: UsersTableProps) {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
-  const [selectedUser, setSelectedUser] = useState<(User & { roles: Role[] }) | null>(null);
+  const [selectedUser, setSelectedUser] = useState<UserWithRoles | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [dialogMode, setDialogMode] = useState<'assign' | 'remove'>('assign');
   const [selectedRole, setSelectedRole] = useState<string>('');
@@ -96,7 +96,7 @@ export function UsersTable({ users, roles, pagination }: UsersTableProps) {
       .slice(0, 2);
   };
 
-  const openAssignDialog = (user: User & { roles: Role[] }) => {
+  const openAssignDialog = (user: UserWithRoles) => {
     setSelectedUser(user);
     setDialogMode('assign');
     setSelectedRole('');
@@ -104,7 +104,7 @@ export function UsersTable({ users, roles, pagination }: UsersTableProps) {
     setDialogOpen(true);
   };
 
-  const openRemoveDialog = (user: User & { roles: Role[] }) => {
+  const openRemoveDialog = (user: UserWithRoles) => {
     setSelectedUser(user);
     setDialogMode('remove');
     setSelectedRole('');
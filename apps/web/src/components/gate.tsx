@@ -0,0 +1,30 @@
+"use client";
+
+import type { AccessRequirement } from "@rbac/types";
+import { usePermission } from "@/hooks/use-permission";
+import { useAuthStore } from "@/stores/auth-store";
+
+interface GateProps extends AccessRequirement {
+  children: React.ReactNode;
+  /** Rendered when the requirement is not met */
+  fallback?: React.ReactNode;
+  /** Rendered until the auth store is hydrated */
+  loading?: React.ReactNode;
+}
+
+/**
+ * Renders its children when the current user has the required roles and
+ * permissions
+ *
+ * @example <Gate role={["admin", "moderator"]} mode="any" fallback={<AccessDenied />}>...</Gate>
+ */
+export function Gate({ children, fallback = null, loading = null, role, permission, mode }: GateProps) {
+  const isHydrated = useAuthStore((s) => s.isHydrated);
+  const allowed = usePermission({ role, permission, mode });
+
+  if (!isHydrated) {
+    return <>{loading}</>;
+  }
+
+  return <>{allowed ? children : fallback}</>;
+}
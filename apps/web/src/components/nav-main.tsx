@@ -9,6 +9,7 @@ import {
   SidebarGroup,
   SidebarGroupContent,
   SidebarMenu,
+  SidebarMenuBadge,
   SidebarMenuButton,
   SidebarMenuItem,
   SidebarMenuSub,
@@ -21,9 +22,12 @@ type NavItem = {
   title: string
   url: string
   icon?: LucideIcon
+  // Compteur affiché à droite (masqué quand il vaut 0)
+  badge?: number
   items?: {
     title: string
     url: string
+    badge?: number
   }[]
 }
 
@@ -79,12 +83,20 @@ export function NavMain({
                   >
                     {item.icon && <item.icon />}
                     <span>{item.title}</span>
-                    <ChevronRightIcon
-                      className={cn(
-                        "ml-auto size-4 transition-transform",
-                        openMenus[item.title] && "rotate-90"
+                    <span className="ml-auto flex items-center gap-2">
+                      {/* Menu fermé : total des compteurs des sous-items */}
+                      {!!item.badge && !openMenus[item.title] && (
+                        <span className="rounded-full bg-primary px-1.5 text-xs text-primary-foreground tabular-nums">
+                          {item.badge}
+                        </span>
                       )}
-                    />
+                      <ChevronRightIcon
+                        className={cn(
+                          "size-4 transition-transform",
+                          openMenus[item.title] && "rotate-90"
+                        )}
+                      />
+                    </span>
                   </SidebarMenuButton>
                   {openMenus[item.title] && (
                     <SidebarMenuSub>
@@ -93,6 +105,9 @@ export function NavMain({
                           <SidebarMenuSubButton asChild>
                             <Link href={subItem.url as any}>
                               <span>{subItem.title}</span>
+                              {!!subItem.badge && (
+                                <span className="ml-auto text-xs tabular-nums">{subItem.badge}</span>
+                              )}
                             </Link>
                           </SidebarMenuSubButton>
                         </SidebarMenuSubItem>
@@ -109,6 +124,9 @@ export function NavMain({
                   </Link>
                 </SidebarMenuButton>
               )}
+              {!item.items?.length && !!item.badge && (
+                <SidebarMenuBadge>{item.badge}</SidebarMenuBadge>
+              )}
             </SidebarMenuItem>
           ))}
         </SidebarMenu>
@@ -2,12 +2,14 @@
 
 import { useEffect } from "react";
 import { useRouter } from "next/navigation";
+import type { PermissionSlug, RoleSlug } from "@rbac/types";
+import { usePermission } from "@/hooks/use-permission";
 import { useAuthStore } from "@/stores/auth-store";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requiredRole?: string;
-  requiredPermission?: { resource: string; action: string };
+  requiredRole?: RoleSlug;
+  requiredPermission?: PermissionSlug;
   fallback?: React.ReactNode;
 }
 
@@ -18,8 +20,10 @@ export function ProtectedRoute({
   fallback,
 }: ProtectedRouteProps) {
   const router = useRouter();
-  const { user, isHydrated, hasRole, hasPermission } = useAuthStore();
+  const { user, isHydrated } = useAuthStore();
   const isAuthenticated = !!user;
+  const hasRequiredRole = usePermission({ role: requiredRole });
+  const hasRequiredPermission = usePermission({ permission: requiredPermission });
 
   useEffect(() => {
     if (isHydrated && !isAuthenticated) {
@@ -42,7 +46,7 @@ export function ProtectedRoute({
   }
 
   // Check role requirement
-  if (requiredRole && !hasRole(requiredRole as any)) {
+  if (!hasRequiredRole) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
@@ -56,16 +60,13 @@ export function ProtectedRoute({
   }
 
   // Check permission requirement
-  if (
-    requiredPermission &&
-    !hasPermission(requiredPermission.resource, requiredPermission.action as any)
-  ) {
+  if (!hasRequiredPermission) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
           <h1 className="text-2xl font-bold text-red-600">Access Denied</h1>
           <p className="mt-2 text-gray-600">
-            You need the "{requiredPermission.resource}.{requiredPermission.action}" permission.
+            You need the "{requiredPermission}" permission.
           </p>
         </div>
       </div>
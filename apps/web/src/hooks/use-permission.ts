@@ -0,0 +1,26 @@
+"use client"
+
+import type { AccessRequirement, PermissionSlug, User } from "@rbac/types"
+import { checkAccess } from "@rbac/types"
+import { useAuthStore } from "@/stores/auth-store"
+
+/**
+ * Checks a permission slug or an access requirement for the current user
+ *
+ * Before hydration of the store, `initialUser` (fetched during SSR) is
+ * used so that the first render matches the server render.
+ *
+ * @example usePermission("users.update")
+ * @example usePermission({ role: ["admin", "moderator"], mode: "any" })
+ */
+export function usePermission(
+  requirement: PermissionSlug | AccessRequirement,
+  initialUser?: User | null
+): boolean {
+  const user = useAuthStore((s) => (s.isHydrated ? s.user : initialUser))
+
+  return checkAccess(
+    user,
+    typeof requirement === "string" ? { permission: requirement } : requirement
+  )
+}
@@ -0,0 +1,13 @@
+/**
+ * Server startup hook (Next.js instrumentation)
+ */
+
+export async function register() {
+  // The check signs requests (Node crypto). The positive guard lets Next drop
+  // the import from the edge bundle; an early return would not.
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Not awaited: Laravel being down must not delay or fail the startup
+    const { checkRouteRegistry } = await import('@/lib/route-check');
+    void checkRouteRegistry();
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Server Actions for just-in-time elevation
+ *
+ * Any user can request a role for a few hours; another admin approves or
+ * denies the request. An approved role expires on its own (role_user.expires_at).
+ */
+
+'use server';
+
+import {
+  AccessRequestSchema,
+  apiResponseSchema,
+  RoleSchema,
+  type AccessRequest,
+  type AccessRequestInput,
+  type AccessRequestStatus,
+  type Role,
+} from '@rbac/types';
+import { z } from 'zod';
+import { bffClient } from './client';
+
+const ReviewResponseSchema = z.object({ message: z.string(), data: AccessRequestSchema });
+
+/**
+ * Requests of the current user (latest first)
+ */
+export async function getMyAccessRequestsAction(): Promise<AccessRequest[]> {
+  const response = await bffClient.get<{ data: AccessRequest[] }>('/api/v1/access-requests', {
+    schema: apiResponseSchema(z.array(AccessRequestSchema)),
+  });
+  return response.data;
+}
+
+/**
+ * Roles the current user can request (the ones they do not already have)
+ */
+export async function getRequestableRolesAction(): Promise<Role[]> {
+  const response = await bffClient.get<{ data: Role[] }>('/api/v1/access-requests/roles', {
+    schema: apiResponseSchema(z.array(RoleSchema)),
+  });
+  return response.data;
+}
+
+/**
+ * Request a role for `hours` hours (409 REQUEST_PENDING when one is already pending)
+ */
+export async function requestAccessAction(data: AccessRequestInput): Promise<AccessRequest> {
+  const response = await bffClient.post<{ data: AccessRequest }>('/api/v1/access-requests', data, {
+    schema: apiResponseSchema(AccessRequestSchema),
+  });
+  return response.data;
+}
+
+/**
+ * Requests to review (admin), oldest first
+ */
+export async function getAccessRequestsAction(
+  status: AccessRequestStatus = 'pending'
+): Promise<AccessRequest[]> {
+  const response = await bffClient.get<{ data: AccessRequest[] }>(
+    '/api/v1/admin/access-requests',
+    { query: { status }, schema: apiResponseSchema(z.array(AccessRequestSchema)) }
+  );
+  return response.data;
+}
+
+/**
+ * Grant the requested role until now + hours (403 SELF_REVIEW on one's own request)
+ */
+export async function approveAccessRequestAction(
+  id: number,
+  note?: string
+): Promise<AccessRequest> {
+  const response = await bffClient.post<{ message: string; data: AccessRequest }>(
+    `/api/v1/admin/access-requests/${id}/approve`,
+    { note },
+    { schema: ReviewResponseSchema }
+  );
+  return response.data;
+}
+
+export async function denyAccessRequestAction(id: number, note?: string): Promise<AccessRequest> {
+  const response = await bffClient.post<{ message: string; data: AccessRequest }>(
+    `/api/v1/admin/access-requests/${id}/deny`,
+    { note },
+    { schema: ReviewResponseSchema }
+  );
+  return response.data;
+}
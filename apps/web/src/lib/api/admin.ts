@@ -7,79 +7,51 @@
 
 'use server';
 
-import { cookies } from 'next/headers';
-import type { User, Role, Permission } from '@rbac/types';
-
-/**
- * Base URL of Next.js BFF
- */
-const BFF_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
-
-/**
- * Types for paginated responses
- */
-interface PaginatedResponse<T> {
-  data: T[];
-  current_page: number;
-  last_page: number;
-  per_page: number;
-  total: number;
-}
-
-/**
- * Makes a request to the BFF
- *
- * Note: credentials: 'include' does NOT work for server-to-server requests.
- * Must pass cookie manually in headers.
- *
- * @returns JSON response directly (T)
- */
-async function bffRequest<T>(
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<T> {
-  const url = `${BFF_URL}${endpoint}`;
-
-  // Get cookie for authenticated requests
-  const cookieStore = await cookies();
-  const authToken = cookieStore.get('auth_token');
-
-  const headers: HeadersInit = {
-    'Content-Type': 'application/json',
-    Accept: 'application/json',
-    ...options.headers,
-  };
-
-  // For server-to-server requests, pass cookie manually
-  if (authToken?.value) {
-    (headers as Record<string, string>)['Cookie'] = `auth_token=${authToken.value}`;
-  }
-
-  const response = await fetch(url, {
-    ...options,
-    headers,
-  });
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ message: 'Request failed' }));
-    throw new Error(error.message || `HTTP error ${response.status}`);
-  }
-
-  return response.json();
-}
+import {
+  apiResponseSchema,
+  AuditLogSchema,
+  can,
+  paginatedResponseSchema,
+  PermissionSchema,
+  RoleSchema,
+  RoleWithPermissionsSchema,
+  UserPermissionOverrideSchema,
+  UserWithRolesSchema,
+  subject,
+  type AuditLog,
+  type AuditLogQuery,
+  type PaginatedResponse,
+  type Permission,
+  type PermissionAction,
+  type PermissionInput,
+  type PermissionOverrideType,
+  type Role,
+  type RoleAssignment,
+  type RoleInput,
+  type RoleWithPermissions,
+  type UserListQuery,
+  type UserPermissionOverride,
+  type UserWithRoles,
+} from '@rbac/types';
+import { z } from 'zod';
+import { ApiClientError } from '@rbac/api-client';
+import { getCurrentUserAction } from './auth';
+import { bffClient } from './client';
 
 // =========================================================================
 // Users Management
 // =========================================================================
 
 /**
- * Get list of users
+ * Get a page of users (search, role filter and sorting done by Laravel)
  */
-export async function getUsersAction(): Promise<(User & { roles: Role[] })[]> {
-  const response = await bffRequest<{ data: (User & { roles: Role[] })[] }>(
-    '/api/v1/users'
-  );
-  return response.data;
+export async function getUsersAction(
+  query: Partial<UserListQuery> = {}
+): Promise<PaginatedResponse<UserWithRoles>> {
+  return bffClient.get<PaginatedResponse<UserWithRoles>>('/api/v1/admin/users', {
+    query,
+    schema: paginatedResponseSchema(UserWithRolesSchema),
+  });
 }
 
 /**
@@ -87,27 +59,27 @@ export async function getUsersAction(): Promise<(User & { roles: Role[] })[]> {
  */
 export async function getUserAction(
   userId: number
-): Promise<User & { roles: Role[]; permissions: Permission[] }> {
-  const response = await bffRequest<{ data: User & { roles: Role[]; permissions: Permission[] } }>(
-    `/api/v1/admin/users/${userId}`
-  );
+): Promise<UserWithRoles> {
+  const response = await bffClient.get<{ data: UserWithRoles }>(`/api/v1/admin/users/${userId}`, {
+    schema: apiResponseSchema(UserWithRolesSchema),
+  });
   return response.data;
 }
 
 /**
- * Assign a role to a user
+ * Assign a role to a user, optionally for a time window only
+ * (assigning a role the user already has replaces its window)
  */
 export async function assignRoleAction(
   userId: number,
-  roleSlug: string
-): Promise<{ message: string; data: User & { roles: Role[] } }> {
-  const response = await bffRequest<{
-    message: string;
-    data: User & { roles: Role[] };
-  }>(`/api/v1/admin/users/${userId}/roles`, {
-    method: 'POST',
-    body: JSON.stringify({ role: roleSlug }),
-  });
+  roleSlug: string,
+  window: RoleAssignment = {}
+): Promise<{ message: string; data: UserWithRoles }> {
+  const response = await bffClient.post<{ message: string; data: UserWithRoles }>(
+    `/api/v1/admin/users/${userId}/roles`,
+    { role: roleSlug, ...window },
+    { schema: z.object({ message: z.string(), data: UserWithRolesSchema }) }
+  );
   return response;
 }
 
@@ -118,13 +90,59 @@ export async function removeRoleAction(
   userId: number,
   roleId: number
 ): Promise<{ message: string }> {
-  const response = await bffRequest<{ message: string }>(
-    `/api/v1/admin/users/${userId}/roles/${roleId}`,
-    { method: 'DELETE' }
+  const response = await bffClient.delete<{ message: string }>(
+    `/api/v1/admin/users/${userId}/roles/${roleId}`
   );
   return response;
 }
 
+/**
+ * Get the permissions granted or denied directly to a user
+ */
+export async function getUserPermissionOverridesAction(
+  userId: number
+): Promise<UserPermissionOverride[]> {
+  const response = await bffClient.get<{ data: UserPermissionOverride[] }>(
+    `/api/v1/admin/users/${userId}/permissions`,
+    { schema: apiResponseSchema(z.array(UserPermissionOverrideSchema)) }
+  );
+  return response.data;
+}
+
+/**
+ * Grant or deny one permission to a user (a deny wins over their roles)
+ */
+export async function setUserPermissionOverrideAction(
+  userId: number,
+  permissionId: number,
+  type: PermissionOverrideType
+): Promise<UserPermissionOverride[]> {
+  const response = await bffClient.put<{ message: string; data: UserPermissionOverride[] }>(
+    `/api/v1/admin/users/${userId}/permissions/${permissionId}`,
+    { type },
+    {
+      schema: z.object({ message: z.string(), data: z.array(UserPermissionOverrideSchema) }),
+    }
+  );
+  return response.data;
+}
+
+/**
+ * Remove a direct grant or deny: only the user's roles apply again
+ */
+export async function removeUserPermissionOverrideAction(
+  userId: number,
+  permissionId: number
+): Promise<UserPermissionOverride[]> {
+  const response = await bffClient.delete<{ message: string; data: UserPermissionOverride[] }>(
+    `/api/v1/admin/users/${userId}/permissions/${permissionId}`,
+    {
+      schema: z.object({ message: z.string(), data: z.array(UserPermissionOverrideSchema) }),
+    }
+  );
+  return response.data;
+}
+
 // =========================================================================
 // Roles Management
 // =========================================================================
@@ -132,42 +150,111 @@ export async function removeRoleAction(
 /**
  * Get list of roles
  */
-export async function getRolesAction(): Promise<(Role & { permissions: Permission[] })[]> {
-  const response = await bffRequest<{ data: (Role & { permissions: Permission[] })[] }>(
-    '/api/v1/admin/roles'
-  );
+export async function getRolesAction(): Promise<RoleWithPermissions[]> {
+  const response = await bffClient.get<{ data: RoleWithPermissions[] }>('/api/v1/admin/roles', {
+    schema: apiResponseSchema(z.array(RoleWithPermissionsSchema)),
+  });
   return response.data;
 }
 
 /**
  * Create a new role
  */
-export async function createRoleAction(data: {
-  name: string;
-  slug: string;
-  description?: string;
-}): Promise<Role> {
-  const response = await bffRequest<{ data: Role }>('/api/v1/admin/roles', {
-    method: 'POST',
-    body: JSON.stringify(data),
+export async function createRoleAction(data: RoleInput): Promise<Role> {
+  const response = await bffClient.post<{ data: Role }>('/api/v1/admin/roles', data, {
+    schema: apiResponseSchema(RoleSchema),
   });
   return response.data;
 }
 
+/**
+ * Rename or describe a role (the slug of a system role cannot change)
+ */
+export async function updateRoleAction(
+  roleId: number,
+  data: Partial<RoleInput>
+): Promise<RoleWithPermissions> {
+  const response = await bffClient.put<{ data: RoleWithPermissions }>(
+    `/api/v1/admin/roles/${roleId}`,
+    data,
+    { schema: apiResponseSchema(RoleWithPermissionsSchema) }
+  );
+  return response.data;
+}
+
+/**
+ * Copy a role and its permissions into a new role
+ */
+export async function cloneRoleAction(
+  roleId: number,
+  data: RoleInput
+): Promise<RoleWithPermissions> {
+  const response = await bffClient.post<{ data: RoleWithPermissions }>(
+    `/api/v1/admin/roles/${roleId}/clone`,
+    data,
+    { schema: apiResponseSchema(RoleWithPermissionsSchema) }
+  );
+  return response.data;
+}
+
+/**
+ * Delete a role
+ *
+ * Fails with 409 (code ROLE_IN_USE) while the role is assigned, unless
+ * `reassignTo` gives the slug of the role its users move to.
+ */
+export async function deleteRoleAction(
+  roleId: number,
+  reassignTo?: string
+): Promise<{ message: string; reassigned: number }> {
+  return bffClient.delete<{ message: string; reassigned: number }>(
+    `/api/v1/admin/roles/${roleId}`,
+    {
+      query: { reassign_to: reassignTo },
+      schema: z.object({ message: z.string(), reassigned: z.number() }),
+    }
+  );
+}
+
+/**
+ * Save the display order of the roles
+ */
+export async function reorderRolesAction(roleIds: number[]): Promise<RoleWithPermissions[]> {
+  const response = await bffClient.put<{ data: RoleWithPermissions[] }>(
+    '/api/v1/admin/roles/order',
+    { roles: roleIds },
+    { schema: apiResponseSchema(z.array(RoleWithPermissionsSchema)) }
+  );
+  return response.data;
+}
+
 /**
  * Update role permissions
  */
 export async function updateRolePermissionsAction(
   roleId: number,
   permissionIds: number[]
-): Promise<{ message: string; data: Role & { permissions: Permission[] } }> {
-  const response = await bffRequest<{
-    message: string;
-    data: Role & { permissions: Permission[] };
-  }>(`/api/v1/admin/roles/${roleId}/permissions`, {
-    method: 'POST',
-    body: JSON.stringify({ permissions: permissionIds }),
-  });
+): Promise<{ message: string; data: RoleWithPermissions }> {
+  const response = await bffClient.post<{ message: string; data: RoleWithPermissions }>(
+    `/api/v1/admin/roles/${roleId}/permissions`,
+    { permissions: permissionIds },
+    { schema: z.object({ message: z.string(), data: RoleWithPermissionsSchema }) }
+  );
+  return response;
+}
+
+/**
+ * Replace the parent roles a role inherits from (422 on cycles)
+ */
+export async function updateRoleParentsAction(
+  roleId: number,
+  parentIds: number[]
+): Promise<{ message: string; data: RoleWithPermissions }> {
+  const response = await bffClient.put<{ message: string; data: RoleWithPermissions }>(
+    `/api/v1/admin/roles/${roleId}/parents`,
+    { parents: parentIds },
+    { schema: z.object({ message: z.string(), data: RoleWithPermissionsSchema }) }
+  );
   return response;
 }
 
@@ -179,10 +266,82 @@ export async function updateRolePermissionsAction(
  * Get list of permissions
  */
 export async function getPermissionsAction(): Promise<Permission[]> {
-  const response = await bffRequest<{ data: Permission[] }>('/api/v1/admin/permissions');
+  const response = await bffClient.get<{ data: Permission[] }>('/api/v1/admin/permissions', {
+    schema: apiResponseSchema(z.array(PermissionSchema)),
+  });
+  return response.data;
+}
+
+/**
+ * Create a RESOURCE.ACTION permission
+ */
+export async function createPermissionAction(data: PermissionInput): Promise<Permission> {
+  const response = await bffClient.post<{ data: Permission }>('/api/v1/admin/permissions', data, {
+    schema: apiResponseSchema(PermissionSchema),
+  });
   return response.data;
 }
 
+/**
+ * Create the CRUD permissions (or the given actions) of a resource
+ *
+ * Existing permissions are kept and returned as well.
+ */
+export async function generatePermissionsAction(
+  resource: string,
+  actions?: PermissionAction[]
+): Promise<Permission[]> {
+  const response = await bffClient.post<{ data: Permission[] }>(
+    '/api/v1/admin/permissions/generate',
+    { resource, actions },
+    { schema: apiResponseSchema(z.array(PermissionSchema)) }
+  );
+  return response.data;
+}
+
+/**
+ * Rename or describe a permission (its slug cannot change)
+ */
+export async function updatePermissionAction(
+  permissionId: number,
+  data: Pick<PermissionInput, 'name' | 'description'>
+): Promise<Permission> {
+  const response = await bffClient.put<{ data: Permission }>(
+    `/api/v1/admin/permissions/${permissionId}`,
+    data,
+    { schema: apiResponseSchema(PermissionSchema) }
+  );
+  return response.data;
+}
+
+/**
+ * Delete a permission (revoked from every role granting it)
+ */
+export async function deletePermissionAction(
+  permissionId: number
+): Promise<{ message: string; revoked_from_roles: number }> {
+  return bffClient.delete<{ message: string; revoked_from_roles: number }>(
+    `/api/v1/admin/permissions/${permissionId}`,
+    { schema: z.object({ message: z.string(), revoked_from_roles: z.number() }) }
+  );
+}
+
+// =========================================================================
+// Audit Log
+// =========================================================================
+
+/**
+ * Get a page of the audit log, latest first (filters applied by Laravel)
+ */
+export async function getAuditLogsAction(
+  query: Partial<AuditLogQuery> = {}
+): Promise<PaginatedResponse<AuditLog>> {
+  return bffClient.get<PaginatedResponse<AuditLog>>('/api/v1/admin/audit-logs', {
+    query,
+    schema: paginatedResponseSchema(AuditLogSchema),
+  });
+}
+
 // =========================================================================
 // JSONPlaceholder - Fake Data for RBAC business logic tests
 // =========================================================================
@@ -263,10 +422,22 @@ export async function createPostAction(data: Omit<Post, 'id'>): Promise<Post> {
   return response.json();
 }
 
+/**
+ * Checks a post policy for the current user (same rules as <Can>)
+ */
+async function authorizePost(action: 'update' | 'delete', id: number): Promise<void> {
+  const [user, post] = await Promise.all([getCurrentUserAction(), getPostAction(id)]);
+
+  if (!can(user, action, subject('posts', { user_id: post.userId }))) {
+    throw new ApiClientError(`You are not allowed to ${action} this post`, 403, 'FORBIDDEN');
+  }
+}
+
 /**
  * Update a post (simulation)
  */
 export async function updatePostAction(id: number, data: Partial<Post>): Promise<Post> {
+  await authorizePost('update', id);
   const response = await fetch(`https://jsonplaceholder.typicode.com/posts/${id}`, {
     method: 'PATCH',
     body: JSON.stringify(data),
@@ -279,6 +450,7 @@ export async function updatePostAction(id: number, data: Partial<Post>): Promise
  * Delete a post (simulation)
  */
 export async function deletePostAction(id: number): Promise<void> {
+  await authorizePost('delete', id);
   await fetch(`https://jsonplaceholder.typicode.com/posts/${id}`, {
     method: 'DELETE',
   });
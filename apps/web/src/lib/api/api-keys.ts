@@ -0,0 +1,51 @@
+/**
+ * Server Actions for personal API keys
+ *
+ * Keys are generated and stored (hashed) by Laravel: the plain key is only
+ * returned by createApiKeyAction, once. A key authenticates as its owner,
+ * limited to its scopes (Authorization: ApiKey <key>).
+ */
+
+'use server';
+
+import {
+  ApiKeySchema,
+  apiResponseSchema,
+  CreatedApiKeySchema,
+  type ApiKey,
+  type ApiKeyInput,
+  type CreatedApiKey,
+} from '@rbac/types';
+import { z } from 'zod';
+import { bffClient } from './client';
+
+const CreatedResponseSchema = z.object({ message: z.string(), data: CreatedApiKeySchema });
+
+/**
+ * Keys of the current user (latest first)
+ */
+export async function getApiKeysAction(): Promise<ApiKey[]> {
+  const response = await bffClient.get<{ data: ApiKey[] }>('/api/v1/api-keys', {
+    schema: apiResponseSchema(z.array(ApiKeySchema)),
+  });
+  return response.data;
+}
+
+/**
+ * Create a key (scopes: permissions of the current user only)
+ */
+export async function createApiKeyAction(data: ApiKeyInput): Promise<CreatedApiKey> {
+  const response = await bffClient.post<{ message: string; data: CreatedApiKey }>(
+    '/api/v1/api-keys',
+    data,
+    { schema: CreatedResponseSchema }
+  );
+  return response.data;
+}
+
+/**
+ * Revoke a key of the current user (effective immediately)
+ */
+export async function revokeApiKeyAction(id: number): Promise<{ message: string }> {
+  return bffClient.delete<{ message: string }>(`/api/v1/api-keys/${id}`);
+}
@@ -8,105 +8,44 @@
 'use server';
 
 import { cookies } from 'next/headers';
-import type { User, LoginCredentials, RegisterData, AuthTokens, ApiResponse } from '@rbac/types';
+import {
+  apiResponseSchema,
+  AuthSessionSchema,
+  OAuthProviderSchema,
+  UserSchema,
+  type ApiResponse,
+  type AuthSession,
+  type AuthTokens,
+  type LoginCredentials,
+  type RegisterData,
+  type User,
+} from '@rbac/types';
+import { z } from 'zod';
+import { ApiClientError } from '@rbac/api-client';
+import { bffClient } from './client';
 
 /**
- * Base URL of Next.js BFF
- */
-const BFF_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
-
-/**
- * Custom BFF error
- */
-class BffRequestError extends Error {
-  constructor(
-    message: string,
-    public statusCode: number,
-    public details?: unknown
-  ) {
-    super(message);
-    this.name = 'BffRequestError';
-  }
-}
-
-/**
- * Makes a request to the BFF
+ * Register a new user
  */
-async function bffRequest<T>(
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<ApiResponse<T>> {
-  const url = `${BFF_URL}${endpoint}`;
-
-  // Get cookie for authenticated requests
-  const cookieStore = await cookies();
-  const authToken = cookieStore.get('auth_token');
-
-  const headers: HeadersInit = {
-    'Content-Type': 'application/json',
-    Accept: 'application/json',
-    ...options.headers,
-  };
-
-  // For server-to-server requests, must pass cookie manually
-  // because credentials: 'include' only works on browser side
-  if (authToken?.value) {
-    (headers as Record<string, string>)['Cookie'] = `auth_token=${authToken.value}`;
-  }
-
-  const response = await fetch(url, {
-    ...options,
-    headers,
-  });
-
-  if (!response.ok) {
-    let errorMessage = 'Request failed';
-    let errorDetails: unknown = undefined;
-
-    try {
-      const errorData = await response.json();
-      errorMessage = errorData.message || errorData.error || errorMessage;
-      errorDetails = errorData;
-    } catch {
-      errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-    }
-
-    throw new BffRequestError(errorMessage, response.status, errorDetails);
-  }
-
-  const data = await response.json();
-
-  // Handle return cookies (new token, etc.)
-  const setCookieHeaders = response.headers.getSetCookie();
-  setCookieHeaders.forEach((cookieHeader) => {
-    const [cookiePart] = cookieHeader.split(';');
-    const [name, value] = cookiePart.split('=');
-    if (name && value) {
-      cookieStore.set({
-        name,
-        value,
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        path: '/',
-        maxAge: 60 * 60 * 24 * 15, // 15 days
-      });
-    }
+export async function registerAction(
+  data: RegisterData
+): Promise<ApiResponse<AuthSession>> {
+  return bffClient.post<ApiResponse<AuthSession>>('/api/v1/auth/register', data, {
+    schema: apiResponseSchema(AuthSessionSchema),
   });
-
-  return data;
 }
 
 /**
- * Register a new user
+ * Sign-in refused by the BFF rate limiter or account lockout
+ *
+ * Returned rather than thrown: Next.js only passes the message of errors
+ * thrown by server actions, and the login page needs the delay.
  */
-export async function registerAction(
-  data: RegisterData
-): Promise<ApiResponse<{ user: User; access_token: string }>> {
-  return bffRequest<{ user: User; access_token: string }>('/api/v1/auth/register', {
-    method: 'POST',
-    body: JSON.stringify(data),
-  });
+export interface LoginThrottled {
+  throttled: true;
+  message: string;
+  /** Seconds before the next attempt */
+  retryAfter: number;
 }
 
 /**
@@ -114,11 +53,17 @@ export async function registerAction(
  */
 export async function loginAction(
   credentials: LoginCredentials
-): Promise<ApiResponse<{ user: User; access_token: string }>> {
-  return bffRequest<{ user: User; access_token: string }>('/api/v1/auth/login', {
-    method: 'POST',
-    body: JSON.stringify(credentials),
-  });
+): Promise<ApiResponse<AuthSession> | LoginThrottled> {
+  try {
+    return await bffClient.post<ApiResponse<AuthSession>>('/api/v1/auth/login', credentials, {
+      schema: apiResponseSchema(AuthSessionSchema),
+    });
+  } catch (error) {
+    if (error instanceof ApiClientError && error.isRateLimited) {
+      return { throttled: true, message: error.message, retryAfter: error.retryAfter ?? 60 };
+    }
+    throw error;
+  }
 }
 
 /**
@@ -126,9 +71,7 @@ export async function loginAction(
  */
 export async function logoutAction(): Promise<void> {
   try {
-    await bffRequest('/api/v1/auth/logout', {
-      method: 'POST',
-    });
+    await bffClient.post('/api/v1/auth/logout');
   } finally {
     // Delete cookie on client side
     const cookieStore = await cookies();
@@ -140,9 +83,7 @@ export async function logoutAction(): Promise<void> {
  * Refresh token
  */
 export async function refreshTokenAction(): Promise<ApiResponse<AuthTokens>> {
-  return bffRequest<AuthTokens>('/api/v1/auth/refresh', {
-    method: 'POST',
-  });
+  return bffClient.post<ApiResponse<AuthTokens>>('/api/v1/auth/refresh');
 }
 
 /**
@@ -153,15 +94,15 @@ export async function refreshTokenAction(): Promise<ApiResponse<AuthTokens>> {
  */
 export async function getCurrentUserAction(): Promise<User | null> {
   try {
-    const response = await bffRequest<User>('/api/v1/me');
+    const response = await bffClient.get<ApiResponse<User>>('/api/v1/me', {
+      schema: apiResponseSchema(UserSchema),
+    });
     return response.data;
   } catch (error) {
     // If user is not logged in (401) or BFF rejects (403),
     // return null silently
-    if (error instanceof BffRequestError) {
-      if (error.statusCode === 401 || error.statusCode === 403) {
-        return null;
-      }
+    if (error instanceof ApiClientError && error.isUnauthorized) {
+      return null;
     }
     throw error;
   }
@@ -171,14 +112,16 @@ export async function getCurrentUserAction(): Promise<User | null> {
  * Get list of OAuth providers
  */
 export async function getOAuthProvidersAction(): Promise<ApiResponse<string[]>> {
-  return bffRequest<string[]>('/api/v1/auth/providers');
+  return bffClient.get<ApiResponse<string[]>>('/api/v1/auth/providers', {
+    schema: apiResponseSchema(z.array(OAuthProviderSchema)),
+  });
 }
 
 /**
  * Get OAuth redirect URL
  */
 export async function getOAuthUrlAction(provider: string): Promise<{ url: string }> {
-  const response = await bffRequest<{ redirect_url: string }>(
+  const response = await bffClient.get<ApiResponse<{ redirect_url: string }>>(
     `/api/v1/auth/${provider}/redirect`
   );
 
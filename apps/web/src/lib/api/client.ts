@@ -0,0 +1,71 @@
+/**
+ * BFF client shared by server actions
+ *
+ * Server-to-server calls must forward the auth cookie manually
+ * (credentials: 'include' is ignored outside the browser) and store the
+ * token the BFF returns (login or refresh rotation). They also forward the
+ * browser IP and user agent, otherwise the BFF rate limiter and Laravel's
+ * audit log would see the server's.
+ */
+
+import { cookies, headers } from 'next/headers';
+import { createBffClient } from '@rbac/api-client';
+import { clientIp } from '@/lib/security/rate-limit';
+
+/**
+ * Base URL of Next.js BFF
+ */
+const BFF_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+/**
+ * Typed BFF client (errors are thrown as ApiClientError)
+ */
+export const bffClient = createBffClient({
+  baseUrl: BFF_URL,
+
+  async getCookies() {
+    const cookieStore = await cookies();
+    const authToken = cookieStore.get('auth_token')?.value;
+    return authToken ? `auth_token=${authToken}` : undefined;
+  },
+
+  async getHeaders() {
+    const requestHeaders = await headers();
+    const forwarded: Record<string, string> = {};
+
+    const ip = clientIp(requestHeaders);
+    if (ip !== 'unknown') {
+      forwarded['X-Forwarded-For'] = ip;
+    }
+
+    const userAgent = requestHeaders.get('user-agent');
+    if (userAgent) {
+      forwarded['User-Agent'] = userAgent;
+    }
+
+    return forwarded;
+  },
+
+  async onCookies(responseCookies) {
+    const authCookie = responseCookies.find((cookie) => cookie.name === 'auth_token');
+    if (!authCookie) {
+      return;
+    }
+
+    const cookieStore = await cookies();
+    try {
+      cookieStore.set({
+        name: authCookie.name,
+        value: authCookie.value,
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: '/',
+        maxAge: 60 * 60 * 24 * 15, // 15 days
+      });
+    } catch {
+      // Server Component render: cookies are read-only, the BFF keeps
+      // serving the rotated token for the old one during a grace period
+    }
+  },
+});
@@ -0,0 +1,36 @@
+/**
+ * Page-level access checks for server components
+ *
+ * The middleware enforces the route manifest before a page renders; pages
+ * check the same manifest entry again so they stay protected when the
+ * middleware is skipped (matcher change, prefetch, rewrite...).
+ */
+
+import { redirect } from 'next/navigation';
+import type { User } from '@rbac/types';
+import { getCurrentUserAction } from './api/auth';
+import { canAccessRoute, FORBIDDEN_PATH } from './routes';
+
+/**
+ * Returns the current user, or redirects when they may not open the page
+ *
+ * The requirement is the one of the page's ROUTE_MANIFEST entry (see
+ * findRoute), pages never repeat it:
+ * - no session: to the login page
+ * - requirement not met: to the 403 page
+ *
+ * @param pathname - Path of the calling page (ex: /dashboard/audit)
+ */
+export async function requireAccess(pathname: string): Promise<User> {
+  const user = await getCurrentUserAction();
+
+  if (!user) {
+    redirect('/auth/login');
+  }
+
+  if (!canAccessRoute(user, pathname)) {
+    redirect(FORBIDDEN_PATH);
+  }
+
+  return user;
+}
@@ -0,0 +1,141 @@
+/**
+ * Startup check of the route registry against Laravel
+ *
+ * Fetches Laravel's signed routes (GET /api/v1/bff/routes) and warns about
+ * every difference with API_ROUTES: routes missing on either side, and
+ * auth, role or permission mismatches. Nothing is enforced: a divergence
+ * means one side was changed without the other.
+ *
+ * Never throws. When Laravel is not reachable yet (started after the BFF),
+ * the check is skipped with a warning.
+ */
+
+import { z } from 'zod';
+import { apiResponseSchema, LaravelRouteSchema, type LaravelRoute } from '@rbac/types';
+import { generateSignature } from './security/hmac';
+import { API_ROUTES, type ApiRouteDefinition } from './routes';
+
+const LARAVEL_API_URL = process.env.LARAVEL_API_URL || 'http://localhost:8000';
+
+/**
+ * Laravel route list (internal, refused by the proxy)
+ */
+const ROUTES_PATH = 'api/v1/bff/routes';
+
+const CHECK_TIMEOUT = 10_000;
+
+/**
+ * Identifies a route regardless of its parameter names (`{user}` = `{id}`)
+ */
+function routeKey(method: string, path: string): string {
+  return `${method} ${path.replace(/\{[^}]+\}/g, '{}')}`;
+}
+
+function describe(values: string[]): string {
+  return values.length > 0 ? values.join(', ') : 'none';
+}
+
+/**
+ * Lists the differences between the registry and Laravel's routes
+ *
+ * @returns One message per difference (empty when both sides agree)
+ */
+export function diffRoutes(registry: ApiRouteDefinition[], laravel: LaravelRoute[]): string[] {
+  const expected = new Map(registry.map((route) => [routeKey(route.method, route.path), route]));
+  const actual = new Map(laravel.map((route) => [routeKey(route.method, route.path), route]));
+  const issues: string[] = [];
+
+  for (const [key, route] of actual) {
+    const entry = expected.get(key);
+    if (!entry) {
+      issues.push(`${key}: missing from API_ROUTES`);
+      continue;
+    }
+
+    // Internal routes are public for Laravel: the proxy is what refuses them
+    const auth = entry.auth === 'internal' ? 'public' : entry.auth;
+    if (auth !== route.auth) {
+      issues.push(`${key}: auth is ${route.auth} in Laravel, ${entry.auth} in API_ROUTES`);
+    }
+
+    const roles = entry.role ? [entry.role] : [];
+    if (describe(roles) !== describe(route.roles)) {
+      issues.push(`${key}: role is ${describe(route.roles)} in Laravel, ${describe(roles)} in API_ROUTES`);
+    }
+
+    const permissions = entry.permission ? [entry.permission] : [];
+    if (describe(permissions) !== describe(route.permissions)) {
+      issues.push(
+        `${key}: permission is ${describe(route.permissions)} in Laravel, ${describe(permissions)} in API_ROUTES`
+      );
+    }
+  }
+
+  for (const key of expected.keys()) {
+    if (!actual.has(key)) {
+      issues.push(`${key}: not a Laravel route`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Fetches the signed routes of Laravel
+ */
+async function fetchLaravelRoutes(): Promise<LaravelRoute[]> {
+  const url = new URL(ROUTES_PATH, LARAVEL_API_URL);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'Accept': 'application/json',
+  };
+
+  const signature = generateSignature('GET', ROUTES_PATH, null, {
+    query: url.searchParams,
+    headers: new Headers(headers),
+  });
+  for (const [name, value] of Object.entries(signature)) {
+    if (name.startsWith('X-BFF-') && value) {
+      headers[name] = value;
+    }
+  }
+
+  const response = await fetch(url, {
+    headers,
+    signal: AbortSignal.timeout(CHECK_TIMEOUT),
+    cache: 'no-store',
+  });
+  if (!response.ok) {
+    throw new Error(`Laravel answered ${response.status}`);
+  }
+
+  const payload = apiResponseSchema(z.array(LaravelRouteSchema)).safeParse(
+    await response.json().catch(() => null)
+  );
+  if (!payload.success) {
+    throw new Error('Invalid route list');
+  }
+  return payload.data.data;
+}
+
+/**
+ * Compares API_ROUTES with Laravel and logs the differences
+ */
+export async function checkRouteRegistry(): Promise<void> {
+  let routes: LaravelRoute[];
+  try {
+    routes = await fetchLaravelRoutes();
+  } catch (error) {
+    console.warn(
+      `[routes] Registry check skipped: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return;
+  }
+
+  const issues = diffRoutes(API_ROUTES, routes);
+  if (issues.length > 0) {
+    console.warn(
+      `[routes] API_ROUTES and Laravel diverge:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`
+    );
+  }
+}
@@ -0,0 +1,314 @@
+/**
+ * Route registry
+ *
+ * Single source of truth for who may reach each page and each API route:
+ * - ROUTE_MANIFEST (pages): enforced by the middleware (sign-in redirects,
+ *   403 page) and used by AppSidebar to build the navigation
+ * - API_ROUTES (Laravel routes behind the proxy): used by the proxy for
+ *   public and internal routes, API key scopes, rate limit groups and token
+ *   refresh, and compared with Laravel's route list at startup
+ *   (lib/route-check.ts)
+ *
+ * Kept free of React and Node imports so that it can run in the middleware.
+ */
+
+import {
+  checkAccess,
+  type AccessRequirement,
+  type PermissionSlug,
+  type RoleSlug,
+  type RouteAuth,
+  type User,
+} from '@rbac/types';
+import type { RateLimitGroup } from './security/rate-limit';
+
+// ============================================================================
+// Pages
+// ============================================================================
+
+/**
+ * Sidebar group of a route (routes without a group are not in the sidebar)
+ */
+export type NavGroup = 'users' | 'roles' | 'access-requests' | 'api-keys' | 'audit';
+
+/**
+ * Who may open a page:
+ * - public: anyone
+ * - guest: signed-out users only (signed-in users are sent home)
+ * - authenticated: signed-in users holding `access`
+ */
+export type PageAuth = 'public' | 'guest' | 'authenticated';
+
+export interface RouteDefinition {
+  path: string;
+  title: string;
+  /** Authenticated when omitted */
+  auth?: PageAuth;
+  /** Required roles and permissions (authenticated users only when omitted) */
+  access?: AccessRequirement;
+  nav?: NavGroup;
+}
+
+export const ROUTE_MANIFEST: RouteDefinition[] = [
+  { path: '/auth/login', title: 'Sign in', auth: 'guest' },
+  { path: '/auth/register', title: 'Sign up', auth: 'guest' },
+  { path: '/auth/callback', title: 'Signing in', auth: 'public' },
+  { path: '/dashboard', title: 'Dashboard' },
+  { path: '/dashboard/users', title: 'All Users', access: { role: 'admin' }, nav: 'users' },
+  { path: '/dashboard/permissions', title: 'Permissions', nav: 'users' },
+  { path: '/dashboard/roles', title: 'Manage Roles', access: { role: 'admin' }, nav: 'roles' },
+  {
+    path: '/dashboard/roles/permissions',
+    title: 'Role Permissions',
+    access: { role: 'admin' },
+    nav: 'roles',
+  },
+  { path: '/dashboard/access-requests', title: 'Request Access', nav: 'access-requests' },
+  {
+    path: '/dashboard/access-requests/pending',
+    title: 'Pending Requests',
+    access: { role: 'admin' },
+    nav: 'access-requests',
+  },
+  {
+    path: '/dashboard/api-keys',
+    title: 'API Keys',
+    access: { permission: 'api-keys.read' },
+    nav: 'api-keys',
+  },
+  { path: '/dashboard/audit', title: 'Audit Log', access: { role: 'admin' }, nav: 'audit' },
+  { path: '/dashboard/posts', title: 'Posts', access: { permission: 'posts.read' } },
+  { path: '/dashboard/todos', title: 'Todos', access: { permission: 'todos.read' } },
+  { path: '/dashboard/settings', title: 'Settings' },
+];
+
+/**
+ * Page shown (with status 403) when a route is denied
+ */
+export const FORBIDDEN_PATH = '/dashboard/forbidden';
+
+/**
+ * Finds the most specific route matching a path
+ * (/dashboard/roles/permissions before /dashboard/roles)
+ */
+export function findRoute(pathname: string): RouteDefinition | undefined {
+  return ROUTE_MANIFEST.filter(
+    (route) => pathname === route.path || pathname.startsWith(`${route.path}/`)
+  ).sort((a, b) => b.path.length - a.path.length)[0];
+}
+
+/**
+ * Checks whether a user may open a path (unknown paths only require a user)
+ */
+export function canAccessRoute(user: User | null | undefined, pathname: string): boolean {
+  const access = findRoute(pathname)?.access;
+  return access ? checkAccess(user, access) : !!user;
+}
+
+// ============================================================================
+// API
+// ============================================================================
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * How an API route authenticates (see RouteAuth), or internal: public on
+ * the Laravel side but only called by the BFF itself, never proxied
+ */
+export type ApiRouteAuth = RouteAuth | 'internal';
+
+export interface ApiRouteDefinition {
+  method: HttpMethod;
+  /** Laravel path without leading slash; `{name}` matches one segment */
+  path: string;
+  auth: ApiRouteAuth;
+  /** Role checked by Laravel (`role:` middleware); never open to API keys */
+  role?: RoleSlug;
+  /** Permission checked by Laravel (`permission:`), the scope API keys need */
+  permission?: PermissionSlug;
+  /** Rate limit group (api when omitted) */
+  rateLimit?: RateLimitGroup;
+  /** Never replayed after a token refresh */
+  noRefresh?: boolean;
+}
+
+/**
+ * Signed Laravel routes (routes/api.php, v1 group)
+ *
+ * The proxy requires a session for routes missing from this list.
+ */
+export const API_ROUTES: ApiRouteDefinition[] = [
+  // Sign-in and sign-up
+  { method: 'POST', path: 'api/v1/auth/register', auth: 'public', rateLimit: 'auth' },
+  { method: 'POST', path: 'api/v1/auth/login', auth: 'public', rateLimit: 'auth' },
+  { method: 'GET', path: 'api/v1/auth/providers', auth: 'public' },
+  // Authenticates the (possibly expired) token itself
+  { method: 'POST', path: 'api/v1/auth/refresh', auth: 'public', noRefresh: true },
+  { method: 'POST', path: 'api/v1/auth/api-key', auth: 'internal' },
+  { method: 'GET', path: 'api/v1/bff/routes', auth: 'internal' },
+
+  // Session only
+  { method: 'POST', path: 'api/v1/auth/logout', auth: 'session', noRefresh: true },
+  { method: 'GET', path: 'api/v1/access-requests', auth: 'session' },
+  { method: 'POST', path: 'api/v1/access-requests', auth: 'session' },
+  { method: 'GET', path: 'api/v1/access-requests/roles', auth: 'session' },
+  { method: 'GET', path: 'api/v1/api-keys', auth: 'session', permission: 'api-keys.read' },
+  { method: 'POST', path: 'api/v1/api-keys', auth: 'session', permission: 'api-keys.create' },
+  {
+    method: 'DELETE',
+    path: 'api/v1/api-keys/{apiKey}',
+    auth: 'session',
+    permission: 'api-keys.delete',
+  },
+
+  // Session or API key
+  { method: 'GET', path: 'api/v1/me', auth: 'authenticated' },
+  { method: 'GET', path: 'api/v1/users', auth: 'authenticated' },
+  { method: 'GET', path: 'api/v1/posts', auth: 'authenticated', permission: 'posts.read' },
+  { method: 'POST', path: 'api/v1/posts', auth: 'authenticated', permission: 'posts.create' },
+
+  // Administration
+  { method: 'GET', path: 'api/v1/admin/users', auth: 'authenticated', role: 'admin' },
+  { method: 'GET', path: 'api/v1/admin/users/{user}', auth: 'authenticated', role: 'admin' },
+  {
+    method: 'POST',
+    path: 'api/v1/admin/users/{user}/roles',
+    auth: 'authenticated',
+    role: 'admin',
+  },
+  {
+    method: 'DELETE',
+    path: 'api/v1/admin/users/{user}/roles/{role}',
+    auth: 'authenticated',
+    role: 'admin',
+  },
+  {
+    method: 'GET',
+    path: 'api/v1/admin/users/{user}/permissions',
+    auth: 'authenticated',
+    role: 'admin',
+  },
+  {
+    method: 'PUT',
+    path: 'api/v1/admin/users/{user}/permissions/{permission}',
+    auth: 'authenticated',
+    role: 'admin',
+  },
+  {
+    method: 'DELETE',
+    path: 'api/v1/admin/users/{user}/permissions/{permission}',
+    auth: 'authenticated',
+    role: 'admin',
+  },
+  { method: 'GET', path: 'api/v1/admin/roles', auth: 'authenticated', role: 'admin' },
+  { method: 'POST', path: 'api/v1/admin/roles', auth: 'authenticated', role: 'admin' },
+  { method: 'PUT', path: 'api/v1/admin/roles/order', auth: 'authenticated', role: 'admin' },
+  { method: 'PUT', path: 'api/v1/admin/roles/{role}', auth: 'authenticated', role: 'admin' },
+  { method: 'DELETE', path: 'api/v1/admin/roles/{role}', auth: 'authenticated', role: 'admin' },
+  {
+    method: 'POST',
+    path: 'api/v1/admin/roles/{role}/clone',
+    auth: 'authenticated',
+    role: 'admin',
+  },
+  {
+    method: 'PUT',
+    path: 'api/v1/admin/roles/{role}/parents',
+    auth: 'authenticated',
+    role: 'admin',
+  },
+  {
+    method: 'POST',
+    path: 'api/v1/admin/roles/{role}/permissions',
+    auth: 'authenticated',
+    role: 'admin',
+  },
+  { method: 'GET', path: 'api/v1/admin/access-requests', auth: 'authenticated', role: 'admin' },
+  {
+    method: 'POST',
+    path: 'api/v1/admin/access-requests/{accessRequest}/approve',
+    auth: 'authenticated',
+    role: 'admin',
+  },
+  {
+    method: 'POST',
+    path: 'api/v1/admin/access-requests/{accessRequest}/deny',
+    auth: 'authenticated',
+    role: 'admin',
+  },
+  { method: 'GET', path: 'api/v1/admin/audit-logs', auth: 'authenticated', role: 'admin' },
+  {
+    method: 'GET',
+    path: 'api/v1/admin/audit-logs/export',
+    auth: 'authenticated',
+    role: 'admin',
+  },
+  { method: 'GET', path: 'api/v1/admin/permissions', auth: 'authenticated', role: 'admin' },
+  { method: 'POST', path: 'api/v1/admin/permissions', auth: 'authenticated', role: 'admin' },
+  {
+    method: 'POST',
+    path: 'api/v1/admin/permissions/generate',
+    auth: 'authenticated',
+    role: 'admin',
+  },
+  {
+    method: 'PUT',
+    path: 'api/v1/admin/permissions/{permission}',
+    auth: 'authenticated',
+    role: 'admin',
+  },
+  {
+    method: 'DELETE',
+    path: 'api/v1/admin/permissions/{permission}',
+    auth: 'authenticated',
+    role: 'admin',
+  },
+];
+
+/**
+ * Checks whether a Laravel path matches a route pattern
+ */
+export function matchesApiPath(pattern: string, laravelPath: string): boolean {
+  const parts = pattern.split('/');
+  const segments = laravelPath.split('/');
+
+  return (
+    parts.length === segments.length &&
+    parts.every((part, i) => part.startsWith('{') || part === segments[i])
+  );
+}
+
+/**
+ * Finds the API route of a request
+ *
+ * Static segments win over parameters (PUT admin/roles/order before
+ * PUT admin/roles/{role}).
+ */
+export function findApiRoute(method: string, laravelPath: string): ApiRouteDefinition | undefined {
+  return API_ROUTES.filter(
+    (route) => route.method === method && matchesApiPath(route.path, laravelPath)
+  ).sort((a, b) => paramCount(a.path) - paramCount(b.path))[0];
+}
+
+function paramCount(path: string): number {
+  return path.split('/').filter((part) => part.startsWith('{')).length;
+}
+
+/**
+ * Whether a path is reserved to the BFF itself (whatever the method)
+ */
+export function isInternalPath(laravelPath: string): boolean {
+  return API_ROUTES.some(
+    (route) => route.auth === 'internal' && matchesApiPath(route.path, laravelPath)
+  );
+}
+
+/**
+ * Whether machine clients may call a route with an API key
+ *
+ * Session routes never accept a key, and Laravel refuses keys on
+ * role-restricted routes (a key carries permissions only).
+ */
+export function acceptsApiKey(route: ApiRouteDefinition): boolean {
+  return route.auth === 'authenticated' && !route.role;
+}
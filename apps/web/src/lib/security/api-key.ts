@@ -0,0 +1,97 @@
+/**
+ * API key authentication for machine clients
+ *
+ * CI jobs and scripts call /api/v1/* with `Authorization: ApiKey <key>`
+ * instead of the auth_token cookie. Before forwarding anything, the BFF:
+ *
+ * 1. verifies the key with Laravel (cached per key for a few seconds)
+ * 2. checks the requested route against the route registry (lib/routes.ts)
+ *    and the key scopes
+ * 3. forwards the request as `Authorization: BffApiKey <id>`: the header is
+ *    covered by the HMAC signature, so the key itself never reaches Laravel
+ *    again and nobody else can claim that identity
+ *
+ * Laravel stays authoritative: it re-checks revocation, expiry, scopes and
+ * the owner's permissions, applies the per-key rate limit and counts usage.
+ */
+
+import { createHash } from 'crypto';
+import { permissionMatches, type VerifiedApiKey } from '@rbac/types';
+import { acceptsApiKey, findApiRoute } from '@/lib/routes';
+import { SingleFlightCache } from './single-flight';
+import { BffErrorCode, BffException } from './types';
+
+/**
+ * How long a verified key is reused (revocations reach Laravel immediately)
+ */
+const KEY_TTL_MS = 30_000;
+
+/**
+ * Verified keys by hash
+ */
+const keys = new SingleFlightCache<VerifiedApiKey>(KEY_TTL_MS);
+
+/**
+ * Extracts the key of an `Authorization: ApiKey <key>` header
+ */
+export function parseApiKeyHeader(authorization: string | null): string | null {
+  const match = authorization?.match(/^ApiKey\s+(\S+)$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Derives the cache key (keys are never kept in memory)
+ */
+function cacheKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Verifies a key, looking it up at most once per KEY_TTL_MS
+ *
+ * Concurrent requests with the same key share the in-flight lookup;
+ * rejected keys are not cached.
+ */
+function verifyApiKey(
+  key: string,
+  lookup: (key: string) => Promise<VerifiedApiKey | null>
+): Promise<VerifiedApiKey | null> {
+  return keys.get(cacheKey(key), () => lookup(key));
+}
+
+/**
+ * Authorizes a machine request made with an API key
+ *
+ * @param key - Key sent by the client
+ * @param method - HTTP method of the request
+ * @param laravelPath - Laravel path (without leading slash)
+ * @param lookup - Verifies the key with Laravel, returns null if it is rejected
+ * @returns The verified key, to forward as `BffApiKey <id>`
+ * @throws {BffException} INVALID_API_KEY, FORBIDDEN or INSUFFICIENT_SCOPE
+ */
+export async function authorizeApiKey(
+  key: string,
+  method: string,
+  laravelPath: string,
+  lookup: (key: string) => Promise<VerifiedApiKey | null>
+): Promise<VerifiedApiKey> {
+  const verified = await verifyApiKey(key, lookup);
+  if (!verified) {
+    throw new BffException(BffErrorCode.INVALID_API_KEY, 'Invalid or expired API key');
+  }
+
+  const route = findApiRoute(method, laravelPath);
+  if (!route || !acceptsApiKey(route)) {
+    throw new BffException(BffErrorCode.FORBIDDEN, 'This route is not available to API keys');
+  }
+
+  const { permission } = route;
+  if (permission && !verified.scopes.some((scope) => permissionMatches(scope, permission))) {
+    throw new BffException(
+      BffErrorCode.INSUFFICIENT_SCOPE,
+      `The API key does not have the ${permission} scope`
+    );
+  }
+
+  return verified;
+}
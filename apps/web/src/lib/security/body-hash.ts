@@ -0,0 +1,91 @@
+/**
+ * Body hashing for non-JSON requests
+ *
+ * Raw bodies (binary uploads, CSV, plain text...) are hashed over their bytes.
+ *
+ * PHP parses multipart bodies itself and never exposes the raw bytes to
+ * Laravel, so the signature covers a canonical digest of the parts instead:
+ *
+ *   one line per part: TYPE:sha256(NAME):sha256(FILENAME):sha256(CONTENT)
+ *   lines sorted, joined with "\n", then hashed with SHA256
+ *
+ * Field names are normalized the way PHP does it (`tags[]` becomes
+ * `tags[0]`, `tags[1]`...; dots and spaces become underscores; last value
+ * wins for duplicate names) so both sides see the same parts.
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * SHA256 hex digest of a string or bytes
+ */
+function sha256(data: string | Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Normalizes a form field name the way PHP populates $_POST / $_FILES
+ *
+ * @param counters - Next auto-index per array prefix, shared across fields
+ */
+function normalizeFieldName(name: string, counters: Map<string, number>): string {
+  const bracket = name.indexOf('[');
+  const rawBase = bracket === -1 ? name : name.slice(0, bracket);
+  const base = rawBase.replace(/[. ]/g, '_');
+
+  if (bracket === -1) {
+    return base;
+  }
+
+  const segments = Array.from(name.slice(bracket).matchAll(/\[([^\]]*)\]/g), (match) => match[1]);
+  let prefix = base;
+
+  for (const segment of segments) {
+    const next = counters.get(prefix) ?? 0;
+    let key = segment;
+
+    if (segment === '') {
+      key = String(next);
+      counters.set(prefix, next + 1);
+    } else if (/^(0|[1-9]\d*)$/.test(segment)) {
+      counters.set(prefix, Math.max(next, Number(segment) + 1));
+    }
+
+    prefix = `${prefix}[${key}]`;
+  }
+
+  return prefix;
+}
+
+/**
+ * Computes the canonical digest of multipart form data
+ */
+export async function hashMultipart(formData: FormData): Promise<string> {
+  const counters = new Map<string, number>();
+  const parts = new Map<string, string>();
+
+  for (const [name, value] of formData.entries()) {
+    const normalizedName = normalizeFieldName(name, counters);
+
+    // Fields and files live in separate PHP arrays ($_POST / $_FILES)
+    if (typeof value === 'string') {
+      parts.set(`field:${normalizedName}`, `field:${sha256(normalizedName)}:${sha256('')}:${sha256(value)}`);
+    } else {
+      const content = new Uint8Array(await value.arrayBuffer());
+      parts.set(
+        `file:${normalizedName}`,
+        `file:${sha256(normalizedName)}:${sha256(value.name)}:${sha256(content)}`
+      );
+    }
+  }
+
+  const lines = Array.from(parts.values()).sort();
+  return sha256(lines.join('\n'));
+}
+
+/**
+ * SHA256 of raw body bytes
+ */
+export function hashRawBody(bytes: Uint8Array): string {
+  return bytes.byteLength === 0 ? '' : sha256(bytes);
+}
@@ -0,0 +1,114 @@
+/**
+ * Canonical request builder for BFF signatures
+ *
+ * Signature versions:
+ * - v1: TIMESTAMP:NONCE:METHOD:PATH:BODY_HASH (legacy, query string not signed).
+ *       NONCE was added with replay protection: v1 signatures computed
+ *       over the former TIMESTAMP:METHOD:PATH:BODY_HASH no longer verify
+ * - v2: newline-separated canonical request including the sorted query
+ *       string and a fixed set of headers
+ * - v3: v2 layout, the signed headers also cover the client IP and user
+ *       agent forwarded by the BFF (X-BFF-Client-IP, X-BFF-Client-User-Agent)
+ *
+ * Must stay byte-for-byte identical to Laravel HmacValidator.
+ */
+
+/**
+ * Signature versions understood by the BFF and Laravel
+ */
+export type SignatureVersion = '1' | '2' | '3';
+
+/**
+ * Version used when signing new requests
+ */
+export const CURRENT_SIGNATURE_VERSION: SignatureVersion = '3';
+
+/**
+ * Headers covered by each canonical signature version (lowercase, sorted)
+ */
+export const SIGNED_HEADERS: Record<Exclude<SignatureVersion, '1'>, readonly string[]> = {
+  '2': ['accept', 'authorization', 'content-type'],
+  '3': ['accept', 'authorization', 'content-type', 'x-bff-client-ip', 'x-bff-client-user-agent'],
+};
+
+/**
+ * Elements of a request that take part in the signature
+ */
+export interface CanonicalRequestParts {
+  timestamp: string;
+  nonce: string;
+  method: string;
+  path: string;
+  bodyHash: string;
+  query?: URLSearchParams;
+  headers?: Headers;
+}
+
+/**
+ * Percent-encodes a value following RFC 3986
+ * (same output as PHP rawurlencode)
+ */
+export function rfc3986Encode(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+/**
+ * Builds the canonical query string
+ *
+ * Pairs are percent-encoded then sorted by key, then by value.
+ */
+export function canonicalQuery(query?: URLSearchParams): string {
+  if (!query) {
+    return '';
+  }
+
+  const pairs = Array.from(query.entries()).map(
+    ([key, value]) => [rfc3986Encode(key), rfc3986Encode(value)] as const
+  );
+
+  pairs.sort(([keyA, valueA], [keyB, valueB]) => {
+    if (keyA !== keyB) return keyA < keyB ? -1 : 1;
+    if (valueA !== valueB) return valueA < valueB ? -1 : 1;
+    return 0;
+  });
+
+  return pairs.map(([key, value]) => `${key}=${value}`).join('&');
+}
+
+/**
+ * Builds the canonical headers block (one `name:value` line per signed header)
+ */
+export function canonicalHeaders(names: readonly string[], headers?: Headers): string {
+  return names.map((name) => {
+    const value = headers?.get(name) ?? '';
+    return `${name}:${value.trim().replace(/\s+/g, ' ')}`;
+  }).join('\n');
+}
+
+/**
+ * Builds the payload to sign for the given signature version
+ */
+export function buildCanonicalRequest(
+  version: SignatureVersion,
+  parts: CanonicalRequestParts
+): string {
+  const { timestamp, nonce, method, path, bodyHash } = parts;
+
+  if (version === '1') {
+    return `${timestamp}:${nonce}:${method}:${path}:${bodyHash}`;
+  }
+
+  return [
+    `v${version}`,
+    timestamp,
+    nonce,
+    method.toUpperCase(),
+    path,
+    canonicalQuery(parts.query),
+    canonicalHeaders(SIGNED_HEADERS[version], parts.headers),
+    bodyHash,
+  ].join('\n');
+}
@@ -0,0 +1,121 @@
+/**
+ * CSRF protection for the BFF proxy
+ *
+ * The browser attaches the auth_token cookie to any request reaching the
+ * BFF. sameSite: 'lax' keeps it off cross-site form posts, but not off
+ * posts from sibling subdomains, and sign-in needs no cookie at all. So
+ * every POST, PUT, PATCH and DELETE made with cookies must pass:
+ *
+ * 1. Sec-Fetch-Site, when the browser sends it: `same-origin` only
+ * 2. Origin, when present: one of the app origins
+ * 3. Double submit: the X-CSRF-Token header equals the csrf_token cookie.
+ *    Other sites can neither read the cookie nor set the header.
+ *
+ * API key requests are exempt: they carry no ambient credentials.
+ *
+ * Uses Web APIs only: the middleware (edge) issues the cookie too.
+ */
+
+import type { NextRequest, NextResponse } from 'next/server';
+import { CSRF_COOKIE, CSRF_HEADER } from '@rbac/api-client';
+import { BffErrorCode, BffException } from './types';
+
+/**
+ * Methods that never change state (not checked)
+ */
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Cookie lifetime, aligned on the auth cookie (15 days)
+ */
+const CSRF_COOKIE_MAX_AGE = 60 * 60 * 24 * 15;
+
+/**
+ * Generates a random token (32 bytes, hex)
+ */
+export function generateCsrfToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Constant-time string comparison
+ */
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Origins the app is served from
+ */
+function allowedOrigins(request: NextRequest): string[] {
+  const origins = [request.nextUrl.origin];
+  if (process.env.NEXT_PUBLIC_APP_URL) {
+    origins.push(new URL(process.env.NEXT_PUBLIC_APP_URL).origin);
+  }
+  return origins;
+}
+
+/**
+ * Machine clients send `Authorization: ApiKey <key>` (see api-key.ts, which
+ * needs Node crypto and cannot be imported here)
+ */
+function hasApiKey(request: NextRequest): boolean {
+  return /^ApiKey\s+\S+$/.test(request.headers.get('authorization') ?? '');
+}
+
+/**
+ * Checks a mutating request against CSRF (API key requests are exempt)
+ *
+ * @throws {BffException} CSRF_FAILED
+ */
+export function verifyCsrf(request: NextRequest, method: string): void {
+  if (SAFE_METHODS.includes(method) || hasApiKey(request)) {
+    return;
+  }
+
+  const fetchSite = request.headers.get('sec-fetch-site');
+  if (fetchSite && fetchSite !== 'same-origin') {
+    throw new BffException(BffErrorCode.CSRF_FAILED, `Cross-site request refused (${fetchSite})`);
+  }
+
+  const origin = request.headers.get('origin');
+  if (origin && !allowedOrigins(request).includes(origin)) {
+    throw new BffException(BffErrorCode.CSRF_FAILED, `Origin not allowed: ${origin}`);
+  }
+
+  const cookieToken = request.cookies.get(CSRF_COOKIE)?.value;
+  const headerToken = request.headers.get(CSRF_HEADER);
+  if (!cookieToken || !headerToken) {
+    throw new BffException(BffErrorCode.CSRF_FAILED, 'Missing CSRF token');
+  }
+  if (!safeEqual(cookieToken, headerToken)) {
+    throw new BffException(BffErrorCode.CSRF_FAILED, 'CSRF token mismatch');
+  }
+}
+
+/**
+ * Issues the CSRF cookie on a response when the request has none
+ *
+ * Not HttpOnly: browser code reads it to echo it in X-CSRF-Token.
+ */
+export function ensureCsrfCookie(request: NextRequest, response: NextResponse): NextResponse {
+  if (!request.cookies.has(CSRF_COOKIE)) {
+    response.cookies.set(CSRF_COOKIE, generateCsrfToken(), {
+      httpOnly: false,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      path: '/',
+      maxAge: CSRF_COOKIE_MAX_AGE,
+    });
+  }
+  return response;
+}
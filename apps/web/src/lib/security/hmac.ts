@@ -5,27 +5,38 @@
  * communications between Next.js (BFF) and Laravel (backend API).
  */
 
-import { createHash, createHmac } from 'crypto';
-import type { HmacHeaders } from './types';
+import { createHash, createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { BffErrorCode, BffException, type HmacHeaders } from './types';
+import { getNonceStore, type NonceStore } from './nonce-store';
+import { findVerificationKey, getKeyring, type HmacKey } from './keyring';
+import {
+  buildCanonicalRequest,
+  CURRENT_SIGNATURE_VERSION,
+  type SignatureVersion,
+} from './canonical';
 
 /**
- * Shared HMAC secret (same on Laravel)
- * Must be set via BFF_HMAC_SECRET environment variable
+ * BFF ID (must match Laravel config)
  */
-export const BFF_SECRET = process.env.BFF_HMAC_SECRET || '';
+export const BFF_ID = process.env.BFF_ID || 'nextjs-bff-prod';
 
 /**
- * BFF ID (must match Laravel config)
+ * Timestamp tolerance in seconds (±5 minutes, same as Laravel)
  */
-export const BFF_ID = process.env.BFF_ID || 'nextjs-bff-prod';
+export const TIMESTAMP_TOLERANCE = 300;
 
 /**
- * Verifies that HMAC secret is configured
+ * Verifies that HMAC keys are configured
+ * (BFF_HMAC_KEYS, or BFF_HMAC_SECRET for a single key)
+ *
+ * @returns Active key used to sign requests
  */
-export function ensureHmacConfigured(): void {
-  if (!BFF_SECRET) {
-    throw new Error('BFF_HMAC_SECRET environment variable is not set');
+export function ensureHmacConfigured(): HmacKey {
+  const keyring = getKeyring();
+  if (!keyring) {
+    throw new Error('BFF_HMAC_KEYS (or BFF_HMAC_SECRET) environment variable is not set');
   }
+  return keyring.active;
 }
 
 /**
@@ -77,36 +88,74 @@ function sortObjectKeys(obj: unknown): unknown {
   return sorted;
 }
 
+/**
+ * Generates a unique nonce for a request
+ */
+export function generateNonce(): string {
+  return randomUUID();
+}
+
+/**
+ * Signs a payload with a shared secret
+ */
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload, 'utf8').digest('hex');
+}
+
+/**
+ * Signature options
+ */
+export interface SignatureOptions {
+  /** Query string forwarded to Laravel */
+  query?: URLSearchParams;
+  /** Headers forwarded to Laravel (only the SIGNED_HEADERS of the version are signed) */
+  headers?: Headers;
+  /** Precomputed hash for non-JSON bodies (see body-hash.ts), replaces hashBody(body) */
+  bodyHash?: string;
+}
+
 /**
  * Generates HMAC headers for a request
  *
  * @param method - HTTP method (GET, POST, etc.)
  * @param path - Request path (ex: /api/v1/auth/login)
  * @param body - Request body (optional)
+ * @param options - Query string and headers to sign (optional)
  * @returns Required HMAC headers + normalized body to send
  */
 export function generateSignature(
   method: string,
   path: string,
-  body?: unknown
+  body?: unknown,
+  options: SignatureOptions = {}
 ): HmacHeaders & { normalizedBody?: string } {
-  ensureHmacConfigured();
+  const key = ensureHmacConfigured();
 
   // Timestamp in SECONDS (not milliseconds) for Laravel compatibility
   const timestamp = Math.floor(Date.now() / 1000).toString();
-  const bodyHash = hashBody(body);
+  const nonce = generateNonce();
+  const bodyHash = options.bodyHash ?? hashBody(body);
 
-  // Payload format: TIMESTAMP:METHOD:PATH:BODY_HASH
-  const payload = `${timestamp}:${method}:${path}:${bodyHash}`;
-
-  // Generate HMAC-SHA256 signature
-  const signature = createHmac('sha256', BFF_SECRET)
-    .update(payload, 'utf8')
-    .digest('hex');
+  // Generate HMAC-SHA256 signature over the canonical request
+  const signature = sign(
+    buildCanonicalRequest(CURRENT_SIGNATURE_VERSION, {
+      timestamp,
+      nonce,
+      method,
+      path,
+      bodyHash,
+      query: options.query,
+      headers: options.headers,
+    }),
+    key.secret
+  );
 
   const headers: HmacHeaders = {
     'X-BFF-Id': BFF_ID,
+    'X-BFF-Key-Id': key.kid,
     'X-BFF-Timestamp': timestamp,
+    'X-BFF-Nonce': nonce,
+    'X-BFF-Signature-Version': CURRENT_SIGNATURE_VERSION,
     'X-BFF-Signature': signature,
   };
 
@@ -120,6 +169,88 @@ export function generateSignature(
   return { ...headers, normalizedBody };
 }
 
+/**
+ * Signed request to verify
+ */
+export interface SignedRequest {
+  method: string;
+  path: string;
+  headers: Headers;
+  query?: URLSearchParams;
+  body?: unknown;
+  /** Precomputed hash for non-JSON bodies, replaces hashBody(body) */
+  bodyHash?: string;
+}
+
+/**
+ * Verifies HMAC headers of a signed request
+ *
+ * Mirrors Laravel HmacValidator: headers, BFF ID, timestamp, signature,
+ * then nonce (recorded only once the signature is valid).
+ * Requests without X-BFF-Signature-Version are treated as v1, requests
+ * without X-BFF-Key-Id are checked against the active key.
+ *
+ * @throws {BffException} if the request is not validly signed or is a replay
+ */
+export async function verifySignature(
+  request: SignedRequest,
+  nonceStore: NonceStore = getNonceStore()
+): Promise<void> {
+  const activeKey = ensureHmacConfigured();
+
+  const { headers } = request;
+  const bffId = headers.get('X-BFF-Id');
+  const timestamp = headers.get('X-BFF-Timestamp');
+  const nonce = headers.get('X-BFF-Nonce');
+  const signature = headers.get('X-BFF-Signature');
+  const version = headers.get('X-BFF-Signature-Version') ?? '1';
+  const kid = headers.get('X-BFF-Key-Id') ?? activeKey.kid;
+
+  if (!bffId || !timestamp || !nonce || !signature) {
+    throw new BffException(BffErrorCode.MISSING_HEADERS, 'Missing required HMAC headers');
+  }
+
+  if (bffId !== BFF_ID) {
+    throw new BffException(BffErrorCode.INVALID_BFF_ID, 'Invalid BFF ID');
+  }
+
+  const key = findVerificationKey(kid);
+  if (!key) {
+    throw new BffException(BffErrorCode.INVALID_KEY_ID, 'Unknown or retired key ID');
+  }
+
+  if (version !== '1' && version !== '2' && version !== '3') {
+    throw new BffException(BffErrorCode.INVALID_SIGNATURE, 'Unsupported signature version');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (Math.abs(now - Number.parseInt(timestamp, 10)) > TIMESTAMP_TOLERANCE) {
+    throw new BffException(BffErrorCode.TIMESTAMP_EXPIRED, 'Timestamp validation failed');
+  }
+
+  const payload = buildCanonicalRequest(version as SignatureVersion, {
+    timestamp,
+    nonce,
+    method: request.method,
+    path: request.path,
+    bodyHash: request.bodyHash ?? hashBody(request.body),
+    query: request.query,
+    headers,
+  });
+
+  const expected = Buffer.from(sign(payload, key.secret));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    throw new BffException(BffErrorCode.INVALID_SIGNATURE, 'Invalid signature');
+  }
+
+  // A nonce must be remembered for the whole window in which its timestamp is accepted
+  const isNew = await nonceStore.checkAndStore(nonce, TIMESTAMP_TOLERANCE * 2);
+  if (!isNew) {
+    throw new BffException(BffErrorCode.REPLAY_DETECTED, 'Nonce already used');
+  }
+}
+
 /**
  * Rebuilds Laravel path from BFF path
  *
@@ -0,0 +1,129 @@
+/**
+ * HMAC keyring for BFF secret rotation
+ *
+ * BFF_HMAC_KEYS holds comma-separated `kid:secret[:status]` entries:
+ * - `active`: used to sign new requests (exactly one entry)
+ * - no status: still accepted for verification (rotation in progress)
+ * - `retired`: rejected, kept only to report it in diagnostics
+ *
+ * Example: BFF_HMAC_KEYS="2026-10:newsecret:active,2026-04:oldsecret"
+ *
+ * When BFF_HMAC_KEYS is not set, BFF_HMAC_SECRET is used as the single
+ * active key with ID `default`.
+ */
+
+/**
+ * Status of a key in the keyring
+ */
+export type HmacKeyStatus = 'active' | 'verify' | 'retired';
+
+/**
+ * HMAC key entry
+ */
+export interface HmacKey {
+  kid: string;
+  secret: string;
+  status: HmacKeyStatus;
+}
+
+/**
+ * Loaded keyring
+ */
+export interface HmacKeyring {
+  active: HmacKey;
+  keys: HmacKey[];
+}
+
+/**
+ * Key ID used for the legacy single-secret configuration
+ */
+export const DEFAULT_KEY_ID = 'default';
+
+/**
+ * Allowed key ID format (sent as a header)
+ */
+const KEY_ID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+/**
+ * Parses a BFF_HMAC_KEYS value
+ *
+ * @throws {Error} if an entry is malformed or there is not exactly one active key
+ */
+export function parseKeyring(raw: string): HmacKeyring {
+  const keys = raw
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry, index): HmacKey => {
+      const [kid, secret, status = 'verify', ...rest] = entry.split(':');
+
+      // Error messages never echo entry contents, which may hold a secret
+      if (!kid || !KEY_ID_PATTERN.test(kid) || !secret || rest.length > 0) {
+        throw new Error(`Invalid BFF_HMAC_KEYS entry #${index + 1}`);
+      }
+      if (status !== 'active' && status !== 'verify' && status !== 'retired') {
+        throw new Error(`Invalid status for HMAC key "${kid}"`);
+      }
+
+      return { kid, secret, status };
+    });
+
+  const kids = new Set(keys.map((key) => key.kid));
+  if (kids.size !== keys.length) {
+    throw new Error('BFF_HMAC_KEYS contains duplicate key IDs');
+  }
+
+  const activeKeys = keys.filter((key) => key.status === 'active');
+  if (activeKeys.length !== 1) {
+    throw new Error('BFF_HMAC_KEYS must mark exactly one key as active');
+  }
+
+  return { active: activeKeys[0], keys };
+}
+
+/**
+ * Loads the keyring from environment variables
+ */
+function loadKeyring(): HmacKeyring | null {
+  const raw = process.env.BFF_HMAC_KEYS;
+  if (raw) {
+    return parseKeyring(raw);
+  }
+
+  const secret = process.env.BFF_HMAC_SECRET;
+  if (secret) {
+    const key: HmacKey = { kid: DEFAULT_KEY_ID, secret, status: 'active' };
+    return { active: key, keys: [key] };
+  }
+
+  return null;
+}
+
+/**
+ * Cached keyring (loaded on first use)
+ */
+let keyring: HmacKeyring | null | undefined;
+
+/**
+ * Returns the current keyring, or null if no key is configured
+ */
+export function getKeyring(): HmacKeyring | null {
+  if (keyring === undefined) {
+    keyring = loadKeyring();
+  }
+  return keyring;
+}
+
+/**
+ * Forces the keyring to be reloaded from the environment on next use
+ */
+export function reloadKeyring(): void {
+  keyring = undefined;
+}
+
+/**
+ * Finds a key usable for verification (active or verify-only)
+ */
+export function findVerificationKey(kid: string): HmacKey | undefined {
+  return getKeyring()?.keys.find((key) => key.kid === kid && key.status !== 'retired');
+}
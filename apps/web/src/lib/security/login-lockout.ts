@@ -0,0 +1,85 @@
+/**
+ * Progressive lockout of accounts under password guessing
+ *
+ * The per-IP bucket of the auth routes slows down one client; this stops
+ * attempts spread over many IPs against the same account. After
+ * LOCKOUT_THRESHOLD failed sign-ins, the account is locked for
+ * LOCKOUT_BASE_SECONDS, doubled on each further failure (up to
+ * LOCKOUT_MAX_SECONDS). A successful sign-in clears the failures, and
+ * failures are forgotten after a day without any.
+ *
+ * Accounts are keyed by a hash of the normalized email.
+ */
+
+import { createHash } from 'crypto';
+import { getRateLimitStore, type RateLimitStore } from './rate-limit';
+
+/**
+ * Failed sign-ins allowed before the first lockout
+ */
+export const LOCKOUT_THRESHOLD = 5;
+
+const LOCKOUT_BASE_SECONDS = 30;
+
+const LOCKOUT_MAX_SECONDS = 3600;
+
+/**
+ * How long failures are remembered after the last one
+ */
+const FAILURE_TTL_SECONDS = 86_400;
+
+function accountKey(email: string): string {
+  return `login:${createHash('sha256').update(email.trim().toLowerCase()).digest('hex')}`;
+}
+
+/**
+ * Lockout duration after a number of failures (0 below the threshold)
+ */
+export function lockoutSeconds(failures: number): number {
+  if (failures < LOCKOUT_THRESHOLD) {
+    return 0;
+  }
+
+  return Math.min(
+    LOCKOUT_MAX_SECONDS,
+    LOCKOUT_BASE_SECONDS * 2 ** (failures - LOCKOUT_THRESHOLD)
+  );
+}
+
+/**
+ * Seconds left before the account can sign in again (0 when not locked)
+ */
+export function loginLockedFor(
+  email: string,
+  store: RateLimitStore = getRateLimitStore()
+): Promise<number> {
+  return store.blockedFor(accountKey(email));
+}
+
+/**
+ * Records a failed sign-in
+ *
+ * @returns Seconds the account is now locked for (0 when not locked)
+ */
+export async function recordLoginFailure(
+  email: string,
+  store: RateLimitStore = getRateLimitStore()
+): Promise<number> {
+  const key = accountKey(email);
+  const seconds = lockoutSeconds(await store.increment(key, FAILURE_TTL_SECONDS));
+
+  if (seconds > 0) {
+    await store.block(key, seconds);
+  }
+  return seconds;
+}
+
+/**
+ * Clears the failures of an account after a successful sign-in
+ */
+export function clearLoginFailures(
+  email: string,
+  store: RateLimitStore = getRateLimitStore()
+): Promise<void> {
+  return store.reset(accountKey(email));
+}
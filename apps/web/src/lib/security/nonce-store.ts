@@ -0,0 +1,103 @@
+/**
+ * Nonce stores for BFF replay protection
+ *
+ * Every signed request carries a unique nonce (X-BFF-Nonce). A verifier
+ * records each nonce it accepts and rejects any nonce seen again within
+ * the timestamp tolerance window.
+ */
+
+/**
+ * Storage backend for seen nonces
+ */
+export interface NonceStore {
+  /**
+   * Records a nonce if it has not been seen yet
+   *
+   * @param nonce - Nonce received with the request
+   * @param ttlSeconds - How long the nonce must be remembered
+   * @returns true if the nonce is new, false if it was already used
+   */
+  checkAndStore(nonce: string, ttlSeconds: number): Promise<boolean>;
+}
+
+/**
+ * In-memory LRU nonce store
+ *
+ * Suitable for a single BFF instance. Entries expire after their TTL and
+ * the oldest entries are evicted once maxEntries is reached.
+ */
+export class MemoryNonceStore implements NonceStore {
+  private readonly entries = new Map<string, number>();
+
+  constructor(private readonly maxEntries = 10_000) {}
+
+  async checkAndStore(nonce: string, ttlSeconds: number): Promise<boolean> {
+    const now = Date.now();
+    this.purgeExpired(now);
+
+    if (this.entries.has(nonce)) {
+      return false;
+    }
+
+    this.entries.set(nonce, now + ttlSeconds * 1000);
+
+    // Evict least recently inserted entries (Map keeps insertion order)
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+
+    return true;
+  }
+
+  private purgeExpired(now: number): void {
+    for (const [nonce, expiresAt] of this.entries) {
+      if (expiresAt > now) break;
+      this.entries.delete(nonce);
+    }
+  }
+}
+
+/**
+ * Minimal Redis client contract (compatible with ioredis)
+ */
+export interface RedisLikeClient {
+  set(key: string, value: string, expiryMode: 'EX', ttl: number, condition: 'NX'): Promise<string | null>;
+}
+
+/**
+ * Redis-backed nonce store
+ *
+ * Shares seen nonces across BFF instances using an atomic SET NX EX.
+ */
+export class RedisNonceStore implements NonceStore {
+  constructor(
+    private readonly client: RedisLikeClient,
+    private readonly prefix = 'bff_nonce:'
+  ) {}
+
+  async checkAndStore(nonce: string, ttlSeconds: number): Promise<boolean> {
+    const result = await this.client.set(`${this.prefix}${nonce}`, '1', 'EX', ttlSeconds, 'NX');
+    return result === 'OK';
+  }
+}
+
+/**
+ * Default store used by signature verification
+ */
+let defaultNonceStore: NonceStore = new MemoryNonceStore();
+
+/**
+ * Returns the nonce store used by default
+ */
+export function getNonceStore(): NonceStore {
+  return defaultNonceStore;
+}
+
+/**
+ * Replaces the default nonce store (ex: with a RedisNonceStore)
+ */
+export function setNonceStore(store: NonceStore): void {
+  defaultNonceStore = store;
+}
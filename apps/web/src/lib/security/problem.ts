@@ -0,0 +1,110 @@
+/**
+ * RFC 7807 error responses for the BFF
+ *
+ * Every error produced by the BFF itself (not forwarded from Laravel) is
+ * returned as application/problem+json with a status derived from its
+ * BffErrorCode, so clients and monitoring can tell failure types apart.
+ */
+
+import { NextResponse } from 'next/server';
+import { BffErrorCode, BffException, type ProblemDetails } from './types';
+
+/**
+ * HTTP status for each error code
+ */
+export const BFF_ERROR_STATUS: Record<BffErrorCode, number> = {
+  [BffErrorCode.INVALID_SIGNATURE]: 401,
+  [BffErrorCode.MISSING_HEADERS]: 400,
+  [BffErrorCode.TIMESTAMP_EXPIRED]: 401,
+  [BffErrorCode.INVALID_BFF_ID]: 401,
+  [BffErrorCode.INVALID_KEY_ID]: 401,
+  [BffErrorCode.REPLAY_DETECTED]: 401,
+  [BffErrorCode.UPSTREAM_ERROR]: 502,
+  [BffErrorCode.NETWORK_ERROR]: 502,
+  [BffErrorCode.TIMEOUT]: 504,
+  [BffErrorCode.INVALID_PATH]: 400,
+  [BffErrorCode.PAYLOAD_TOO_LARGE]: 413,
+  [BffErrorCode.RATE_LIMITED]: 429,
+  [BffErrorCode.LOGIN_LOCKED]: 429,
+  [BffErrorCode.UNAUTHENTICATED]: 401,
+  [BffErrorCode.INVALID_API_KEY]: 401,
+  [BffErrorCode.FORBIDDEN]: 403,
+  [BffErrorCode.INSUFFICIENT_SCOPE]: 403,
+  [BffErrorCode.CSRF_FAILED]: 403,
+  [BffErrorCode.INTERNAL_ERROR]: 500,
+};
+
+/**
+ * Short, stable summary for each error code
+ */
+const BFF_ERROR_TITLES: Record<BffErrorCode, string> = {
+  [BffErrorCode.INVALID_SIGNATURE]: 'Invalid signature',
+  [BffErrorCode.MISSING_HEADERS]: 'Missing headers',
+  [BffErrorCode.TIMESTAMP_EXPIRED]: 'Timestamp expired',
+  [BffErrorCode.INVALID_BFF_ID]: 'Invalid BFF ID',
+  [BffErrorCode.INVALID_KEY_ID]: 'Invalid key ID',
+  [BffErrorCode.REPLAY_DETECTED]: 'Replay detected',
+  [BffErrorCode.UPSTREAM_ERROR]: 'Upstream error',
+  [BffErrorCode.NETWORK_ERROR]: 'Upstream unreachable',
+  [BffErrorCode.TIMEOUT]: 'Upstream timeout',
+  [BffErrorCode.INVALID_PATH]: 'Invalid path',
+  [BffErrorCode.PAYLOAD_TOO_LARGE]: 'Payload too large',
+  [BffErrorCode.RATE_LIMITED]: 'Too many requests',
+  [BffErrorCode.LOGIN_LOCKED]: 'Sign-in temporarily locked',
+  [BffErrorCode.UNAUTHENTICATED]: 'Unauthenticated',
+  [BffErrorCode.INVALID_API_KEY]: 'Invalid API key',
+  [BffErrorCode.FORBIDDEN]: 'Forbidden',
+  [BffErrorCode.INSUFFICIENT_SCOPE]: 'Insufficient scope',
+  [BffErrorCode.CSRF_FAILED]: 'CSRF check failed',
+  [BffErrorCode.INTERNAL_ERROR]: 'Internal server error',
+};
+
+/**
+ * Builds problem details for an error code
+ */
+export function problemDetails(
+  code: BffErrorCode,
+  detail?: string,
+  instance?: string
+): ProblemDetails {
+  return {
+    type: `urn:bff:error:${code.toLowerCase().replace(/_/g, '-')}`,
+    title: BFF_ERROR_TITLES[code],
+    status: BFF_ERROR_STATUS[code],
+    detail,
+    instance,
+    code,
+  };
+}
+
+/**
+ * Creates an application/problem+json response
+ */
+export function problemResponse(
+  code: BffErrorCode,
+  detail?: string,
+  instance?: string,
+  init: { headers?: HeadersInit } = {}
+): NextResponse {
+  const problem = problemDetails(code, detail, instance);
+  const headers = new Headers(init.headers);
+  headers.set('Content-Type', 'application/problem+json');
+
+  return new NextResponse(JSON.stringify(problem), {
+    status: problem.status,
+    headers,
+  });
+}
+
+/**
+ * Converts any thrown error into a problem response
+ *
+ * Unknown errors become INTERNAL_ERROR without leaking their message.
+ */
+export function toProblemResponse(error: unknown, instance?: string): NextResponse {
+  if (error instanceof BffException) {
+    return problemResponse(error.code, error.message, instance);
+  }
+
+  return problemResponse(BffErrorCode.INTERNAL_ERROR, 'Failed to proxy request', instance);
+}
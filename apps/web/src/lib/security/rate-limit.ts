@@ -0,0 +1,446 @@
+/**
+ * Rate limiting for the BFF proxy
+ *
+ * Token buckets: each key holds up to `limit` tokens, refilled continuously
+ * over `windowSeconds`; a request takes one token and is refused (429) when
+ * the bucket is empty. Bursts are allowed up to `limit`, the sustained rate
+ * is limit / windowSeconds.
+ *
+ * Buckets are keyed by route group and identity:
+ * - auth (login, register, see lib/routes.ts): client IP, strict; the
+ *   account (email) when the IP is unknown
+ * - api (everything else): API key, session token or client IP
+ *
+ * The store also keeps counters and blocks for the login lockout
+ * (login-lockout.ts). Like nonces, state lives in memory by default; use a
+ * RedisRateLimitStore to share it across BFF instances.
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * Bucket size and refill window
+ */
+export interface RateLimitPolicy {
+  /** Bucket capacity (largest burst) */
+  limit: number;
+  /** Time to refill an empty bucket */
+  windowSeconds: number;
+}
+
+/**
+ * Outcome of a take
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  windowSeconds: number;
+  /** Whole tokens left */
+  remaining: number;
+  /** Seconds until the bucket is full again */
+  reset: number;
+  /** Seconds to wait before the next token (0 when allowed) */
+  retryAfter: number;
+}
+
+/**
+ * Storage backend for buckets, counters and blocks
+ */
+export interface RateLimitStore {
+  /**
+   * Takes one token from a bucket (atomic per key)
+   */
+  take(key: string, policy: RateLimitPolicy): Promise<RateLimitResult>;
+
+  /**
+   * Increments a counter and restarts its expiry
+   *
+   * @returns The new value
+   */
+  increment(key: string, ttlSeconds: number): Promise<number>;
+
+  /**
+   * Blocks a key for some seconds
+   */
+  block(key: string, seconds: number): Promise<void>;
+
+  /**
+   * Seconds left before a blocked key is released (0 when not blocked)
+   */
+  blockedFor(key: string): Promise<number>;
+
+  /**
+   * Forgets the counter and the block of a key
+   */
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * Builds the result of a take from the tokens left
+ */
+function bucketResult(
+  policy: RateLimitPolicy,
+  tokens: number,
+  allowed: boolean
+): RateLimitResult {
+  const perSecond = policy.limit / policy.windowSeconds;
+
+  return {
+    allowed,
+    limit: policy.limit,
+    windowSeconds: policy.windowSeconds,
+    remaining: Math.max(0, Math.floor(tokens)),
+    reset: Math.ceil((policy.limit - tokens) / perSecond),
+    retryAfter: allowed ? 0 : Math.max(1, Math.ceil((1 - tokens) / perSecond)),
+  };
+}
+
+/**
+ * In-memory LRU store
+ *
+ * Suitable for a single BFF instance. The least recently used entries are
+ * evicted once maxEntries is reached (an evicted bucket starts full again).
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  private readonly counters = new Map<string, { value: number; expiresAt: number }>();
+  private readonly blocks = new Map<string, number>();
+
+  constructor(private readonly maxEntries = 10_000) {}
+
+  async take(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const now = Date.now();
+    const perMs = policy.limit / (policy.windowSeconds * 1000);
+    const bucket = this.buckets.get(key);
+
+    let tokens = bucket
+      ? Math.min(policy.limit, bucket.tokens + (now - bucket.updatedAt) * perMs)
+      : policy.limit;
+    const allowed = tokens >= 1;
+    if (allowed) {
+      tokens -= 1;
+    }
+
+    // Re-inserted to keep the Map in least recently used order
+    this.buckets.delete(key);
+    this.buckets.set(key, { tokens, updatedAt: now });
+    this.evict(this.buckets);
+
+    return bucketResult(policy, tokens, allowed);
+  }
+
+  async increment(key: string, ttlSeconds: number): Promise<number> {
+    const now = Date.now();
+    const counter = this.counters.get(key);
+    const value = counter && counter.expiresAt > now ? counter.value + 1 : 1;
+
+    this.counters.delete(key);
+    this.counters.set(key, { value, expiresAt: now + ttlSeconds * 1000 });
+    this.evict(this.counters);
+
+    return value;
+  }
+
+  async block(key: string, seconds: number): Promise<void> {
+    this.blocks.delete(key);
+    this.blocks.set(key, Date.now() + seconds * 1000);
+    this.evict(this.blocks);
+  }
+
+  async blockedFor(key: string): Promise<number> {
+    const until = this.blocks.get(key);
+    if (until === undefined) {
+      return 0;
+    }
+
+    const left = Math.ceil((until - Date.now()) / 1000);
+    if (left <= 0) {
+      this.blocks.delete(key);
+      return 0;
+    }
+    return left;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+    this.blocks.delete(key);
+  }
+
+  private evict(entries: Map<string, unknown>): void {
+    while (entries.size > this.maxEntries) {
+      const oldest = entries.keys().next().value;
+      if (oldest === undefined) break;
+      entries.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Minimal Redis client contract (compatible with ioredis)
+ */
+export interface RedisScriptClient {
+  eval(script: string, numKeys: number, ...args: (string | number)[]): Promise<unknown>;
+}
+
+/**
+ * Token bucket update, atomic on the Redis side (server clock)
+ *
+ * Returns [allowed, tokens]: tokens as a string, Lua numbers are
+ * truncated to integers in replies.
+ */
+const TAKE_SCRIPT = `
+local limit = tonumber(ARGV[1])
+local window_ms = tonumber(ARGV[2])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1]) or limit
+local ts = tonumber(state[2]) or now
+tokens = math.min(limit, tokens + math.max(0, now - ts) * limit / window_ms)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', now)
+redis.call('PEXPIRE', KEYS[1], window_ms)
+return { allowed, tostring(tokens) }
+`;
+
+const INCREMENT_SCRIPT = `
+local value = redis.call('INCR', KEYS[1])
+redis.call('EXPIRE', KEYS[1], ARGV[1])
+return value
+`;
+
+const BLOCK_SCRIPT = `redis.call('SET', KEYS[1], '1', 'EX', ARGV[1]) return 1`;
+
+const BLOCKED_FOR_SCRIPT = `return redis.call('TTL', KEYS[1])`;
+
+const RESET_SCRIPT = `return redis.call('DEL', KEYS[1], KEYS[2])`;
+
+/**
+ * Redis-backed store
+ *
+ * Shares buckets, counters and blocks across BFF instances; every
+ * operation is a single script, so concurrent requests never race.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(
+    private readonly client: RedisScriptClient,
+    private readonly prefix = 'bff_rate:'
+  ) {}
+
+  async take(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const [allowed, tokens] = (await this.client.eval(
+      TAKE_SCRIPT,
+      1,
+      `${this.prefix}bucket:${key}`,
+      policy.limit,
+      policy.windowSeconds * 1000
+    )) as [number, string];
+
+    return bucketResult(policy, Number(tokens), allowed === 1);
+  }
+
+  async increment(key: string, ttlSeconds: number): Promise<number> {
+    return Number(
+      await this.client.eval(INCREMENT_SCRIPT, 1, `${this.prefix}count:${key}`, ttlSeconds)
+    );
+  }
+
+  async block(key: string, seconds: number): Promise<void> {
+    await this.client.eval(BLOCK_SCRIPT, 1, `${this.prefix}block:${key}`, seconds);
+  }
+
+  async blockedFor(key: string): Promise<number> {
+    const ttl = Number(await this.client.eval(BLOCKED_FOR_SCRIPT, 1, `${this.prefix}block:${key}`));
+    return ttl > 0 ? ttl : 0;
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.client.eval(
+      RESET_SCRIPT,
+      2,
+      `${this.prefix}count:${key}`,
+      `${this.prefix}block:${key}`
+    );
+  }
+}
+
+/**
+ * Default store used by the proxy
+ */
+let defaultRateLimitStore: RateLimitStore = new MemoryRateLimitStore();
+
+/**
+ * Returns the rate limit store used by default
+ */
+export function getRateLimitStore(): RateLimitStore {
+  return defaultRateLimitStore;
+}
+
+/**
+ * Replaces the default rate limit store (ex: with a RedisRateLimitStore)
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  defaultRateLimitStore = store;
+}
+
+/**
+ * Route groups, each with its own buckets
+ */
+export type RateLimitGroup = 'auth' | 'api';
+
+/**
+ * Policy of each group
+ */
+export const RATE_LIMIT_POLICIES: Record<RateLimitGroup, RateLimitPolicy> = {
+  // 10 attempts, then one every 30 seconds
+  auth: { limit: 10, windowSeconds: 300 },
+  // Several calls per page view (middleware, server components, actions)
+  api: { limit: 300, windowSeconds: 60 },
+};
+
+/**
+ * Reverse proxies trusted to append to X-Forwarded-For
+ *
+ * - a number: how many proxies stand in front of Next.js
+ * - a set: their addresses
+ */
+export type TrustedProxies = number | ReadonlySet<string>;
+
+/**
+ * Parses BFF_TRUSTED_PROXIES: a count ("1") or a comma-separated list of
+ * addresses ("10.0.0.2,10.0.0.3"). Unset: no proxy is trusted.
+ */
+export function parseTrustedProxies(value: string | undefined): TrustedProxies {
+  const trimmed = value?.trim() ?? '';
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+
+  const addresses = trimmed.split(',').map((address) => address.trim()).filter(Boolean);
+  return addresses.length > 0 ? new Set(addresses) : 0;
+}
+
+const TRUSTED_PROXIES = parseTrustedProxies(process.env.BFF_TRUSTED_PROXIES);
+
+/**
+ * Client IP of a request
+ *
+ * Forwarding headers are set by whoever sends the request, so they are only
+ * read behind trusted proxies (BFF_TRUSTED_PROXIES). Each proxy appends the
+ * address it received the request from to X-Forwarded-For; the client is
+ * the right-most entry not added by a trusted proxy:
+ * - count N: the N-th entry from the right
+ * - addresses: the right-most entry that is not one of them
+ *
+ * X-Real-IP is only read behind trusted proxies that do not set
+ * X-Forwarded-For. Without trusted proxies the IP is 'unknown': Next.js does
+ * not expose the connection address. Server actions forward the IP of the
+ * browser request (lib/api/client.ts).
+ */
+export function clientIp(headers: Headers, trusted: TrustedProxies = TRUSTED_PROXIES): string {
+  if (trusted === 0 || (typeof trusted !== 'number' && trusted.size === 0)) {
+    return 'unknown';
+  }
+
+  const hops = (headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+
+  if (hops.length === 0) {
+    return headers.get('x-real-ip')?.trim() || 'unknown';
+  }
+
+  if (typeof trusted === 'number') {
+    return hops[Math.max(0, hops.length - trusted)];
+  }
+
+  for (let index = hops.length - 1; index > 0; index--) {
+    if (!trusted.has(hops[index])) {
+      return hops[index];
+    }
+  }
+  return hops[0];
+}
+
+/**
+ * Identity a request is counted against
+ */
+export interface RateLimitIdentity {
+  ip: string;
+  /** API key or session token (hashed, never kept in memory) */
+  credential?: string;
+  /** Email of a sign-in or registration (hashed), see isCountedPerAccount */
+  account?: string;
+}
+
+/**
+ * Whether requests of a group are counted per account rather than per IP
+ *
+ * Auth routes have no credential yet and are counted per IP. Without a
+ * client IP every client would share one bucket, and a single one hitting
+ * the limit would lock sign-in for everyone: they are counted per email
+ * instead, which the caller has to read from the body first.
+ */
+export function isCountedPerAccount(group: RateLimitGroup, ip: string): boolean {
+  return group === 'auth' && ip === 'unknown';
+}
+
+function hashed(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Takes a token for a request
+ */
+export function consumeRateLimit(
+  group: RateLimitGroup,
+  identity: RateLimitIdentity,
+  store: RateLimitStore = getRateLimitStore()
+): Promise<RateLimitResult> {
+  let subject = `ip:${identity.ip}`;
+
+  if (isCountedPerAccount(group, identity.ip)) {
+    if (identity.account) {
+      subject = `account:${hashed(identity.account.trim().toLowerCase())}`;
+    }
+  } else if (group !== 'auth' && identity.credential) {
+    subject = `cred:${hashed(identity.credential)}`;
+  }
+
+  return store.take(`${group}:${subject}`, RATE_LIMIT_POLICIES[group]);
+}
+
+/**
+ * Standard rate limit headers (IETF draft RateLimit-*, Retry-After when refused)
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.reset),
+    'RateLimit-Policy': `${result.limit};w=${result.windowSeconds}`,
+  };
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(result.retryAfter);
+  }
+
+  return headers;
+}
+
+/**
+ * Human readable wait ("45 seconds", "3 minutes")
+ */
+export function formatWait(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
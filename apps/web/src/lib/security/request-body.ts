@@ -0,0 +1,137 @@
+/**
+ * Incoming request bodies for the BFF proxy
+ *
+ * The size limit is enforced on the bytes actually read, not only on the
+ * announced Content-Length: chunked bodies have no length and the header
+ * can understate the body. Reading stops as soon as the limit is crossed.
+ */
+
+import { hashMultipart, hashRawBody } from './body-hash';
+import { BffException, BffErrorCode } from './types';
+
+/**
+ * Largest accepted request body, in bytes
+ */
+export const BFF_MAX_BODY_SIZE = Number(process.env.BFF_MAX_BODY_SIZE) || 10 * 1024 * 1024; // 10 MB
+
+/**
+ * Request body prepared for Laravel
+ */
+export interface ProxyBody {
+  /** Parsed JSON body (sent and signed with sorted keys) */
+  json: unknown;
+  /** Non-JSON body forwarded as-is (buffered, so it can be sent again) */
+  raw?: BodyInit;
+  /** Content-Type sent to Laravel */
+  contentType: string;
+  /** Hash of the non-JSON body (raw bytes or multipart digest) */
+  bodyHash?: string;
+}
+
+/**
+ * Rejects bodies larger than maxSize
+ * @throws {BffException} PAYLOAD_TOO_LARGE
+ */
+function assertBodySize(size: number, maxSize: number): void {
+  if (size > maxSize) {
+    throw new BffException(BffErrorCode.PAYLOAD_TOO_LARGE, `Request body exceeds ${maxSize} bytes`);
+  }
+}
+
+/**
+ * Reads the body stream, counting bytes as they arrive
+ *
+ * @throws {BffException} PAYLOAD_TOO_LARGE once more than maxSize bytes were read
+ */
+async function readBodyBytes(
+  body: ReadableStream<Uint8Array>,
+  maxSize: number
+): Promise<Uint8Array<ArrayBuffer>> {
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    size += value.byteLength;
+    if (size > maxSize) {
+      // Stop the upload instead of draining it
+      await reader.cancel().catch(() => undefined);
+      assertBodySize(size, maxSize);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+/**
+ * Reads the incoming body and prepares it for signing and forwarding
+ *
+ * - JSON: parsed, keys sorted (existing behavior)
+ * - multipart/form-data: parsed then re-encoded, signed with a per-part
+ *   digest because PHP never exposes the raw multipart bytes to Laravel
+ * - anything else: raw bytes, signed over their SHA256
+ *
+ * Non-JSON bodies have to be read fully before sending: the signature
+ * header covers the body hash and precedes it.
+ *
+ * @throws {BffException} PAYLOAD_TOO_LARGE when the body exceeds maxSize
+ */
+export async function readRequestBody(
+  request: Request,
+  maxSize: number = BFF_MAX_BODY_SIZE
+): Promise<ProxyBody> {
+  const contentType = request.headers.get('content-type') || '';
+
+  if (request.method === 'GET' || request.method === 'HEAD' || !request.body) {
+    return { json: null, contentType: 'application/json' };
+  }
+
+  // Fail fast on the announced length, before buffering anything
+  assertBodySize(Number(request.headers.get('content-length')) || 0, maxSize);
+
+  const bytes = await readBodyBytes(request.body, maxSize);
+
+  if (contentType.includes('application/json')) {
+    try {
+      return { json: JSON.parse(new TextDecoder().decode(bytes)), contentType: 'application/json' };
+    } catch {
+      // Empty or malformed JSON body
+      return { json: null, contentType: 'application/json' };
+    }
+  }
+
+  if (contentType.includes('multipart/form-data')) {
+    const formData = await new Response(bytes, {
+      headers: { 'content-type': contentType },
+    }).formData();
+    const bodyHash = await hashMultipart(formData);
+
+    // Re-encoded and buffered: the body may be sent twice (token refresh)
+    const encoded = new Response(formData);
+    return {
+      json: null,
+      raw: new Uint8Array(await encoded.arrayBuffer()),
+      contentType: encoded.headers.get('content-type') || contentType,
+      bodyHash,
+    };
+  }
+
+  return {
+    json: null,
+    raw: bytes,
+    contentType: contentType || 'application/octet-stream',
+    bodyHash: hashRawBody(bytes),
+  };
+}
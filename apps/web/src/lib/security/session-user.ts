@@ -0,0 +1,45 @@
+/**
+ * Short-lived cache of the current user for route checks
+ *
+ * The middleware checks the route manifest on every dashboard navigation;
+ * the user is looked up once per session and reused for a few seconds
+ * instead of hitting /me on each request.
+ *
+ * Entries are keyed by a hash of the auth token (one key per session).
+ * Concurrent lookups share the in-flight request; failed or anonymous
+ * lookups are not cached. Uses Web Crypto so it runs in the middleware.
+ */
+
+import type { User } from '@rbac/types';
+import { SingleFlightCache } from './single-flight';
+
+/**
+ * How long a looked up user is reused
+ */
+const USER_TTL_MS = 30_000;
+
+/**
+ * Users by session key
+ */
+const users = new SingleFlightCache<User>(USER_TTL_MS);
+
+/**
+ * Derives the session key from a token (tokens are never kept in memory)
+ */
+async function sessionKey(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Returns the user of a session, looking it up at most once per USER_TTL_MS
+ *
+ * @param token - Auth token sent by the browser
+ * @param lookup - Fetches the user, returns null if the token is not valid
+ */
+export async function getSessionUser(
+  token: string,
+  lookup: () => Promise<User | null>
+): Promise<User | null> {
+  return users.get(await sessionKey(token), lookup);
+}
@@ -0,0 +1,80 @@
+/**
+ * Keyed single-flight cache
+ *
+ * Concurrent callers asking for the same key share one in-flight load, and
+ * a successful result is reused for `ttlMs` once it settles. Null results
+ * and failures are not kept: the next caller loads again.
+ *
+ * Callers pass derived keys (hashes of tokens or API keys), never secrets.
+ * Free of Node imports so that it can run in the middleware.
+ */
+
+interface CacheEntry<T> {
+  /** Resolves to the value, or null when there is nothing to cache */
+  promise: Promise<T | null>;
+  /** When the entry stops being reused (set once the load settles) */
+  expiresAt: number;
+}
+
+export class SingleFlightCache<T> {
+  /** Entries by key (Map keeps insertion order for eviction) */
+  private readonly entries = new Map<string, CacheEntry<T>>();
+
+  /**
+   * @param ttlMs - How long a settled value is reused
+   * @param maxEntries - Upper bound on remembered keys (oldest evicted first)
+   */
+  constructor(
+    private readonly ttlMs: number,
+    private readonly maxEntries = 1_000
+  ) {}
+
+  /**
+   * Returns the value of a key, calling load() at most once per TTL
+   */
+  get(key: string, load: () => Promise<T | null>): Promise<T | null> {
+    this.purge(Date.now());
+
+    const existing = this.entries.get(key);
+    if (existing) {
+      return existing.promise;
+    }
+
+    const entry: CacheEntry<T> = {
+      promise: load(),
+      // Kept until settled, then for the TTL
+      expiresAt: Number.POSITIVE_INFINITY,
+    };
+
+    entry.promise.then(
+      (value) => {
+        if (value === null) {
+          this.entries.delete(key);
+        } else {
+          entry.expiresAt = Date.now() + this.ttlMs;
+        }
+      },
+      () => this.entries.delete(key)
+    );
+
+    this.entries.set(key, entry);
+    return entry.promise;
+  }
+
+  /**
+   * Drops expired entries and evicts the oldest ones above maxEntries
+   */
+  private purge(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Access token refresh de-duplication
+ *
+ * Laravel revokes the old token when it issues a new one, so a session
+ * must never refresh twice in parallel: the second refresh would be sent
+ * with an already revoked token and log the user out.
+ *
+ * Refreshes are keyed by a hash of the expired token (one key per
+ * session). Concurrent callers share the in-flight refresh, and callers
+ * arriving shortly after it completed (still holding the old cookie)
+ * reuse its result.
+ */
+
+import { createHash } from 'crypto';
+import { SingleFlightCache } from './single-flight';
+
+/**
+ * How long a completed refresh is reused for requests still sending the
+ * old token (browser has not received the new cookie yet)
+ */
+const REFRESH_GRACE_MS = 60_000;
+
+/**
+ * Refreshes by session key
+ */
+const refreshes = new SingleFlightCache<string>(REFRESH_GRACE_MS);
+
+/**
+ * Derives the session key from a token (tokens are never kept in memory)
+ */
+function sessionKey(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Refreshes a token once per session
+ *
+ * Failed refreshes are not reused: the next request may retry.
+ *
+ * @param token - Expired token sent by the browser
+ * @param refresh - Performs the actual refresh, returns the new token or null
+ * @returns The new token, or null if the session cannot be refreshed
+ */
+export function refreshTokenOnce(
+  token: string,
+  refresh: (token: string) => Promise<string | null>
+): Promise<string | null> {
+  return refreshes.get(sessionKey(token), () => refresh(token).catch(() => null));
+}
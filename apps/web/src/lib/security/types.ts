@@ -7,7 +7,10 @@
  */
 export interface HmacHeaders {
   'X-BFF-Id': string;
+  'X-BFF-Key-Id': string;
   'X-BFF-Timestamp': string;
+  'X-BFF-Nonce': string;
+  'X-BFF-Signature-Version': string;
   'X-BFF-Signature': string;
 }
 
@@ -28,9 +31,33 @@ export enum BffErrorCode {
   MISSING_HEADERS = 'MISSING_HEADERS',
   TIMESTAMP_EXPIRED = 'TIMESTAMP_EXPIRED',
   INVALID_BFF_ID = 'INVALID_BFF_ID',
+  INVALID_KEY_ID = 'INVALID_KEY_ID',
+  REPLAY_DETECTED = 'REPLAY_DETECTED',
   UPSTREAM_ERROR = 'UPSTREAM_ERROR',
   NETWORK_ERROR = 'NETWORK_ERROR',
   TIMEOUT = 'TIMEOUT',
+  INVALID_PATH = 'INVALID_PATH',
+  PAYLOAD_TOO_LARGE = 'PAYLOAD_TOO_LARGE',
+  RATE_LIMITED = 'RATE_LIMITED',
+  LOGIN_LOCKED = 'LOGIN_LOCKED',
+  UNAUTHENTICATED = 'UNAUTHENTICATED',
+  INVALID_API_KEY = 'INVALID_API_KEY',
+  FORBIDDEN = 'FORBIDDEN',
+  INSUFFICIENT_SCOPE = 'INSUFFICIENT_SCOPE',
+  CSRF_FAILED = 'CSRF_FAILED',
+  INTERNAL_ERROR = 'INTERNAL_ERROR',
+}
+
+/**
+ * RFC 7807 problem details returned by the BFF (application/problem+json)
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  code: BffErrorCode;
 }
 
 /**
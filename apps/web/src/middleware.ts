@@ -1,35 +1,120 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
+import { ApiClientError, createBffClient, type ResponseCookie } from "@rbac/api-client";
+import { apiResponseSchema, checkAccess, UserSchema, type ApiResponse, type User } from "@rbac/types";
+import { FORBIDDEN_PATH, findRoute, type RouteDefinition } from "@/lib/routes";
+import { getSessionUser } from "@/lib/security/session-user";
+import { ensureCsrfCookie } from "@/lib/security/csrf";
 
-// Routes that require authentication
-const protectedRoutes = ["/dashboard"];
+/**
+ * Looks up the user of a token through the BFF
+ *
+ * Cookies set by the BFF (rotated token) are collected so that they reach
+ * the browser.
+ */
+async function fetchUser(
+  request: NextRequest,
+  token: string,
+  cookies: ResponseCookie[]
+): Promise<User | null> {
+  const client = createBffClient({
+    baseUrl: process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin,
+    getCookies: () => `auth_token=${token}`,
+    onCookies: (responseCookies) => {
+      cookies.push(...responseCookies);
+    },
+  });
 
-// Routes that should redirect to home if already authenticated
-const authRoutes = ["/auth/login", "/auth/register"];
+  try {
+    const response = await client.get<ApiResponse<User>>("/api/v1/me", {
+      schema: apiResponseSchema(UserSchema),
+    });
+    return response.data;
+  } catch (error) {
+    if (error instanceof ApiClientError && error.isUnauthorized) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function redirectToLogin(request: NextRequest): NextResponse {
+  const loginUrl = new URL("/auth/login", request.url);
+  loginUrl.searchParams.set("redirect", request.nextUrl.pathname);
+  return NextResponse.redirect(loginUrl);
+}
+
+/**
+ * Enforces the route manifest: 403 page when the user lacks the access
+ */
+async function authorizeRoute(
+  request: NextRequest,
+  route: RouteDefinition,
+  token: string
+): Promise<NextResponse> {
+  const { access } = route;
+  if (!access) {
+    return NextResponse.next();
+  }
+
+  const cookies: ResponseCookie[] = [];
+  const user = await getSessionUser(token, () => fetchUser(request, token, cookies));
+
+  if (!user) {
+    return redirectToLogin(request);
+  }
+
+  const response = checkAccess(user, access)
+    ? NextResponse.next()
+    : NextResponse.rewrite(new URL(FORBIDDEN_PATH, request.url), { status: 403 });
 
-export function middleware(request: NextRequest) {
+  const authCookie = cookies.find((cookie) => cookie.name === "auth_token");
+  if (authCookie) {
+    response.cookies.set({
+      name: authCookie.name,
+      value: authCookie.value,
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/",
+      maxAge: 60 * 60 * 24 * 15, // 15 days
+    });
+  }
+
+  return response;
+}
+
+/**
+ * Pages hand out the CSRF cookie, echoed by their calls to the BFF
+ */
+export async function middleware(request: NextRequest) {
+  return ensureCsrfCookie(request, await routeRequest(request));
+}
+
+/**
+ * Applies the page auth of the route manifest (lib/routes.ts)
+ */
+async function routeRequest(request: NextRequest): Promise<NextResponse> {
   const token = request.cookies.get("auth_token")?.value;
-  const { pathname } = request.nextUrl;
-
-  // Check if trying to access protected route without token
-  if (protectedRoutes.some((route) => pathname.startsWith(route))) {
-    if (!token) {
-      const loginUrl = new URL("/auth/login", request.url);
-      loginUrl.searchParams.set("redirect", pathname);
-      return NextResponse.redirect(loginUrl);
-    }
+  const route = findRoute(request.nextUrl.pathname);
+
+  if (!route || route.auth === "public") {
+    return NextResponse.next();
   }
 
-  // Check if trying to access auth routes while authenticated
-  if (authRoutes.some((route) => pathname.startsWith(route))) {
-    if (token) {
-      return NextResponse.redirect(new URL("/", request.url));
-    }
+  // Signed-in users have nothing to do on the sign-in pages
+  if (route.auth === "guest") {
+    return token ? NextResponse.redirect(new URL("/", request.url)) : NextResponse.next();
+  }
+
+  if (!token) {
+    return redirectToLogin(request);
   }
 
-  return NextResponse.next();
+  return authorizeRoute(request, route, token);
 }
 
+// Static (read at build time): must cover the paths of ROUTE_MANIFEST
 export const config = {
   matcher: ["/dashboard/:path*", "/auth/:path*"],
 };
@@ -1,6 +1,19 @@
 import { create } from 'zustand';
-import type { User, PermissionAction, RoleSlug } from '@rbac/types';
-import { hasPermission as checkHasPermission, hasRole as checkHasRole, isAdmin as checkIsAdmin } from '@rbac/types';
+import type {
+  AccessRequest,
+  AccessRequestInput,
+  User,
+  PermissionAction,
+  RoleSlug,
+  PolicyContext,
+  PolicySubject,
+} from '@rbac/types';
+import {
+  can as checkCan,
+  hasPermission as checkHasPermission,
+  hasRole as checkHasRole,
+  isAdmin as checkIsAdmin,
+} from '@rbac/types';
 import {
   loginAction,
   registerAction,
@@ -8,6 +21,7 @@ import {
   getCurrentUserAction,
   getOAuthUrlAction,
 } from '@/lib/api/auth';
+import { getMyAccessRequestsAction, requestAccessAction } from '@/lib/api/access-requests';
 import type { LoginCredentials, RegisterData, OAuthProvider } from '@rbac/types';
 
 interface AuthState {
@@ -15,6 +29,10 @@ interface AuthState {
   isHydrated: boolean;
   isLoading: boolean;
   error: string | null;
+  /** End of a sign-in lockout or rate limit (ms timestamp) */
+  lockedUntil: number | null;
+  /** Just-in-time elevation requests of the user (latest first) */
+  accessRequests: AccessRequest[];
 
   // Actions
   setUser: (user: User | null) => void;
@@ -25,12 +43,16 @@ interface AuthState {
   refreshUser: () => Promise<void>;
   loginWithOAuth: (provider: OAuthProvider) => Promise<void>;
   clearError: () => void;
+  requestAccess: (input: AccessRequestInput) => Promise<AccessRequest>;
+  /** Reloads the requests; refreshes the user when a pending one was approved */
+  syncAccessRequests: () => Promise<boolean>;
 
   // Computed
   isAuthenticated: () => boolean;
   hasPermission: (resource: string, action: PermissionAction) => boolean;
   hasRole: (roleSlug: RoleSlug) => boolean;
   isAdmin: () => boolean;
+  can: (action: string, resource: string | PolicySubject, context?: PolicyContext) => boolean;
 }
 
 export const useAuthStore = create<AuthState>((set, get) => ({
@@ -38,6 +60,8 @@ export const useAuthStore = create<AuthState>((set, get) => ({
   isHydrated: false,
   isLoading: false,
   error: null,
+  lockedUntil: null,
+  accessRequests: [],
 
   setUser: (user) => set({ user }),
 
@@ -47,7 +71,11 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     set({ error: null, isLoading: true });
     try {
       const response = await loginAction(credentials);
-      set({ user: response.data.user, isLoading: false });
+      if ('throttled' in response) {
+        set({ lockedUntil: Date.now() + response.retryAfter * 1000 });
+        throw new Error(response.message);
+      }
+      set({ user: response.data.user, lockedUntil: null, isLoading: false });
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Login failed';
       set({ error: message, isLoading: false });
@@ -104,6 +132,29 @@ export const useAuthStore = create<AuthState>((set, get) => ({
 
   clearError: () => set({ error: null }),
 
+  requestAccess: async (input) => {
+    const request = await requestAccessAction(input);
+    set({ accessRequests: [request, ...get().accessRequests] });
+    return request;
+  },
+
+  syncAccessRequests: async () => {
+    const pending = get()
+      .accessRequests.filter((r) => r.status === 'pending')
+      .map((r) => r.id);
+    const accessRequests = await getMyAccessRequestsAction();
+    set({ accessRequests });
+
+    // Élévation accordée : nouveaux rôles et permissions sans se reconnecter
+    const elevated = accessRequests.some(
+      (r) => r.status === 'approved' && pending.includes(r.id)
+    );
+    if (elevated) {
+      await get().refreshUser();
+    }
+    return elevated;
+  },
+
   // Computed helpers
   isAuthenticated: () => !!get().user,
 
@@ -124,6 +175,8 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     if (!user) return false;
     return checkIsAdmin(user);
   },
+
+  can: (action, resource, context) => checkCan(get().user, action, resource, context),
 }));
 
 // Selector hooks for convenience
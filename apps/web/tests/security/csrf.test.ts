@@ -0,0 +1,115 @@
+import { describe, expect, test } from 'bun:test';
+import { NextRequest } from 'next/server';
+import { CSRF_COOKIE, CSRF_HEADER } from '@rbac/api-client';
+import { verifyCsrf } from '@/lib/security/csrf';
+import { BffErrorCode, BffException } from '@/lib/security/types';
+
+const APP = 'http://localhost:3001';
+const TOKEN = 'a'.repeat(64);
+
+/**
+ * Mutating request as sent by the app itself (same origin, both tokens)
+ */
+function request(method: string, headers: Record<string, string | null> = {}): NextRequest {
+  const base: Record<string, string | null> = {
+    'sec-fetch-site': 'same-origin',
+    origin: APP,
+    cookie: `${CSRF_COOKIE}=${TOKEN}; auth_token=session`,
+    [CSRF_HEADER]: TOKEN,
+  };
+
+  const init = new Headers();
+  for (const [name, value] of Object.entries({ ...base, ...headers })) {
+    if (value !== null) {
+      init.set(name, value);
+    }
+  }
+
+  return new NextRequest(`${APP}/api/v1/posts`, { method, headers: init });
+}
+
+function csrfError(req: NextRequest, method = req.method): BffException {
+  try {
+    verifyCsrf(req, method);
+  } catch (error) {
+    if (error instanceof BffException) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected a CSRF failure');
+}
+
+describe('verifyCsrf', () => {
+  test('allows same-origin requests echoing the cookie', () => {
+    expect(() => verifyCsrf(request('POST'), 'POST')).not.toThrow();
+    expect(() => verifyCsrf(request('DELETE'), 'DELETE')).not.toThrow();
+  });
+
+  test('allows requests without Sec-Fetch-Site or Origin (older browsers, server calls)', () => {
+    const req = request('PUT', { 'sec-fetch-site': null, origin: null });
+
+    expect(() => verifyCsrf(req, 'PUT')).not.toThrow();
+  });
+
+  test('never checks safe methods', () => {
+    const req = request('GET', { 'sec-fetch-site': 'cross-site', [CSRF_HEADER]: null });
+
+    expect(() => verifyCsrf(req, 'GET')).not.toThrow();
+  });
+
+  test('exempts API key requests', () => {
+    const req = request('POST', {
+      authorization: 'ApiKey rbac_live_abc123',
+      'sec-fetch-site': null,
+      origin: null,
+      cookie: null,
+      [CSRF_HEADER]: null,
+    });
+
+    expect(() => verifyCsrf(req, 'POST')).not.toThrow();
+  });
+
+  test('does not exempt other authorization schemes', () => {
+    const req = request('POST', { authorization: 'Bearer abc', [CSRF_HEADER]: null });
+
+    expect(csrfError(req).code).toBe(BffErrorCode.CSRF_FAILED);
+  });
+
+  test('refuses cross-site requests', () => {
+    const error = csrfError(request('POST', { 'sec-fetch-site': 'cross-site' }));
+
+    expect(error.code).toBe(BffErrorCode.CSRF_FAILED);
+    expect(error.message).toContain('cross-site');
+  });
+
+  test('refuses same-site requests from sibling subdomains', () => {
+    const error = csrfError(request('POST', { 'sec-fetch-site': 'same-site' }));
+
+    expect(error.code).toBe(BffErrorCode.CSRF_FAILED);
+  });
+
+  test('refuses a foreign Origin', () => {
+    const error = csrfError(
+      request('POST', { 'sec-fetch-site': null, origin: 'https://evil.example' })
+    );
+
+    expect(error.code).toBe(BffErrorCode.CSRF_FAILED);
+    expect(error.message).toBe('Origin not allowed: https://evil.example');
+  });
+
+  test('refuses a missing double-submit token', () => {
+    const noHeader = csrfError(request('POST', { [CSRF_HEADER]: null }));
+    const noCookie = csrfError(request('POST', { cookie: 'auth_token=session' }));
+
+    expect(noHeader.message).toBe('Missing CSRF token');
+    expect(noCookie.message).toBe('Missing CSRF token');
+  });
+
+  test('refuses a mismatched double-submit token', () => {
+    const error = csrfError(request('PATCH', { [CSRF_HEADER]: 'b'.repeat(64) }));
+
+    expect(error.code).toBe(BffErrorCode.CSRF_FAILED);
+    expect(error.message).toBe('CSRF token mismatch');
+  });
+});
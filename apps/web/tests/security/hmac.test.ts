@@ -0,0 +1,167 @@
+import { afterEach, beforeAll, describe, expect, setSystemTime, test } from 'bun:test';
+import { createHmac } from 'crypto';
+import {
+  BFF_ID,
+  generateSignature,
+  verifySignature,
+  type SignedRequest,
+} from '@/lib/security/hmac';
+import { reloadKeyring } from '@/lib/security/keyring';
+import { MemoryNonceStore } from '@/lib/security/nonce-store';
+import { BffErrorCode, BffException } from '@/lib/security/types';
+
+const PATH = 'api/v1/admin/roles';
+
+beforeAll(() => {
+  process.env.BFF_HMAC_KEYS =
+    'current:current-secret:active,previous:previous-secret,old:old-secret:retired';
+  reloadKeyring();
+});
+
+/**
+ * Request signed like the BFF proxy signs it (current version)
+ */
+function signedRequest(body?: unknown): SignedRequest {
+  const query = new URLSearchParams({ page: '2' });
+  const forwarded = new Headers({
+    accept: 'application/json',
+    'content-type': 'application/json',
+    'x-bff-client-ip': '203.0.113.7',
+  });
+
+  const { normalizedBody: _body, ...hmacHeaders } = generateSignature('POST', PATH, body, {
+    query,
+    headers: forwarded,
+  });
+
+  const headers = new Headers(forwarded);
+  for (const [name, value] of Object.entries(hmacHeaders)) {
+    headers.set(name, value);
+  }
+
+  return { method: 'POST', path: PATH, headers, query, body };
+}
+
+/**
+ * GET request signed with the legacy v1 payload
+ */
+function v1Request(
+  payload: (timestamp: string, nonce: string) => string,
+  kid?: string,
+  secret = 'current-secret'
+): SignedRequest {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const nonce = 'legacy-nonce-0123456789';
+  const signature = createHmac('sha256', secret).update(payload(timestamp, nonce)).digest('hex');
+
+  const headers = new Headers({
+    'X-BFF-Id': BFF_ID,
+    'X-BFF-Timestamp': timestamp,
+    'X-BFF-Nonce': nonce,
+    'X-BFF-Signature': signature,
+  });
+  if (kid) {
+    headers.set('X-BFF-Key-Id', kid);
+  }
+
+  return { method: 'GET', path: PATH, headers };
+}
+
+/**
+ * v1 payload of a GET request without body
+ */
+const V1_PAYLOAD = (timestamp: string, nonce: string) => `${timestamp}:${nonce}:GET:${PATH}:`;
+
+async function rejection(promise: Promise<unknown>): Promise<BffException> {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof BffException) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected a BffException');
+}
+
+describe('verifySignature', () => {
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test('accepts a request signed by generateSignature', async () => {
+    const request = signedRequest({ name: 'editor', description: 'Edits content' });
+
+    await verifySignature(request, new MemoryNonceStore());
+  });
+
+  test('rejects a replayed nonce', async () => {
+    const request = signedRequest({ name: 'editor' });
+    const nonces = new MemoryNonceStore();
+
+    await verifySignature(request, nonces);
+    const error = await rejection(verifySignature(request, nonces));
+
+    expect(error.code).toBe(BffErrorCode.REPLAY_DETECTED);
+  });
+
+  test('rejects a tampered body, query or signed header', async () => {
+    const tamperedBody = { ...signedRequest({ name: 'editor' }), body: { name: 'admin' } };
+    const tamperedQuery = { ...signedRequest(), query: new URLSearchParams({ page: '3' }) };
+    const tamperedHeader = signedRequest();
+    tamperedHeader.headers.set('x-bff-client-ip', '198.51.100.1');
+
+    for (const request of [tamperedBody, tamperedQuery, tamperedHeader]) {
+      const error = await rejection(verifySignature(request, new MemoryNonceStore()));
+      expect(error.code).toBe(BffErrorCode.INVALID_SIGNATURE);
+    }
+  });
+
+  test('does not record the nonce of a rejected request', async () => {
+    const request = signedRequest({ name: 'editor' });
+    const nonces = new MemoryNonceStore();
+
+    await rejection(verifySignature({ ...request, body: { name: 'admin' } }, nonces));
+    await verifySignature(request, nonces);
+  });
+
+  test('rejects an expired timestamp', async () => {
+    const request = signedRequest();
+    setSystemTime(new Date(Date.now() + 301_000));
+
+    const error = await rejection(verifySignature(request, new MemoryNonceStore()));
+
+    expect(error.code).toBe(BffErrorCode.TIMESTAMP_EXPIRED);
+  });
+
+  test('accepts verify-only keys and rejects retired or unknown ones', async () => {
+    await verifySignature(
+      v1Request(V1_PAYLOAD, 'previous', 'previous-secret'),
+      new MemoryNonceStore()
+    );
+
+    for (const [kid, secret] of [['old', 'old-secret'], ['unknown', 'current-secret']]) {
+      const request = v1Request(V1_PAYLOAD, kid, secret);
+      const error = await rejection(verifySignature(request, new MemoryNonceStore()));
+      expect(error.code).toBe(BffErrorCode.INVALID_KEY_ID);
+    }
+  });
+
+  test('signs the nonce in v1 payloads', async () => {
+    await verifySignature(v1Request(V1_PAYLOAD), new MemoryNonceStore());
+
+    // Format used before replay protection
+    const withoutNonce = v1Request((timestamp) => `${timestamp}:GET:${PATH}:`);
+    const error = await rejection(verifySignature(withoutNonce, new MemoryNonceStore()));
+    expect(error.code).toBe(BffErrorCode.INVALID_SIGNATURE);
+  });
+
+  test('rejects requests without the HMAC headers', async () => {
+    const request = signedRequest();
+    request.headers.delete('X-BFF-Nonce');
+
+    const error = await rejection(verifySignature(request, new MemoryNonceStore()));
+
+    expect(error.code).toBe(BffErrorCode.MISSING_HEADERS);
+  });
+});
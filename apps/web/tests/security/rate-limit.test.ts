@@ -0,0 +1,103 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  clientIp,
+  consumeRateLimit,
+  MemoryRateLimitStore,
+  parseTrustedProxies,
+  RATE_LIMIT_POLICIES,
+  type RateLimitGroup,
+  type RateLimitIdentity,
+} from '@/lib/security/rate-limit';
+
+function headers(forwardedFor?: string, realIp?: string): Headers {
+  const result = new Headers();
+  if (forwardedFor !== undefined) {
+    result.set('x-forwarded-for', forwardedFor);
+  }
+  if (realIp !== undefined) {
+    result.set('x-real-ip', realIp);
+  }
+  return result;
+}
+
+describe('parseTrustedProxies', () => {
+  test('reads a count or a list of addresses', () => {
+    expect(parseTrustedProxies('2')).toBe(2);
+    expect(parseTrustedProxies(' 10.0.0.2, 10.0.0.3 ')).toEqual(new Set(['10.0.0.2', '10.0.0.3']));
+  });
+
+  test('trusts no proxy when unset', () => {
+    expect(parseTrustedProxies(undefined)).toBe(0);
+    expect(parseTrustedProxies('')).toBe(0);
+  });
+});
+
+describe('clientIp', () => {
+  test('ignores forwarding headers without trusted proxies', () => {
+    expect(clientIp(headers('203.0.113.7'), 0)).toBe('unknown');
+    expect(clientIp(headers(undefined, '203.0.113.7'), 0)).toBe('unknown');
+    expect(clientIp(headers('203.0.113.7'), new Set())).toBe('unknown');
+  });
+
+  test('takes the entry added by the outermost of N proxies', () => {
+    // The client sent "1.2.3.4" itself, the proxy appended its real address
+    expect(clientIp(headers('1.2.3.4, 203.0.113.7'), 1)).toBe('203.0.113.7');
+    expect(clientIp(headers('1.2.3.4, 203.0.113.7, 10.0.0.2'), 2)).toBe('203.0.113.7');
+  });
+
+  test('takes the right-most entry that is not a trusted proxy', () => {
+    const trusted = new Set(['10.0.0.2', '10.0.0.3']);
+
+    expect(clientIp(headers('1.2.3.4, 203.0.113.7, 10.0.0.2'), trusted)).toBe('203.0.113.7');
+    expect(clientIp(headers('1.2.3.4, 203.0.113.7, 10.0.0.3, 10.0.0.2'), trusted)).toBe(
+      '203.0.113.7'
+    );
+    expect(clientIp(headers('10.0.0.3, 10.0.0.2'), trusted)).toBe('10.0.0.3');
+  });
+
+  test('falls back to X-Real-IP behind trusted proxies only', () => {
+    expect(clientIp(headers(undefined, '203.0.113.7'), 1)).toBe('203.0.113.7');
+    expect(clientIp(headers(), 1)).toBe('unknown');
+  });
+});
+
+describe('consumeRateLimit', () => {
+  async function takeMany(
+    store: MemoryRateLimitStore,
+    group: RateLimitGroup,
+    identity: RateLimitIdentity
+  ): Promise<void> {
+    for (let i = 0; i < RATE_LIMIT_POLICIES[group].limit; i++) {
+      await consumeRateLimit(group, identity, store);
+    }
+  }
+
+  test('counts auth routes per IP when the IP is known', async () => {
+    const store = new MemoryRateLimitStore();
+    await takeMany(store, 'auth', { ip: '203.0.113.7', account: 'alice@example.com' });
+
+    const sameIp = { ip: '203.0.113.7', account: 'bob@example.com' };
+    expect((await consumeRateLimit('auth', sameIp, store)).allowed).toBe(false);
+    expect((await consumeRateLimit('auth', { ip: '198.51.100.1' }, store)).allowed).toBe(true);
+  });
+
+  test('counts auth routes per account without a client IP', async () => {
+    const store = new MemoryRateLimitStore();
+    await takeMany(store, 'auth', { ip: 'unknown', account: 'alice@example.com' });
+
+    const alice = { ip: 'unknown', account: ' Alice@Example.com' };
+    const bob = { ip: 'unknown', account: 'bob@example.com' };
+    expect((await consumeRateLimit('auth', alice, store)).allowed).toBe(false);
+    expect((await consumeRateLimit('auth', bob, store)).allowed).toBe(true);
+  });
+
+  test('counts other routes per credential', async () => {
+    const store = new MemoryRateLimitStore();
+    await takeMany(store, 'api', { ip: 'unknown', credential: 'session-a' });
+
+    const sessionA = { ip: 'unknown', credential: 'session-a' };
+    const sessionB = { ip: 'unknown', credential: 'session-b' };
+    expect((await consumeRateLimit('api', sessionA, store)).allowed).toBe(false);
+    expect((await consumeRateLimit('api', sessionB, store)).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, test } from 'bun:test';
+import { readRequestBody } from '@/lib/security/request-body';
+import { BffErrorCode, BffException } from '@/lib/security/types';
+
+const URL = 'http://localhost:3000/api/v1/files';
+
+/**
+ * Streamed request: sent chunked, without Content-Length
+ */
+function streamedRequest(chunks: string[], contentType: string): Request {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+
+  return new Request(URL, {
+    method: 'POST',
+    headers: { 'content-type': contentType },
+    body,
+    duplex: 'half',
+  } as RequestInit);
+}
+
+async function rejection(promise: Promise<unknown>): Promise<BffException> {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof BffException) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected a BffException');
+}
+
+describe('readRequestBody', () => {
+  test('rejects an announced length above the limit before reading', async () => {
+    const request = new Request(URL, {
+      method: 'POST',
+      headers: { 'content-type': 'text/plain', 'content-length': '11' },
+      body: 'hello world',
+    });
+
+    const error = await rejection(readRequestBody(request, 10));
+
+    expect(error.code).toBe(BffErrorCode.PAYLOAD_TOO_LARGE);
+  });
+
+  test('counts the bytes of a body sent without content-length', async () => {
+    const request = streamedRequest(['01234', '56789', 'a'], 'application/octet-stream');
+    expect(request.headers.get('content-length')).toBeNull();
+
+    const error = await rejection(readRequestBody(request, 10));
+
+    expect(error.code).toBe(BffErrorCode.PAYLOAD_TOO_LARGE);
+  });
+
+  test('counts JSON bodies too', async () => {
+    const request = streamedRequest(['{"name":', '"a long enough name"}'], 'application/json');
+
+    const error = await rejection(readRequestBody(request, 16));
+
+    expect(error.code).toBe(BffErrorCode.PAYLOAD_TOO_LARGE);
+  });
+
+  test('accepts a streamed body within the limit', async () => {
+    const body = await readRequestBody(streamedRequest(['01234', '56789'], 'text/csv'), 10);
+
+    expect(body.contentType).toBe('text/csv');
+    expect(new TextDecoder().decode(body.raw as Uint8Array)).toBe('0123456789');
+    expect(body.bodyHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  test('parses streamed JSON bodies', async () => {
+    const body = await readRequestBody(streamedRequest(['{"title":', '"Hello"}'], 'application/json'));
+
+    expect(body.json).toEqual({ title: 'Hello' });
+    expect(body.raw).toBeUndefined();
+  });
+
+  test('parses multipart bodies', async () => {
+    const form = new FormData();
+    form.append('name', 'report');
+    form.append('file', new Blob(['a,b\n1,2']), 'report.csv');
+
+    const body = await readRequestBody(
+      new Request(URL, { method: 'POST', body: form })
+    );
+
+    expect(body.contentType).toStartWith('multipart/form-data; boundary=');
+    expect(body.bodyHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
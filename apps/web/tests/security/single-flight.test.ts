@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, setSystemTime, test } from 'bun:test';
+import { SingleFlightCache } from '@/lib/security/single-flight';
+
+/**
+ * Load counting its calls
+ */
+function counted<T>(value: () => Promise<T | null>) {
+  const load = Object.assign(
+    () => {
+      load.calls++;
+      return value();
+    },
+    { calls: 0 }
+  );
+  return load;
+}
+
+describe('SingleFlightCache', () => {
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test('shares the in-flight load between concurrent callers', async () => {
+    const cache = new SingleFlightCache<string>(1_000);
+    let resolve: (value: string) => void = () => {};
+    const load = counted(() => new Promise<string>((r) => (resolve = r)));
+
+    const first = cache.get('key', load);
+    const second = cache.get('key', load);
+    resolve('value');
+
+    expect(await first).toBe('value');
+    expect(await second).toBe('value');
+    expect(load.calls).toBe(1);
+  });
+
+  test('reuses a settled value until the TTL expires', async () => {
+    const cache = new SingleFlightCache<string>(1_000);
+    const load = counted(async () => 'value');
+
+    setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    await cache.get('key', load);
+    setSystemTime(new Date('2026-01-01T00:00:00.999Z'));
+    await cache.get('key', load);
+    expect(load.calls).toBe(1);
+
+    setSystemTime(new Date('2026-01-01T00:00:01Z'));
+    await cache.get('key', load);
+    expect(load.calls).toBe(2);
+  });
+
+  test('does not keep null results', async () => {
+    const cache = new SingleFlightCache<string>(1_000);
+    const load = counted(async () => null);
+
+    expect(await cache.get('key', load)).toBeNull();
+    expect(await cache.get('key', load)).toBeNull();
+    expect(load.calls).toBe(2);
+  });
+
+  test('does not keep failures', async () => {
+    const cache = new SingleFlightCache<string>(1_000);
+    const load = counted(async () => {
+      throw new Error('down');
+    });
+
+    await expect(cache.get('key', load)).rejects.toThrow('down');
+    await expect(cache.get('key', load)).rejects.toThrow('down');
+    expect(load.calls).toBe(2);
+  });
+
+  test('evicts the oldest keys above maxEntries', async () => {
+    const cache = new SingleFlightCache<string>(60_000, 2);
+    const load = counted(async () => 'value');
+
+    await cache.get('a', load);
+    await cache.get('b', load);
+    await cache.get('c', load);
+    // 'a' is evicted by the next call, 'c' is kept
+    await cache.get('d', load);
+    await cache.get('c', load);
+    expect(load.calls).toBe(4);
+
+    await cache.get('a', load);
+    expect(load.calls).toBe(5);
+  });
+});
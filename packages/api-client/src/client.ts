@@ -0,0 +1,306 @@
+import type { z } from "zod";
+import { ApiClientError, errorFromResponse } from "./errors";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Cookie returned by the BFF (Set-Cookie)
+ */
+export interface ResponseCookie {
+  name: string;
+  value: string;
+}
+
+export interface BffClientConfig {
+  /** BFF origin, ex: http://localhost:3001 */
+  baseUrl: string;
+  /** Default timeout in milliseconds (30s) */
+  timeout?: number;
+  /**
+   * Cookie header to forward (server-to-server calls must pass cookies
+   * manually: credentials: 'include' is ignored outside the browser)
+   */
+  getCookies?: () => string | undefined | Promise<string | undefined>;
+  /** Extra headers sent with every call (ex: client IP forwarded by server actions) */
+  getHeaders?: () => Record<string, string> | undefined | Promise<Record<string, string> | undefined>;
+  /**
+   * Sends the double-submit CSRF token on POST, PUT, PATCH and DELETE
+   * (default true). The token is read from the csrf_token cookie (getCookies
+   * on the server, document.cookie in the browser) and generated when missing.
+   */
+  csrf?: boolean;
+  /** Called with the cookies set by the BFF (new or rotated token) */
+  onCookies?: (cookies: ResponseCookie[]) => void | Promise<void>;
+  /** fetch implementation (defaults to global fetch) */
+  fetch?: typeof fetch;
+  /**
+   * What to do when a response does not match its schema:
+   * - "throw": ApiClientError INVALID_RESPONSE (default in development)
+   * - "log": console.warn the drift and return the raw body (default in production)
+   * - "off": skip validation
+   */
+  validation?: ValidationMode;
+}
+
+export type ValidationMode = "throw" | "log" | "off";
+
+export type QueryValue = string | number | boolean | null | undefined;
+
+export interface RequestOptions {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  /** JSON-serialized unless already a FormData, Blob or string */
+  body?: unknown;
+  /** Query parameters (null and undefined values are skipped) */
+  query?: Record<string, QueryValue>;
+  headers?: Record<string, string>;
+  /** Overrides the default timeout for this call */
+  timeout?: number;
+  /** Cancels the call */
+  signal?: AbortSignal;
+  /** Expected response shape (from @rbac/types) */
+  schema?: z.ZodType;
+}
+
+const DEFAULT_TIMEOUT = 30_000;
+
+/**
+ * Cookie holding the CSRF token (readable by scripts, unlike auth_token)
+ */
+export const CSRF_COOKIE = "csrf_token";
+
+/**
+ * Header echoing the CSRF token on mutating calls
+ */
+export const CSRF_HEADER = "X-CSRF-Token";
+
+const DEFAULT_VALIDATION: ValidationMode =
+  process.env.NODE_ENV === "production" ? "log" : "throw";
+
+// ============================================================================
+// Client
+// ============================================================================
+
+export class BffClient {
+  constructor(private readonly config: BffClientConfig) {}
+
+  get<T>(path: string, options: Omit<RequestOptions, "method" | "body"> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: "GET" });
+  }
+
+  post<T>(path: string, body?: unknown, options: Omit<RequestOptions, "method" | "body"> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: "POST", body });
+  }
+
+  put<T>(path: string, body?: unknown, options: Omit<RequestOptions, "method" | "body"> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: "PUT", body });
+  }
+
+  patch<T>(path: string, body?: unknown, options: Omit<RequestOptions, "method" | "body"> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: "PATCH", body });
+  }
+
+  delete<T>(path: string, options: Omit<RequestOptions, "method" | "body"> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: "DELETE" });
+  }
+
+  /**
+   * Calls the BFF and returns the parsed JSON body
+   *
+   * @throws {ApiClientError} on error responses, timeouts, aborts and network failures
+   */
+  async request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    const { method = "GET", body, query, timeout = this.config.timeout ?? DEFAULT_TIMEOUT } = options;
+
+    const headers: Record<string, string> = {
+      Accept: "application/json",
+      ...(await this.config.getHeaders?.()),
+      ...options.headers,
+    };
+
+    const cookie = await this.config.getCookies?.();
+    if (cookie) {
+      headers["Cookie"] = cookie;
+    }
+
+    if (this.config.csrf !== false && method !== "GET") {
+      headers[CSRF_HEADER] = this.csrfToken(headers);
+    }
+
+    let payload: BodyInit | undefined;
+    if (body instanceof FormData || body instanceof Blob || typeof body === "string") {
+      payload = body;
+    } else if (body !== undefined) {
+      payload = JSON.stringify(body);
+      headers["Content-Type"] = "application/json";
+    }
+
+    // Timeout and caller signal share one controller
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    let response: Response;
+    try {
+      if (options.signal?.aborted) {
+        throw new ApiClientError("Request aborted", 0, "ABORTED");
+      }
+
+      response = await (this.config.fetch ?? fetch)(this.buildUrl(path, query), {
+        method,
+        headers,
+        body: payload,
+        signal: controller.signal,
+        cache: "no-store",
+      });
+    } catch (error) {
+      if (error instanceof ApiClientError) {
+        throw error;
+      }
+      if (timedOut) {
+        throw new ApiClientError(`Request timed out after ${timeout}ms`, 0, "TIMEOUT");
+      }
+      if (controller.signal.aborted) {
+        throw new ApiClientError("Request aborted", 0, "ABORTED");
+      }
+      throw new ApiClientError(
+        error instanceof Error ? error.message : "Network error",
+        0,
+        "NETWORK_ERROR",
+        undefined,
+        error
+      );
+    } finally {
+      clearTimeout(timeoutId);
+      options.signal?.removeEventListener("abort", onAbort);
+    }
+
+    // Cookies are handed over even on errors (token rotated before a failure)
+    const cookies = parseSetCookies(response.headers.getSetCookie());
+    if (cookies.length > 0) {
+      await this.config.onCookies?.(cookies);
+    }
+
+    if (!response.ok) {
+      throw await errorFromResponse(response);
+    }
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
+    const data: unknown = await response.json();
+    return this.validate<T>(path, response.status, data, options.schema);
+  }
+
+  /**
+   * Checks a response body against its schema
+   */
+  private validate<T>(path: string, status: number, data: unknown, schema?: z.ZodType): T {
+    const mode = this.config.validation ?? DEFAULT_VALIDATION;
+    if (!schema || mode === "off") {
+      return data as T;
+    }
+
+    const result = schema.safeParse(data);
+    if (result.success) {
+      return result.data as T;
+    }
+
+    const issues = result.error.issues.map(
+      (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+    );
+
+    if (mode === "throw") {
+      throw new ApiClientError(
+        `Unexpected response shape for ${path}`,
+        status,
+        "INVALID_RESPONSE",
+        undefined,
+        issues
+      );
+    }
+
+    console.warn(`[api-client] Response drift for ${path}`, issues);
+    return data as T;
+  }
+
+  /**
+   * Returns the CSRF token of the cookie jar, creating one if needed
+   *
+   * Outside the browser the new token is added to the Cookie header: only
+   * the browser enforces CSRF, a server can send any cookie anyway.
+   */
+  private csrfToken(headers: Record<string, string>): string {
+    const inBrowser = typeof document !== "undefined";
+    const existing = readCookie(inBrowser ? document.cookie : headers["Cookie"], CSRF_COOKIE);
+    if (existing) {
+      return existing;
+    }
+
+    const token = crypto.randomUUID().replace(/-/g, "");
+    const pair = `${CSRF_COOKIE}=${token}`;
+    if (inBrowser) {
+      document.cookie = `${pair}; path=/; samesite=strict`;
+    } else {
+      headers["Cookie"] = headers["Cookie"] ? `${headers["Cookie"]}; ${pair}` : pair;
+    }
+    return token;
+  }
+
+  private buildUrl(path: string, query?: Record<string, QueryValue>): string {
+    const url = new URL(path, this.config.baseUrl);
+
+    for (const [key, value] of Object.entries(query ?? {})) {
+      if (value !== null && value !== undefined) {
+        url.searchParams.append(key, String(value));
+      }
+    }
+
+    return url.toString();
+  }
+}
+
+export function createBffClient(config: BffClientConfig): BffClient {
+  return new BffClient(config);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Reads a cookie from a Cookie header (or document.cookie)
+ */
+export function readCookie(cookies: string | undefined, name: string): string | undefined {
+  for (const pair of cookies?.split(";") ?? []) {
+    const separator = pair.indexOf("=");
+    if (separator > 0 && pair.slice(0, separator).trim() === name) {
+      return pair.slice(separator + 1).trim() || undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Extracts name and value from Set-Cookie headers (attributes are ignored)
+ */
+export function parseSetCookies(headers: string[]): ResponseCookie[] {
+  return headers.flatMap((header) => {
+    const [pair] = header.split(";");
+    const separator = pair.indexOf("=");
+    if (separator <= 0) {
+      return [];
+    }
+
+    const name = pair.slice(0, separator).trim();
+    const value = pair.slice(separator + 1).trim();
+    return value ? [{ name, value }] : [];
+  });
+}
@@ -0,0 +1,97 @@
+import type { ApiError } from "@rbac/types";
+
+// ============================================================================
+// Client Errors
+// ============================================================================
+
+/**
+ * Error codes for failures without a usable response
+ */
+export type ClientErrorCode = "TIMEOUT" | "ABORTED" | "NETWORK_ERROR" | "INVALID_RESPONSE";
+
+/**
+ * Error thrown for any failed BFF call
+ *
+ * `status` is the HTTP status, or 0 when no response was received.
+ * `errors` holds Laravel validation errors (422) by field.
+ * `code` is the BFF problem code (INVALID_PATH, TIMEOUT...) or a client code.
+ * `retryAfter` is the Retry-After header in seconds (rate limits, lockouts).
+ */
+export class ApiClientError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code?: string,
+    public readonly errors?: ApiError["errors"],
+    public readonly details?: unknown,
+    public readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = "ApiClientError";
+  }
+
+  get isValidationError(): boolean {
+    return this.status === 422;
+  }
+
+  get isUnauthorized(): boolean {
+    return this.status === 401 || this.status === 403;
+  }
+
+  get isRateLimited(): boolean {
+    return this.status === 429;
+  }
+
+  /**
+   * First validation message for a field, if any
+   */
+  fieldError(field: string): string | undefined {
+    return this.errors?.[field]?.[0];
+  }
+}
+
+/**
+ * Builds an ApiClientError from an error response
+ *
+ * Understands Laravel errors (`message`, `errors`) and BFF problem+json
+ * errors (`detail`, `title`, `code`).
+ */
+export async function errorFromResponse(response: Response): Promise<ApiClientError> {
+  const body: unknown = await response.json().catch(() => undefined);
+  const retryAfter = Number(response.headers.get("retry-after")) || undefined;
+
+  if (!body || typeof body !== "object") {
+    return new ApiClientError(
+      `HTTP ${response.status}: ${response.statusText}`,
+      response.status,
+      undefined,
+      undefined,
+      undefined,
+      retryAfter
+    );
+  }
+
+  // Laravel ApiError, or BFF problem details
+  const data = body as Partial<Record<keyof ApiError | "detail" | "title" | "error" | "code", unknown>>;
+  const message =
+    [data.message, data.detail, data.error, data.title].find(
+      (value): value is string => typeof value === "string" && value !== ""
+    ) ?? "Request failed";
+
+  return new ApiClientError(
+    message,
+    response.status,
+    typeof data.code === "string" ? data.code : undefined,
+    isValidationErrors(data.errors) ? data.errors : undefined,
+    body,
+    retryAfter
+  );
+}
+
+function isValidationErrors(value: unknown): value is NonNullable<ApiError["errors"]> {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    Object.values(value).every((messages) => Array.isArray(messages))
+  );
+}
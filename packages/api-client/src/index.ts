@@ -0,0 +1,15 @@
+export {
+  BffClient,
+  createBffClient,
+  CSRF_COOKIE,
+  CSRF_HEADER,
+  parseSetCookies,
+  readCookie,
+  type BffClientConfig,
+  type QueryValue,
+  type RequestOptions,
+  type ResponseCookie,
+  type ValidationMode,
+} from "./client";
+
+export { ApiClientError, errorFromResponse, type ClientErrorCode } from "./errors";
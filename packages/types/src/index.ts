@@ -1,70 +1,316 @@
+import { z } from "zod";
+
+// Each schema mirrors a Laravel response shape; the matching type is
+// inferred from it so both can never drift apart.
+
+// ============================================================================
+// RBAC Types
+// ============================================================================
+
+export const PermissionActionSchema = z.enum([
+  "create",
+  "read",
+  "update",
+  "delete",
+  "manage",
+  "*",
+]);
+
+export type PermissionAction = z.infer<typeof PermissionActionSchema>;
+
+export const RoleSlugSchema = z.enum(["admin", "moderator", "user"]);
+
+export type RoleSlug = z.infer<typeof RoleSlugSchema>;
+
+// Timestamps are optional: /me returns roles and permissions without them
+export const PermissionSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  slug: z.string(),
+  resource: z.string(),
+  action: PermissionActionSchema,
+  description: z.string().nullish(),
+  roles_count: z.number().optional(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+});
+
+export type Permission = z.infer<typeof PermissionSchema>;
+
+// Resource segments are dot-separated, "*" matches any segment (ex: projects.tasks)
+export const PermissionInputSchema = z.object({
+  resource: z.string().regex(/^(\*|[a-z0-9_-]+)(\.(\*|[a-z0-9_-]+))*$/i).max(200),
+  action: PermissionActionSchema,
+  name: z.string().max(255).nullish(),
+  description: z.string().max(255).nullish(),
+});
+
+export type PermissionInput = z.infer<typeof PermissionInputSchema>;
+
+// Permission a role gets from one of its ancestors (nearest granting role)
+export const InheritedPermissionSchema = PermissionSchema.pick({
+  id: true,
+  name: true,
+  slug: true,
+  resource: true,
+  action: true,
+}).extend({
+  inherited_from: z.string(),
+});
+
+export type InheritedPermission = z.infer<typeof InheritedPermissionSchema>;
+
+export const RoleRefSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  slug: z.string(),
+});
+
+export type RoleRef = z.infer<typeof RoleRefSchema>;
+
+// Validity window of a role assignment (null: from now / forever)
+export const RoleAssignmentSchema = z.object({
+  starts_at: z.string().nullish(),
+  expires_at: z.string().nullish(),
+});
+
+export type RoleAssignment = z.infer<typeof RoleAssignmentSchema>;
+
+export const RoleSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  slug: z.string(),
+  description: z.string().nullish(),
+  // System roles (admin, moderator, user) cannot be deleted or renamed
+  is_system: z.boolean().optional(),
+  position: z.number().optional(),
+  users_count: z.number().optional(),
+  permissions: z.array(PermissionSchema).optional(),
+  // Inheritance: direct parents, resolved chain (slugs, nearest first) and
+  // permissions granted through it
+  parents: z.array(RoleRefSchema).optional(),
+  inherits: z.array(z.string()).optional(),
+  inherited_permissions: z.array(InheritedPermissionSchema).optional(),
+  // Assignment of the role to a user: window on admin listings (pivot) and
+  // on /me (only active assignments are returned, they may expire later)
+  pivot: RoleAssignmentSchema.optional(),
+  starts_at: z.string().nullish(),
+  expires_at: z.string().nullish(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+});
+
+export type Role = z.infer<typeof RoleSchema>;
+
+export const RoleWithPermissionsSchema = RoleSchema.extend({
+  permissions: z.array(PermissionSchema),
+});
+
+export type RoleWithPermissions = z.infer<typeof RoleWithPermissionsSchema>;
+
+export const RoleInputSchema = z.object({
+  name: z.string().min(1).max(255),
+  slug: z.string().regex(/^[a-z0-9_-]+$/i).max(255),
+  description: z.string().nullish(),
+});
+
+export type RoleInput = z.infer<typeof RoleInputSchema>;
+
 // ============================================================================
 // User & Auth Types
 // ============================================================================
 
-export interface User {
-  id: number;
-  name: string;
-  email: string;
-  email_verified_at: string | null;
-  avatar_url?: string;
-  created_at: string;
-  updated_at: string;
-  roles: Role[];
-  permissions: Permission[];
-}
+export const UserSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  email: z.string(),
+  email_verified_at: z.string().nullable(),
+  avatar_url: z.string().optional(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  roles: z.array(RoleSchema),
+  // Roles reached through inheritance only; permissions already include them
+  inherited_roles: z.array(RoleRefSchema).optional(),
+  permissions: z.array(PermissionSchema),
+  // Direct denies: win over every granted permission
+  denied_permissions: z.array(PermissionSchema).optional(),
+});
 
-export interface AuthTokens {
-  access_token: string;
-  token_type: "Bearer";
-  expires_in: number;
-  refresh_token?: string;
-}
+export type User = z.infer<typeof UserSchema>;
 
-export interface LoginCredentials {
-  email: string;
-  password: string;
-}
+// User as listed by the admin endpoints (roles loaded, no effective permissions)
+export const UserWithRolesSchema = UserSchema.omit({ permissions: true, denied_permissions: true });
 
-export interface RegisterData {
-  name: string;
-  email: string;
-  password: string;
-  password_confirmation: string;
-}
+export type UserWithRoles = z.infer<typeof UserWithRolesSchema>;
+
+export const PermissionOverrideTypeSchema = z.enum(["grant", "deny"]);
+
+export type PermissionOverrideType = z.infer<typeof PermissionOverrideTypeSchema>;
+
+// Permission granted or denied to one user only, on top of their roles
+export const UserPermissionOverrideSchema = PermissionSchema.pick({
+  id: true,
+  name: true,
+  slug: true,
+  resource: true,
+  action: true,
+}).extend({
+  type: PermissionOverrideTypeSchema,
+});
+
+export type UserPermissionOverride = z.infer<typeof UserPermissionOverrideSchema>;
+
+export const AuthTokensSchema = z.object({
+  access_token: z.string(),
+  token_type: z.literal("Bearer"),
+  expires_in: z.number(),
+  refresh_token: z.string().optional(),
+});
+
+export type AuthTokens = z.infer<typeof AuthTokensSchema>;
+
+// Returned by login and register
+export const AuthSessionSchema = z.object({
+  user: UserSchema,
+  access_token: z.string(),
+  token_type: z.literal("Bearer"),
+});
+
+export type AuthSession = z.infer<typeof AuthSessionSchema>;
+
+export const LoginCredentialsSchema = z.object({
+  email: z.string(),
+  password: z.string(),
+});
+
+export type LoginCredentials = z.infer<typeof LoginCredentialsSchema>;
+
+export const RegisterDataSchema = z.object({
+  name: z.string(),
+  email: z.string(),
+  password: z.string(),
+  password_confirmation: z.string(),
+});
+
+export type RegisterData = z.infer<typeof RegisterDataSchema>;
 
 // ============================================================================
-// RBAC Types
+// Access Requests (just-in-time elevation)
 // ============================================================================
 
-export interface Role {
-  id: number;
-  name: string;
-  slug: string;
-  description?: string;
-  permissions?: Permission[];
-  created_at: string;
-  updated_at: string;
-}
+// Longest elevation that can be requested (AccessRequest::MAX_HOURS)
+export const ACCESS_REQUEST_MAX_HOURS = 72;
 
-export interface Permission {
-  id: number;
-  name: string;
-  slug: string;
-  resource: string;
-  action: PermissionAction;
-  created_at: string;
-  updated_at: string;
-}
+export const AccessRequestStatusSchema = z.enum(["pending", "approved", "denied"]);
+
+export type AccessRequestStatus = z.infer<typeof AccessRequestStatusSchema>;
+
+export const AccessRequestSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  role_id: z.number(),
+  hours: z.number(),
+  justification: z.string(),
+  status: AccessRequestStatusSchema,
+  review_note: z.string().nullish(),
+  reviewed_at: z.string().nullish(),
+  // End of the granted assignment (approved requests)
+  expires_at: z.string().nullish(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  user: z.object({ id: z.number(), name: z.string(), email: z.string() }).optional(),
+  role: RoleRefSchema.optional(),
+  reviewer: z.object({ id: z.number(), name: z.string() }).nullish(),
+});
 
-export type PermissionAction =
-  | "create"
-  | "read"
-  | "update"
-  | "delete"
-  | "manage";
+export type AccessRequest = z.infer<typeof AccessRequestSchema>;
 
-export type RoleSlug = "admin" | "moderator" | "user";
+export const AccessRequestInputSchema = z.object({
+  role: z.string().min(1),
+  hours: z.number().int().min(1).max(ACCESS_REQUEST_MAX_HOURS),
+  justification: z.string().min(10).max(1000),
+});
+
+export type AccessRequestInput = z.infer<typeof AccessRequestInputSchema>;
+
+// ============================================================================
+// API Keys
+// ============================================================================
+
+// Upper bound of a key's rate limit (ApiKeyController::MAX_RATE_LIMIT)
+export const API_KEY_MAX_RATE_LIMIT = 1000;
+
+// Personal API key as listed: the key itself is never returned again
+export const ApiKeySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  // First characters of the key (ApiKey::VISIBLE_LENGTH)
+  prefix: z.string(),
+  // Permission slugs, a subset of the owner's permissions
+  scopes: z.array(z.string()),
+  // Requests per minute (null: server default)
+  rate_limit: z.number().int().nullable(),
+  expires_at: z.string().nullable(),
+  last_used_at: z.string().nullable(),
+  last_used_ip: z.string().nullable(),
+  // Authenticated requests, and those rejected by the rate limit
+  usage_count: z.number().int(),
+  throttled_count: z.number().int(),
+  created_at: z.string(),
+});
+
+export type ApiKey = z.infer<typeof ApiKeySchema>;
+
+// Returned once, on creation: `key` is the only copy of the secret
+export const CreatedApiKeySchema = ApiKeySchema.extend({
+  key: z.string(),
+});
+
+export type CreatedApiKey = z.infer<typeof CreatedApiKeySchema>;
+
+export const ApiKeyInputSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  scopes: z.array(z.string()).min(1),
+  expires_at: z.string().nullish(),
+  rate_limit: z.number().int().min(1).max(API_KEY_MAX_RATE_LIMIT).nullish(),
+});
+
+export type ApiKeyInput = z.infer<typeof ApiKeyInputSchema>;
+
+// Key checked by the BFF before forwarding a machine request
+// (POST /api/v1/auth/api-key): scopes the owner still holds
+export const VerifiedApiKeySchema = z.object({
+  id: z.number(),
+  prefix: z.string(),
+  scopes: z.array(z.string()),
+  rate_limit: z.number().int(),
+  expires_at: z.string().nullable(),
+});
+
+export type VerifiedApiKey = z.infer<typeof VerifiedApiKeySchema>;
+
+// ============================================================================
+// Route Registry
+// ============================================================================
+
+// How a Laravel route authenticates, from its middleware:
+// - public: HMAC signature only
+// - session: Passport token only (auth:api)
+// - authenticated: token or API key (auth:api,api-key)
+export const RouteAuthSchema = z.enum(["public", "session", "authenticated"]);
+
+export type RouteAuth = z.infer<typeof RouteAuthSchema>;
+
+// Signed Laravel route as listed for the BFF (GET /api/v1/bff/routes)
+export const LaravelRouteSchema = z.object({
+  method: z.string(),
+  path: z.string(),
+  auth: RouteAuthSchema,
+  roles: z.array(z.string()),
+  permissions: z.array(z.string()),
+});
+
+export type LaravelRoute = z.infer<typeof LaravelRouteSchema>;
 
 // ============================================================================
 // API Response Types
@@ -75,11 +321,20 @@ export interface ApiResponse<T> {
   message?: string;
 }
 
-export interface ApiError {
-  message: string;
-  errors?: Record<string, string[]>;
+export function apiResponseSchema<T extends z.ZodType>(data: T) {
+  return z.object({
+    data,
+    message: z.string().optional(),
+  });
 }
 
+export const ApiErrorSchema = z.object({
+  message: z.string(),
+  errors: z.record(z.string(), z.array(z.string())).optional(),
+});
+
+export type ApiError = z.infer<typeof ApiErrorSchema>;
+
 export interface PaginatedResponse<T> {
   data: T[];
   meta: {
@@ -96,34 +351,407 @@ export interface PaginatedResponse<T> {
   };
 }
 
+export function paginatedResponseSchema<T extends z.ZodType>(item: T) {
+  return z.object({
+    data: z.array(item),
+    meta: z.object({
+      current_page: z.number(),
+      last_page: z.number(),
+      per_page: z.number(),
+      total: z.number(),
+    }),
+    links: z.object({
+      first: z.string(),
+      last: z.string(),
+      prev: z.string().nullable(),
+      next: z.string().nullable(),
+    }),
+  });
+}
+
+// Query accepted by GET /admin/users (invalid values fall back to defaults,
+// so it can parse URL search params directly)
+export const USER_SORT_COLUMNS = ["name", "email", "created_at"] as const;
+
+export const UserListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).catch(1),
+  per_page: z.coerce.number().int().min(1).max(100).catch(15),
+  search: z.string().trim().max(255).optional().transform((v) => v || undefined).catch(undefined),
+  role: z.string().max(255).optional().transform((v) => v || undefined).catch(undefined),
+  sort: z.enum(USER_SORT_COLUMNS).catch("created_at"),
+  direction: z.enum(["asc", "desc"]).catch("desc"),
+});
+
+export type UserListQuery = z.infer<typeof UserListQuerySchema>;
+
+// ============================================================================
+// Audit Log
+// ============================================================================
+
+// Recorded actions (AuditLog::ACTIONS)
+export const AUDIT_ACTIONS = [
+  "auth.login",
+  "auth.login_failed",
+  "auth.logout",
+  "bff.signature_failed",
+  "role.assigned",
+  "role.removed",
+  "role.created",
+  "role.updated",
+  "role.deleted",
+  "role.permissions_synced",
+  "role.parents_synced",
+  "user.permission_set",
+  "user.permission_removed",
+  "access_request.approved",
+  "access_request.denied",
+  "api_key.created",
+  "api_key.revoked",
+] as const;
+
+export const AuditActionSchema = z.enum(AUDIT_ACTIONS);
+
+export type AuditAction = z.infer<typeof AuditActionSchema>;
+
+export const AuditLogSchema = z.object({
+  id: z.number(),
+  // Null for anonymous events (failed login, failed signature check)
+  actor_id: z.number().nullable(),
+  actor: z.object({ id: z.number(), name: z.string(), email: z.string() }).nullish(),
+  action: z.string(),
+  target_type: z.string().nullable(),
+  target_id: z.number().nullable(),
+  target_label: z.string().nullable(),
+  // Values before and after the change (changed keys only)
+  old_values: z.record(z.string(), z.unknown()).nullable(),
+  new_values: z.record(z.string(), z.unknown()).nullable(),
+  context: z.record(z.string(), z.unknown()).nullable(),
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable(),
+  // X-BFF-Nonce of the request that caused the event
+  request_id: z.string().nullable(),
+  created_at: z.string(),
+});
+
+export type AuditLog = z.infer<typeof AuditLogSchema>;
+
+// Query accepted by GET /admin/audit-logs and /admin/audit-logs/export
+// (invalid values fall back to defaults, like UserListQuerySchema)
+export const AuditLogQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).catch(1),
+  per_page: z.coerce.number().int().min(1).max(100).catch(25),
+  action: AuditActionSchema.optional().catch(undefined),
+  search: z.string().trim().max(255).optional().transform((v) => v || undefined).catch(undefined),
+  from: z.iso.date().optional().catch(undefined),
+  to: z.iso.date().optional().catch(undefined),
+});
+
+export type AuditLogQuery = z.infer<typeof AuditLogQuerySchema>;
+
 // ============================================================================
 // OAuth Types
 // ============================================================================
 
-export type OAuthProvider = "google" | "github";
+export const OAuthProviderSchema = z.enum(["google", "github"]);
 
-export interface OAuthRedirectResponse {
-  url: string;
-}
+export type OAuthProvider = z.infer<typeof OAuthProviderSchema>;
+
+export const OAuthRedirectResponseSchema = z.object({
+  url: z.string(),
+});
+
+export type OAuthRedirectResponse = z.infer<typeof OAuthRedirectResponseSchema>;
 
 // ============================================================================
 // Permission Check Helpers
 // ============================================================================
 
+// Permission slugs are dot-separated: RESOURCE[.SUB_RESOURCE...].ACTION
+// (ex: "posts.read", "projects.tasks.update"). A granted slug matches a
+// required one when:
+// - its action is "*", "manage" or the required action, and
+// - its resource segments are a prefix of the required resource segments,
+//   where a "*" segment matches any single segment.
+// So "posts.*" covers every action on posts and its sub-resources,
+// "*.read" covers reading anything, and "projects.update" covers
+// "projects.tasks.update". Must stay identical to App\Helpers\PermissionMatcher.
+
+export const PERMISSION_WILDCARD = "*";
+
+const PERMISSION_SEGMENT = /^(\*|[a-z0-9_-]+)$/i;
+
+function splitPermission(slug: string): { resource: string[]; action: string } | null {
+  const segments = slug.split(".");
+  if (segments.length < 2 || !segments.every((segment) => PERMISSION_SEGMENT.test(segment))) {
+    return null;
+  }
+
+  return { resource: segments.slice(0, -1), action: segments[segments.length - 1] };
+}
+
+/**
+ * Checks whether a granted permission slug covers a required one
+ *
+ * Wildcards are only meaningful in the granted slug: a "*" in the
+ * required slug is matched literally.
+ */
+export function permissionMatches(granted: string, required: string): boolean {
+  const grant = splitPermission(granted);
+  const need = splitPermission(required);
+  if (!grant || !need) {
+    return false;
+  }
+
+  const actionMatches =
+    grant.action === PERMISSION_WILDCARD ||
+    grant.action === "manage" ||
+    grant.action === need.action;
+  if (!actionMatches) {
+    return false;
+  }
+
+  if (grant.resource.length > need.resource.length) {
+    return false;
+  }
+
+  return grant.resource.every(
+    (segment, index) => segment === PERMISSION_WILDCARD || segment === need.resource[index]
+  );
+}
+
 export function hasPermission(
   user: User,
   resource: string,
   action: PermissionAction
 ): boolean {
-  return user.permissions.some(
-    (p) => p.resource === resource && (p.action === action || p.action === "manage")
+  return hasPermissionSlug(user, `${resource}.${action}`);
+}
+
+/**
+ * Checks whether a role assignment is inside its validity window
+ *
+ * /me only returns active assignments, but the user is kept in memory
+ * (and cached by the middleware) past the end of a temporary role.
+ */
+export function isRoleActive(role: Role, now: number = Date.now()): boolean {
+  const startsAt = role.starts_at ?? role.pivot?.starts_at;
+  const expiresAt = role.expires_at ?? role.pivot?.expires_at;
+
+  return (
+    (startsAt == null || Date.parse(startsAt) <= now) &&
+    (expiresAt == null || Date.parse(expiresAt) > now)
   );
 }
 
+/**
+ * Granted permissions, without those only brought by inactive roles
+ *
+ * Permissions no role lists are direct grants and always kept. A permission
+ * both granted directly and by an expired role is dropped until the user is
+ * fetched again (fails closed).
+ */
+function activePermissions(user: User, now: number): Permission[] {
+  const inactive = user.roles.filter((role) => !isRoleActive(role, now));
+  if (inactive.length === 0) {
+    return user.permissions;
+  }
+
+  const slugs = (roles: Role[]) =>
+    new Set(roles.flatMap((role) => role.permissions ?? []).map((p) => p.slug));
+  const fromActive = slugs(user.roles.filter((role) => isRoleActive(role, now)));
+  const fromInactive = slugs(inactive);
+
+  return user.permissions.filter((p) => fromActive.has(p.slug) || !fromInactive.has(p.slug));
+}
+
+/**
+ * A direct deny (denied_permissions) wins over every granted permission
+ */
+export function hasPermissionSlug(user: User, slug: string): boolean {
+  if (user.denied_permissions?.some((p) => permissionMatches(p.slug, slug))) {
+    return false;
+  }
+
+  return activePermissions(user, Date.now()).some((p) => permissionMatches(p.slug, slug));
+}
+
+/**
+ * Roles outside their validity window (expired or not started) are ignored
+ */
 export function hasRole(user: User, roleSlug: RoleSlug): boolean {
-  return user.roles.some((r) => r.slug === roleSlug);
+  return user.roles.some((r) => r.slug === roleSlug && isRoleActive(r));
 }
 
 export function isAdmin(user: User): boolean {
   return hasRole(user, "admin");
 }
+
+/**
+ * Permission slug checked by the UI (ex: "users.update", "projects.tasks.read")
+ */
+export type PermissionSlug = `${string}.${PermissionAction}`;
+
+/**
+ * Roles and permissions required to access a page or a component
+ */
+export interface AccessRequirement {
+  role?: RoleSlug | RoleSlug[];
+  permission?: PermissionSlug | PermissionSlug[];
+  /** "all" (default): every role and permission, "any": at least one */
+  mode?: "all" | "any";
+}
+
+export function checkAccess(
+  user: User | null | undefined,
+  { role, permission, mode = "all" }: AccessRequirement
+): boolean {
+  if (!user) {
+    return false;
+  }
+
+  const checks = [
+    ...[role ?? []].flat().map((slug) => hasRole(user, slug)),
+    ...[permission ?? []].flat().map((slug) => hasPermissionSlug(user, slug)),
+  ];
+
+  return mode === "any" ? checks.some(Boolean) : checks.every(Boolean);
+}
+
+// ============================================================================
+// Policies (attribute-based rules on top of RBAC)
+// ============================================================================
+
+// A policy refines the RBAC decision for one resource type and action with
+// ownership or context rules. can() first checks the "RESOURCE.ACTION"
+// permission, then passes the result to the matching rule as `allowed`;
+// without a rule the RBAC decision stands. The same policies run in server
+// components, server actions and client components.
+
+export type PolicyContext = Record<string, unknown>;
+
+/**
+ * Resource instance checked by a policy (ex: subject("posts", post))
+ */
+export interface PolicySubject<T = unknown> {
+  type: string;
+  data: T;
+}
+
+export interface PolicyArgs<T = unknown> {
+  user: User;
+  /** Resource instance, undefined when checking the resource type only */
+  resource: T | undefined;
+  context: PolicyContext;
+  /** RBAC decision: the user holds RESOURCE.ACTION */
+  allowed: boolean;
+}
+
+export type PolicyRule<T = unknown> = (args: PolicyArgs<T>) => boolean;
+
+/**
+ * Policies keyed by resource type, then action
+ *
+ * A rule for any resource type is a PolicyRule<never> (rules only consume
+ * their resource), so each rule keeps its own PolicyArgs<T>.
+ */
+export type PolicyMap = Record<string, Record<string, PolicyRule<never>>>;
+
+export function definePolicies<T extends PolicyMap>(policies: T): T {
+  return policies;
+}
+
+export function subject<T>(type: string, data: T): PolicySubject<T> {
+  return { type, data };
+}
+
+export interface PolicyEngine {
+  can(
+    user: User | null | undefined,
+    action: string,
+    resource: string | PolicySubject,
+    context?: PolicyContext
+  ): boolean;
+}
+
+export function createPolicyEngine(policies: PolicyMap): PolicyEngine {
+  return {
+    can(user, action, resource, context = {}) {
+      if (!user) {
+        return false;
+      }
+
+      const type = typeof resource === "string" ? resource : resource.type;
+      const data = typeof resource === "string" ? undefined : resource.data;
+      const allowed = hasPermissionSlug(user, `${type}.${action}`);
+
+      // Subject data is not checked against the rule's resource type
+      const rule = Object.hasOwn(policies, type) && Object.hasOwn(policies[type], action)
+        ? (policies[type][action] as PolicyRule<unknown>)
+        : undefined;
+
+      return rule ? rule({ user, resource: data, context, allowed }) : allowed;
+    },
+  };
+}
+
+/**
+ * Resource owned by a user and optionally a team (Laravel column names)
+ */
+export interface OwnedResource {
+  user_id?: number | null;
+  team_id?: number | null;
+}
+
+/**
+ * Context for team rules: teams of the current user
+ */
+export interface TeamContext extends PolicyContext {
+  teamIds?: number[];
+}
+
+function isOwner(user: User, resource: OwnedResource | undefined): boolean {
+  return resource?.user_id != null && resource.user_id === user.id;
+}
+
+function isInUserTeam(resource: OwnedResource | undefined, context: TeamContext): boolean {
+  return resource?.team_id != null && (context.teamIds ?? []).includes(resource.team_id);
+}
+
+/**
+ * Application policies
+ *
+ * Rules only restrict or widen the RBAC decision once a resource instance
+ * is given; type-level checks (no instance) keep the RBAC decision.
+ */
+export const policies = definePolicies({
+  posts: {
+    // Authors update their own posts, admins any post
+    update: ({ user, resource, allowed }: PolicyArgs<OwnedResource>) =>
+      allowed && (resource === undefined || isAdmin(user) || isOwner(user, resource)),
+
+    // Authors delete their own posts, moderators within their teams, admins any post
+    delete: ({ user, resource, context, allowed }: PolicyArgs<OwnedResource>) =>
+      allowed &&
+      (resource === undefined ||
+        isAdmin(user) ||
+        isOwner(user, resource) ||
+        (hasRole(user, "moderator") && isInUserTeam(resource, context))),
+  },
+});
+
+const policyEngine = createPolicyEngine(policies);
+
+/**
+ * Checks an action on a resource type or instance with the application policies
+ *
+ * @example can(user, "update", subject("posts", post))
+ * @example can(user, "create", "posts")
+ */
+export function can(
+  user: User | null | undefined,
+  action: string,
+  resource: string | PolicySubject,
+  context: PolicyContext = {}
+): boolean {
+  return policyEngine.can(user, action, resource, context);
+}
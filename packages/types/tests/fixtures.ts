@@ -0,0 +1,49 @@
+import type { Permission, PermissionAction, Role, User } from "../src/index";
+
+export function permission(slug: string): Permission {
+  const segments = slug.split(".");
+
+  return {
+    id: 1,
+    name: slug,
+    slug,
+    resource: segments.slice(0, -1).join("."),
+    action: segments[segments.length - 1] as PermissionAction,
+  };
+}
+
+export function role(slug: string, permissions: string[] = [], window: Partial<Role> = {}): Role {
+  return { id: 1, name: slug, slug, permissions: permissions.map(permission), ...window };
+}
+
+/**
+ * User as returned by /me: permissions are the union of the roles' ones
+ * and the direct grants
+ */
+export function user({
+  roles = [],
+  granted = [],
+  denied = [],
+}: { roles?: Role[]; granted?: string[]; denied?: string[] } = {}): User {
+  const fromRoles = roles.flatMap((r) => r.permissions ?? []).map((p) => p.slug);
+  const slugs = new Set([...fromRoles, ...granted]);
+
+  return {
+    id: 1,
+    name: "Jane",
+    email: "jane@example.com",
+    email_verified_at: null,
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-01-01T00:00:00Z",
+    roles,
+    permissions: [...slugs].map(permission),
+    denied_permissions: denied.map(permission),
+  };
+}
+
+/**
+ * ISO date relative to now
+ */
+export function fromNow(ms: number): string {
+  return new Date(Date.now() + ms).toISOString();
+}
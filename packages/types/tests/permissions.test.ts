@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test";
+import { hasPermission, hasPermissionSlug, permissionMatches } from "../src/index";
+import { user } from "./fixtures";
+
+// Same cases as apps/api/tests/Unit/PermissionMatcherTest.php:
+// [granted, required, expected]
+const MATCHING_CASES: [string, string, boolean][] = [
+  // Exact match
+  ["posts.read", "posts.read", true],
+  ["posts.read", "posts.update", false],
+  ["posts.read", "comments.read", false],
+
+  // manage action
+  ["posts.manage", "posts.create", true],
+  ["posts.manage", "posts.delete", true],
+  ["posts.manage", "users.delete", false],
+
+  // Action wildcard
+  ["posts.*", "posts.read", true],
+  ["posts.*", "posts.publish", true],
+  ["posts.*", "comments.read", false],
+  ["users.*", "users.delete", true],
+
+  // Resource wildcard
+  ["*.read", "comments.read", true],
+  ["*.read", "comments.update", false],
+  ["*.*", "users.delete", true],
+  ["*.*", "projects.tasks.delete", true],
+
+  // A bare "*" has no action: it is not a permission slug
+  ["*", "posts.read", false],
+  ["posts.read", "*", false],
+
+  // Nested resources
+  ["projects.tasks.update", "projects.tasks.update", true],
+  ["projects.update", "projects.tasks.update", true],
+  ["projects.update", "projects.tasks.delete", false],
+  ["projects.tasks.update", "projects.update", false],
+  ["projects.tasks.update", "projects.files.update", false],
+  ["projects.*", "projects.tasks.delete", true],
+  ["projects.*.read", "projects.tasks.read", true],
+  ["projects.*.read", "projects.read", false],
+  ["projects.*.read", "teams.tasks.read", false],
+  ["projects.*.tasks.read", "projects.42.tasks.read", true],
+  ["projects.*.tasks.read", "projects.42.files.read", false],
+  ["projects.*.tasks.read", "projects.tasks.read", false],
+
+  // Segments are compared whole: no prefix matches
+  ["user.*", "users.read", false],
+  ["users.*", "user.read", false],
+  ["post.read", "posts.read", false],
+  ["projects.task.read", "projects.tasks.read", false],
+
+  // Wildcards are only meaningful in the granted slug
+  ["posts.read", "posts.*", false],
+  ["posts.*", "posts.*", true],
+
+  // Case sensitive
+  ["Posts.read", "posts.read", false],
+
+  // Malformed slugs
+  ["posts", "posts.read", false],
+  ["posts.*", "posts", false],
+  ["posts..read", "posts.read", false],
+  ["", "posts.read", false],
+  ["posts.re ad", "posts.re ad", false],
+  ["po*.read", "posts.read", false],
+];
+
+describe("permissionMatches", () => {
+  test.each(MATCHING_CASES)("%p covers %p: %p", (granted, required, expected) => {
+    expect(permissionMatches(granted, required)).toBe(expected);
+  });
+});
+
+describe("hasPermissionSlug", () => {
+  test("checks every granted permission", () => {
+    const member = user({ granted: ["comments.read", "posts.*"] });
+
+    expect(hasPermissionSlug(member, "posts.delete")).toBe(true);
+    expect(hasPermissionSlug(member, "comments.read")).toBe(true);
+    expect(hasPermissionSlug(member, "comments.delete")).toBe(false);
+    expect(hasPermissionSlug(user(), "posts.read")).toBe(false);
+  });
+
+  test("a deny wins over every grant, wildcards included", () => {
+    const member = user({ granted: ["*.*", "posts.delete"], denied: ["posts.delete"] });
+
+    expect(hasPermissionSlug(member, "posts.delete")).toBe(false);
+    expect(hasPermissionSlug(member, "posts.update")).toBe(true);
+  });
+
+  test("a wildcard deny covers the permissions it matches", () => {
+    const member = user({ granted: ["projects.*"], denied: ["projects.*.delete"] });
+
+    expect(hasPermissionSlug(member, "projects.tasks.delete")).toBe(false);
+    expect(hasPermissionSlug(member, "projects.delete")).toBe(true);
+    expect(hasPermission(member, "projects.tasks", "update")).toBe(true);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, test } from "bun:test";
+import { can, hasPermission, hasRole, isAdmin, isRoleActive } from "../src/index";
+import { fromNow, role, user } from "./fixtures";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("isRoleActive", () => {
+  test("a role without a window is always active", () => {
+    expect(isRoleActive(role("user"))).toBe(true);
+  });
+
+  test("checks the window of /me roles and of admin listings (pivot)", () => {
+    expect(isRoleActive(role("on-call", [], { expires_at: fromNow(HOUR) }))).toBe(true);
+    expect(isRoleActive(role("on-call", [], { expires_at: fromNow(-HOUR) }))).toBe(false);
+    expect(isRoleActive(role("on-call", [], { starts_at: fromNow(HOUR) }))).toBe(false);
+    expect(isRoleActive(role("on-call", [], { pivot: { expires_at: fromNow(-HOUR) } }))).toBe(
+      false
+    );
+    expect(isRoleActive(role("on-call", [], { pivot: { starts_at: fromNow(HOUR) } }))).toBe(false);
+  });
+
+  test("the role ends at expires_at", () => {
+    const expiresAt = fromNow(HOUR);
+    const onCall = role("on-call", [], { expires_at: expiresAt });
+
+    expect(isRoleActive(onCall, Date.parse(expiresAt) - 1)).toBe(true);
+    expect(isRoleActive(onCall, Date.parse(expiresAt))).toBe(false);
+  });
+});
+
+describe("hasRole", () => {
+  test("ignores expired roles", () => {
+    const member = user({ roles: [role("admin", [], { expires_at: fromNow(-HOUR) })] });
+
+    expect(hasRole(member, "admin")).toBe(false);
+    expect(isAdmin(member)).toBe(false);
+  });
+
+  test("ignores roles not started yet", () => {
+    const member = user({ roles: [role("moderator", [], { starts_at: fromNow(HOUR) })] });
+
+    expect(hasRole(member, "moderator")).toBe(false);
+  });
+
+  test("keeps roles inside their window", () => {
+    const member = user({
+      roles: [
+        role("user"),
+        role("moderator", [], { starts_at: fromNow(-HOUR), expires_at: fromNow(HOUR) }),
+      ],
+    });
+
+    expect(hasRole(member, "user")).toBe(true);
+    expect(hasRole(member, "moderator")).toBe(true);
+    expect(hasRole(member, "admin")).toBe(false);
+  });
+});
+
+describe("hasPermission", () => {
+  test("drops the permissions of an expired role", () => {
+    const member = user({
+      roles: [
+        role("user", ["posts.read"]),
+        role("on-call", ["incidents.*"], { expires_at: fromNow(-HOUR) }),
+      ],
+    });
+
+    expect(hasPermission(member, "incidents", "update")).toBe(false);
+    expect(hasPermission(member, "posts", "read")).toBe(true);
+  });
+
+  test("drops the permissions of a role not started yet", () => {
+    const member = user({
+      roles: [role("on-call", ["incidents.*"], { starts_at: fromNow(HOUR) })],
+    });
+
+    expect(hasPermission(member, "incidents", "read")).toBe(false);
+  });
+
+  test("keeps a permission another active role brings", () => {
+    const member = user({
+      roles: [
+        role("user", ["posts.read"]),
+        role("editor", ["posts.read", "posts.update"], { expires_at: fromNow(-HOUR) }),
+      ],
+    });
+
+    expect(hasPermission(member, "posts", "read")).toBe(true);
+    expect(hasPermission(member, "posts", "update")).toBe(false);
+  });
+
+  test("keeps direct grants", () => {
+    const member = user({
+      roles: [role("on-call", ["incidents.*"], { expires_at: fromNow(-HOUR) })],
+      granted: ["reports.read"],
+    });
+
+    expect(hasPermission(member, "reports", "read")).toBe(true);
+  });
+
+  test("policies see the same decision", () => {
+    const member = user({
+      roles: [role("editor", ["posts.update"], { expires_at: fromNow(-HOUR) })],
+    });
+
+    expect(can(member, "update", "posts")).toBe(false);
+  });
+});